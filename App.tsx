@@ -1,19 +1,41 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useReactToPrint } from 'react-to-print';
-import { Trip, DayPlan, Activity, ViewMode, TravelSegment, PdfAttachment } from './types';
+import { Trip, DayPlan, Activity, ViewMode, TravelSegment, PdfAttachment, TripSummary, TripAccess, TripValidationIssue, FarePaymentMethod, InterCityTransfer, Accommodation, Coordinates, ExchangeRates, Expense, Traveller } from './types';
 import { INITIAL_TRIP } from './constants';
 import { ActivityCard } from './components/ActivityCard';
 import { MapView } from './components/MapView';
 import { StatsView } from './components/StatsView';
 import { PrintLayout } from './components/PrintLayout';
-import { Map, BarChart3, Plus, Plane, ChevronRight, Globe, List, ArrowDownAZ, BedDouble, Zap, Map as MapIcon, Trash2, Edit3, Sparkles, StickyNote, X, Filter, Clock, Footprints, Train, Car, Bus, Image as ImageIcon, ExternalLink, Wallet, Calendar, Printer, Eye, FileText, Upload, Lock as LockIcon } from 'lucide-react';
+import { TripPicker } from './components/TripPicker';
+import { ConflictDialog } from './components/ConflictDialog';
+import { HistoryPanel } from './components/HistoryPanel';
+import { PresenceAvatars } from './components/PresenceAvatars';
+import { ShareDialog } from './components/ShareDialog';
+import { TravelSegmentView } from './components/TravelSegmentView';
+import { TransferEditor, TransferBanner } from './components/TransferEditor';
+import { AccommodationManager } from './components/AccommodationManager';
+import { Map, BarChart3, Plus, Plane, ChevronRight, Globe, List, ArrowDownAZ, BedDouble, Zap, Map as MapIcon, Trash2, Edit3, Sparkles, StickyNote, X, Filter, Clock, Car, Image as ImageIcon, ExternalLink, Wallet, Calendar, Printer, Eye, FileText, Upload, Lock as LockIcon, Undo2, Redo2, History, CloudOff, Users, LogOut, AlertTriangle } from 'lucide-react';
 import { findActivityImage, generateItinerary, getItinerarySuggestions, getRecommendedDuration, getActivityPricing } from './services/geminiService';
 import { geocodeLocation, calculateFastestRoute, searchGooglePlace } from './services/mapService';
+import { fetchOpeningHours, waitForOpening } from './services/openingHours';
+import { transferBlocks, fitAroundTransfers, splitAtLastTransfer } from './services/transfers';
+import { inHomeCurrency } from './services/currency';
+import { partyPriceInYen, partyTransitCost } from './services/partyPricing';
+import { staysForDay, nightlyCostOn, stayQuery, DayStays, returnSegment, backAtHotelTime } from './services/accommodations';
+import { ExpenseLog } from './components/ExpenseLog';
+import { TravellerManager } from './components/TravellerManager';
 import { WeatherWidget } from './components/WeatherWidget';
 import { EventSuggestions } from './components/EventSuggestions';
 import { LocalEvent } from './types';
 import ReactMarkdown from 'react-markdown';
 import { useRealtimeSync } from './hooks/useRealtimeSync';
+import { useTripHistory } from './hooks/useTripHistory';
+import { useAuth } from './hooks/useAuth';
+import { listTrips, fetchTrip, createTrip, saveTrip, deleteTrip, restoreRevision, fetchTripAccess, TripConflictError } from './services/tripService';
+import { applyOperations, diffTrips } from './shared/tripOperations';
+import { validateTrip, describeIssues, TripValidationError } from './shared/tripSchema';
+import { hasConflictingChanges } from './services/tripMerge';
+import { cacheTrip, loadCachedTrip, removeCachedTrip, cacheTripList, loadCachedTripList } from './services/offlineStore';
 
 declare var google: any;
 
@@ -30,76 +52,284 @@ const minsToTime = (m: number) => {
   return `${h.toString().padStart(2, '0')}:${min.toString().padStart(2, '0')}`;
 };
 
+// Helper to format a number of minutes as "1h 05m" / "25m"
+const formatMinutes = (m: number) => {
+  const h = Math.floor(m / 60);
+  return h > 0 ? `${h}h ${(m % 60).toString().padStart(2, '0')}m` : `${m}m`;
+};
+
 // Helper to calculate daily expenses
-const calculateDayExpenses = (day: DayPlan) => {
-  // Sum activity prices
+const calculateDayExpenses = (day: DayPlan, farePayment?: FarePaymentMethod, stays?: Accommodation[], rates?: ExchangeRates, travellers?: Traveller[]) => {
+  // Sum admission for the whole party, converted to yen
   const attractionsCost = day.activities.reduce((sum, act) => {
-    return sum + (act.pricing?.basePrice || 0);
+    return sum + partyPriceInYen(act.pricing, travellers, rates);
   }, 0);
 
-  // Sum transit fares
-  const transitCost = (day.travelSegments || []).reduce((sum, seg) => {
-    return sum + (seg.transitFare || 0);
-  }, 0);
+  // Transit fares and booked trains/flights to the next city, for everyone
+  const { fares: transitCost, transfers: transfersCost } = partyTransitCost(day, travellers, farePayment, rates);
+
+  // Tonight's hotel
+  const lodgingCost = nightlyCostOn(stays, day.date, rates);
 
   // Separate by type
   const byType: Record<string, number> = {};
   day.activities.forEach(act => {
-    const cost = act.pricing?.basePrice || 0;
+    const cost = partyPriceInYen(act.pricing, travellers, rates);
     byType[act.type] = (byType[act.type] || 0) + cost;
   });
 
   return {
-    total: attractionsCost + transitCost,
+    total: attractionsCost + transitCost + transfersCost + lodgingCost,
     attractions: attractionsCost,
     transit: transitCost,
+    transfers: transfersCost,
+    lodging: lodgingCost,
     byType
   };
 };
 
 export default function App() {
+  const { user, logout } = useAuth();
   const [trip, setTrip] = useState<Trip>(INITIAL_TRIP);
   const [selectedDayId, setSelectedDayId] = useState<string>('overview');
+  const tripHistory = useTripHistory(trip, setTrip);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   // -- PERSISTENCE LOGIC --
+  const [tripId, setTripId] = useState<string | null>(() => localStorage.getItem('activeTripId'));
+  const [tripList, setTripList] = useState<TripSummary[]>([]);
   const [isDataLoaded, setIsDataLoaded] = useState(false);
   const ignoreNextSave = useRef(true); // Don't save on first render/load
+  const baseRevisionRef = useRef(0); // Server revision our unsaved edits are based on
+  const syncedTripRef = useRef<Trip | null>(null); // Last trip state known to match the server
+  const [conflict, setConflict] = useState<{ local: Trip; remote: Trip } | null>(null);
+  // Problems that keep the current trip from being saved (see shared/tripSchema.js)
+  const [validationIssues, setValidationIssues] = useState<TripValidationIssue[]>([]);
+  const [pendingCount, setPendingCount] = useState(0); // Local edits not yet on the server
+  const [tripAccess, setTripAccess] = useState<TripAccess | null>(null); // Our role + members of the open trip
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isStaysOpen, setIsStaysOpen] = useState(false);
+  const [isTravellersOpen, setIsTravellersOpen] = useState(false);
+  const isReadOnly = tripAccess?.role === 'viewer';
+  const needsReconcileRef = useRef(false); // We may have missed server changes (offline start / disconnect)
+  const tripRef = useRef(trip);
+  tripRef.current = trip;
+
+  const refreshTripList = useCallback(async () => {
+    try {
+      const trips = await listTrips();
+      setTripList(trips);
+      cacheTripList(trips).catch(e => console.warn("[Offline] Failed to cache trip list:", e));
+      return trips;
+    } catch (e) {
+      console.error("[App] Failed to list trips:", e);
+      const cached = await loadCachedTripList().catch(() => []);
+      setTripList(cached);
+      return cached;
+    }
+  }, []);
+
+  // Device copy of the trip plus the server state it is based on, so edits survive offline reloads
+  const persistLocalCopy = useCallback((current: Trip) => {
+    const base = syncedTripRef.current;
+    if (!current.id || !base || base.id !== current.id) return;
+    setPendingCount(diffTrips(base, current).length);
+    cacheTrip(current, base).catch(e => console.warn("[Offline] Failed to cache trip:", e));
+  }, []);
+
+  // Replays edits made on top of `base` (e.g. while offline) onto the server's current copy.
+  // Edits that collide with what collaborators saved meanwhile go through the conflict dialog.
+  const reconcileWithServer = (local: Trip, base: Trip, server: Trip) => {
+    const localOps = diffTrips(base, local);
+    tripHistory.skipNext();
+
+    if (localOps.length === 0) {
+      ignoreNextSave.current = true;
+      baseRevisionRef.current = server.revision || 0;
+      syncedTripRef.current = server;
+      setTrip(server);
+      return;
+    }
+
+    if (hasConflictingChanges(localOps, diffTrips(base, server))) {
+      console.warn("[Offline] Offline edits collide with changes saved on the server");
+      ignoreNextSave.current = true;
+      baseRevisionRef.current = base.revision || 0;
+      syncedTripRef.current = base;
+      setTrip(local);
+      setConflict({ local, remote: server });
+      return;
+    }
+
+    // Disjoint edits: rebase ours onto the server copy; the auto-save sends them as operations
+    console.log(`[Offline] Replaying ${localOps.length} offline edit(s)`);
+    ignoreNextSave.current = false;
+    baseRevisionRef.current = server.revision || 0;
+    syncedTripRef.current = server;
+    setTrip(applyOperations(server, localOps));
+  };
+
+  // 1. Resolve which trip to open (first run seeds the server with the sample trip)
+  React.useEffect(() => {
+    if (tripId) return;
+
+    const pickTrip = async () => {
+      const trips = await refreshTripList();
+      if (trips.length > 0) {
+        setTripId(trips[0].id);
+        return;
+      }
+      try {
+        console.log("[App] No saved trips found. Creating default.");
+        const created = await createTrip(INITIAL_TRIP.title, INITIAL_TRIP.days);
+        setTripId(created.id!);
+        refreshTripList();
+      } catch (e) {
+        console.error("[App] Failed to create default trip:", e);
+        setIsDataLoaded(true);
+      }
+    };
+    pickTrip();
+  }, [tripId, refreshTripList]);
 
-  // 1. Load from Server
+  // 2. Load the selected trip from the server
   React.useEffect(() => {
+    if (!tripId) return;
+    localStorage.setItem('activeTripId', tripId);
+    setIsDataLoaded(false);
+    setSelectedDayId('overview');
+
+    let isCancelled = false;
     const loadTrip = async () => {
+      const cached = await loadCachedTrip(tripId).catch(() => null);
       try {
-        console.log("[App] Fetching trip data...");
-        const res = await fetch('/api/trip');
-        if (res.ok) {
-          const data = await res.json();
-          if (data) {
-            console.log("[App] Trip data loaded:", data);
-            ignoreNextSave.current = true; // Set ignore flag before state update
-            setTrip(data);
-          } else {
-            console.log("[App] No saved data found. Using default.");
-          }
+        console.log(`[App] Fetching trip ${tripId}...`);
+        const data = await fetchTrip(tripId);
+        if (isCancelled) return;
+        if (data) {
+          console.log("[App] Trip data loaded:", data);
+          needsReconcileRef.current = false;
+          setConflict(null);
+          tripHistory.reset();
+          // Edits left on this device from an offline session are replayed on top
+          reconcileWithServer(cached?.trip || data, cached?.base || data, data);
+        } else {
+          console.log("[App] Saved trip no longer exists. Picking another.");
+          removeCachedTrip(tripId).catch(() => { });
+          localStorage.removeItem('activeTripId');
+          setTripId(null);
+          return;
         }
       } catch (e) {
         console.error("[App] Failed to load trip:", e);
-      } finally {
-        setIsDataLoaded(true);
+        if (e instanceof TripValidationError) {
+          if (!isCancelled) {
+            alert(`This trip could not be opened because its data is damaged.\n\n${e.message}`);
+            setIsDataLoaded(true);
+          }
+          return;
+        }
+        if (cached && !isCancelled) {
+          console.log("[Offline] Server unreachable. Using the copy saved on this device.");
+          ignoreNextSave.current = true;
+          baseRevisionRef.current = cached.base.revision || 0;
+          syncedTripRef.current = cached.base;
+          needsReconcileRef.current = true;
+          setConflict(null);
+          tripHistory.skipNext();
+          tripHistory.reset();
+          setTrip(cached.trip);
+        }
       }
+      if (!isCancelled) setIsDataLoaded(true);
     };
     loadTrip();
-  }, []);
+    refreshTripList();
+
+    return () => { isCancelled = true; };
+  }, [tripId, refreshTripList]);
+
+  // Our role on the open trip (viewers get a read-only planner)
+  const refreshTripAccess = useCallback(async () => {
+    if (!tripId) return;
+    try {
+      const access = await fetchTripAccess(tripId);
+      if (access) {
+        setTripAccess(access);
+        return;
+      }
+      alert("You no longer have access to this trip.");
+      removeCachedTrip(tripId).catch(() => { });
+      localStorage.removeItem('activeTripId');
+      setTripAccess(null);
+      setTripId(null);
+    } catch (e) {
+      // Offline: keep whatever role we knew
+      console.warn("[App] Failed to load trip access:", e);
+    }
+  }, [tripId]);
+
+  React.useEffect(() => {
+    setTripAccess(null);
+    refreshTripAccess();
+  }, [refreshTripAccess]);
+
+  // -- PRESENCE --
+  // Signed-in users appear under their account name; without accounts the name is
+  // kept in this browser and only used to label us for collaborators
+  const [guestName, setGuestName] = useState(() =>
+    localStorage.getItem('displayName') || `Guest ${Math.floor(1000 + Math.random() * 9000)}`);
+  const [editingActivityId, setEditingActivityId] = useState<string | null>(null);
+
+  const displayName = user?.displayName || guestName;
+
+  React.useEffect(() => {
+    localStorage.setItem('displayName', guestName);
+  }, [guestName]);
+
+  const handleRename = () => {
+    const name = prompt("Your name (shown to collaborators):", guestName);
+    if (name && name.trim()) setGuestName(name.trim());
+  };
 
   // -- REAL-TIME SYNC --
-  const { isConnected, socketId } = useRealtimeSync({
+  const { isConnected, socketId, collaborators, sendOperations } = useRealtimeSync({
+    tripId,
+    presence: { name: displayName, selectedDayId, editingActivityId },
     onTripUpdate: (newTrip) => {
+      // Unsaved local edits would be silently lost, so let the user merge instead
+      if (syncedTripRef.current && JSON.stringify(syncedTripRef.current) !== JSON.stringify(trip)) {
+        console.log("[Sync] Remote update collides with unsaved edits");
+        setConflict({ local: trip, remote: newTrip });
+        return;
+      }
       console.log("[Sync] Applying remote update");
       ignoreNextSave.current = true;
+      baseRevisionRef.current = newTrip.revision || 0;
+      syncedTripRef.current = newTrip;
+      tripHistory.skipNext();
       setTrip(newTrip);
-    }
+    },
+    onRemoteOperations: (ops, revision) => {
+      // Apply collaborators' edits underneath any unsaved local ones: the baseline moves
+      // forward too, so our next diff only contains what *we* changed
+      console.log(`[Sync] Applying ${ops.length} remote operation(s)`);
+      if (syncedTripRef.current) syncedTripRef.current = applyOperations(syncedTripRef.current, ops);
+      baseRevisionRef.current = Math.max(baseRevisionRef.current, revision);
+      tripHistory.skipNext();
+      setTrip(prev => applyOperations(prev, ops));
+    },
+    onTripDeleted: (deletedTripId) => {
+      alert("This trip was deleted by another collaborator.");
+      removeCachedTrip(deletedTripId).catch(() => { });
+      localStorage.removeItem('activeTripId');
+      setTripId(null);
+    },
+    onTripsChanged: refreshTripList,
+    onAccessChanged: refreshTripAccess
   });
 
-  // 2. Auto-Save with Socket ID
+  // 3. Auto-Save with Socket ID
   React.useEffect(() => {
     if (!isDataLoaded) return;
 
@@ -109,26 +339,192 @@ export default function App() {
       return;
     }
 
+    // Never write one trip's state into another trip while switching,
+    // and hold saves while the user is resolving a conflict
+    if (!trip.id || trip.id !== tripId || conflict || isReadOnly) return;
+    if (syncedTripRef.current === trip) return;
+    // Offline: edits stay in the device copy until we reconnect and catch up with the server
+    if (needsReconcileRef.current || (!isConnected && !navigator.onLine)) return;
+
+    // Invalid trips are never sent; the header shows what is wrong until it's fixed
+    const issues = validateTrip(trip);
+    setValidationIssues(issues);
+    if (issues.length > 0) {
+      console.warn(`[App] Not saving invalid trip: ${describeIssues(issues)}`);
+      return;
+    }
+
     console.log("[App] Data changed. Scheduling save...");
     const timer = setTimeout(async () => {
+      // Preferred path: send only what changed as operations over the socket
+      const base = syncedTripRef.current;
+      if (isConnected && base) {
+        const ops = diffTrips(base, trip);
+        syncedTripRef.current = trip;
+        if (ops.length === 0) return;
+
+        try {
+          console.log(`[App] Sending ${ops.length} operation(s)...`);
+          const { revision } = await sendOperations(ops);
+          baseRevisionRef.current = Math.max(baseRevisionRef.current, revision);
+          persistLocalCopy(tripRef.current);
+          return;
+        } catch (e) {
+          console.warn("[App] Operations failed, falling back to full save:", e);
+          syncedTripRef.current = base;
+        }
+      }
+
+      // Fallback: whole-document save guarded by the revision check
       try {
         console.log("[App] Saving trip to server...");
-        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-        if (socketId) headers['x-socket-id'] = socketId;
-
-        await fetch('/api/trip', {
-          method: 'POST',
-          headers,
-          body: JSON.stringify(trip)
-        });
-        console.log("[App] Save complete.");
+        const { revision } = await saveTrip({ ...trip, revision: baseRevisionRef.current }, socketId);
+        baseRevisionRef.current = revision;
+        syncedTripRef.current = trip;
+        persistLocalCopy(tripRef.current);
+        console.log(`[App] Save complete (revision ${revision}).`);
       } catch (e) {
-        console.error("[App] Save failed:", e);
+        if (e instanceof TripConflictError) {
+          console.warn("[App] Save rejected: trip changed on the server.");
+          setConflict({ local: trip, remote: e.current });
+          return;
+        }
+        if (e instanceof TripValidationError) {
+          console.error("[App] Save rejected by the server:", e.issues);
+          setValidationIssues(e.issues);
+          return;
+        }
+        console.error("[App] Save failed (kept on this device):", e);
       }
     }, 1000);
 
     return () => clearTimeout(timer);
-  }, [trip, isDataLoaded, socketId]);
+  }, [trip, isDataLoaded, socketId, isConnected, conflict, isReadOnly]);
+
+  React.useEffect(() => {
+    if (isDataLoaded) persistLocalCopy(trip);
+  }, [trip, isDataLoaded, persistLocalCopy]);
+
+  // Ask the service worker (installed app) to keep this trip's PDFs and images for offline use
+  const offlineAssets = trip.days
+    .flatMap(day => [
+      ...(day.attachments || []).map(a => a.filePath),
+      ...day.activities.map(a => a.imageUrl),
+      ...(day.expenses || []).map(e => e.receipt?.filePath)
+    ])
+    .concat((trip.accommodations || []).map(stay => stay.booking?.filePath))
+    .filter(url => url && (url.startsWith('/') || url.startsWith('http')))
+    .join('\n');
+  React.useEffect(() => {
+    const controller = navigator.serviceWorker?.controller;
+    if (!isDataLoaded || !offlineAssets || !controller) return;
+    controller.postMessage({ type: 'CACHE_TRIP_ASSETS', urls: offlineAssets.split('\n') });
+  }, [offlineAssets, isDataLoaded]);
+
+  // 4. Catch up after a disconnect: collaborators' changes never reached us, and our
+  // offline edits still need replaying
+  const wasConnectedRef = useRef(false);
+  React.useEffect(() => {
+    if (!isConnected) {
+      if (wasConnectedRef.current) needsReconcileRef.current = true;
+      wasConnectedRef.current = false;
+      return;
+    }
+    wasConnectedRef.current = true;
+    if (!needsReconcileRef.current || !isDataLoaded || !tripId) return;
+
+    let isCancelled = false;
+    const catchUp = async () => {
+      try {
+        const server = await fetchTrip(tripId);
+        const base = syncedTripRef.current;
+        if (isCancelled || !server || !base || tripRef.current.id !== tripId) return;
+        needsReconcileRef.current = false;
+        reconcileWithServer(tripRef.current, base, server);
+      } catch (e) {
+        console.error("[Offline] Catch-up after reconnect failed:", e);
+      }
+    };
+    catchUp();
+
+    return () => { isCancelled = true; };
+  }, [isConnected, isDataLoaded, tripId]);
+
+  const handleResolveConflict = (merged: Trip) => {
+    if (!conflict) return;
+    // The merge is built on the server's copy, so that's our new base revision
+    baseRevisionRef.current = conflict.remote.revision || 0;
+    syncedTripRef.current = JSON.stringify(merged) === JSON.stringify(conflict.remote) ? merged : conflict.remote;
+    setConflict(null);
+    setTrip(merged);
+  };
+
+  const handleRestoreRevision = async (revision: number) => {
+    if (!tripId) return;
+    try {
+      const restored = await restoreRevision(tripId, revision, socketId);
+      // Already saved by the server; recorded as a normal change so it can be undone
+      ignoreNextSave.current = true;
+      baseRevisionRef.current = restored.revision || 0;
+      syncedTripRef.current = restored;
+      setTrip(restored);
+    } catch (e) {
+      console.error("[App] Restore failed:", e);
+      alert("Could not restore that version.");
+    }
+  };
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y); text fields keep their native undo
+  React.useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      if (isReadOnly) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        tripHistory.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        tripHistory.redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [tripHistory.undo, tripHistory.redo, isReadOnly]);
+
+  const handleSelectTrip = (id: string) => {
+    if (id === tripId) return;
+    setTripId(id);
+  };
+
+  const handleCreateTrip = async (title: string) => {
+    try {
+      const created = await createTrip(title);
+      setTripId(created.id!);
+      refreshTripList();
+    } catch (e) {
+      console.error("[App] Failed to create trip:", e);
+      alert("Could not create the trip. Please try again.");
+    }
+  };
+
+  const handleDeleteTrip = async (id: string) => {
+    const target = tripList.find(t => t.id === id);
+    if (!confirm(`Delete "${target?.title || 'this trip'}" for everyone? This cannot be undone.`)) return;
+
+    try {
+      await deleteTrip(id);
+      removeCachedTrip(id).catch(() => { });
+      refreshTripList();
+    } catch (e) {
+      console.error("[App] Failed to delete trip:", e);
+      alert("Could not delete the trip.");
+    }
+  };
 
   // -- END PERSISTENCE --
   const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.List);
@@ -241,10 +637,11 @@ export default function App() {
       });
     };
 
-    // run once after mount (using a timeout to let initial state settle if needed, or just run)
+    // run once per loaded trip (using a timeout to let initial state settle if needed, or just run)
+    if (!isDataLoaded) return;
     const t = setTimeout(fetchMissingImages, 1000);
     return () => clearTimeout(t);
-  }, []); // Empty dependency array = run once on mount. 
+  }, [tripId, isDataLoaded]); // Run once per opened trip, not on every edit.
   // NOTE: If we want it to run when trip changes (e.g. adding new items), we'd need to be smarter to avoid loops.
   // For now, this fixes the "Initial Load" issue.
 
@@ -256,17 +653,21 @@ export default function App() {
   /**
  * Recalculate activity times based on travel segments.
  * Uses actual travel durations if available, falls back to 30 min buffer.
- * Respects lockedStartTime and lockedDurationMinutes.
+ * Respects lockedStartTime and lockedDurationMinutes, and moves visits out of the way
+ * of inter-city transfers.
  */
   const recalculateSchedule = (
     activities: Activity[],
     dayStartTime: string = '09:00',
-    travelSegments?: TravelSegment[]
+    travelSegments?: TravelSegment[],
+    date?: string, // Lets visits wait for opening time
+    transfers?: InterCityTransfer[]
   ) => {
     if (activities.length === 0) return activities;
 
     const result: Activity[] = [];
     let currentMins = timeToMins(dayStartTime);
+    const blocks = transferBlocks(transfers);
 
     for (let index = 0; index < activities.length; index++) {
       const act = activities[index];
@@ -282,8 +683,9 @@ export default function App() {
         // Respect locked start time
         newStartMins = timeToMins(act.startTime);
       } else if (index === 0) {
-        // First activity starts at day start time
-        newStartMins = roundTo5(currentMins);
+        // First activity starts once we've got there from the hotel
+        const fromHotel = travelSegments?.find(s => s.fromId === 'start' && s.toId === act.id);
+        newStartMins = roundTo5(currentMins + (fromHotel ? Math.ceil(fromHotel.durationValue / 60) : 0));
       } else {
         // Use the COMPUTED end time of the previous activity (from result array)
         const prevAct = activities[index - 1];
@@ -302,6 +704,20 @@ export default function App() {
         newStartMins = roundTo5(prevEndMins + travelMins);
       }
 
+      if (!act.lockedStartTime) {
+        newStartMins = fitAroundTransfers(blocks, newStartMins, durationMins);
+
+        // First stop after an arrival: travel from the station, not from the previous stop
+        const fromStation = travelSegments?.find(s => s.toId === act.id && blocks.some(b => b.transfer.id === s.fromId));
+        if (fromStation) {
+          const arrival = blocks.find(b => b.transfer.id === fromStation.fromId)!;
+          newStartMins = Math.max(newStartMins, roundTo5(arrival.endMins + Math.ceil(fromStation.durationValue / 60)));
+        }
+
+        newStartMins = waitForOpening(act.openingHours, date, newStartMins, durationMins);
+        newStartMins = fitAroundTransfers(blocks, newStartMins, durationMins);
+      }
+
       const newStart = minsToTime(newStartMins);
       const newEnd = minsToTime(newStartMins + durationMins);
 
@@ -328,7 +744,7 @@ export default function App() {
           // Recalculate the schedule to propagate changes (especially locked duration)
           return {
             ...day,
-            activities: recalculateSchedule(updatedActivities, day.startTime, day.travelSegments)
+            activities: recalculateSchedule(updatedActivities, day.startTime, day.travelSegments, day.date, day.transfers)
           };
         }
         return day;
@@ -359,7 +775,7 @@ export default function App() {
               console.log("Available IDs:", day.activities.map(a => a.id));
             }
 
-            return { ...day, activities: recalculateSchedule(newActivities, day.startTime) };
+            return { ...day, activities: recalculateSchedule(newActivities, day.startTime, undefined, day.date, day.transfers) };
           }
           return day;
         })
@@ -405,7 +821,7 @@ export default function App() {
           const updatedList = [...day.activities];
           updatedList.splice(idx, 1, ...newActivities);
 
-          return { ...day, activities: recalculateSchedule(updatedList, day.startTime) };
+          return { ...day, activities: recalculateSchedule(updatedList, day.startTime, undefined, day.date, day.transfers) };
         }
         return day;
       })
@@ -427,7 +843,7 @@ export default function App() {
         [activities[index], activities[targetIndex]] = [activities[targetIndex], activities[index]];
 
         // Recalculate times using existing travel segments
-        day.activities = recalculateSchedule(activities, day.startTime, day.travelSegments);
+        day.activities = recalculateSchedule(activities, day.startTime, day.travelSegments, day.date, day.transfers);
 
         newDays[dayIndex] = day;
         return { ...prev, days: newDays };
@@ -466,7 +882,7 @@ export default function App() {
       activities.splice(targetIndex, 0, movedItem);
 
       // Intelligent Time Recalculation using existing travel segments
-      day.activities = recalculateSchedule(activities, day.startTime, day.travelSegments);
+      day.activities = recalculateSchedule(activities, day.startTime, day.travelSegments, day.date, day.transfers);
 
       newDays[dayIndex] = day;
       return { ...prev, days: newDays };
@@ -487,7 +903,7 @@ export default function App() {
       // Recalculate strictly based on day start? 
       // User asked for sorting, usually implies they want to fix the order but keep their times, OR fix times.
       // Let's assume re-sorting implies re-flow.
-      day.activities = recalculateSchedule(day.activities, day.startTime);
+      day.activities = recalculateSchedule(day.activities, day.startTime, undefined, day.date, day.transfers);
 
       newDays[dayIndex] = day;
       return { ...prev, days: newDays };
@@ -495,8 +911,15 @@ export default function App() {
   };
 
   const handleOptimizeRoute = async (dayId: string) => {
-    if (!activeDay || activeDay.activities.length < 2) {
-      alert("Add at least 2 activities to optimize the route.");
+    // On an inter-city day only the stops after the last arrival are reordered, starting
+    // from the arrival station; the ones before the departure keep their order
+    const split = activeDay ? splitAtLastTransfer(activeDay) : null;
+    const stops = split ? split.after : activeDay?.activities || [];
+
+    if (!activeDay || stops.length < 2) {
+      alert(split
+        ? `Add at least 2 activities after arriving at ${split.block.transfer.to.name || 'your destination'} to optimize the route.`
+        : "Add at least 2 activities to optimize the route.");
       return;
     }
 
@@ -508,18 +931,23 @@ export default function App() {
     setIsOptimizing(true);
 
     try {
-      let startLocation = activeDay.accommodation?.location;
+      const stays = staysForDay(trip.accommodations, activeDay.date);
+      let startLocation = split ? split.block.transfer.to.location : stays.start?.location;
 
-      if (!startLocation && activeDay.accommodation?.name) {
-        const coords = await geocodeLocation(activeDay.accommodation.name);
+      if (split && !startLocation && split.block.transfer.to.name) {
+        const arrival = split.block.transfer;
+        const coords = await geocodeLocation(`${arrival.to.name} ${activeDay.city}`);
         if (coords) {
           startLocation = coords;
-          handleUpdateHotel(dayId, activeDay.accommodation.name, coords);
+          handleUpdateTransfers(dayId, (activeDay.transfers || []).map(t =>
+            t.id === arrival.id ? { ...t, to: { ...t.to, location: coords } } : t));
         }
+      } else if (!startLocation && stays.start) {
+        startLocation = await locateStay(stays.start);
       }
 
-      if (!startLocation && activeDay.activities.length > 0) {
-        startLocation = activeDay.activities[0].location;
+      if (!startLocation && stops.length > 0) {
+        startLocation = stops[0].location;
       }
 
       if (!startLocation) {
@@ -528,7 +956,26 @@ export default function App() {
         return;
       }
 
-      const result = await calculateFastestRoute(startLocation, activeDay.activities, true, activeDay.startTime || "09:00");
+      // Opening hours steer the order, so fill in any the cards haven't fetched yet
+      const activities = await Promise.all(stops.map(async act => {
+        if (act.openingHours || !act.googlePlaceId) return act;
+        const openingHours = await fetchOpeningHours(act.googlePlaceId).catch(() => null);
+        return openingHours ? { ...act, openingHours } : act;
+      }));
+
+      // The day ends at tonight's hotel: a round trip unless that's a different one
+      const isRoundTrip = !split && (!stays.end || stays.end.id === stays.start?.id);
+      let endLocation = isRoundTrip ? undefined : stays.end?.location;
+      if (!isRoundTrip && !endLocation && stays.end) endLocation = await locateStay(stays.end);
+
+      const result = await calculateFastestRoute(
+        startLocation,
+        activities,
+        isRoundTrip,
+        split ? minsToTime(split.block.endMins) : activeDay.startTime || "09:00",
+        activeDay.date,
+        endLocation || undefined
+      );
 
       if (result) {
         setTrip(prev => {
@@ -536,16 +983,60 @@ export default function App() {
           const dayIdx = newDays.findIndex(d => d.id === dayId);
           const day = { ...newDays[dayIdx] };
 
-          const newActivities = result.order.map(index => day.activities[index]);
+          const optimized = result.order.map(index => {
+            const act = day.activities.find(a => a.id === activities[index].id) || activities[index];
+            return { ...act, openingHours: act.openingHours || activities[index].openingHours };
+          });
+          const before = split ? day.activities.filter(a => split.before.some(b => b.id === a.id)) : [];
+          const newActivities = [...before, ...optimized];
+
+          // After an arrival the route starts at the station, so its first leg is keyed by the transfer
+          const beforeIds = new Set(['start', ...before.map(a => a.id)]);
+          const segments = split
+            ? [
+              ...(day.travelSegments || []).filter(s => beforeIds.has(s.fromId) && beforeIds.has(s.toId)),
+              ...result.segments.map(s => s.fromId === 'start' ? { ...s, fromId: split.block.transfer.id } : s)
+            ]
+            : result.segments;
 
           // Recalculate times based on optimized order, using actual travel times
-          day.activities = recalculateSchedule(newActivities, day.startTime, result.segments);
-          day.travelSegments = result.segments; // Save travel segments (Walking/Transit info)
+          day.activities = recalculateSchedule(newActivities, day.startTime, segments, day.date, day.transfers);
+          day.travelSegments = segments; // Save travel segments (Walking/Transit info)
 
           newDays[dayIdx] = day;
           return { ...prev, days: newDays };
         });
-        alert(`Route Optimized!\nTotal Estimated Driving Time: ${result.totalDuration}\n(Round trip from start point)`);
+        const savedMins = Math.round(result.savedSeconds / 60);
+        const comparison = savedMins > 0
+          ? `Saves about ${formatMinutes(savedMins)} of travel compared with the previous order.`
+          : savedMins < 0
+            ? `Takes ${formatMinutes(-savedMins)} more travel than before, to keep locked times.`
+            : 'The previous order was already the fastest.';
+        const problems = result.issues.map(issue => {
+          const name = activities[issue.stopIndex]?.name || 'A stop';
+          return issue.kind === 'late-for-fixed-time'
+            ? `• ${name}: arrives ${formatMinutes(issue.minutes)} after its locked time`
+            : `• ${name}: runs ${formatMinutes(issue.minutes)} past closing`;
+        });
+        const routeNote = [
+          split ? `from ${split.block.transfer.to.name || 'the arrival station'}` : (isRoundTrip ? 'round trip from start point' : ''),
+          endLocation ? `ending at ${stays.end!.name}` : ''
+        ].filter(Boolean).join(', ');
+        let message = `Route Optimized!\nTotal travel time: ${result.totalDuration} (${routeNote})\n\n${comparison}`;
+        if (problems.length > 0) message += `\n\nCould not fit every constraint:\n${problems.join('\n')}`;
+        if (result.transitWarning) message += `\n\nTransit times are partly estimated: ${result.transitWarning}`;
+        if (result.timetableDate) {
+          message += `\n\nTimetables for ${getDayLabel(activeDay.date)} aren't out yet, so transit follows ${getDayLabel(result.timetableDate)} (same weekday). Check holidays nearer the time.`;
+        }
+        const startName = split ? split.block.transfer.to.name : stays.start?.name;
+        const placeName = (id: string) => (id === 'start' ? startName
+          : id === 'end' ? (isRoundTrip ? startName : stays.end?.name)
+            : activities.find(a => a.id === id)?.name) || 'the start';
+        const serviceProblems = result.segments
+          .filter(seg => seg.serviceWarning)
+          .map(seg => `• ${placeName(seg.fromId)} → ${placeName(seg.toId)}: ${seg.serviceWarning}`);
+        if (serviceProblems.length > 0) message += `\n\nTimetable problems:\n${serviceProblems.join('\n')}`;
+        alert(message);
       } else {
         alert("Could not calculate route. Please check if locations are valid/reachable by car.");
       }
@@ -571,7 +1062,7 @@ export default function App() {
         ...prev,
         days: prev.days.map(day =>
           day.id === activeDay.id
-            ? { ...day, activities: recalculateSchedule([...day.activities, ...newActivities], day.startTime) } // Append new
+            ? { ...day, activities: recalculateSchedule([...day.activities, ...newActivities], day.startTime, undefined, day.date, day.transfers) } // Append new
             : day
         )
       }));
@@ -646,7 +1137,7 @@ export default function App() {
       newActivities.splice(insertIndex, 0, activityToInsert);
 
       // Recalculate times - this will apply the duration from the suggestion
-      day.activities = recalculateSchedule(newActivities, day.startTime);
+      day.activities = recalculateSchedule(newActivities, day.startTime, undefined, day.date, day.transfers);
 
       newDays[dayIdx] = day;
       return { ...prev, days: newDays };
@@ -786,7 +1277,7 @@ export default function App() {
       ...prev,
       days: prev.days.map(day =>
         day.id === dayId
-          ? { ...day, activities: recalculateSchedule([...day.activities, newActivity], day.startTime) }
+          ? { ...day, activities: recalculateSchedule([...day.activities, newActivity], day.startTime, undefined, day.date, day.transfers) }
           : day
       )
     }));
@@ -863,7 +1354,7 @@ export default function App() {
       ...prev,
       days: prev.days.map(day =>
         day.id === activeDay.id
-          ? { ...day, activities: recalculateSchedule([...day.activities, newActivity], day.startTime) }
+          ? { ...day, activities: recalculateSchedule([...day.activities, newActivity], day.startTime, undefined, day.date, day.transfers) }
           : day
       )
     }));
@@ -917,14 +1408,83 @@ export default function App() {
     }));
   };
 
-  const handleUpdateHotel = (dayId: string, hotelName: string, location?: { lat: number, lng: number }) => {
+  const handleSaveStay = (stay: Accommodation) => {
+    const previous = trip.accommodations?.find(a => a.id === stay.id);
+    if (previous?.booking && previous.booking.id !== stay.booking?.id) deleteAttachmentFile(previous.booking.id);
+
+    setTrip(prev => {
+      const others = (prev.accommodations || []).filter(a => a.id !== stay.id);
+      return { ...prev, accommodations: [...others, stay].sort((a, b) => a.checkInDate.localeCompare(b.checkInDate)) };
+    });
+    if (!stay.location) locateStay(stay);
+  };
+
+  const handleSaveTraveller = (traveller: Traveller) => {
+    setTrip(prev => {
+      const travellers = prev.travellers || [];
+      return {
+        ...prev,
+        travellers: travellers.some(t => t.id === traveller.id)
+          ? travellers.map(t => t.id === traveller.id ? traveller : t)
+          : [...travellers, traveller]
+      };
+    });
+  };
+
+  const handleDeleteStay = (stay: Accommodation) => {
+    if (stay.booking) deleteAttachmentFile(stay.booking.id);
+    setTrip(prev => ({ ...prev, accommodations: (prev.accommodations || []).filter(a => a.id !== stay.id) }));
+  };
+
+  // Looks up a stay's coordinates; they start and end the day's routes
+  const locateStay = async (stay: Accommodation) => {
+    const coords = await geocodeLocation(stayQuery(stay));
+    if (!coords) return null;
     setTrip(prev => ({
       ...prev,
-      days: prev.days.map(day =>
-        day.id === dayId
-          ? { ...day, accommodation: { name: hotelName, location: location || day.accommodation?.location } }
-          : day
-      )
+      // Skip it if the stay was renamed or moved meanwhile
+      accommodations: prev.accommodations?.map(a =>
+        a.id === stay.id && stayQuery(a) === stayQuery(stay) && !a.location ? { ...a, location: coords } : a)
+    }));
+    return coords;
+  };
+
+  const handleUpdateTransfers = (dayId: string, transfers: InterCityTransfer[]) => {
+    setTrip(prev => ({
+      ...prev,
+      days: prev.days.map(day => {
+        if (day.id !== dayId) return day;
+        // Segments from a removed transfer's arrival station no longer apply
+        const transferIds = new Set(transfers.map(t => t.id));
+        const travelSegments = day.travelSegments?.filter(s =>
+          transferIds.has(s.fromId) || !(day.transfers || []).some(t => t.id === s.fromId));
+        return {
+          ...day,
+          transfers: transfers.length > 0 ? transfers : undefined,
+          travelSegments,
+          activities: recalculateSchedule(day.activities, day.startTime, travelSegments, day.date, transfers)
+        };
+      })
+    }));
+  };
+
+  // Looks up stations/airports typed by name, so they can be drawn and routed from
+  const locateTransferStops = async (dayId: string, transfers: InterCityTransfer[]) => {
+    const lookups = transfers.flatMap(t => (['from', 'to'] as const)
+      .filter(end => !t[end].location && t[end].name.trim())
+      .map(async end => ({ id: t.id, end, name: t[end].name, location: await geocodeLocation(t[end].name) })));
+    const found = (await Promise.all(lookups)).filter(r => r.location);
+    if (found.length === 0) return;
+
+    setTrip(prev => ({
+      ...prev,
+      days: prev.days.map(day => day.id !== dayId ? day : {
+        ...day,
+        transfers: day.transfers?.map(t => found
+          // Skip stops renamed while the lookup was running
+          .filter(r => r.id === t.id && t[r.end].name === r.name && !t[r.end].location)
+          .reduce((next, r) => ({ ...next, [r.end]: { ...next[r.end], location: r.location } }), t))
+      })
     }));
   };
 
@@ -936,7 +1496,7 @@ export default function App() {
           return {
             ...day,
             startTime: newTime,
-            activities: recalculateSchedule(day.activities, newTime)
+            activities: recalculateSchedule(day.activities, newTime, day.travelSegments, day.date, day.transfers)
           };
         }
         return day;
@@ -956,20 +1516,78 @@ export default function App() {
   };
 
   // PDF Upload Handlers
-  const handlePdfUpload = async (dayId: string, file: File) => {
-    setUploadingPdf(true);
+  const uploadPdf = async (file: File) => {
+    const formData = new FormData();
+    formData.append('pdf', file);
+
+    const response = await fetch(`/api/upload?tripId=${encodeURIComponent(tripId || '')}`, {
+      method: 'POST',
+      body: formData
+    });
+
+    if (!response.ok) throw new Error('Upload failed');
+    return response.json();
+  };
+
+  const deleteAttachmentFile = (attachmentId: string) =>
+    fetch(`/api/attachments/${attachmentId}`, { method: 'DELETE' })
+      .catch(error => console.error('Delete error:', error));
+
+  // Booking confirmations attached to a stay keep their original file name
+  const handleUploadBooking = async (file: File): Promise<PdfAttachment | null> => {
     try {
-      const formData = new FormData();
-      formData.append('pdf', file);
+      const fileData = await uploadPdf(file);
+      return {
+        id: fileData.id,
+        fileName: fileData.fileName,
+        displayName: fileData.fileName.replace('.pdf', ''),
+        uploadedAt: fileData.uploadedAt,
+        filePath: fileData.filePath
+      };
+    } catch (error) {
+      console.error('PDF upload error:', error);
+      alert('Failed to upload PDF. Please try again.');
+      return null;
+    }
+  };
 
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData
-      });
+  // Receipts are photos as often as PDFs; the extension comes off for the display name
+  const handleUploadReceipt = async (file: File): Promise<PdfAttachment | null> => {
+    try {
+      const fileData = await uploadPdf(file);
+      return {
+        id: fileData.id,
+        fileName: fileData.fileName,
+        displayName: fileData.fileName.replace(/\.[^.]+$/, ''),
+        uploadedAt: fileData.uploadedAt,
+        filePath: fileData.filePath
+      };
+    } catch (error) {
+      console.error('Receipt upload error:', error);
+      alert('Failed to upload the receipt. Please try again.');
+      return null;
+    }
+  };
 
-      if (!response.ok) throw new Error('Upload failed');
+  const handleUpdateExpenses = (dayId: string, expenses: Expense[]) => {
+    // Receipts of removed expenses, or ones replaced by another file, go too
+    const kept = new Set(expenses.map(e => e.receipt?.id));
+    trip.days.find(d => d.id === dayId)?.expenses?.forEach(e => {
+      if (e.receipt && !kept.has(e.receipt.id)) deleteAttachmentFile(e.receipt.id);
+    });
 
-      const fileData = await response.json();
+    setTrip(prev => ({
+      ...prev,
+      days: prev.days.map(day =>
+        day.id === dayId ? { ...day, expenses: expenses.length > 0 ? expenses : undefined } : day
+      )
+    }));
+  };
+
+  const handlePdfUpload = async (dayId: string, file: File) => {
+    setUploadingPdf(true);
+    try {
+      const fileData = await uploadPdf(file);
 
       // Show rename modal
       setTempPdfData({ dayId, fileData });
@@ -1049,16 +1667,41 @@ export default function App() {
 
   const handleOpenGoogleMaps = () => {
     if (!activeDay) return;
+    const { start, end } = staysForDay(trip.accommodations, activeDay.date);
     let url = "https://www.google.com/maps/dir/";
-    if (activeDay.accommodation?.name) {
-      url += `${encodeURIComponent(activeDay.accommodation.name)}/`;
+    if (start) {
+      url += `${encodeURIComponent(stayQuery(start))}/`;
     }
     activeDay.activities.forEach(act => {
       url += `${act.location.lat},${act.location.lng}/`;
     });
+    if (end && end.id !== start?.id) {
+      url += `${encodeURIComponent(stayQuery(end))}/`;
+    }
     window.open(url, '_blank');
   };
 
+  const activeStays: DayStays = activeDay ? staysForDay(trip.accommodations, activeDay.date) : {};
+
+  // Either end of a travel segment on the active day: a stop, the station after a transfer, or a hotel
+  const segmentEndpoint = (id: string): { name?: string; location?: Coordinates } | undefined => {
+    if (id === 'start') return activeStays.start;
+    if (id === 'end') return activeStays.end;
+    const transfer = activeDay?.transfers?.find(t => t.id === id);
+    if (transfer) return transfer.to;
+    return activeDay?.activities.find(a => a.id === id);
+  };
+
+  // Directions for a segment in Google Maps; names would work too, but coordinates are exact
+  const getMapsLink = (seg: TravelSegment) => {
+    const from = segmentEndpoint(seg.fromId)?.location;
+    const to = segmentEndpoint(seg.toId)?.location;
+    if (!from || !to) return "#";
+
+    const modeParam = seg.mode === 'WALKING' ? 'walking' : 'transit';
+    return `https://www.google.com/maps/dir/?api=1&origin=${from.lat},${from.lng}&destination=${to.lat},${to.lng}&travelmode=${modeParam}`;
+  };
+
   const getDayLabel = (date: string) => {
     const d = new Date(date);
     return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', weekday: 'short' });
@@ -1164,6 +1807,54 @@ export default function App() {
         </div>
       )}
 
+      {/* SAVE CONFLICT MODAL */}
+      {conflict && (
+        <ConflictDialog local={conflict.local} remote={conflict.remote} onResolve={handleResolveConflict} />
+      )}
+
+      <HistoryPanel
+        isOpen={isHistoryOpen}
+        trip={trip}
+        onClose={() => setIsHistoryOpen(false)}
+        onRestore={handleRestoreRevision}
+        readOnly={isReadOnly}
+      />
+
+      <TravellerManager
+        isOpen={isTravellersOpen}
+        travellers={trip.travellers || []}
+        paidByCount={trip.days.flatMap(d => d.expenses || []).reduce<Record<string, number>>((counts, e) => {
+          if (e.paidBy) counts[e.paidBy] = (counts[e.paidBy] || 0) + 1;
+          return counts;
+        }, {})}
+        readOnly={isReadOnly}
+        onSave={handleSaveTraveller}
+        onDelete={(traveller) => setTrip(prev => ({ ...prev, travellers: (prev.travellers || []).filter(t => t.id !== traveller.id) }))}
+        onClose={() => setIsTravellersOpen(false)}
+      />
+
+      <AccommodationManager
+        isOpen={isStaysOpen}
+        stays={trip.accommodations || []}
+        defaultDate={activeDay?.date}
+        readOnly={isReadOnly}
+        onSave={handleSaveStay}
+        onDelete={handleDeleteStay}
+        onUploadBooking={handleUploadBooking}
+        onClose={() => setIsStaysOpen(false)}
+      />
+
+      {tripId && tripAccess && (
+        <ShareDialog
+          isOpen={isShareOpen}
+          tripId={tripId}
+          access={tripAccess}
+          currentUser={user}
+          onClose={() => setIsShareOpen(false)}
+          onMembersChange={(members) => setTripAccess(prev => prev && { ...prev, members })}
+        />
+      )}
+
       {/* PDF RENAME MODAL */}
       {renameModalOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
@@ -1222,11 +1913,63 @@ export default function App() {
           <div>
             <h1 className="text-xl font-bold text-gray-900 tracking-tight">{trip.title}</h1>
             <div className="flex items-center gap-2">
+              <TripPicker
+                trips={tripList}
+                activeTripId={tripId}
+                onSelect={handleSelectTrip}
+                onCreate={handleCreateTrip}
+                onDelete={handleDeleteTrip}
+              />
               <p className="text-xs text-gray-500">{trip.days.length} Days • {trip.days[0]?.city} start</p>
               <div className={`flex items-center gap-1.5 px-1.5 py-0.5 rounded-full text-[9px] font-bold tracking-wider uppercase transition-all duration-500 ${isConnected ? 'bg-emerald-500/10 text-emerald-600 border border-emerald-500/20' : 'bg-rose-500/10 text-rose-600 border border-rose-500/20 animate-pulse'}`}>
                 <div className={`w-1 h-1 rounded-full ${isConnected ? 'bg-emerald-500' : 'bg-rose-500'}`} />
                 {isConnected ? 'Live' : 'Offline'}
               </div>
+              {!isConnected && pendingCount > 0 && (
+                <div
+                  className="flex items-center gap-1 px-1.5 py-0.5 rounded-full text-[9px] font-bold tracking-wider uppercase bg-amber-500/10 text-amber-600 border border-amber-500/20"
+                  title="Saved on this device; will sync when the connection is back"
+                >
+                  <CloudOff className="w-2.5 h-2.5" />
+                  {pendingCount} pending
+                </div>
+              )}
+              {validationIssues.length > 0 && (
+                <div
+                  className="flex items-center gap-1 px-1.5 py-0.5 rounded-full text-[9px] font-bold tracking-wider uppercase bg-rose-500/10 text-rose-600 border border-rose-500/20"
+                  title={`Changes are not being saved: ${describeIssues(validationIssues, 5)}`}
+                >
+                  <AlertTriangle className="w-2.5 h-2.5" /> Not saved
+                </div>
+              )}
+              {isReadOnly && (
+                <div className="flex items-center gap-1 px-1.5 py-0.5 rounded-full text-[9px] font-bold tracking-wider uppercase bg-gray-500/10 text-gray-500 border border-gray-500/20">
+                  <Eye className="w-2.5 h-2.5" /> View only
+                </div>
+              )}
+              {isConnected && (
+                <div className="flex items-center gap-1.5">
+                  <PresenceAvatars users={collaborators} />
+                  {!user && (
+                    <button
+                      onClick={handleRename}
+                      className="text-[10px] text-gray-400 hover:text-indigo-600 transition-colors"
+                      title="Change the name collaborators see"
+                    >
+                      {collaborators.length > 0 ? `You: ${displayName}` : displayName}
+                    </button>
+                  )}
+                </div>
+              )}
+              {user && (
+                <button
+                  onClick={logout}
+                  className="flex items-center gap-1 text-[10px] text-gray-400 hover:text-indigo-600 transition-colors"
+                  title="Sign out"
+                >
+                  {user.displayName} <LogOut className="w-3 h-3" />
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -1251,6 +1994,29 @@ export default function App() {
             <BarChart3 className="w-4 h-4 mr-2" /> Stats
           </button>
           <div className="w-px h-6 bg-gray-300 mx-2"></div>
+          <button
+            onClick={tripHistory.undo}
+            disabled={!tripHistory.canUndo || isReadOnly}
+            className="flex items-center px-2 py-1.5 rounded-md text-sm font-medium text-gray-500 hover:text-indigo-600 transition-colors disabled:opacity-30 disabled:hover:text-gray-500"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={tripHistory.redo}
+            disabled={!tripHistory.canRedo || isReadOnly}
+            className="flex items-center px-2 py-1.5 rounded-md text-sm font-medium text-gray-500 hover:text-indigo-600 transition-colors disabled:opacity-30 disabled:hover:text-gray-500"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setIsHistoryOpen(true)}
+            className="flex items-center px-3 py-1.5 rounded-md text-sm font-medium text-gray-500 hover:text-indigo-600 transition-colors"
+            title="Version history"
+          >
+            <History className="w-4 h-4 mr-2" /> History
+          </button>
           <button
             onClick={() => handlePrint()}
             className="flex items-center px-3 py-1.5 rounded-md text-sm font-medium text-gray-500 hover:text-indigo-600 transition-colors"
@@ -1258,6 +2024,15 @@ export default function App() {
           >
             <Printer className="w-4 h-4 mr-2" /> PDF
           </button>
+          {tripAccess && (
+            <button
+              onClick={() => setIsShareOpen(true)}
+              className="flex items-center px-3 py-1.5 rounded-md text-sm font-medium text-gray-500 hover:text-indigo-600 transition-colors"
+              title="People and links with access to this trip"
+            >
+              <Users className="w-4 h-4 mr-2" /> Share
+            </button>
+          )}
         </div>
       </header>
 
@@ -1277,7 +2052,10 @@ export default function App() {
                   <Globe className="w-4 h-4 mr-2 opacity-70" />
                   <span className="block">Full Trip Route</span>
                 </div>
-                {selectedDayId === 'overview' && <ChevronRight className="w-4 h-4" />}
+                <div className="flex items-center gap-1 shrink-0">
+                  <PresenceAvatars users={collaborators.filter(c => c.selectedDayId === 'overview')} max={2} size="sm" />
+                  {selectedDayId === 'overview' && <ChevronRight className="w-4 h-4" />}
+                </div>
               </button>
 
               <div className="h-px bg-gray-100 my-2"></div>
@@ -1292,14 +2070,18 @@ export default function App() {
                     <span className="block font-medium">{getDayLabel(day.date)}</span>
                     <span className="text-xs opacity-70 truncate">{day.city}</span>
                   </div>
-                  {selectedDayId === day.id && <ChevronRight className="w-4 h-4 shrink-0" />}
+                  <div className="flex items-center gap-1 shrink-0">
+                    <PresenceAvatars users={collaborators.filter(c => c.selectedDayId === day.id)} max={2} size="sm" />
+                    {selectedDayId === day.id && <ChevronRight className="w-4 h-4 shrink-0" />}
+                  </div>
                 </button>
               ))}
             </div>
 
             <button
               onClick={handleAddDay}
-              className="mt-4 w-full flex items-center justify-center py-2 px-3 border-2 border-dashed border-gray-200 rounded-lg text-gray-400 hover:border-indigo-300 hover:text-indigo-500 transition-colors text-sm font-medium"
+              disabled={isReadOnly}
+              className="disabled:opacity-40 disabled:pointer-events-none mt-4 w-full flex items-center justify-center py-2 px-3 border-2 border-dashed border-gray-200 rounded-lg text-gray-400 hover:border-indigo-300 hover:text-indigo-500 transition-colors text-sm font-medium"
             >
               <Plus className="w-4 h-4 mr-2" /> Add Day
             </button>
@@ -1422,7 +2204,8 @@ export default function App() {
               <>
                 {/* Activities Column */}
                 <div className="flex-1 overflow-y-auto p-4 md:p-8 bg-white/50">
-                  <div className="max-w-2xl mx-auto">
+                  {/* Viewers can browse but every control inside is disabled */}
+                  <fieldset disabled={isReadOnly} className="max-w-2xl mx-auto min-w-0">
 
                     {/* Day Controls */}
                     <div className="flex justify-between items-start mb-6 border-b border-gray-100 pb-4">
@@ -1442,8 +2225,8 @@ export default function App() {
                           <WeatherWidget
                             date={activeDay.date}
                             cityName={activeDay.city}
-                            lat={activeDay.accommodation?.location?.lat || activeDay.activities[0]?.location?.lat}
-                            lng={activeDay.accommodation?.location?.lng || activeDay.activities[0]?.location?.lng}
+                            lat={activeStays.end?.location?.lat || activeDay.activities[0]?.location?.lat}
+                            lng={activeStays.end?.location?.lng || activeDay.activities[0]?.location?.lng}
                           />
                         </div>
                       </div>
@@ -1508,28 +2291,77 @@ export default function App() {
                             />
                           </div>
                         </div>
-                        <input
-                          type="text"
-                          placeholder="Where are you staying?"
-                          value={activeDay.accommodation?.name || ''}
-                          onChange={(e) => handleUpdateHotel(activeDay.id, e.target.value)}
-                          className="w-full text-gray-700 placeholder-gray-300 focus:outline-none font-medium bg-transparent text-sm"
-                        />
+                        {!activeStays.start && !activeStays.end ? (
+                          <button
+                            onClick={() => setIsStaysOpen(true)}
+                            className="text-left text-sm font-medium text-gray-300 hover:text-indigo-500"
+                          >
+                            Where are you staying?
+                          </button>
+                        ) : (
+                          <div className="flex justify-between items-end gap-2">
+                            <div className="min-w-0 text-sm">
+                              {activeStays.checkOut && (
+                                <p className="text-gray-700 font-medium truncate">
+                                  <span className="text-xs text-gray-400 font-normal">Check out </span>
+                                  {activeStays.checkOut.name}
+                                  {activeStays.checkOut.checkOutTime && <span className="text-xs text-gray-400 font-normal"> by {activeStays.checkOut.checkOutTime}</span>}
+                                </p>
+                              )}
+                              {activeStays.checkIn ? (
+                                <p className="text-gray-700 font-medium truncate">
+                                  <span className="text-xs text-gray-400 font-normal">Check in </span>
+                                  {activeStays.checkIn.name}
+                                  {activeStays.checkIn.checkInTime && <span className="text-xs text-gray-400 font-normal"> from {activeStays.checkIn.checkInTime}</span>}
+                                </p>
+                              ) : !activeStays.checkOut && (
+                                <p className="text-gray-700 font-medium truncate">{activeStays.end?.name}</p>
+                              )}
+                              {activeStays.end?.booking && (
+                                <a href={activeStays.end.booking.filePath} target="_blank" rel="noopener noreferrer" className="text-xs text-indigo-600 hover:underline flex items-center gap-1">
+                                  <FileText className="w-3 h-3" /> {activeStays.end.booking.displayName}
+                                </a>
+                              )}
+                            </div>
+                            <button
+                              onClick={() => setIsStaysOpen(true)}
+                              className="text-xs font-medium text-indigo-600 hover:text-indigo-800 shrink-0"
+                            >
+                              Manage stays
+                            </button>
+                          </div>
+                        )}
                       </div>
                     </div>
 
+                    {/* Inter-city Transfers */}
+                    <div className="mb-6">
+                      <TransferEditor
+                        transfers={activeDay.transfers || []}
+                        onChange={(transfers) => {
+                          handleUpdateTransfers(activeDay.id, transfers);
+                          locateTransferStops(activeDay.id, transfers);
+                        }}
+                      />
+                    </div>
+
                     {/* Daily Expense Summary */}
                     {(() => {
-                      const expenses = calculateDayExpenses(activeDay);
+                      const expenses = calculateDayExpenses(activeDay, trip.settings?.farePayment, trip.accommodations, trip.settings?.exchangeRates, trip.travellers);
+                      const totalInHome = inHomeCurrency(expenses.total, trip.settings?.homeCurrency, trip.settings?.exchangeRates);
                       return (
                         <div className="bg-gradient-to-r from-green-50 to-emerald-50 p-4 rounded-xl border border-green-200 mb-6">
                           <div className="flex justify-between items-center">
                             <div className="flex items-center gap-2">
                               <Wallet className="w-5 h-5 text-green-600" />
                               <span className="font-semibold text-green-800">Today's Budget</span>
+                              {trip.travellers && trip.travellers.length > 1 && (
+                                <span className="text-xs text-green-600">for {trip.travellers.length} travellers</span>
+                              )}
                             </div>
                             <span className="text-xl font-bold text-green-900">
                               ¥{expenses.total.toLocaleString()}
+                              {totalInHome && <span className="text-sm font-medium text-green-600"> ≈ {totalInHome}</span>}
                             </span>
                           </div>
                           {expenses.total > 0 && (
@@ -1540,6 +2372,12 @@ export default function App() {
                               {expenses.transit > 0 && (
                                 <span>🚃 Transit: ¥{expenses.transit.toLocaleString()}</span>
                               )}
+                              {expenses.transfers > 0 && (
+                                <span>🚄 Inter-city: ¥{expenses.transfers.toLocaleString()}</span>
+                              )}
+                              {expenses.lodging > 0 && (
+                                <span>🛏 Lodging: ¥{expenses.lodging.toLocaleString()}</span>
+                              )}
                               {expenses.byType['food'] > 0 && (
                                 <span>🍜 Food: ¥{expenses.byType['food'].toLocaleString()}</span>
                               )}
@@ -1653,80 +2491,26 @@ export default function App() {
 
                         return (
                           <React.Fragment key={activity.id}>
+                            {/* Transfers departing between the previous stop and this one */}
+                            {(activeDay.transfers || [])
+                              .filter(t => t.departureTime <= activity.startTime && (index === 0 || t.departureTime > displayedActivities[index - 1].startTime))
+                              .map(t => <TransferBanner key={t.id} transfer={t} />)}
+
                             {/* Travel Segment Indicator */
                               (() => {
                                 const segment = activeDay.travelSegments?.find(s => s.toId === activity.id);
                                 if (!segment) return null;
 
-                                const getMapsLink = (seg: TravelSegment) => {
-                                  // Helper to resolve location for link
-                                  // Note: In a real app we might want lat/lng, but names work well for "Directions"
-                                  // and allow the user to see the place on the map better.
-                                  // Using IDs or simple names:
-
-                                  let originStr = "";
-                                  let destStr = "";
-
-                                  if (seg.fromId === 'start') {
-                                    originStr = `${activeDay.accommodation?.location.lat},${activeDay.accommodation?.location.lng}`;
-                                  } else {
-                                    const fromAct = activeDay.activities.find(a => a.id === seg.fromId);
-                                    if (fromAct) originStr = `${fromAct.location.lat},${fromAct.location.lng}`;
-                                  }
-
-                                  const toAct = activeDay.activities.find(a => a.id === seg.toId);
-                                  if (toAct) destStr = `${toAct.location.lat},${toAct.location.lng}`;
-
-                                  // Fallback if missing
-                                  if (!originStr || !destStr) return "#";
-
-                                  const modeParam = seg.mode === 'WALKING' ? 'walking' : 'transit';
-                                  return `https://www.google.com/maps/dir/?api=1&origin=${originStr}&destination=${destStr}&travelmode=${modeParam}`;
-                                };
+                                const fromName = segmentEndpoint(segment.fromId)?.name;
 
                                 return (
-                                  <div className="flex items-center justify-center py-3">
-                                    <a
-                                      href={getMapsLink(segment)}
-                                      target="_blank"
-                                      rel="noopener noreferrer"
-                                      className="group block transition-transform hover:scale-105"
-                                      title="Open in Google Maps"
-                                    >
-                                      <div className="flex flex-col items-center gap-1 cursor-pointer">
-                                        <div className={`flex items-center gap-2 px-3 py-1 bg-gray-100 rounded-full text-xs font-medium text-gray-500 shadow-sm border border-gray-200 group-hover:border-${segment.mode === 'WALKING' ? 'emerald' : 'indigo'}-300 group-hover:shadow-md transition-all`}>
-                                          {segment.mode === 'WALKING' ? (
-                                            <div className="flex items-center gap-1 text-emerald-600">
-                                              <Footprints className="w-3 h-3" />
-                                              <span>Walk</span>
-                                            </div>
-                                          ) : (
-                                            <div className="flex items-center gap-1 text-indigo-600 bg-indigo-50 px-1.5 py-0.5 rounded">
-                                              {segment.mode === 'BUS' ? <Bus className="w-3 h-3" /> : <Train className="w-3 h-3" />}
-                                              <span className="font-bold text-[10px] uppercase">
-                                                {segment.mode === 'BUS' ? 'Bus' : (segment.mode === 'TRAIN' ? 'Train' : 'Transit')}
-                                              </span>
-                                            </div>
-                                          )}
-                                          <span>
-                                            {segment.duration}
-                                            {segment.distance && ` • ${segment.distance}`}
-                                            {segment.transitFare && <span className="font-bold text-gray-700 ml-1"> • ¥{segment.transitFare}</span>}
-                                          </span>
-                                          {/* External Link Icon Hint */}
-                                          <ExternalLink className="w-2.5 h-2.5 ml-1 opacity-0 group-hover:opacity-100 transition-opacity" />
-                                        </div>
-
-                                        {/* Alternative Route Badge (Comparison) - Non clickable part or included? Let's keep distinct or just show it */}
-                                        {segment.alternativeLabel && (
-                                          <div className="text-[10px] text-gray-400 font-medium flex items-center gap-1 bg-white border border-gray-100 px-2 py-0.5 rounded-full shadow-sm">
-                                            <span className="text-gray-300">vs</span>
-                                            <span>{segment.alternativeLabel}</span>
-                                          </div>
-                                        )}
-                                      </div>
-                                    </a>
-                                  </div>
+                                  <TravelSegmentView
+                                    segment={segment}
+                                    mapsLink={getMapsLink(segment)}
+                                    fromName={fromName}
+                                    toName={activity.name}
+                                    farePayment={trip.settings?.farePayment}
+                                  />
                                 );
                               })()}
 
@@ -1735,6 +2519,9 @@ export default function App() {
                               isLast={index === activeDay.activities.length - 1}
                               activity={activity}
                               city={activeDay.city}
+                              date={activeDay.date}
+                              exchangeRates={trip.settings?.exchangeRates}
+                              travellers={trip.travellers}
                               draggable={true}
                               onDragStart={(e) => handleDragStart(e, index)}
                               onDragOver={(e) => handleDragOver(e)}
@@ -1745,6 +2532,8 @@ export default function App() {
                               onMoveDown={() => handleMoveActivity(activeDay.id, index, 'down')}
                               onSplit={handleSplitActivity}
                               onFocus={() => setFocusedActivityId(prev => prev === activity.id ? null : activity.id)}
+                              editors={collaborators.filter(c => c.editingActivityId === activity.id)}
+                              onEditingChange={(editing) => setEditingActivityId(prev => editing ? activity.id : (prev === activity.id ? null : prev))}
                             />
 
                             {/* INTERLEAVED SUGGESTIONS */}
@@ -1786,6 +2575,32 @@ export default function App() {
                         );
                       })
                       }
+
+                      {/* The way back to the hotel, once the last stop is done */
+                        (() => {
+                          const segment = returnSegment(activeDay);
+                          const lastStop = displayedActivities[displayedActivities.length - 1];
+                          if (!segment || !activeStays.end || lastStop?.id !== segment.fromId) return null;
+                          return (
+                            <>
+                              <TravelSegmentView
+                                segment={segment}
+                                mapsLink={getMapsLink(segment)}
+                                fromName={lastStop.name}
+                                toName={activeStays.end.name}
+                                farePayment={trip.settings?.farePayment}
+                              />
+                              <div className="flex items-center justify-center gap-2 pb-3 text-sm text-gray-500">
+                                <BedDouble className="w-4 h-4 text-indigo-400" />
+                                Back at <span className="font-medium text-gray-700">{activeStays.end.name}</span> around {backAtHotelTime(activeDay)}
+                              </div>
+                            </>
+                          );
+                        })()}
+
+                      {(activeDay.transfers || [])
+                        .filter(t => displayedActivities.length === 0 || t.departureTime > displayedActivities[displayedActivities.length - 1].startTime)
+                        .map(t => <TransferBanner key={t.id} transfer={t} />)}
                     </div>
 
                     {/* NOTES SECTION */}
@@ -1860,6 +2675,23 @@ export default function App() {
                       </div>
                     </div>
 
+                    {/* SPENDING SECTION */}
+                    <div className="border-t border-gray-200 pt-6 pb-6">
+                      <ExpenseLog
+                        key={activeDay.id}
+                        day={activeDay}
+                        planned={calculateDayExpenses(activeDay, trip.settings?.farePayment, trip.accommodations, trip.settings?.exchangeRates, trip.travellers).total}
+                        dailyBudget={trip.settings?.budget?.daily}
+                        homeCurrency={trip.settings?.homeCurrency}
+                        rates={trip.settings?.exchangeRates}
+                        travellers={trip.travellers || []}
+                        readOnly={isReadOnly}
+                        onChange={(expenses) => handleUpdateExpenses(activeDay.id, expenses)}
+                        onUploadReceipt={handleUploadReceipt}
+                        onManageTravellers={() => setIsTravellersOpen(true)}
+                      />
+                    </div>
+
                     {/* PDF ATTACHMENTS SECTION */}
                     <div className="border-t border-gray-200 pt-6 pb-6">
                       <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
@@ -1969,13 +2801,13 @@ export default function App() {
                       <p className="text-xs text-gray-500">AI will analyze your route and suggest stops that fit perfectly between your planned activities.</p>
                     </div>
 
-                  </div>
+                  </fieldset>
                 </div>
 
                 {/* Map Preview Sidebar */}
                 <div className="w-[400px] hidden xl:block border-l border-gray-200 bg-gray-50 relative">
                   <div className="absolute inset-0">
-                    <MapView days={trip.days} selectedDayId={selectedDayId} focusedActivityId={focusedActivityId} />
+                    <MapView days={trip.days} accommodations={trip.accommodations} selectedDayId={selectedDayId} focusedActivityId={focusedActivityId} />
                   </div>
                   {/* Overlay Legend */}
                   <div className="absolute bottom-4 left-4 right-4 bg-white/90 backdrop-blur p-3 rounded-lg shadow-lg border border-gray-200 text-xs text-gray-600">
@@ -1990,7 +2822,7 @@ export default function App() {
           {/* VIEW: MAP MODE */}
           {viewMode === ViewMode.Map && (
             <div className="w-full h-full relative bg-gray-100">
-              <MapView days={trip.days} selectedDayId={selectedDayId} />
+              <MapView days={trip.days} accommodations={trip.accommodations} selectedDayId={selectedDayId} />
               {isOverview && <div className="absolute top-4 left-4 z-10 bg-white p-2 rounded shadow text-sm font-bold">Japan Trip Overview</div>}
             </div>
           )}
@@ -1999,7 +2831,19 @@ export default function App() {
           {viewMode === ViewMode.Stats && (
             <div className="w-full h-full p-4 bg-gray-50">
               <div className="max-w-4xl mx-auto h-full">
-                <StatsView days={trip.days} />
+                <StatsView
+                  days={trip.days}
+                  accommodations={trip.accommodations}
+                  farePayment={trip.settings?.farePayment}
+                  onFarePaymentChange={!isReadOnly ? (farePayment) => setTrip(prev => ({ ...prev, settings: { ...prev.settings, farePayment } })) : undefined}
+                  homeCurrency={trip.settings?.homeCurrency}
+                  exchangeRates={trip.settings?.exchangeRates}
+                  onCurrencyChange={!isReadOnly ? (homeCurrency, exchangeRates) => setTrip(prev => ({ ...prev, settings: { ...prev.settings, homeCurrency, exchangeRates } })) : undefined}
+                  budget={trip.settings?.budget}
+                  onBudgetChange={!isReadOnly ? (budget) => setTrip(prev => ({ ...prev, settings: { ...prev.settings, budget } })) : undefined}
+                  travellers={trip.travellers}
+                  onManageTravellers={() => setIsTravellersOpen(true)}
+                />
               </div>
             </div>
           )}
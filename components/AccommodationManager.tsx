@@ -0,0 +1,292 @@
+import React, { useState } from 'react';
+import { Accommodation, PdfAttachment } from '../types';
+import { BedDouble, X, Plus, Edit2, Trash2, Save, FileText, Upload, AlertTriangle, MapPin } from 'lucide-react';
+import { stayCost, stayNights } from '../services/accommodations';
+import { CURRENCIES, currencyOf, formatMoney, isBaseCurrency } from '../services/currency';
+
+interface AccommodationManagerProps {
+  isOpen: boolean;
+  stays: Accommodation[];
+  defaultDate?: string;  // New stays start on this night (the day being viewed)
+  readOnly?: boolean;
+  onSave: (stay: Accommodation) => void;
+  onDelete: (stay: Accommodation) => void;
+  onUploadBooking: (file: File) => Promise<PdfAttachment | null>;
+  onClose: () => void;
+}
+
+const nextDate = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const emptyStay = (checkInDate: string): Accommodation => ({
+  id: `stay-${Date.now()}`,
+  name: '',
+  checkInDate,
+  checkOutDate: nextDate(checkInDate),
+  checkInTime: '15:00',
+  checkOutTime: '10:00'
+});
+
+// Stays whose nights overlap another booking; usually a typo in the dates
+const overlapping = (stays: Accommodation[]) => new Set(stays
+  .filter(a => stays.some(b => b.id !== a.id && a.checkInDate < b.checkOutDate && b.checkInDate < a.checkOutDate))
+  .map(a => a.id));
+
+const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-300';
+const labelClass = 'block text-xs font-medium text-gray-500 mb-1';
+
+// Hotels for the whole trip, each spanning a range of nights
+export const AccommodationManager: React.FC<AccommodationManagerProps> = ({
+  isOpen,
+  stays,
+  defaultDate,
+  readOnly = false,
+  onSave,
+  onDelete,
+  onUploadBooking,
+  onClose
+}) => {
+  const [draft, setDraft] = useState<Accommodation | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  if (!isOpen) return null;
+
+  const clashes = overlapping(stays);
+  const canSave = draft && draft.name.trim() && draft.checkOutDate > draft.checkInDate;
+
+  const handleSave = () => {
+    if (!draft || !canSave) return;
+    onSave({ ...draft, name: draft.name.trim() });
+    setDraft(null);
+  };
+
+  const handleUpload = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const booking = await onUploadBooking(file);
+      if (booking) setDraft(prev => prev && { ...prev, booking });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <BedDouble className="w-5 h-5 text-indigo-500" /> Accommodation
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-3">
+          {stays.length === 0 && !draft && (
+            <p className="text-sm text-gray-400 text-center py-4">No stays yet. Add your hotels to plan each day from them.</p>
+          )}
+
+          {stays.filter(stay => stay.id !== draft?.id).map(stay => (
+            <div key={stay.id} className="group p-3 rounded-xl border border-gray-200 hover:border-indigo-200 transition-colors">
+              <div className="flex justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-bold text-gray-800 truncate">{stay.name}</p>
+                  {stay.address && (
+                    <p className="text-xs text-gray-500 flex items-center gap-1 truncate"><MapPin className="w-3 h-3 shrink-0" /> {stay.address}</p>
+                  )}
+                </div>
+                {!readOnly && (
+                  <div className="flex gap-1 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => setDraft(stay)} className="p-1 text-gray-400 hover:text-indigo-600" title="Edit">
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => confirm(`Remove ${stay.name}?`) && onDelete(stay)}
+                      className="p-1 text-gray-400 hover:text-red-500"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+              <p className="text-xs text-gray-600 mt-1">
+                {formatDate(stay.checkInDate)}{stay.checkInTime && ` from ${stay.checkInTime}`}
+                {' → '}
+                {formatDate(stay.checkOutDate)}{stay.checkOutTime && ` by ${stay.checkOutTime}`}
+                <span className="text-gray-400"> • {stayNights(stay)} night{stayNights(stay) === 1 ? '' : 's'}</span>
+              </p>
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-xs">
+                {stay.nightlyPrice ? (
+                  <span className="text-green-700 font-medium">
+                    {formatMoney(stay.nightlyPrice, stay.currency)}/night • {formatMoney(stayCost(stay), stay.currency)} total
+                  </span>
+                ) : null}
+                {stay.confirmation && <span className="text-gray-500 font-mono">Ref {stay.confirmation}</span>}
+                {stay.booking && (
+                  <a href={stay.booking.filePath} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-indigo-600 hover:underline">
+                    <FileText className="w-3 h-3" /> {stay.booking.displayName}
+                  </a>
+                )}
+              </div>
+              {clashes.has(stay.id) && (
+                <p className="text-xs text-amber-600 flex items-center gap-1 mt-1">
+                  <AlertTriangle className="w-3 h-3" /> Overlaps another stay
+                </p>
+              )}
+            </div>
+          ))}
+
+          {draft && (
+            <div className="p-4 rounded-xl border border-indigo-200 bg-indigo-50/40 space-y-3">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  placeholder="Hotel name"
+                  // A new name or address means new coordinates; they're looked up when needed
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value, location: undefined })}
+                  className={inputClass}
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Address</label>
+                <input
+                  type="text"
+                  value={draft.address || ''}
+                  placeholder="Optional, helps find it on the map"
+                  onChange={(e) => setDraft({ ...draft, address: e.target.value || undefined, location: undefined })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="grid grid-cols-[1fr_auto] gap-2">
+                <div>
+                  <label className={labelClass}>Check-in</label>
+                  <input
+                    type="date"
+                    value={draft.checkInDate}
+                    onChange={(e) => e.target.value && setDraft({
+                      ...draft,
+                      checkInDate: e.target.value,
+                      checkOutDate: draft.checkOutDate > e.target.value ? draft.checkOutDate : nextDate(e.target.value)
+                    })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>From</label>
+                  <input type="time" value={draft.checkInTime || ''} onChange={(e) => setDraft({ ...draft, checkInTime: e.target.value || undefined })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Check-out</label>
+                  <input
+                    type="date"
+                    value={draft.checkOutDate}
+                    min={nextDate(draft.checkInDate)}
+                    onChange={(e) => e.target.value && setDraft({ ...draft, checkOutDate: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>By</label>
+                  <input type="time" value={draft.checkOutTime || ''} onChange={(e) => setDraft({ ...draft, checkOutTime: e.target.value || undefined })} className={inputClass} />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className={labelClass}>Price per night</label>
+                  <div className="flex gap-1">
+                    <select
+                      value={currencyOf(draft.currency)}
+                      onChange={(e) => setDraft({ ...draft, currency: isBaseCurrency(e.target.value) ? undefined : e.target.value })}
+                      className={`${inputClass} w-auto`}
+                    >
+                      {[...new Set([...CURRENCIES, currencyOf(draft.currency)])].map(code => <option key={code} value={code}>{code}</option>)}
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={draft.nightlyPrice ?? ''}
+                      onChange={(e) => setDraft({ ...draft, nightlyPrice: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className={labelClass}>Confirmation number</label>
+                  <input
+                    type="text"
+                    value={draft.confirmation || ''}
+                    onChange={(e) => setDraft({ ...draft, confirmation: e.target.value || undefined })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Booking PDF</label>
+                {draft.booking ? (
+                  <div className="flex items-center gap-2 text-sm">
+                    <FileText className="w-4 h-4 text-red-500" />
+                    <a href={draft.booking.filePath} target="_blank" rel="noopener noreferrer" className="flex-1 truncate text-indigo-600 hover:underline">
+                      {draft.booking.displayName}
+                    </a>
+                    <button onClick={() => setDraft({ ...draft, booking: undefined })} className="p-1 text-gray-400 hover:text-red-500" title="Detach">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <label className={`flex items-center justify-center gap-2 px-3 py-2 border border-dashed border-gray-300 rounded-lg text-sm text-gray-500 cursor-pointer hover:bg-white ${isUploading ? 'opacity-50 pointer-events-none' : ''}`}>
+                    <Upload className="w-4 h-4" /> {isUploading ? 'Uploading...' : 'Attach confirmation'}
+                    <input
+                      type="file"
+                      accept="application/pdf"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleUpload(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                )}
+              </div>
+              <div className="flex justify-end gap-2 pt-1">
+                <button onClick={() => setDraft(null)} className="px-3 py-1.5 text-sm font-medium text-gray-500 hover:text-gray-700">
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={!canSave}
+                  className="flex items-center px-4 py-1.5 rounded-lg bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4 mr-1.5" /> Save
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {!readOnly && !draft && (
+          <div className="px-6 py-4 border-t border-gray-100">
+            <button
+              onClick={() => setDraft(emptyStay(defaultDate || new Date().toISOString().slice(0, 10)))}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-700"
+            >
+              <Plus className="w-4 h-4" /> Add stay
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
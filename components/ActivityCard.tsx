@@ -1,13 +1,18 @@
 import React, { useState } from 'react';
-import { Activity } from '../types';
-import { Clock, MapPin, Sparkles, Trash2, ArrowUp, ArrowDown, Edit2, Save, Link as LinkIcon, Image as ImageIcon, Wand2, GripVertical, ListChecks, HelpCircle, ChevronDown, ChevronUp, RefreshCw, Split, Lock as LockIcon, Unlock, Timer, Wallet } from 'lucide-react';
+import { Activity, Collaborator, ExchangeRates, OpeningHours, Traveller } from '../types';
+import { Clock, MapPin, Sparkles, Trash2, ArrowUp, ArrowDown, Edit2, Save, Link as LinkIcon, Image as ImageIcon, Wand2, GripVertical, ListChecks, HelpCircle, ChevronDown, ChevronUp, RefreshCw, Split, Lock as LockIcon, Unlock, Timer, Wallet, AlertTriangle, CalendarX } from 'lucide-react';
 import { getTravelRecommendation, generateSubActivities, analyzePlaceName } from '../services/geminiService';
 import { searchGooglePlace } from '../services/mapService';
+import { checkOpeningHours, fetchOpeningHours, formatOpeningHours } from '../services/openingHours';
 import { PriceDetailPopup } from './PriceDetailPopup';
+import { formatMoney } from '../services/currency';
 
 interface ActivityCardProps {
   activity: Activity;
   city: string;
+  date?: string; // The day's date (YYYY-MM-DD), for checking opening hours
+  exchangeRates?: ExchangeRates;
+  travellers?: Traveller[];
   onUpdate: (updated: Activity) => void;
   onDelete: () => void;
   onMoveUp: () => void;
@@ -20,11 +25,16 @@ interface ActivityCardProps {
   onDragStart?: (e: React.DragEvent) => void;
   onDragOver?: (e: React.DragEvent) => void;
   onDrop?: (e: React.DragEvent) => void;
+  editors?: Collaborator[]; // Collaborators currently editing this activity
+  onEditingChange?: (isEditing: boolean) => void;
 }
 
 export const ActivityCard: React.FC<ActivityCardProps> = ({
   activity,
   city,
+  date,
+  exchangeRates,
+  travellers,
   onUpdate,
   onDelete,
   onMoveUp,
@@ -36,7 +46,9 @@ export const ActivityCard: React.FC<ActivityCardProps> = ({
   draggable = false,
   onDragStart,
   onDragOver,
-  onDrop
+  onDrop,
+  editors = [],
+  onEditingChange
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editedActivity, setEditedActivity] = useState(activity);
@@ -51,6 +63,24 @@ export const ActivityCard: React.FC<ActivityCardProps> = ({
   const [durationInput, setDurationInput] = useState('');
   const [isAutoFetchingImage, setIsAutoFetchingImage] = useState(false);
   const [showPricePopup, setShowPricePopup] = useState(false);
+  const [isLoadingHours, setIsLoadingHours] = useState(false);
+  const [closedDateInput, setClosedDateInput] = useState('');
+  const hoursRequestedFor = React.useRef<string | null>(null);
+
+  // Let collaborators know what we're editing; clear it when the card closes or unmounts
+  React.useEffect(() => {
+    onEditingChange?.(isEditing);
+    if (isEditing) return () => onEditingChange?.(false);
+  }, [isEditing]);
+
+  const editorNames = editors.map(e => e.name).join(', ');
+
+  // Soft lock: editing is still allowed, but not without knowing someone else is in the same card
+  const startEditing = () => {
+    if (editors.length > 0 && !confirm(`${editorNames} ${editors.length === 1 ? 'is' : 'are'} editing this activity right now. Edit anyway?`)) return;
+    setEditedActivity(activity);
+    setIsEditing(true);
+  };
 
   // Auto-fetch image when it fails or is missing
   React.useEffect(() => {
@@ -89,6 +119,24 @@ export const ActivityCard: React.FC<ActivityCardProps> = ({
     };
   }, [imgError, activity.imageUrl, activity.name, city]); // Re-run if name changes or image errors
 
+  // Fetch opening hours once per place; Places without listed hours just stay unknown
+  React.useEffect(() => {
+    const placeId = activity.googlePlaceId;
+    if (!placeId || activity.openingHours || hoursRequestedFor.current === placeId) return;
+    hoursRequestedFor.current = placeId;
+
+    let isCancelled = false;
+    fetchOpeningHours(placeId)
+      .then(openingHours => {
+        if (!isCancelled && openingHours) onUpdate({ ...activity, openingHours });
+      })
+      .catch(e => console.error('Auto-fetch opening hours failed:', e));
+    return () => { isCancelled = true; };
+  }, [activity.googlePlaceId, activity.openingHours]);
+
+  const hoursConflict = checkOpeningHours(activity, date);
+  const hoursToday = formatOpeningHours(activity.openingHours, date);
+
   // Generate fallback placeholder seed
   const imageId = activity.id.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0) % 1000;
   // User requested NO picsum placeholders. Only Google Photos.
@@ -186,6 +234,43 @@ export const ActivityCard: React.FC<ActivityCardProps> = ({
     }
   };
 
+  // Refreshed hours keep closed dates the user added by hand
+  const handleFetchHours = async () => {
+    if (!editedActivity.googlePlaceId) return;
+    setIsLoadingHours(true);
+    try {
+      const fetched = await fetchOpeningHours(editedActivity.googlePlaceId);
+      if (!fetched) {
+        alert("Google Maps has no opening hours for this place.");
+        return;
+      }
+      const fetchedDates = new Set((fetched.exceptions || []).map(e => e.date));
+      const manual = (editedActivity.openingHours?.exceptions || []).filter(e => !fetchedDates.has(e.date));
+      const exceptions = [...(fetched.exceptions || []), ...manual];
+      setEditedActivity(prev => ({ ...prev, openingHours: { ...fetched, exceptions } }));
+    } catch (e) {
+      console.error('Fetch opening hours failed:', e);
+      alert("Could not fetch opening hours.");
+    } finally {
+      setIsLoadingHours(false);
+    }
+  };
+
+  const updateHours = (changes: Partial<OpeningHours>) => {
+    setEditedActivity(prev => ({ ...prev, openingHours: { periods: [], ...prev.openingHours, ...changes } }));
+  };
+
+  const addClosedDate = () => {
+    if (!closedDateInput) return;
+    const others = (editedActivity.openingHours?.exceptions || []).filter(e => e.date !== closedDateInput);
+    updateHours({ exceptions: [...others, { date: closedDateInput, hours: [] }].sort((a, b) => a.date.localeCompare(b.date)) });
+    setClosedDateInput('');
+  };
+
+  const removeException = (exceptionDate: string) => {
+    updateHours({ exceptions: (editedActivity.openingHours?.exceptions || []).filter(e => e.date !== exceptionDate) });
+  };
+
   const handleRetryImage = async (e: React.MouseEvent) => {
     e.stopPropagation();
     setIsLoadingImg(true);
@@ -249,6 +334,12 @@ export const ActivityCard: React.FC<ActivityCardProps> = ({
   if (isEditing) {
     return (
       <div className="bg-white rounded-xl shadow-lg p-4 mb-4 border-l-4 border-indigo-500">
+        {editors.length > 0 && (
+          <div className="mb-3 px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 flex items-center gap-1.5">
+            <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+            {editorNames} {editors.length === 1 ? 'is' : 'are'} also editing this activity. Whoever saves last wins.
+          </div>
+        )}
         <div className="space-y-3">
           <input
             type="text"
@@ -309,6 +400,45 @@ export const ActivityCard: React.FC<ActivityCardProps> = ({
             </div>
           </div>
 
+          <div className="border rounded p-2 text-xs text-gray-600 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-semibold text-gray-500 flex items-center"><Clock className="w-3.5 h-3.5 mr-1" /> Opening hours</span>
+              {editedActivity.googlePlaceId && (
+                <button
+                  onClick={handleFetchHours}
+                  disabled={isLoadingHours}
+                  className="flex items-center gap-1 text-blue-500 hover:bg-blue-50 rounded px-1.5 py-0.5"
+                >
+                  {isLoadingHours ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Wand2 className="w-3 h-3" />} Fetch from Google
+                </button>
+              )}
+            </div>
+            {editedActivity.openingHours?.weekdayText?.length ? (
+              <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 text-[11px] text-gray-500">
+                {editedActivity.openingHours.weekdayText.map(line => <li key={line}>{line}</li>)}
+              </ul>
+            ) : (
+              <p className="text-[11px] text-gray-400">{editedActivity.openingHours?.alwaysOpen ? 'Open 24 hours' : 'Unknown'}</p>
+            )}
+            <div className="flex flex-wrap items-center gap-1.5">
+              {(editedActivity.openingHours?.exceptions || []).map(exception => (
+                <span key={exception.date} className="flex items-center gap-1 bg-amber-50 text-amber-700 border border-amber-200 rounded px-1.5 py-0.5 text-[11px]">
+                  {exception.date}: {exception.hours.length === 0 ? 'closed' : exception.hours.map(h => `${h.open}–${h.close}`).join(', ')}
+                  <button onClick={() => removeException(exception.date)} className="hover:text-red-600" title="Remove">×</button>
+                </span>
+              ))}
+              <input
+                type="date"
+                value={closedDateInput}
+                onChange={(e) => setClosedDateInput(e.target.value)}
+                className="border p-0.5 rounded text-[11px]"
+              />
+              <button onClick={addClosedDate} disabled={!closedDateInput} className="text-indigo-600 hover:bg-indigo-50 rounded px-1.5 py-0.5 disabled:opacity-40">
+                + Closed date
+              </button>
+            </div>
+          </div>
+
           <textarea
             value={editedActivity.description}
             onChange={(e) => setEditedActivity({ ...editedActivity, description: e.target.value })}
@@ -407,6 +537,7 @@ export const ActivityCard: React.FC<ActivityCardProps> = ({
               {draggable && <GripVertical className="w-4 h-4 text-gray-300 hidden sm:block" />}
               {activity.name}
               {activity.googlePlaceId && <div className="text-[10px] bg-green-100 text-green-700 px-1 rounded border border-green-200" title="Verified Google Place">✓ Maps</div>}
+              {editors.length > 0 && <div className="text-[10px] bg-amber-100 text-amber-700 px-1 rounded border border-amber-200 font-normal" title={`${editorNames} editing`}>✎ {editorNames}</div>}
             </h4>
 
             <div className="absolute top-2 right-2 flex bg-white/90 backdrop-blur rounded-lg shadow-sm border border-gray-100 opacity-0 group-hover:opacity-100 transition-opacity z-10">
@@ -421,7 +552,7 @@ export const ActivityCard: React.FC<ActivityCardProps> = ({
               <button onClick={() => onMoveUp()} disabled={isFirst} className="p-1.5 hover:bg-gray-100 text-gray-500 disabled:opacity-30"><ArrowUp className="w-3.5 h-3.5" /></button>
               <button onClick={() => onMoveDown()} disabled={isLast} className="p-1.5 hover:bg-gray-100 text-gray-500 disabled:opacity-30"><ArrowDown className="w-3.5 h-3.5" /></button>
               <div className="w-px bg-gray-200 my-1"></div>
-              <button onClick={() => setIsEditing(true)} className="p-1.5 hover:bg-blue-50 text-blue-500"><Edit2 className="w-3.5 h-3.5" /></button>
+              <button onClick={startEditing} className="p-1.5 hover:bg-blue-50 text-blue-500"><Edit2 className="w-3.5 h-3.5" /></button>
               <button onClick={onDelete} className="p-1.5 hover:bg-red-50 text-red-500"><Trash2 className="w-3.5 h-3.5" /></button>
             </div>
           </div>
@@ -532,6 +663,21 @@ export const ActivityCard: React.FC<ActivityCardProps> = ({
             >
               <HelpCircle className="w-3 h-3" />
             </button>
+            {/* Opening hours conflict for this day */}
+            {hoursConflict ? (
+              <div
+                className="flex items-center gap-1 px-2 py-1 rounded-md bg-amber-100 text-amber-800"
+                title={hoursToday ? `Open ${hoursToday} on this day` : undefined}
+              >
+                {hoursConflict.kind === 'closed' ? <CalendarX className="w-3.5 h-3.5" /> : <AlertTriangle className="w-3.5 h-3.5" />}
+                <span className="text-[10px] font-bold">{hoursConflict.message}</span>
+              </div>
+            ) : hoursToday && (
+              <div className="flex items-center px-2 py-1 text-gray-400 hidden sm:flex" title="Opening hours on this day">
+                <Clock className="w-3.5 h-3.5 mr-1" />
+                <span className="text-[10px]">{hoursToday}</span>
+              </div>
+            )}
             {activity.location && (
               <div className="flex items-center px-2 py-1 hidden sm:flex" title="Coordinates available">
                 <MapPin className="w-3.5 h-3.5 mr-1.5 text-green-600" />
@@ -557,7 +703,7 @@ export const ActivityCard: React.FC<ActivityCardProps> = ({
                 {activity.pricing?.isFree
                   ? 'Free'
                   : activity.pricing?.basePrice
-                    ? `¥${activity.pricing.basePrice.toLocaleString()}`
+                    ? formatMoney(activity.pricing.basePrice, activity.pricing.currency)
                     : '¥?'
                 }
               </span>
@@ -579,6 +725,8 @@ export const ActivityCard: React.FC<ActivityCardProps> = ({
         <PriceDetailPopup
           activity={activity}
           city={city}
+          exchangeRates={exchangeRates}
+          travellers={travellers}
           onUpdate={onUpdate}
           onClose={() => setShowPricePopup(false)}
         />
@@ -0,0 +1,104 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { User } from '../types';
+import { AuthContext } from '../hooks/useAuth';
+import { fetchSession, logout as logoutRequest, AUTH_REQUIRED_EVENT } from '../services/authService';
+import { LoginScreen } from './LoginScreen';
+import { clearOfflineStore } from '../services/offlineStore';
+
+// Last signed-in user, so the offline copy of the app still opens without the server
+const CACHED_USER_KEY = 'authUser';
+
+const readCachedUser = (): User | null => {
+  try {
+    return JSON.parse(localStorage.getItem(CACHED_USER_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+// Offline copies of trips, the trip that was open and the service worker's cached files all
+// belong to whoever signed out
+const clearOfflineUserData = () => {
+  localStorage.removeItem('activeTripId');
+  clearOfflineStore().catch(e => console.warn('[Auth] Could not clear offline trips:', e));
+  navigator.serviceWorker?.controller?.postMessage({ type: 'CLEAR_USER_DATA' });
+};
+
+/**
+ * Shows the login screen until there is a session (when the server has accounts),
+ * then renders the app with the user available through useAuth().
+ */
+export const AuthGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [status, setStatus] = useState<'loading' | 'login' | 'ready'>('loading');
+  const [authEnabled, setAuthEnabled] = useState(false);
+  const [user, setUser] = useState<User | null>(null);
+
+  useEffect(() => {
+    fetchSession()
+      .then(session => {
+        setAuthEnabled(session.authEnabled);
+        setUser(session.user);
+        if (session.user) localStorage.setItem(CACHED_USER_KEY, JSON.stringify(session.user));
+        else localStorage.removeItem(CACHED_USER_KEY);
+        setStatus(session.authEnabled && !session.user ? 'login' : 'ready');
+      })
+      .catch(e => {
+        // Server unreachable: carry on offline as whoever signed in last
+        console.warn('[Auth] Could not reach the server:', e);
+        const cached = readCachedUser();
+        setAuthEnabled(!!cached);
+        setUser(cached);
+        setStatus('ready');
+      });
+  }, []);
+
+  // Any request answered with 401 means the session ended (expired, password changed, removed)
+  useEffect(() => {
+    const handleAuthRequired = () => {
+      if (!authEnabled) setAuthEnabled(true);
+      localStorage.removeItem(CACHED_USER_KEY);
+      clearOfflineUserData();
+      setUser(null);
+      setStatus('login');
+    };
+    window.addEventListener(AUTH_REQUIRED_EVENT, handleAuthRequired);
+    return () => window.removeEventListener(AUTH_REQUIRED_EVENT, handleAuthRequired);
+  }, [authEnabled]);
+
+  const handleLogin = (loggedIn: User) => {
+    localStorage.setItem(CACHED_USER_KEY, JSON.stringify(loggedIn));
+    setUser(loggedIn);
+    setStatus('ready');
+  };
+
+  const logout = useCallback(async () => {
+    try {
+      await logoutRequest();
+    } finally {
+      localStorage.removeItem(CACHED_USER_KEY);
+      clearOfflineUserData();
+      setUser(null);
+      setStatus('login');
+    }
+  }, []);
+
+  const value = useMemo(() => ({ authEnabled, user, logout }), [authEnabled, user, logout]);
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-stone-50">
+        <Loader2 className="w-6 h-6 animate-spin text-indigo-400" />
+      </div>
+    );
+  }
+
+  if (status === 'login') return <LoginScreen onLogin={handleLogin} />;
+
+  return (
+    <AuthContext.Provider value={value}>
+      {/* Keyed by user so switching accounts starts the app from scratch */}
+      <React.Fragment key={user?.id || 'anonymous'}>{children}</React.Fragment>
+    </AuthContext.Provider>
+  );
+};
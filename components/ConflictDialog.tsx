@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { Trip, DayPlan } from '../types';
+import { AlertTriangle, User, Users } from 'lucide-react';
+import { compareTrips, mergeTrips, MergeSide } from '../services/tripMerge';
+
+interface ConflictDialogProps {
+  local: Trip;   // What this browser was about to save
+  remote: Trip;  // What the server currently holds
+  onResolve: (merged: Trip) => void;
+}
+
+const describeDay = (day?: DayPlan) => {
+  if (!day) return 'Deleted';
+  return `${day.activities.length} stop${day.activities.length === 1 ? '' : 's'}${day.notes ? ' • notes' : ''}`;
+};
+
+export const ConflictDialog: React.FC<ConflictDialogProps> = ({ local, remote, onResolve }) => {
+  const comparison = useMemo(() => compareTrips(local, remote), [local, remote]);
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+  const [titleChoice, setTitleChoice] = useState<MergeSide>('local');
+
+  const setAll = (side: MergeSide) => {
+    const next: Record<string, MergeSide> = {};
+    comparison.days.forEach(d => { next[d.dayId] = side; });
+    setChoices(next);
+    setTitleChoice(side);
+  };
+
+  const SideButton = ({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) => (
+    <button
+      onClick={onClick}
+      className={`flex-1 text-left px-3 py-2 rounded-lg border text-xs transition-colors ${active ? 'border-indigo-500 bg-indigo-50 text-indigo-800' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+    >
+      {children}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[85vh]">
+        <div className="px-6 py-4 border-b border-gray-100 bg-gradient-to-r from-amber-50 to-orange-50">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-amber-600" /> Someone else edited this trip
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            Your changes were not saved yet. Choose which version to keep for each day that differs.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-3 overflow-y-auto">
+          {comparison.titleDiffers && (
+            <div className="border border-gray-200 rounded-xl p-3">
+              <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Trip Title</p>
+              <div className="flex gap-2">
+                <SideButton active={titleChoice === 'local'} onClick={() => setTitleChoice('local')}>
+                  <span className="flex items-center gap-1 font-bold"><User className="w-3 h-3" /> Mine</span>
+                  {local.title}
+                </SideButton>
+                <SideButton active={titleChoice === 'remote'} onClick={() => setTitleChoice('remote')}>
+                  <span className="flex items-center gap-1 font-bold"><Users className="w-3 h-3" /> Theirs</span>
+                  {remote.title}
+                </SideButton>
+              </div>
+            </div>
+          )}
+
+          {comparison.days.map(diff => {
+            const day = diff.local || diff.remote!;
+            const side = choices[diff.dayId] || 'local';
+            return (
+              <div key={diff.dayId} className="border border-gray-200 rounded-xl p-3">
+                <div className="flex justify-between items-center mb-2">
+                  <p className="text-sm font-bold text-gray-800">{day.date} • {day.city}</p>
+                  <span className="text-[10px] font-bold uppercase tracking-wider text-amber-600">
+                    {diff.status === 'changed' ? 'Edited by both' : diff.status === 'local-only' ? 'Only in mine' : 'Only in theirs'}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  <SideButton active={side === 'local'} onClick={() => setChoices(prev => ({ ...prev, [diff.dayId]: 'local' }))}>
+                    <span className="flex items-center gap-1 font-bold"><User className="w-3 h-3" /> Mine</span>
+                    {describeDay(diff.local)}
+                  </SideButton>
+                  <SideButton active={side === 'remote'} onClick={() => setChoices(prev => ({ ...prev, [diff.dayId]: 'remote' }))}>
+                    <span className="flex items-center gap-1 font-bold"><Users className="w-3 h-3" /> Theirs</span>
+                    {describeDay(diff.remote)}
+                  </SideButton>
+                </div>
+              </div>
+            );
+          })}
+
+          {comparison.days.length === 0 && !comparison.titleDiffers && (
+            <p className="text-sm text-gray-500 text-center py-4">Both versions are identical.</p>
+          )}
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 flex justify-between gap-2">
+          <div className="flex gap-2">
+            <button
+              onClick={() => setAll('local')}
+              className="px-3 py-2 text-xs font-medium text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              All mine
+            </button>
+            <button
+              onClick={() => setAll('remote')}
+              className="px-3 py-2 text-xs font-medium text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              All theirs
+            </button>
+          </div>
+          <button
+            onClick={() => onResolve(mergeTrips(local, remote, choices, titleChoice))}
+            className="px-4 py-2 text-sm font-bold text-white rounded-lg shadow-md transition-all bg-indigo-600 hover:bg-indigo-700 active:scale-95"
+          >
+            Apply Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
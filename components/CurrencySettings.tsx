@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { ExchangeRates } from '../types';
+import { Coins, X, Upload, RefreshCw, Save, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { BASE_CURRENCY, CURRENCIES, STAND_IN_RATES_AS_OF, parseRatesFile, standInRates } from '../services/currency';
+
+interface CurrencySettingsProps {
+  isOpen: boolean;
+  homeCurrency?: string;
+  rates?: ExchangeRates;
+  usedCurrencies: string[]; // Currencies prices in the trip are entered in; they need a rate
+  onSave: (homeCurrency: string, rates: ExchangeRates | undefined) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<ExchangeRates['source'], string> = {
+  manual: 'Entered by hand',
+  file: 'Loaded from a file',
+  'stand-in': `Built-in rates as of ${STAND_IN_RATES_AS_OF}`
+};
+
+const inputClass = 'px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-300';
+
+// Home currency and the yen rate table stored with the trip
+export const CurrencySettings: React.FC<CurrencySettingsProps> = ({
+  isOpen,
+  homeCurrency,
+  rates,
+  usedCurrencies,
+  onSave,
+  onClose
+}) => {
+  const [home, setHome] = useState(homeCurrency || BASE_CURRENCY);
+  const [draft, setDraft] = useState<ExchangeRates | undefined>(rates);
+  const [addedCodes, setAddedCodes] = useState<string[]>([]);
+  const [newCode, setNewCode] = useState('');
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  // Start from what's saved each time it opens; someone else may have changed it meanwhile
+  useEffect(() => {
+    if (!isOpen) return;
+    setHome(homeCurrency || BASE_CURRENCY);
+    setDraft(rates);
+    setAddedCodes([]);
+    setFileError(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  // Every currency that needs a rate, plus any already in the table
+  const codes = [...new Set([...usedCurrencies, home, ...addedCodes, ...Object.keys(draft?.yenPer || {})])]
+    .filter(code => code !== BASE_CURRENCY)
+    .sort();
+  const missing = codes.filter(code => !draft?.yenPer[code]);
+
+  const setRate = (code: string, value: string) => {
+    const yenPer = { ...draft?.yenPer };
+    const rate = Number(value);
+    if (value === '' || !(rate > 0)) delete yenPer[code];
+    else yenPer[code] = rate;
+    setDraft({ yenPer, source: 'manual', updatedAt: new Date().toISOString() });
+  };
+
+  const handleFile = async (file: File) => {
+    setFileError(null);
+    try {
+      const yenPer = parseRatesFile(await file.text());
+      setDraft({ yenPer: { ...draft?.yenPer, ...yenPer }, source: 'file', updatedAt: new Date().toISOString() });
+    } catch (error) {
+      setFileError((error as Error).message);
+    }
+  };
+
+  const addCode = () => {
+    const code = newCode.trim().toUpperCase();
+    if (/^[A-Z]{3}$/.test(code)) setAddedCodes(prev => [...prev, code]);
+    setNewCode('');
+  };
+
+  const removeCode = (code: string) => {
+    setAddedCodes(prev => prev.filter(c => c !== code));
+    setRate(code, '');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <Coins className="w-5 h-5 text-green-600" /> Currencies
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-5">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Home currency</label>
+            <select value={home} onChange={(e) => setHome(e.target.value)} className={`${inputClass} w-full`}>
+              {[...new Set([...CURRENCIES, home])].map(code => <option key={code} value={code}>{code}</option>)}
+            </select>
+            <p className="text-xs text-gray-400 mt-1">Budgets are added up in yen and also shown in this currency.</p>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="text-xs font-medium text-gray-500">Exchange rates</label>
+              {draft && <span className="text-[11px] text-gray-400">{SOURCE_LABELS[draft.source]}</span>}
+            </div>
+            {codes.length === 0 ? (
+              <p className="text-sm text-gray-400">Every price is in yen; no rates needed.</p>
+            ) : (
+              <div className="space-y-2">
+                {codes.map(code => (
+                  <div key={code} className="flex items-center gap-2 text-sm">
+                    <span className="w-20 text-gray-600">1 {code} =</span>
+                    <span className="text-gray-400">¥</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={draft?.yenPer[code] ?? ''}
+                      onChange={(e) => setRate(code, e.target.value)}
+                      className={`${inputClass} flex-1 ${!draft?.yenPer[code] ? 'border-amber-300' : ''}`}
+                    />
+                    {!usedCurrencies.includes(code) && code !== home && (
+                      <button onClick={() => removeCode(code)} className="p-1 text-gray-400 hover:text-red-500" title="Remove">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex items-center gap-2 mt-3">
+              <input
+                type="text"
+                placeholder="Add code, e.g. MYR"
+                maxLength={3}
+                value={newCode}
+                onChange={(e) => setNewCode(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addCode()}
+                className={`${inputClass} w-40 uppercase`}
+              />
+              <button onClick={addCode} className="flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800">
+                <Plus className="w-3 h-3 mr-0.5" /> Add
+              </button>
+            </div>
+            {missing.length > 0 && (
+              <p className="text-xs text-amber-600 flex items-center gap-1 mt-2">
+                <AlertTriangle className="w-3 h-3" /> No rate for {missing.join(', ')}; those prices are left out of totals.
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <label className="flex items-center gap-1.5 px-3 py-1.5 border border-gray-200 rounded-lg text-xs font-medium text-gray-600 cursor-pointer hover:bg-gray-50">
+              <Upload className="w-3.5 h-3.5" /> Load from file
+              <input
+                type="file"
+                accept=".json,.csv,application/json,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <button
+              onClick={() => setDraft({ ...standInRates(), yenPer: { ...draft?.yenPer, ...standInRates().yenPer } })}
+              className="flex items-center gap-1.5 px-3 py-1.5 border border-gray-200 rounded-lg text-xs font-medium text-gray-600 hover:bg-gray-50"
+            >
+              <RefreshCw className="w-3.5 h-3.5" /> Use built-in rates ({STAND_IN_RATES_AS_OF})
+            </button>
+          </div>
+          <p className="text-[11px] text-gray-400 -mt-3">
+            Files are JSON (<code>{'{"USD": 150.2}'}</code> in yen, or a provider export with <code>base</code> and <code>rates</code>) or CSV lines like <code>USD,150.2</code>.
+          </p>
+          {fileError && <p className="text-xs text-red-600 -mt-3">{fileError}</p>}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 flex justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-1.5 text-sm font-medium text-gray-500 hover:text-gray-700">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(home, draft && Object.keys(draft.yenPer).length > 0 ? draft : undefined)}
+            className="flex items-center px-4 py-1.5 rounded-lg bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-700"
+          >
+            <Save className="w-4 h-4 mr-1.5" /> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
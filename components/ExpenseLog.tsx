@@ -0,0 +1,378 @@
+import React, { useState } from 'react';
+import { DayPlan, ExchangeRates, Expense, ExpenseSplit, PdfAttachment, SplitMode, Traveller } from '../types';
+import { Receipt, Plus, Edit2, Trash2, Save, Paperclip, Upload, X, AlertTriangle, Users } from 'lucide-react';
+import { CURRENCIES, currencyOf, formatMoney, inHomeCurrency, isBaseCurrency } from '../services/currency';
+import { EXPENSE_CATEGORIES, EXPENSE_CATEGORY_LABELS, categoryForActivity, expenseInYen, sortExpenses } from '../services/expenses';
+import { SPLIT_MODE_LABELS, splitExpense, splitParticipants, travellerName } from '../services/expenseSplit';
+import { DEFAULT_PRICE_TIER } from '../services/partyPricing';
+
+interface ExpenseLogProps {
+  day: DayPlan;
+  planned: number;       // The day's estimate in yen, as in Today's Budget
+  dailyBudget?: number;  // In yen
+  homeCurrency?: string;
+  rates?: ExchangeRates;
+  travellers: Traveller[];
+  readOnly?: boolean;
+  onChange: (expenses: Expense[]) => void;
+  onUploadReceipt: (file: File) => Promise<PdfAttachment | null>;
+  onManageTravellers: () => void;
+}
+
+// <input type="datetime-local"> works in local time without a zone; expenses keep ISO timestamps
+const toLocalInput = (iso: string) => {
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+// Now while the day is under way; otherwise midday, to be adjusted
+const defaultPaidAt = (date: string) =>
+  toLocalInput(new Date().toISOString()).slice(0, 10) === date ? new Date().toISOString() : new Date(`${date}T12:00`).toISOString();
+
+// Short description of how an expense is shared, e.g. "split 3 ways"
+const splitSummary = (expense: Expense, travellers: Traveller[]) => {
+  const people = splitParticipants(expense, travellers);
+  if (people.length === 0) return 'not split';
+  if (people.length === 1) return `for ${people[0].name}`;
+  const mode = expense.split?.mode || 'equal';
+  return mode === 'equal' ? `split ${people.length} ways` : `split ${SPLIT_MODE_LABELS[mode].toLowerCase()}`;
+};
+
+const emptyExpense = (date: string, paidBy?: string): Expense => ({
+  id: `expense-${Date.now()}`,
+  amount: 0,
+  category: 'food',
+  paidBy,
+  paidAt: defaultPaidAt(date)
+});
+
+const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-300';
+const labelClass = 'block text-xs font-medium text-gray-500 mb-1';
+
+// What was actually paid on a day, against the plan and the daily budget
+export const ExpenseLog: React.FC<ExpenseLogProps> = ({
+  day,
+  planned,
+  dailyBudget,
+  homeCurrency,
+  rates,
+  travellers,
+  readOnly = false,
+  onChange,
+  onUploadReceipt,
+  onManageTravellers
+}) => {
+  const [draft, setDraft] = useState<Expense | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const expenses = sortExpenses(day.expenses || []);
+  const spent = expenses.reduce((sum, expense) => sum + expenseInYen(expense, rates), 0);
+  const limit = dailyBudget ?? (planned > 0 ? planned : undefined);
+  const spentInHome = inHomeCurrency(spent, homeCurrency, rates);
+  const activityFor = (id?: string) => id ? day.activities.find(act => act.id === id) : undefined;
+  const activityName = (id?: string) => activityFor(id)?.name;
+  const canSave = draft && draft.amount > 0;
+
+  // The draft's split, spelled out; saved back as undefined while it's the default (everyone, equally)
+  const draftSplit: ExpenseSplit = draft?.split || { mode: 'equal', travellerIds: travellers.map(t => t.id) };
+  const setSplit = (changes: Partial<ExpenseSplit>) => {
+    if (!draft) return;
+    const split = { ...draftSplit, ...changes };
+    const isDefault = split.mode === 'equal' && travellers.every(t => split.travellerIds.includes(t.id));
+    setDraft({ ...draft, split: isDefault ? undefined : split });
+  };
+  const toggleParticipant = (id: string) => setSplit({
+    travellerIds: draftSplit.travellerIds.includes(id) ? draftSplit.travellerIds.filter(t => t !== id) : [...draftSplit.travellerIds, id]
+  });
+  const draftShares = draft && draft.amount > 0 ? splitExpense(draft, travellers, activityFor(draft.activityId), rates) : undefined;
+
+  const handleSave = () => {
+    if (!draft || !canSave) return;
+    const saved = { ...draft, description: draft.description?.trim() || undefined };
+    onChange([...expenses.filter(expense => expense.id !== saved.id), saved]);
+    setDraft(null);
+  };
+
+  const handleUpload = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const receipt = await onUploadReceipt(file);
+      if (receipt) setDraft(prev => prev && { ...prev, receipt });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+      <div className="bg-gradient-to-r from-amber-50 to-orange-50 px-4 py-3 border-b border-amber-100 flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center">
+          <Receipt className="w-5 h-5 mr-2 text-amber-600" />
+          <h3 className="text-base font-bold text-gray-800">Spending</h3>
+        </div>
+        <span className="text-sm text-amber-800">
+          <span className="font-bold">¥{spent.toLocaleString()}</span>
+          {spentInHome && <span className="text-amber-600"> ≈ {spentInHome}</span>}
+          {limit !== undefined && <span className="text-amber-600"> of ¥{limit.toLocaleString()} {dailyBudget !== undefined ? 'budget' : 'planned'}</span>}
+        </span>
+      </div>
+
+      <div className="p-4 space-y-2">
+        {limit !== undefined && spent > limit && (
+          <p className="text-xs text-red-600 flex items-center gap-1">
+            <AlertTriangle className="w-3.5 h-3.5" /> ¥{(spent - limit).toLocaleString()} over {dailyBudget !== undefined ? 'the daily budget' : 'the plan'}
+          </p>
+        )}
+
+        {expenses.length === 0 && !draft && (
+          <p className="text-sm text-gray-400 text-center py-2">Nothing logged yet. Add what you pay as you go.</p>
+        )}
+
+        {expenses.filter(expense => expense.id !== draft?.id).map(expense => (
+          <div key={expense.id} className="group flex items-center gap-3 p-2 rounded-lg border border-gray-100 hover:border-amber-200 transition-colors">
+            <span className="text-xs text-gray-400 w-12 shrink-0">{formatTime(expense.paidAt)}</span>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-800 truncate">
+                {expense.description || activityName(expense.activityId) || EXPENSE_CATEGORY_LABELS[expense.category]}
+              </p>
+              <p className="text-xs text-gray-500 truncate">
+                {EXPENSE_CATEGORY_LABELS[expense.category]}
+                {expense.description && activityName(expense.activityId) && ` • ${activityName(expense.activityId)}`}
+                {travellerName(travellers, expense.paidBy) && ` • paid by ${travellerName(travellers, expense.paidBy)}, ${splitSummary(expense, travellers)}`}
+              </p>
+            </div>
+            {expense.receipt && (
+              <a href={expense.receipt.filePath} target="_blank" rel="noopener noreferrer" className="p-1 text-gray-400 hover:text-indigo-600" title="Receipt">
+                <Paperclip className="w-4 h-4" />
+              </a>
+            )}
+            <div className="text-right shrink-0">
+              <p className="text-sm font-bold text-gray-800">{formatMoney(expense.amount, expense.currency)}</p>
+              {!isBaseCurrency(expense.currency) && (
+                <p className="text-[11px] text-gray-400">{expenseInYen(expense, rates) ? `≈ ¥${expenseInYen(expense, rates).toLocaleString()}` : 'no rate'}</p>
+              )}
+            </div>
+            {!readOnly && (
+              <div className="flex gap-1 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => setDraft(expense)} className="p-1 text-gray-400 hover:text-indigo-600" title="Edit">
+                  <Edit2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => confirm('Remove this expense?') && onChange(expenses.filter(e => e.id !== expense.id))}
+                  className="p-1 text-gray-400 hover:text-red-500"
+                  title="Remove"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {draft && (
+          <div className="p-4 rounded-xl border border-amber-200 bg-amber-50/40 space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass}>Amount</label>
+                <div className="flex gap-1">
+                  <select
+                    value={currencyOf(draft.currency)}
+                    onChange={(e) => setDraft({ ...draft, currency: isBaseCurrency(e.target.value) ? undefined : e.target.value })}
+                    className={`${inputClass} w-auto`}
+                  >
+                    {[...new Set([...CURRENCIES, currencyOf(draft.currency)])].map(code => <option key={code} value={code}>{code}</option>)}
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={draft.amount || ''}
+                    onChange={(e) => setDraft({ ...draft, amount: Math.max(0, Number(e.target.value)) })}
+                    className={inputClass}
+                    autoFocus
+                  />
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Category</label>
+                <select
+                  value={draft.category}
+                  onChange={(e) => setDraft({ ...draft, category: e.target.value as Expense['category'] })}
+                  className={inputClass}
+                >
+                  {EXPENSE_CATEGORIES.map(category => <option key={category} value={category}>{EXPENSE_CATEGORY_LABELS[category]}</option>)}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>For</label>
+              <select
+                value={draft.activityId || ''}
+                onChange={(e) => {
+                  const activity = day.activities.find(act => act.id === e.target.value);
+                  // Tickets with tier prices are split by them unless a split was already chosen
+                  const split = activity?.pricing?.priceEntries?.length && !draft.split
+                    ? { mode: 'tiers' as const, travellerIds: travellers.map(t => t.id) }
+                    : draft.split?.mode === 'tiers' && !activity ? undefined : draft.split;
+                  setDraft({ ...draft, activityId: activity?.id, category: activity ? categoryForActivity(activity.type) : draft.category, split });
+                }}
+                className={inputClass}
+              >
+                <option value="">Not tied to an activity</option>
+                {day.activities.map(act => <option key={act.id} value={act.id}>{act.startTime} {act.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Description</label>
+              <input
+                type="text"
+                value={draft.description || ''}
+                placeholder="Optional, e.g. Lunch at the market"
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass}>Paid by</label>
+                <select
+                  value={draft.paidBy || ''}
+                  onChange={(e) => setDraft({ ...draft, paidBy: e.target.value || undefined })}
+                  className={inputClass}
+                >
+                  <option value="">Not recorded</option>
+                  {travellers.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>When</label>
+                <input
+                  type="datetime-local"
+                  value={toLocalInput(draft.paidAt)}
+                  onChange={(e) => e.target.value && setDraft({ ...draft, paidAt: new Date(e.target.value).toISOString() })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            {travellers.length > 0 ? (
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="text-xs font-medium text-gray-500">Split</label>
+                  <select
+                    value={draftSplit.mode}
+                    onChange={(e) => setSplit({ mode: e.target.value as SplitMode })}
+                    className="text-xs border border-gray-200 rounded-md px-1 py-0.5"
+                  >
+                    {(Object.keys(SPLIT_MODE_LABELS) as SplitMode[])
+                      .filter(mode => mode !== 'tiers' || draftSplit.mode === 'tiers' || activityFor(draft.activityId)?.pricing?.priceEntries?.length)
+                      .map(mode => <option key={mode} value={mode}>{SPLIT_MODE_LABELS[mode]}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  {travellers.map(t => {
+                    const included = draftSplit.travellerIds.includes(t.id);
+                    return (
+                      <div key={t.id} className="flex items-center gap-2 text-sm">
+                        <label className="flex items-center gap-2 flex-1 min-w-0">
+                          <input type="checkbox" checked={included} onChange={() => toggleParticipant(t.id)} />
+                          <span className="truncate">{t.name}</span>
+                          {draftSplit.mode === 'tiers' && <span className="text-[11px] text-gray-400">{t.priceTier || (t.age !== undefined ? `age ${t.age}` : DEFAULT_PRICE_TIER)}</span>}
+                        </label>
+                        {included && draftSplit.mode === 'shares' && (
+                          <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={draftSplit.shares?.[t.id] ?? 1}
+                            onChange={(e) => setSplit({ shares: { ...draftSplit.shares, [t.id]: Math.max(0, Number(e.target.value)) } })}
+                            className={`${inputClass} w-20`}
+                            title="Shares"
+                          />
+                        )}
+                        {included && draftSplit.mode === 'exact' && (
+                          <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={draftSplit.amounts?.[t.id] ?? ''}
+                            onChange={(e) => setSplit({ amounts: { ...draftSplit.amounts, [t.id]: Math.max(0, Number(e.target.value)) } })}
+                            className={`${inputClass} w-24`}
+                            title={`Amount in ${currencyOf(draft.currency)}`}
+                          />
+                        )}
+                        {included && draftShares && (
+                          <span className="text-xs text-gray-500 w-16 text-right">¥{(draftShares.parts[t.id] || 0).toLocaleString()}</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+                {draftShares?.problem && (
+                  <p className="text-xs text-amber-600 flex items-center gap-1 mt-1">
+                    <AlertTriangle className="w-3 h-3" /> {draftShares.problem}
+                  </p>
+                )}
+                {draftSplit.travellerIds.length === 0 && <p className="text-xs text-amber-600 mt-1">Pick who it's for, or it's left out of settling up.</p>}
+              </div>
+            ) : (
+              <button onClick={onManageTravellers} className="flex items-center gap-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-800">
+                <Users className="w-3.5 h-3.5" /> Add travellers to record who paid and split costs
+              </button>
+            )}
+            <div>
+              <label className={labelClass}>Receipt</label>
+              {draft.receipt ? (
+                <div className="flex items-center gap-2 text-sm">
+                  <Paperclip className="w-4 h-4 text-gray-400" />
+                  <a href={draft.receipt.filePath} target="_blank" rel="noopener noreferrer" className="flex-1 truncate text-indigo-600 hover:underline">
+                    {draft.receipt.displayName}
+                  </a>
+                  <button onClick={() => setDraft({ ...draft, receipt: undefined })} className="p-1 text-gray-400 hover:text-red-500" title="Detach">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <label className={`flex items-center justify-center gap-2 px-3 py-2 border border-dashed border-gray-300 rounded-lg text-sm text-gray-500 cursor-pointer hover:bg-white ${isUploading ? 'opacity-50 pointer-events-none' : ''}`}>
+                  <Upload className="w-4 h-4" /> {isUploading ? 'Uploading...' : 'Attach a photo or PDF'}
+                  <input
+                    type="file"
+                    accept="image/*,application/pdf"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleUpload(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              )}
+            </div>
+            <div className="flex justify-end gap-2 pt-1">
+              <button onClick={() => setDraft(null)} className="px-3 py-1.5 text-sm font-medium text-gray-500 hover:text-gray-700">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!canSave}
+                className="flex items-center px-4 py-1.5 rounded-lg bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <Save className="w-4 h-4 mr-1.5" /> Save
+              </button>
+            </div>
+          </div>
+        )}
+
+        {!readOnly && !draft && (
+          <button
+            onClick={() => setDraft(emptyExpense(day.date, travellers.length === 1 ? travellers[0].id : undefined))}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-dashed border-amber-300 text-sm font-medium text-amber-700 hover:bg-amber-50"
+          >
+            <Plus className="w-4 h-4" /> Log an expense
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
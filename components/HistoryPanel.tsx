@@ -0,0 +1,174 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Trip, TripOperation, RevisionSummary } from '../types';
+import { History, X, RotateCcw, Loader2 } from 'lucide-react';
+import { listRevisions, fetchRevision } from '../services/tripService';
+import { diffTrips } from '../shared/tripOperations';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  trip: Trip;
+  onClose: () => void;
+  onRestore: (revision: number) => Promise<void>;
+  readOnly?: boolean; // Viewers can browse history but not restore
+}
+
+// Human-readable line for one operation. `current` supplies names for ids.
+const describeOperation = (op: TripOperation, current: Trip, target: Trip): string => {
+  const dayLabel = (dayId: string) => {
+    const day = target.days.find(d => d.id === dayId) || current.days.find(d => d.id === dayId);
+    return day ? `${day.date} (${day.city})` : 'a deleted day';
+  };
+  const activityName = (activityId: string) =>
+    current.days.flatMap(d => d.activities).find(a => a.id === activityId)?.name
+    || target.days.flatMap(d => d.activities).find(a => a.id === activityId)?.name
+    || 'an activity';
+
+  switch (op.type) {
+    case 'add-activity': return `Bring back "${op.activity.name}" on ${dayLabel(op.dayId)}`;
+    case 'update-activity': return `Revert details of "${op.activity.name}"`;
+    case 'delete-activity': return `Remove "${activityName(op.activityId)}" from ${dayLabel(op.dayId)}`;
+    case 'move-activity':
+      return op.fromDayId === op.toDayId
+        ? `Reorder "${activityName(op.activityId)}" on ${dayLabel(op.toDayId)}`
+        : `Move "${activityName(op.activityId)}" to ${dayLabel(op.toDayId)}`;
+    case 'update-day': return `Revert ${Object.keys(op.changes).join(', ')} on ${dayLabel(op.dayId)}`;
+    case 'add-day': return `Bring back day ${op.day.date} (${op.day.city})`;
+    case 'delete-day': return `Remove day ${dayLabel(op.dayId)}`;
+    case 'reorder-days': return 'Restore the previous day order';
+    case 'update-trip':
+      return op.changes.title !== undefined ? `Rename trip to "${op.changes.title}"` : 'Restore the previous trip settings';
+    case 'put-accommodation':
+      return (current.accommodations || []).some(a => a.id === op.accommodation.id)
+        ? `Revert stay at ${op.accommodation.name}`
+        : `Bring back stay at ${op.accommodation.name}`;
+    case 'delete-accommodation':
+      return `Remove stay at ${(current.accommodations || []).find(a => a.id === op.accommodationId)?.name || 'a hotel'}`;
+    case 'put-traveller':
+      return (current.travellers || []).some(t => t.id === op.traveller.id)
+        ? `Revert details of traveller ${op.traveller.name}`
+        : `Bring back traveller ${op.traveller.name}`;
+    case 'delete-traveller':
+      return `Remove traveller ${(current.travellers || []).find(t => t.id === op.travellerId)?.name || 'someone'}`;
+  }
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, trip, onClose, onRestore, readOnly = false }) => {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selected, setSelected] = useState<Trip | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !trip.id) return;
+    setSelected(null);
+    setIsLoading(true);
+    listRevisions(trip.id)
+      .then(setRevisions)
+      .catch(e => console.error('Failed to load history:', e))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, trip.id]);
+
+  // What restoring the selected revision would change, relative to the trip on screen
+  const changes = useMemo(() => {
+    if (!selected) return [];
+    return diffTrips(trip, selected).map(op => describeOperation(op, trip, selected));
+  }, [selected, trip]);
+
+  const handleSelect = async (revision: number) => {
+    if (!trip.id) return;
+    try {
+      setSelected(await fetchRevision(trip.id, revision));
+    } catch (e) {
+      console.error('Failed to load revision:', e);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selected?.revision) return;
+    if (!confirm(`Restore revision ${selected.revision}? Everyone editing this trip will see the restored version.`)) return;
+    setIsRestoring(true);
+    await onRestore(selected.revision);
+    setIsRestoring(false);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[85vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <History className="w-5 h-5 text-indigo-500" /> Version History
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Revision list */}
+          <div className="w-64 border-r border-gray-100 overflow-y-auto">
+            {isLoading && (
+              <div className="flex justify-center py-8"><Loader2 className="w-5 h-5 animate-spin text-indigo-400" /></div>
+            )}
+            {!isLoading && revisions.length === 0 && (
+              <p className="text-sm text-gray-400 text-center py-8">No saved versions yet.</p>
+            )}
+            {revisions.map((rev, idx) => (
+              <button
+                key={rev.revision}
+                onClick={() => handleSelect(rev.revision)}
+                className={`w-full text-left px-4 py-3 border-b border-gray-50 transition-colors ${selected?.revision === rev.revision ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+              >
+                <p className="text-sm font-medium text-gray-800">
+                  Revision {rev.revision}
+                  {idx === 0 && <span className="ml-2 text-[10px] font-bold text-indigo-600 uppercase">Current</span>}
+                </p>
+                <p className="text-xs text-gray-400">{new Date(rev.updatedAt).toLocaleString()}</p>
+                <p className="text-[11px] text-gray-500 mt-0.5">{rev.dayCount} days • {rev.activityCount} stops</p>
+              </button>
+            ))}
+          </div>
+
+          {/* Diff of the selected revision against the current trip */}
+          <div className="flex-1 p-6 overflow-y-auto">
+            {!selected ? (
+              <p className="text-sm text-gray-400 text-center py-8">Select a version to compare it with the current trip.</p>
+            ) : changes.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">This version is identical to the current trip.</p>
+            ) : (
+              <>
+                <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-3">Restoring revision {selected.revision} will</p>
+                <ul className="space-y-1.5">
+                  {changes.map((line, idx) => (
+                    <li key={idx} className="text-sm text-gray-700 flex items-start">
+                      <span className="w-1.5 h-1.5 bg-indigo-400 rounded-full mt-1.5 mr-2 flex-shrink-0"></span>
+                      {line}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleRestore}
+            disabled={!selected || changes.length === 0 || isRestoring || readOnly}
+            className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white rounded-lg shadow-md transition-all bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RotateCcw className="w-4 h-4" /> {isRestoring ? 'Restoring...' : 'Restore This Version'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
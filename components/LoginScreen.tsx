@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Plane, LogIn, Loader2 } from 'lucide-react';
+import { User } from '../types';
+import { login } from '../services/authService';
+
+interface LoginScreenProps {
+  onLogin: (user: User) => void;
+}
+
+export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      onLogin(await login(username, password));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-stone-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden">
+        <div className="px-6 py-5 border-b border-gray-100 flex items-center gap-3">
+          <div className="bg-indigo-600 p-2 rounded-lg text-white">
+            <Plane className="w-5 h-5" />
+          </div>
+          <div>
+            <h1 className="text-lg font-bold text-gray-800">Japan Travel Visualizer</h1>
+            <p className="text-xs text-gray-500">Sign in to see your trips</p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wide mb-1">Username</label>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              autoCapitalize="none"
+              autoFocus
+              className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-100 focus:border-indigo-400"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wide mb-1">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-100 focus:border-indigo-400"
+            />
+          </div>
+          {error && <p className="text-sm text-rose-600">{error}</p>}
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 flex justify-end">
+          <button
+            type="submit"
+            disabled={!username || !password || isSubmitting}
+            className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white rounded-lg shadow-md transition-all bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogIn className="w-4 h-4" />} Sign In
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
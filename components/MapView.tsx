@@ -1,16 +1,26 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { DayPlan } from '../types';
+import { Accommodation, DayPlan, TransferMode } from '../types';
 import { getLoader } from '../services/mapService';
+import { staysForDay, returnSegment } from '../services/accommodations';
 
 declare var google: any;
 
+// Inter-city transfers are drawn dashed, coloured by mode, so they stand out from the day route
+const TRANSFER_COLORS: Record<TransferMode, string> = {
+  TRAIN: '#7c3aed',
+  FLIGHT: '#0284c7',
+  BUS: '#d97706',
+  FERRY: '#0d9488'
+};
+
 interface MapViewProps {
   days: DayPlan[];
+  accommodations?: Accommodation[];
   selectedDayId: string | null;
   focusedActivityId?: string | null;
 }
 
-export const MapView: React.FC<MapViewProps> = React.memo(({ days, selectedDayId, focusedActivityId }) => {
+export const MapView: React.FC<MapViewProps> = React.memo(({ days, accommodations, selectedDayId, focusedActivityId }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<HTMLDivElement | null>(null);
   const [map, setMap] = useState<any | null>(null);
@@ -18,6 +28,7 @@ export const MapView: React.FC<MapViewProps> = React.memo(({ days, selectedDayId
   const [mapError, setMapError] = useState<string | null>(null);
   const markersRef = useRef<{ id: string, marker: any }[]>([]);
   const polylineRef = useRef<any | null>(null);
+  const transferLinesRef = useRef<any[]>([]);
 
   const isOverview = selectedDayId === 'overview';
   const activeDay = days.find(d => d.id === selectedDayId);
@@ -87,6 +98,8 @@ export const MapView: React.FC<MapViewProps> = React.memo(({ days, selectedDayId
         if (polylineRef.current) {
           polylineRef.current.setMap(null);
         }
+        transferLinesRef.current.forEach(line => line.setMap(null));
+        transferLinesRef.current = [];
 
         const points: any[] = [];
         const bounds = new google.maps.LatLngBounds();
@@ -129,7 +142,34 @@ export const MapView: React.FC<MapViewProps> = React.memo(({ days, selectedDayId
           points.push(pos);
         };
 
+        const addHotelMarker = (stay: Accommodation, label: string, onRoute: boolean) => {
+          if (!stay.location) return;
+          const hotelPin = new PinElement({
+            glyphText: "H",
+            background: "#0ea5e9",
+            borderColor: "#0369a1",
+            scale: onRoute ? 1 : 0.8,
+          });
+
+          const hotelMarker = new AdvancedMarkerElement({
+            map,
+            position: stay.location,
+            title: stay.name + " (Stay)",
+            content: hotelPin.element,
+          });
+
+          const infoWindow = new google.maps.InfoWindow({
+            content: `<div style="padding:4px; color:#333"><strong>${stay.name}</strong><br/><span style="font-size:10px; color:#666">${label}</span></div>`
+          });
+          hotelMarker.addListener("click", () => infoWindow.open({ anchor: hotelMarker, map }));
+
+          markersRef.current.push({ id: `hotel-${stay.id}`, marker: hotelMarker });
+          bounds.extend(stay.location);
+          if (onRoute) points.push(stay.location);
+        };
+
         if (isOverview) {
+          (accommodations || []).forEach(stay => addHotelMarker(stay, `${stay.checkInDate} → ${stay.checkOutDate}`, false));
           days.forEach((day, index) => {
             if (day.activities.length > 0) {
               const first = day.activities[0];
@@ -137,34 +177,17 @@ export const MapView: React.FC<MapViewProps> = React.memo(({ days, selectedDayId
             }
           });
         } else if (activeDay) {
-          // Plot Accommodation
-          if (activeDay.accommodation?.location) {
-            const hotelPin = new PinElement({
-              glyphText: "H",
-              background: "#0ea5e9",
-              borderColor: "#0369a1",
-            });
-
-            const hotelMarker = new AdvancedMarkerElement({
-              map,
-              position: activeDay.accommodation.location,
-              title: activeDay.accommodation.name + " (Stay)",
-              content: hotelPin.element,
-            });
-
-            const infoWindow = new google.maps.InfoWindow({
-              content: `<div style="padding:4px; color:#333"><strong>${activeDay.accommodation.name}</strong><br/><span style="font-size:10px; color:#666">Start Point</span></div>`
-            });
-            hotelMarker.addListener("click", () => infoWindow.open({ anchor: hotelMarker, map }));
-
-            markersRef.current.push({ id: 'hotel', marker: hotelMarker });
-            bounds.extend(activeDay.accommodation.location);
-            points.push(activeDay.accommodation.location);
-          }
+          // The day runs from where you woke up to tonight's hotel
+          const { start, end } = staysForDay(accommodations, activeDay.date);
+          if (start) addHotelMarker(start, end && end.id !== start.id ? 'Start Point (check out)' : 'Start Point', true);
 
           activeDay.activities.forEach((act, index) => {
             addMarker(act.location, act.name, act.id, `${index + 1}`);
           });
+
+          if (end && end.id !== start?.id) addHotelMarker(end, 'Check in', true);
+          // Same hotel both ends: close the loop once the way back is planned
+          else if (end?.location && returnSegment(activeDay)) points.push(end.location);
         }
 
         if (points.length > 1) {
@@ -183,9 +206,49 @@ export const MapView: React.FC<MapViewProps> = React.memo(({ days, selectedDayId
           polylineRef.current.setMap(map);
         }
 
+        // Transfers with both ends located; the whole trip in the overview, else just this day
+        (isOverview ? days : activeDay ? [activeDay] : []).forEach(day => {
+          (day.transfers || []).forEach(transfer => {
+            const from = transfer.from.location;
+            const to = transfer.to.location;
+            if (!from || !to) return;
+            const color = TRANSFER_COLORS[transfer.mode];
+            const line = new google.maps.Polyline({
+              path: [from, to],
+              geodesic: true,
+              strokeOpacity: 0,
+              icons: [
+                {
+                  icon: { path: 'M 0,-1 0,1', strokeOpacity: 0.9, strokeColor: color, scale: 3 },
+                  offset: '0',
+                  repeat: '14px'
+                },
+                {
+                  icon: { path: google.maps.SymbolPath.FORWARD_CLOSED_ARROW, scale: 3, strokeColor: color, fillColor: color, fillOpacity: 1 },
+                  offset: '50%'
+                }
+              ],
+              zIndex: 2
+            });
+            line.setMap(map);
+
+            const infoWindow = new google.maps.InfoWindow({
+              content: `<div style="padding:4px; color:#333"><strong>${transfer.carrier || transfer.mode}</strong><br/><span style="font-size:11px; color:#666">${transfer.departureTime} ${transfer.from.name} → ${transfer.arrivalTime} ${transfer.to.name}</span></div>`
+            });
+            line.addListener("click", (e: any) => {
+              infoWindow.setPosition(e.latLng);
+              infoWindow.open({ map });
+            });
+
+            transferLinesRef.current.push(line);
+            bounds.extend(from);
+            bounds.extend(to);
+          });
+        });
+
         if (!bounds.isEmpty()) {
           map.fitBounds(bounds);
-          if (points.length === 1) {
+          if (points.length === 1 && transferLinesRef.current.length === 0) {
             // Wait for idle to avoid fitBounds override
             const listener = google.maps.event.addListener(map, "idle", () => {
               map.setZoom(13);
@@ -202,7 +265,7 @@ export const MapView: React.FC<MapViewProps> = React.memo(({ days, selectedDayId
     };
 
     updateMap();
-  }, [map, isMapLoaded, days, selectedDayId, isOverview, activeDay]);
+  }, [map, isMapLoaded, days, accommodations, selectedDayId, isOverview, activeDay]);
 
   // Handle Focus Effect
   useEffect(() => {
@@ -239,6 +302,9 @@ export const MapView: React.FC<MapViewProps> = React.memo(({ days, selectedDayId
   if (prevProps.selectedDayId !== nextProps.selectedDayId) return false;
   if (prevProps.focusedActivityId !== nextProps.focusedActivityId) return false;
 
+  // Stays are few; compare them whole
+  if (JSON.stringify(prevProps.accommodations) !== JSON.stringify(nextProps.accommodations)) return false;
+
   // Deep compare only map-relevant fields from days
   if (prevProps.days.length !== nextProps.days.length) return false;
 
@@ -251,9 +317,6 @@ export const MapView: React.FC<MapViewProps> = React.memo(({ days, selectedDayId
     if (prevDay.city !== nextDay.city) return false;
     if (prevDay.date !== nextDay.date) return false;
 
-    // Check accommodation
-    if (JSON.stringify(prevDay.accommodation) !== JSON.stringify(nextDay.accommodation)) return false;
-
     // Check activities (but not notes or other non-map fields)
     if (prevDay.activities.length !== nextDay.activities.length) return false;
 
@@ -266,6 +329,9 @@ export const MapView: React.FC<MapViewProps> = React.memo(({ days, selectedDayId
       if (JSON.stringify(prevAct.location) !== JSON.stringify(nextAct.location)) return false;
     }
 
+    // Check inter-city transfers
+    if (JSON.stringify(prevDay.transfers) !== JSON.stringify(nextDay.transfers)) return false;
+
     // Check travel segments
     if (JSON.stringify(prevDay.travelSegments) !== JSON.stringify(nextDay.travelSegments)) return false;
   }
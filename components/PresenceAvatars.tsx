@@ -0,0 +1,51 @@
+import React from 'react';
+import { Collaborator } from '../types';
+
+const AVATAR_COLORS = ['#6366f1', '#ec4899', '#f59e0b', '#10b981', '#0ea5e9', '#8b5cf6', '#ef4444', '#14b8a6'];
+
+// Stable color per collaborator so the same person looks the same in the header, sidebar and cards
+export const collaboratorColor = (seed: string) => {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) hash = (hash * 31 + seed.charCodeAt(i)) | 0;
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+};
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('') || '?';
+
+interface PresenceAvatarsProps {
+  users: Collaborator[];
+  max?: number;
+  size?: 'sm' | 'md';
+}
+
+export const PresenceAvatars: React.FC<PresenceAvatarsProps> = ({ users, max = 4, size = 'md' }) => {
+  if (users.length === 0) return null;
+
+  const visible = users.slice(0, max);
+  const hidden = users.length - visible.length;
+  const dimensions = size === 'sm' ? 'w-5 h-5 text-[8px]' : 'w-7 h-7 text-[10px]';
+
+  return (
+    <div className="flex -space-x-1.5">
+      {visible.map(user => (
+        <div
+          key={user.socketId}
+          className={`${dimensions} rounded-full border-2 border-white flex items-center justify-center font-bold text-white shadow-sm`}
+          style={{ backgroundColor: collaboratorColor(user.name) }}
+          title={user.name}
+        >
+          {initials(user.name)}
+        </div>
+      ))}
+      {hidden > 0 && (
+        <div
+          className={`${dimensions} rounded-full border-2 border-white bg-gray-200 flex items-center justify-center font-bold text-gray-600`}
+          title={users.slice(max).map(u => u.name).join(', ')}
+        >
+          +{hidden}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,187 +1,238 @@
-import React, { useState } from 'react';
-import { Activity, ActivityPricing, PriceEntry } from '../types';
-import { X, ExternalLink, RefreshCw, Wallet, Edit2, Save, Sparkles } from 'lucide-react';
-import { getActivityPricing } from '../services/geminiService';
-
-interface PriceDetailPopupProps {
-    activity: Activity;
-    city: string;
-    onUpdate: (updated: Activity) => void;
-    onClose: () => void;
-}
-
-export const PriceDetailPopup: React.FC<PriceDetailPopupProps> = ({
-    activity,
-    city,
-    onUpdate,
-    onClose
-}) => {
-    const [isLoading, setIsLoading] = useState(false);
-    const [isEditing, setIsEditing] = useState(false);
-    const [editPrice, setEditPrice] = useState<string>(
-        activity.pricing?.basePrice?.toString() || ''
-    );
-
-    const handleFetchPricing = async () => {
-        setIsLoading(true);
-        const pricing = await getActivityPricing(activity.name, city);
-        setIsLoading(false);
-
-        if (pricing) {
-            onUpdate({
-                ...activity,
-                pricing: pricing
-            });
-        }
-    };
-
-    const handleSaveManualPrice = () => {
-        const amount = parseInt(editPrice) || 0;
-        onUpdate({
-            ...activity,
-            pricing: {
-                ...activity.pricing,
-                isFree: amount === 0,
-                basePrice: amount,
-                lastUpdated: new Date().toISOString()
-            }
-        });
-        setIsEditing(false);
-    };
-
-    const pricing = activity.pricing;
-
-    return (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
-            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-200">
-                {/* Header */}
-                <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gradient-to-r from-green-50 to-emerald-50">
-                    <div className="flex items-center gap-2">
-                        <div className="p-2 bg-green-100 rounded-lg">
-                            <Wallet className="w-5 h-5 text-green-600" />
-                        </div>
-                        <div>
-                            <h3 className="font-bold text-gray-800">Pricing Details</h3>
-                            <p className="text-xs text-gray-500 truncate max-w-[200px]">{activity.name}</p>
-                        </div>
-                    </div>
-                    <button
-                        onClick={onClose}
-                        className="p-1.5 hover:bg-white/80 rounded-full transition-colors"
-                    >
-                        <X className="w-5 h-5 text-gray-400" />
-                    </button>
-                </div>
-
-                {/* Content */}
-                <div className="p-6 space-y-4">
-                    {/* Main Price Display */}
-                    <div className="text-center py-4 bg-gray-50 rounded-xl">
-                        {isEditing ? (
-                            <div className="flex items-center justify-center gap-2">
-                                <span className="text-2xl text-gray-400">¥</span>
-                                <input
-                                    type="number"
-                                    value={editPrice}
-                                    onChange={(e) => setEditPrice(e.target.value)}
-                                    className="w-32 text-3xl font-bold text-center border-b-2 border-green-500 bg-transparent outline-none"
-                                    placeholder="0"
-                                    autoFocus
-                                />
-                                <button
-                                    onClick={handleSaveManualPrice}
-                                    className="p-2 bg-green-500 text-white rounded-lg hover:bg-green-600"
-                                >
-                                    <Save className="w-4 h-4" />
-                                </button>
-                            </div>
-                        ) : (
-                            <div>
-                                <p className="text-4xl font-bold text-green-700">
-                                    {pricing?.isFree ? 'Free' : pricing?.basePrice ? `¥${pricing.basePrice.toLocaleString()}` : '¥?'}
-                                </p>
-                                <p className="text-xs text-gray-400 mt-1">
-                                    {pricing?.lastUpdated
-                                        ? `Updated ${new Date(pricing.lastUpdated).toLocaleDateString()}`
-                                        : 'No pricing data yet'}
-                                </p>
-                            </div>
-                        )}
-                    </div>
-
-                    {/* Price Tiers */}
-                    {pricing?.priceEntries && pricing.priceEntries.length > 0 && (
-                        <div className="border rounded-xl overflow-hidden">
-                            <div className="bg-gray-50 px-4 py-2 text-xs font-semibold text-gray-500 uppercase tracking-wide">
-                                Price Tiers
-                            </div>
-                            <div className="divide-y">
-                                {pricing.priceEntries.map((entry: PriceEntry, idx: number) => (
-                                    <div key={idx} className="flex justify-between items-center px-4 py-3">
-                                        <span className="text-gray-700">{entry.label}</span>
-                                        <span className="font-semibold text-green-700">
-                                            {entry.amount === 0 ? 'Free' : `¥${entry.amount.toLocaleString()}`}
-                                        </span>
-                                    </div>
-                                ))}
-                            </div>
-                        </div>
-                    )}
-
-                    {/* Notes */}
-                    {pricing?.priceNotes && (
-                        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
-                            <p className="text-sm text-amber-800">
-                                <span className="font-semibold">💡 Tip:</span> {pricing.priceNotes}
-                            </p>
-                        </div>
-                    )}
-
-                    {/* Official Link */}
-                    {pricing?.priceLink && (
-                        <a
-                            href={pricing.priceLink}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="flex items-center justify-center gap-2 text-sm text-indigo-600 hover:text-indigo-700 py-2"
-                        >
-                            <ExternalLink className="w-4 h-4" />
-                            View Official Pricing
-                        </a>
-                    )}
-                </div>
-
-                {/* Footer Actions */}
-                <div className="px-6 py-4 bg-gray-50 flex justify-between gap-2">
-                    <button
-                        onClick={() => {
-                            setEditPrice(pricing?.basePrice?.toString() || '');
-                            setIsEditing(!isEditing);
-                        }}
-                        className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
-                    >
-                        <Edit2 className="w-4 h-4" />
-                        {isEditing ? 'Cancel' : 'Edit Manually'}
-                    </button>
-                    <button
-                        onClick={handleFetchPricing}
-                        disabled={isLoading}
-                        className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-green-600 hover:bg-green-700 rounded-lg shadow-sm transition-colors disabled:opacity-50"
-                    >
-                        {isLoading ? (
-                            <>
-                                <RefreshCw className="w-4 h-4 animate-spin" />
-                                Fetching...
-                            </>
-                        ) : (
-                            <>
-                                <Sparkles className="w-4 h-4" />
-                                Fetch with AI
-                            </>
-                        )}
-                    </button>
-                </div>
-            </div>
-        </div>
-    );
-};
+import React, { useState } from 'react';
+import { Activity, ExchangeRates, PriceEntry, Traveller } from '../types';
+import { X, ExternalLink, RefreshCw, Wallet, Edit2, Save, Sparkles, AlertTriangle } from 'lucide-react';
+import { getActivityPricing } from '../services/geminiService';
+import { CURRENCIES, currencyOf, formatMoney, isBaseCurrency, rateFor, toYen } from '../services/currency';
+import { partyPrice } from '../services/partyPricing';
+
+interface PriceDetailPopupProps {
+    activity: Activity;
+    city: string;
+    exchangeRates?: ExchangeRates; // Shows prices in other currencies in yen too
+    travellers?: Traveller[];      // Adds what admission comes to for the party
+    onUpdate: (updated: Activity) => void;
+    onClose: () => void;
+}
+
+export const PriceDetailPopup: React.FC<PriceDetailPopupProps> = ({
+    activity,
+    city,
+    exchangeRates,
+    travellers,
+    onUpdate,
+    onClose
+}) => {
+    const [isLoading, setIsLoading] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [editPrice, setEditPrice] = useState<string>(
+        activity.pricing?.basePrice?.toString() || ''
+    );
+    const [editCurrency, setEditCurrency] = useState(currencyOf(activity.pricing?.currency));
+
+    const handleFetchPricing = async () => {
+        setIsLoading(true);
+        const pricing = await getActivityPricing(activity.name, city);
+        setIsLoading(false);
+
+        if (pricing) {
+            onUpdate({
+                ...activity,
+                pricing: pricing
+            });
+        }
+    };
+
+    const handleSaveManualPrice = () => {
+        const amount = Math.max(0, parseFloat(editPrice) || 0);
+        onUpdate({
+            ...activity,
+            pricing: {
+                ...activity.pricing,
+                isFree: amount === 0,
+                basePrice: amount,
+                currency: isBaseCurrency(editCurrency) ? undefined : editCurrency,
+                lastUpdated: new Date().toISOString()
+            }
+        });
+        setIsEditing(false);
+    };
+
+    const pricing = activity.pricing;
+    // Tiers fetched with the price are in its currency unless they say otherwise
+    const entryCurrency = (entry: PriceEntry) => entry.currency || pricing?.currency;
+    const party = travellers?.length && pricing && !pricing.isFree ? partyPrice(pricing, travellers, exchangeRates) : undefined;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-200">
+                {/* Header */}
+                <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gradient-to-r from-green-50 to-emerald-50">
+                    <div className="flex items-center gap-2">
+                        <div className="p-2 bg-green-100 rounded-lg">
+                            <Wallet className="w-5 h-5 text-green-600" />
+                        </div>
+                        <div>
+                            <h3 className="font-bold text-gray-800">Pricing Details</h3>
+                            <p className="text-xs text-gray-500 truncate max-w-[200px]">{activity.name}</p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 hover:bg-white/80 rounded-full transition-colors"
+                    >
+                        <X className="w-5 h-5 text-gray-400" />
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="p-6 space-y-4">
+                    {/* Main Price Display */}
+                    <div className="text-center py-4 bg-gray-50 rounded-xl">
+                        {isEditing ? (
+                            <div className="flex items-center justify-center gap-2">
+                                <select
+                                    value={editCurrency}
+                                    onChange={(e) => setEditCurrency(e.target.value)}
+                                    className="text-sm text-gray-500 bg-transparent border border-gray-200 rounded px-1 py-1"
+                                >
+                                    {[...new Set([...CURRENCIES, editCurrency])].map(code => <option key={code} value={code}>{code}</option>)}
+                                </select>
+                                <input
+                                    type="number"
+                                    value={editPrice}
+                                    onChange={(e) => setEditPrice(e.target.value)}
+                                    className="w-32 text-3xl font-bold text-center border-b-2 border-green-500 bg-transparent outline-none"
+                                    placeholder="0"
+                                    autoFocus
+                                />
+                                <button
+                                    onClick={handleSaveManualPrice}
+                                    className="p-2 bg-green-500 text-white rounded-lg hover:bg-green-600"
+                                >
+                                    <Save className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ) : (
+                            <div>
+                                <p className="text-4xl font-bold text-green-700">
+                                    {pricing?.isFree ? 'Free' : pricing?.basePrice ? formatMoney(pricing.basePrice, pricing.currency) : '¥?'}
+                                </p>
+                                {!pricing?.isFree && pricing?.basePrice && !isBaseCurrency(pricing.currency) ? (
+                                    <p className="text-sm text-green-600 mt-1">
+                                        {rateFor(pricing.currency, exchangeRates)
+                                            ? `≈ ¥${toYen(pricing.basePrice, pricing.currency, exchangeRates).toLocaleString()}`
+                                            : `No ${currencyOf(pricing.currency)} exchange rate yet; set one in the trip's currencies`}
+                                    </p>
+                                ) : null}
+                                <p className="text-xs text-gray-400 mt-1">
+                                    {pricing?.lastUpdated
+                                        ? `Updated ${new Date(pricing.lastUpdated).toLocaleDateString()}`
+                                        : 'No pricing data yet'}
+                                </p>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Price Tiers */}
+                    {pricing?.priceEntries && pricing.priceEntries.length > 0 && (
+                        <div className="border rounded-xl overflow-hidden">
+                            <div className="bg-gray-50 px-4 py-2 text-xs font-semibold text-gray-500 uppercase tracking-wide">
+                                Price Tiers
+                            </div>
+                            <div className="divide-y">
+                                {pricing.priceEntries.map((entry: PriceEntry, idx: number) => (
+                                    <div key={idx} className="flex justify-between items-center px-4 py-3">
+                                        <span className="text-gray-700">{entry.label}</span>
+                                        <span className="font-semibold text-green-700">
+                                            {entry.amount === 0 ? 'Free' : formatMoney(entry.amount, entryCurrency(entry))}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Party Total */}
+                    {party && (
+                        <div className="border rounded-xl overflow-hidden">
+                            <div className="bg-gray-50 px-4 py-2 flex justify-between text-xs font-semibold text-gray-500 uppercase tracking-wide">
+                                <span>For Your Party</span>
+                                <span className="text-green-700">¥{party.total.toLocaleString()}</span>
+                            </div>
+                            <div className="divide-y">
+                                {party.prices.map(({ traveller, entry, yen }) => (
+                                    <div key={traveller.id} className="flex justify-between items-center px-4 py-2 text-sm">
+                                        <span className="text-gray-700">
+                                            {traveller.name}
+                                            <span className="text-xs text-gray-400"> • {entry ? entry.label : party.unmatched.includes(traveller) ? 'no matching tier' : 'standard price'}</span>
+                                        </span>
+                                        <span className={party.unmatched.includes(traveller) ? 'font-semibold text-amber-600' : 'text-gray-600'}>¥{yen.toLocaleString()}</span>
+                                    </div>
+                                ))}
+                            </div>
+                            {party.unmatched.length > 0 && (
+                                <p className="px-4 py-2 text-xs text-amber-700 bg-amber-50 flex items-center gap-1">
+                                    <AlertTriangle className="w-3 h-3 shrink-0" /> No tier fits {party.unmatched.map(t => t.name).join(', ')}; the main price is counted. Check the official prices.
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Notes */}
+                    {pricing?.priceNotes && (
+                        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+                            <p className="text-sm text-amber-800">
+                                <span className="font-semibold">💡 Tip:</span> {pricing.priceNotes}
+                            </p>
+                        </div>
+                    )}
+
+                    {/* Official Link */}
+                    {pricing?.priceLink && (
+                        <a
+                            href={pricing.priceLink}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center justify-center gap-2 text-sm text-indigo-600 hover:text-indigo-700 py-2"
+                        >
+                            <ExternalLink className="w-4 h-4" />
+                            View Official Pricing
+                        </a>
+                    )}
+                </div>
+
+                {/* Footer Actions */}
+                <div className="px-6 py-4 bg-gray-50 flex justify-between gap-2">
+                    <button
+                        onClick={() => {
+                            setEditPrice(pricing?.basePrice?.toString() || '');
+                            setEditCurrency(currencyOf(pricing?.currency));
+                            setIsEditing(!isEditing);
+                        }}
+                        className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+                    >
+                        <Edit2 className="w-4 h-4" />
+                        {isEditing ? 'Cancel' : 'Edit Manually'}
+                    </button>
+                    <button
+                        onClick={handleFetchPricing}
+                        disabled={isLoading}
+                        className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-green-600 hover:bg-green-700 rounded-lg shadow-sm transition-colors disabled:opacity-50"
+                    >
+                        {isLoading ? (
+                            <>
+                                <RefreshCw className="w-4 h-4 animate-spin" />
+                                Fetching...
+                            </>
+                        ) : (
+                            <>
+                                <Sparkles className="w-4 h-4" />
+                                Fetch with AI
+                            </>
+                        )}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,125 +1,230 @@
-
-import React, { forwardRef } from 'react';
-import { Trip, DayPlan, Activity } from '../types';
-import { MapPin, Clock, Wallet, Info } from 'lucide-react';
-
-interface PrintLayoutProps {
-    trip: Trip;
-}
-
-export const PrintLayout = forwardRef<HTMLDivElement, PrintLayoutProps>(({ trip }, ref) => {
-    // Helper to calculate total cost
-    const calculateTotalCost = () => {
-        let total = 0;
-        trip.days.forEach(day => {
-            day.activities.forEach(act => total += (act.pricing?.basePrice || 0));
-            day.travelSegments?.forEach(seg => total += (seg.transitFare || 0));
-        });
-        return total;
-    };
-
-    return (
-        <div ref={ref} className="print-container p-8 font-sans text-gray-900 bg-white">
-            {/* COVER PAGE */}
-            <div className="min-h-screen flex flex-col items-center justify-center text-center break-after-page">
-                <h1 className="text-5xl font-bold mb-4 text-indigo-900">{trip.title}</h1>
-                <div className="text-xl text-gray-600 mb-8">
-                    {trip.days.length} Days • {trip.days[0]?.city} Start
-                </div>
-
-                <div className="border-t border-b border-gray-200 py-8 px-12 w-full max-w-2xl">
-                    <div className="grid grid-cols-3 gap-8 text-center">
-                        <div>
-                            <span className="block text-sm text-gray-500 uppercase tracking-wide">Total Days</span>
-                            <span className="block text-3xl font-bold">{trip.days.length}</span>
-                        </div>
-                        <div>
-                            <span className="block text-sm text-gray-500 uppercase tracking-wide">Est. Budget</span>
-                            <span className="block text-3xl font-bold">¥{calculateTotalCost().toLocaleString()}</span>
-                        </div>
-                        <div>
-                            <span className="block text-sm text-gray-500 uppercase tracking-wide">Stops</span>
-                            <span className="block text-3xl font-bold">
-                                {trip.days.reduce((acc, d) => acc + d.activities.length, 0)}
-                            </span>
-                        </div>
-                    </div>
-                </div>
-
-                <div className="mt-12 text-sm text-gray-400">
-                    Generated by Japan Travel Visualizer
-                </div>
-            </div>
-
-            {/* DAYS */}
-            {trip.days.map((day, index) => (
-                <div key={day.id} className="break-before-page mb-8">
-                    <div className="border-b-2 border-indigo-900 pb-4 mb-6 flex justify-between items-end">
-                        <div>
-                            <h2 className="text-3xl font-bold text-indigo-900">Day {index + 1}: {day.city}</h2>
-                            <p className="text-gray-500 text-lg">{new Date(day.date).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}</p>
-                        </div>
-                        {day.accommodation?.name && (
-                            <div className="text-right text-sm">
-                                <span className="block text-gray-400 uppercase text-xs">Accommodation</span>
-                                <span className="font-semibold text-indigo-700">{day.accommodation.name}</span>
-                            </div>
-                        )}
-                    </div>
-
-                    {day.notes && (
-                        <div className="mb-6 bg-yellow-50 p-4 rounded-lg border border-yellow-100 text-sm italic text-gray-700">
-                            <strong>📝 Notes:</strong> {day.notes}
-                        </div>
-                    )}
-
-                    <div className="space-y-6">
-                        {day.activities.map((act) => (
-                            <div key={act.id} className="break-inside-avoid flex gap-4 p-4 border border-gray-200 rounded-xl">
-                                <div className="w-20 shrink-0 text-center pt-1">
-                                    <div className="text-lg font-bold text-gray-900 leading-none">{act.startTime}</div>
-                                    <div className="text-xs text-gray-400 mt-1">to {act.endTime}</div>
-                                </div>
-
-                                <div className="flex-1">
-                                    <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
-                                        {act.name}
-                                        {act.pricing && (
-                                            <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${act.pricing.isFree ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
-                                                {act.pricing.isFree ? 'Free' : `¥${act.pricing.basePrice?.toLocaleString()}`}
-                                            </span>
-                                        )}
-                                    </h3>
-                                    <p className="text-sm text-gray-600 mb-2">{act.description}</p>
-
-                                    <div className="flex items-center gap-4 text-xs text-gray-500">
-                                        {act.location?.lat && (
-                                            <span className="flex items-center gap-1">
-                                                <MapPin className="w-3 h-3" />
-                                                {act.location.lat.toFixed(4)}, {act.location.lng.toFixed(4)}
-                                            </span>
-                                        )}
-                                        {act.durationReasoning && (
-                                            <span className="flex items-center gap-1">
-                                                <Clock className="w-3 h-3" />
-                                                {act.durationReasoning}
-                                            </span>
-                                        )}
-                                    </div>
-
-                                    {/* Address/Notes if available would go here */}
-                                </div>
-                            </div>
-                        ))}
-                    </div>
-
-                    {day.travelSegments && day.travelSegments.length > 0 && (
-                        <div className="mt-6 pt-4 border-t border-gray-100 text-xs text-gray-400">
-                            <strong>Estimated Travel Costs today:</strong> ¥{day.travelSegments.reduce((sum, s) => sum + (s.transitFare || 0), 0).toLocaleString()}
-                        </div>
-                    )}
-                </div>
-            ))}
-        </div>
-    );
-});
+
+import React, { forwardRef } from 'react';
+import { Trip, DayPlan, Activity, TravelSegment, FarePaymentMethod } from '../types';
+import { MapPin, Clock, Wallet, Info, AlertTriangle } from 'lucide-react';
+import { TransitLegList, describeTransfers } from './TravelSegmentView';
+import { segmentFare } from '../services/railPass';
+import { TRANSFER_MODE_LABELS } from '../services/transfers';
+import { lodgingTotal, staysForDay, returnSegment, backAtHotelTime } from '../services/accommodations';
+import { formatMoney, inHomeCurrency } from '../services/currency';
+import { describeParty, partyPrice, partyPriceInYen, partyTransitCost } from '../services/partyPricing';
+
+interface PrintLayoutProps {
+    trip: Trip;
+}
+
+interface SegmentDirectionsProps {
+    segment: TravelSegment;
+    fromName?: string;
+    toName?: string;
+    farePayment?: FarePaymentMethod;
+}
+
+// How to get to the next place: the full itinerary, since paper can't be expanded
+const SegmentDirections: React.FC<SegmentDirectionsProps> = ({ segment, fromName, toName, farePayment }) => (
+    <div className="break-inside-avoid pl-24 text-xs text-gray-500">
+        <p className="font-semibold text-gray-600 mb-1">
+            {segment.mode === 'WALKING' ? 'Walk' : segment.mode === 'BUS' ? 'Bus' : segment.mode === 'TRAIN' ? 'Train' : 'Transit'}
+            {' • '}{segment.duration}
+            {segmentFare(segment, farePayment) > 0 ? ` • ¥${segmentFare(segment, farePayment).toLocaleString()}` : ''}
+            {describeTransfers(segment) ? ` • ${describeTransfers(segment)}` : ''}
+        </p>
+        {segment.serviceWarning && (
+            <p className="flex items-center gap-1 text-amber-700 mb-1"><AlertTriangle className="w-3 h-3" /> {segment.serviceWarning}</p>
+        )}
+        {segment.legs && segment.legs.length > 0 && (
+            <TransitLegList legs={segment.legs} fromName={fromName} toName={toName} farePayment={farePayment} />
+        )}
+    </div>
+);
+
+export const PrintLayout = forwardRef<HTMLDivElement, PrintLayoutProps>(({ trip }, ref) => {
+    const farePayment = trip.settings?.farePayment;
+    const rates = trip.settings?.exchangeRates;
+    const travellers = trip.travellers || [];
+
+    // Helper to calculate total cost, in yen
+    const calculateTotalCost = () => {
+        let total = 0;
+        trip.days.forEach(day => {
+            day.activities.forEach(act => total += partyPriceInYen(act.pricing, travellers, rates));
+            const transit = partyTransitCost(day, travellers, farePayment, rates);
+            total += transit.fares + transit.transfers;
+        });
+        return total + lodgingTotal(trip.accommodations, rates);
+    };
+    const totalCost = calculateTotalCost();
+    const totalInHome = inHomeCurrency(totalCost, trip.settings?.homeCurrency, rates);
+
+    return (
+        <div ref={ref} className="print-container p-8 font-sans text-gray-900 bg-white">
+            {/* COVER PAGE */}
+            <div className="min-h-screen flex flex-col items-center justify-center text-center break-after-page">
+                <h1 className="text-5xl font-bold mb-4 text-indigo-900">{trip.title}</h1>
+                <div className="text-xl text-gray-600 mb-8">
+                    {trip.days.length} Days • {trip.days[0]?.city} Start
+                </div>
+
+                <div className="border-t border-b border-gray-200 py-8 px-12 w-full max-w-2xl">
+                    <div className="grid grid-cols-3 gap-8 text-center">
+                        <div>
+                            <span className="block text-sm text-gray-500 uppercase tracking-wide">Total Days</span>
+                            <span className="block text-3xl font-bold">{trip.days.length}</span>
+                        </div>
+                        <div>
+                            <span className="block text-sm text-gray-500 uppercase tracking-wide">Est. Budget</span>
+                            <span className="block text-3xl font-bold">¥{totalCost.toLocaleString()}</span>
+                            {totalInHome && <span className="block text-sm text-gray-500">≈ {totalInHome}</span>}
+                            {travellers.length > 0 && <span className="block text-xs text-gray-400">for {describeParty(travellers)}</span>}
+                        </div>
+                        <div>
+                            <span className="block text-sm text-gray-500 uppercase tracking-wide">Stops</span>
+                            <span className="block text-3xl font-bold">
+                                {trip.days.reduce((acc, d) => acc + d.activities.length, 0)}
+                            </span>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="mt-12 text-sm text-gray-400">
+                    Generated by Japan Travel Visualizer
+                </div>
+            </div>
+
+            {/* DAYS */}
+            {trip.days.map((day, index) => {
+                const stays = staysForDay(trip.accommodations, day.date);
+                const back = returnSegment(day);
+                return (
+                    <div key={day.id} className="break-before-page mb-8">
+                        <div className="border-b-2 border-indigo-900 pb-4 mb-6 flex justify-between items-end">
+                            <div>
+                                <h2 className="text-3xl font-bold text-indigo-900">Day {index + 1}: {day.city}</h2>
+                                <p className="text-gray-500 text-lg">{new Date(day.date).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}</p>
+                            </div>
+                            {stays.end && (
+                                <div className="text-right text-sm">
+                                    <span className="block text-gray-400 uppercase text-xs">Accommodation</span>
+                                    <span className="font-semibold text-indigo-700">{stays.end.name}</span>
+                                    {stays.checkIn && (
+                                        <span className="block text-xs text-gray-500">
+                                            Check in{stays.checkIn.checkInTime && ` from ${stays.checkIn.checkInTime}`}
+                                            {stays.checkIn.confirmation && ` • Ref ${stays.checkIn.confirmation}`}
+                                        </span>
+                                    )}
+                                    {stays.end.address && <span className="block text-xs text-gray-500">{stays.end.address}</span>}
+                                </div>
+                            )}
+                        </div>
+
+                        {day.notes && (
+                            <div className="mb-6 bg-yellow-50 p-4 rounded-lg border border-yellow-100 text-sm italic text-gray-700">
+                                <strong>📝 Notes:</strong> {day.notes}
+                            </div>
+                        )}
+
+                        {/* Tickets to show at the gate */}
+                        {day.transfers && day.transfers.length > 0 && (
+                            <div className="mb-6 break-inside-avoid border border-violet-200 rounded-lg divide-y divide-violet-100 text-sm">
+                                {day.transfers.map(transfer => (
+                                    <div key={transfer.id} className="flex justify-between gap-4 p-3">
+                                        <div>
+                                            <p className="font-bold text-violet-900">
+                                                {transfer.departureTime} {transfer.from.name} → {transfer.arrivalTime} {transfer.to.name}
+                                            </p>
+                                            <p className="text-xs text-gray-500">
+                                                {transfer.carrier || TRANSFER_MODE_LABELS[transfer.mode]}
+                                                {transfer.notes ? ` • ${transfer.notes}` : ''}
+                                            </p>
+                                        </div>
+                                        <div className="text-right text-xs text-gray-600 shrink-0">
+                                            {transfer.reservation?.car && <p>Car {transfer.reservation.car}</p>}
+                                            {transfer.reservation?.seat && <p>Seat {transfer.reservation.seat}</p>}
+                                            {transfer.reservation?.confirmation && <p className="font-mono">{transfer.reservation.confirmation}</p>}
+                                            {transfer.cost ? <p>{formatMoney(transfer.cost, transfer.currency)}</p> : null}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        <div className="space-y-6">
+                            {day.activities.map((act, actIndex) => {
+                                const segment = day.travelSegments?.find(s => s.toId === act.id);
+                                const fromName = segment?.fromId === 'start'
+                                    ? stays.start?.name
+                                    : day.activities.find(a => a.id === segment?.fromId)?.name
+                                    || day.transfers?.find(t => t.id === segment?.fromId)?.to.name;
+                                const admission = partyPrice(act.pricing, travellers, rates);
+                                return (
+                                    <React.Fragment key={act.id}>
+                                        {segment && (
+                                            <SegmentDirections segment={segment} fromName={fromName || (actIndex === 0 ? 'Start' : undefined)} toName={act.name} farePayment={farePayment} />
+                                        )}
+                                        <div className="break-inside-avoid flex gap-4 p-4 border border-gray-200 rounded-xl">
+                                            <div className="w-20 shrink-0 text-center pt-1">
+                                                <div className="text-lg font-bold text-gray-900 leading-none">{act.startTime}</div>
+                                                <div className="text-xs text-gray-400 mt-1">to {act.endTime}</div>
+                                            </div>
+
+                                            <div className="flex-1">
+                                                <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+                                                    {act.name}
+                                                    {act.pricing && (
+                                                        <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${act.pricing.isFree ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                                                            {act.pricing.isFree ? 'Free' : formatMoney(act.pricing.basePrice || 0, act.pricing.currency)}
+                                                            {!act.pricing.isFree && travellers.length > 1 && ` • ¥${admission.total.toLocaleString()} for all`}
+                                                        </span>
+                                                    )}
+                                                    {admission.unmatched.length > 0 && (
+                                                        <span className="text-xs text-amber-700 flex items-center gap-1 font-normal">
+                                                            <AlertTriangle className="w-3 h-3" /> Check the price for {admission.unmatched.map(t => t.name).join(', ')}
+                                                        </span>
+                                                    )}
+                                                </h3>
+                                                <p className="text-sm text-gray-600 mb-2">{act.description}</p>
+
+                                                <div className="flex items-center gap-4 text-xs text-gray-500">
+                                                    {act.location?.lat && (
+                                                        <span className="flex items-center gap-1">
+                                                            <MapPin className="w-3 h-3" />
+                                                            {act.location.lat.toFixed(4)}, {act.location.lng.toFixed(4)}
+                                                        </span>
+                                                    )}
+                                                    {act.durationReasoning && (
+                                                        <span className="flex items-center gap-1">
+                                                            <Clock className="w-3 h-3" />
+                                                            {act.durationReasoning}
+                                                        </span>
+                                                    )}
+                                                </div>
+
+                                                {/* Address/Notes if available would go here */}
+                                            </div>
+                                        </div>
+                                    </React.Fragment>
+                                );
+                            })}
+
+                            {/* The way back to the hotel */}
+                            {back && stays.end && (
+                                <>
+                                    <SegmentDirections segment={back} fromName={day.activities[day.activities.length - 1].name} toName={stays.end.name} farePayment={farePayment} />
+                                    <p className="pl-24 text-sm text-gray-600">
+                                        Back at <strong>{stays.end.name}</strong> around {backAtHotelTime(day)}
+                                    </p>
+                                </>
+                            )}
+                        </div>
+
+                        {day.travelSegments && day.travelSegments.length > 0 && (
+                            <div className="mt-6 pt-4 border-t border-gray-100 text-xs text-gray-400">
+                                <strong>Estimated Travel Costs today:</strong> ¥{partyTransitCost(day, travellers, farePayment, rates).fares.toLocaleString()}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+});
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { Users, X, Trash2, UserPlus, Link2, Copy, Check } from 'lucide-react';
+import { TripAccess, TripMember, TripRole, User, ShareLink } from '../types';
+import { setTripMember, removeTripMember } from '../services/tripService';
+import { listShareLinks, createShareLink, revokeShareLink, shareUrl } from '../services/shareService';
+
+interface ShareDialogProps {
+  isOpen: boolean;
+  tripId: string;
+  access: TripAccess;
+  currentUser: User | null;
+  onClose: () => void;
+  onMembersChange: (members: TripMember[]) => void;
+}
+
+const ROLE_LABELS: Record<TripRole, string> = {
+  owner: 'Owner',
+  editor: 'Can edit',
+  viewer: 'Can view'
+};
+
+export const ShareDialog: React.FC<ShareDialogProps> = ({ isOpen, tripId, access, currentUser, onClose, onMembersChange }) => {
+  const [username, setUsername] = useState('');
+  const [role, setRole] = useState<TripRole>('editor');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [showAttachments, setShowAttachments] = useState(false);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+
+  const isOwner = access.role === 'owner';
+
+  // Only owners can see or manage public links
+  useEffect(() => {
+    if (!isOpen || !isOwner) return;
+    listShareLinks(tripId)
+      .then(setLinks)
+      .catch(e => console.error('Failed to load share links:', e));
+  }, [isOpen, isOwner, tripId]);
+
+  if (!isOpen) return null;
+
+  const run = async <T,>(action: () => Promise<T>, onDone: (result: T) => void) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      onDone(await action());
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong');
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!username.trim()) return;
+    if (await run(() => setTripMember(tripId, username.trim(), role), onMembersChange)) setUsername('');
+  };
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      setCopiedToken(token);
+      setTimeout(() => setCopiedToken(current => current === token ? null : current), 2000);
+    } catch {
+      prompt('Copy this link:', shareUrl(token));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <Users className="w-5 h-5 text-indigo-500" /> Share Trip
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {access.authEnabled && (
+            <>
+              <ul className="divide-y divide-gray-100">
+                {access.members.map(member => (
+                  <li key={member.id} className="flex items-center justify-between py-2 gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-800 truncate">
+                        {member.displayName}
+                        {member.id === currentUser?.id && <span className="ml-1 text-xs text-gray-400">(you)</span>}
+                      </p>
+                      <p className="text-[11px] text-gray-400">@{member.username}</p>
+                    </div>
+                    {isOwner ? (
+                      <div className="flex items-center gap-1 shrink-0">
+                        <select
+                          value={member.role}
+                          disabled={isBusy}
+                          onChange={(e) => run(() => setTripMember(tripId, member.username, e.target.value as TripRole), onMembersChange)}
+                          className="text-xs border border-gray-200 rounded-lg px-2 py-1 bg-white"
+                        >
+                          {(Object.keys(ROLE_LABELS) as TripRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                        </select>
+                        <button
+                          onClick={() => run(() => removeTripMember(tripId, member.id), onMembersChange)}
+                          disabled={isBusy}
+                          className="p-1.5 text-gray-300 hover:text-red-500 transition-colors"
+                          title="Remove from trip"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    ) : (
+                      <span className="text-xs text-gray-500 shrink-0">{ROLE_LABELS[member.role]}</span>
+                    )}
+                  </li>
+                ))}
+                {access.members.length === 0 && (
+                  <li className="py-2 text-sm text-gray-400">Only admins can see this trip so far.</li>
+                )}
+              </ul>
+
+              {isOwner && (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                    placeholder="Username"
+                    autoCapitalize="none"
+                    className="flex-1 text-sm border border-gray-200 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-100 focus:border-indigo-400"
+                  />
+                  <select
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as TripRole)}
+                    className="text-sm border border-gray-200 rounded-lg px-2 py-1.5 bg-white"
+                  >
+                    {(Object.keys(ROLE_LABELS) as TripRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                  </select>
+                  <button
+                    onClick={handleAdd}
+                    disabled={!username.trim() || isBusy}
+                    className="p-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                    title="Add person"
+                  >
+                    <UserPlus className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+
+          {isOwner && (
+            <div className={access.authEnabled ? 'pt-4 border-t border-gray-100' : ''}>
+              <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2 flex items-center gap-1">
+                <Link2 className="w-3.5 h-3.5" /> Public links
+              </h4>
+              <p className="text-xs text-gray-500 mb-3">Anyone with a link can view the days, map and stats without signing in. They cannot make changes.</p>
+
+              <ul className="space-y-2 mb-3">
+                {links.map(link => (
+                  <li key={link.token} className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-mono text-gray-700 truncate">{shareUrl(link.token)}</p>
+                      <p className="text-[11px] text-gray-400">
+                        {new Date(link.createdAt).toLocaleDateString()} • {link.showAttachments ? 'includes PDFs' : 'no PDFs'}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleCopy(link.token)}
+                      className="p-1.5 text-gray-400 hover:text-indigo-600 transition-colors"
+                      title="Copy link"
+                    >
+                      {copiedToken === link.token ? <Check className="w-3.5 h-3.5 text-green-600" /> : <Copy className="w-3.5 h-3.5" />}
+                    </button>
+                    <button
+                      onClick={() => run(() => revokeShareLink(tripId, link.token), setLinks)}
+                      disabled={isBusy}
+                      className="p-1.5 text-gray-300 hover:text-red-500 transition-colors"
+                      title="Revoke link"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={showAttachments}
+                    onChange={(e) => setShowAttachments(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  Include PDF attachments
+                </label>
+                <button
+                  onClick={() => run(() => createShareLink(tripId, showAttachments), setLinks)}
+                  disabled={isBusy}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                >
+                  <Link2 className="w-3.5 h-3.5" /> Create link
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!access.authEnabled && !isOwner && (
+            <p className="text-sm text-gray-400">Only the trip owner can share it.</p>
+          )}
+
+          {error && <p className="text-sm text-rose-600">{error}</p>}
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { Plane, List, Map, BarChart3, Clock, MapPin, StickyNote, FileText, ExternalLink, Loader2, Link2Off, Eye } from 'lucide-react';
+import { ViewMode } from '../types';
+import { useSharedTrip } from '../hooks/useSharedTrip';
+import { MapView } from './MapView';
+import { StatsView } from './StatsView';
+import { TransferBanner } from './TransferEditor';
+import { stayForNight } from '../services/accommodations';
+
+interface SharedTripViewProps {
+  token: string;
+}
+
+// Read-only page served at /share/:token for people without an account
+export const SharedTripView: React.FC<SharedTripViewProps> = ({ token }) => {
+  const { trip, status, isConnected } = useSharedTrip(token);
+  const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.List);
+  const [selectedDayId, setSelectedDayId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (trip) document.title = trip.title;
+  }, [trip?.title]);
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Loader2 className="w-6 h-6 animate-spin text-indigo-400" />
+      </div>
+    );
+  }
+
+  if (!trip) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8 max-w-sm text-center">
+          <Link2Off className="w-8 h-8 text-gray-300 mx-auto mb-3" />
+          <h1 className="text-lg font-bold text-gray-800">
+            {status === 'revoked' ? 'This link is no longer valid' : 'Could not load this trip'}
+          </h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {status === 'revoked' ? 'Ask the trip owner for a new link.' : 'Check your connection and try again.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Selecting a day narrows the list and the map to it; selecting it again shows the whole trip
+  const visibleDays = selectedDayId ? trip.days.filter(d => d.id === selectedDayId) : trip.days;
+  const tabClass = (mode: ViewMode) =>
+    `flex items-center px-3 py-1.5 rounded-md text-sm font-medium transition-all ${viewMode === mode ? 'bg-white shadow text-indigo-600' : 'text-gray-500 hover:text-gray-700'}`;
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-50">
+      <header className="bg-white border-b border-gray-200 px-6 py-3 flex items-center justify-between shrink-0">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="bg-indigo-600 p-2 rounded-lg text-white shrink-0">
+            <Plane className="w-5 h-5" />
+          </div>
+          <div className="min-w-0">
+            <h1 className="text-lg font-bold text-gray-900 truncate">{trip.title}</h1>
+            <p className="text-[11px] text-gray-400 flex items-center gap-1">
+              <Eye className="w-3 h-3" /> View only
+              <span className={`ml-1 w-1.5 h-1.5 rounded-full ${isConnected ? 'bg-green-500' : 'bg-gray-300'}`} title={isConnected ? 'Live' : 'Offline'}></span>
+            </p>
+          </div>
+        </div>
+
+        <div className="flex bg-gray-100 p-1 rounded-lg">
+          <button onClick={() => setViewMode(ViewMode.List)} className={tabClass(ViewMode.List)}>
+            <List className="w-4 h-4 mr-2" /> Days
+          </button>
+          <button onClick={() => setViewMode(ViewMode.Map)} className={tabClass(ViewMode.Map)}>
+            <Map className="w-4 h-4 mr-2" /> Map
+          </button>
+          <button onClick={() => setViewMode(ViewMode.Stats)} className={tabClass(ViewMode.Stats)}>
+            <BarChart3 className="w-4 h-4 mr-2" /> Stats
+          </button>
+        </div>
+      </header>
+
+      <div className="bg-white border-b border-gray-200 px-6 py-2 flex gap-2 overflow-x-auto shrink-0">
+        {trip.days.map((day, index) => (
+          <button
+            key={day.id}
+            onClick={() => setSelectedDayId(id => id === day.id ? null : day.id)}
+            className={`px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap transition-colors ${selectedDayId === day.id ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+          >
+            Day {index + 1} • {day.city}
+          </button>
+        ))}
+      </div>
+
+      <main className="flex-1 overflow-y-auto">
+        {viewMode === ViewMode.List && (
+          <div className="max-w-2xl mx-auto p-4 space-y-6">
+            {visibleDays.map(day => (
+              <section key={day.id} className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden">
+                <div className="px-4 py-3 border-b border-gray-100">
+                  <h2 className="font-bold text-gray-800">{day.city}</h2>
+                  <p className="text-xs text-gray-500">
+                    {new Date(day.date).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}
+                    {stayForNight(trip.accommodations, day.date) && ` • Staying at ${stayForNight(trip.accommodations, day.date)!.name}`}
+                  </p>
+                </div>
+
+                {day.transfers && day.transfers.length > 0 && (
+                  <div className="px-4">
+                    {day.transfers.map(transfer => <TransferBanner key={transfer.id} transfer={transfer} />)}
+                  </div>
+                )}
+
+                <ul className="divide-y divide-gray-50">
+                  {day.activities.map(activity => (
+                    <li key={activity.id} className="px-4 py-3 flex gap-3">
+                      {activity.imageUrl && (
+                        <img src={activity.imageUrl} alt="" className="w-14 h-14 rounded-lg object-cover shrink-0" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-800">{activity.name}</p>
+                        <p className="text-xs text-gray-500 flex items-center gap-1">
+                          <Clock className="w-3 h-3" /> {activity.startTime} – {activity.endTime}
+                        </p>
+                        {activity.description && <p className="text-sm text-gray-600 mt-1">{activity.description}</p>}
+                      </div>
+                    </li>
+                  ))}
+                  {day.activities.length === 0 && (
+                    <li className="px-4 py-3 text-sm text-gray-400 flex items-center gap-1">
+                      <MapPin className="w-3.5 h-3.5" /> Nothing planned yet.
+                    </li>
+                  )}
+                </ul>
+
+                {day.notes && (
+                  <div className="px-4 py-3 bg-amber-50/50 border-t border-gray-100 text-sm text-gray-700 whitespace-pre-wrap flex gap-2">
+                    <StickyNote className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" /> {day.notes}
+                  </div>
+                )}
+
+                {/* Only present when the owner shared attachments with this link */}
+                {day.attachments && day.attachments.length > 0 && (
+                  <div className="px-4 py-3 border-t border-gray-100 space-y-2">
+                    {day.attachments.map(pdf => (
+                      <a
+                        key={pdf.id}
+                        href={pdf.filePath}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-2 text-sm text-gray-700 hover:text-indigo-600 transition-colors"
+                      >
+                        <FileText className="w-4 h-4 text-red-500" />
+                        <span className="truncate">{pdf.displayName}</span>
+                        <ExternalLink className="w-3 h-3 text-gray-400" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </section>
+            ))}
+          </div>
+        )}
+
+        {viewMode === ViewMode.Map && (
+          <div className="w-full h-full relative bg-gray-100">
+            <MapView days={trip.days} accommodations={trip.accommodations} selectedDayId={selectedDayId} />
+          </div>
+        )}
+
+        {viewMode === ViewMode.Stats && (
+          <div className="w-full h-full p-4">
+            <div className="max-w-4xl mx-auto h-full">
+              <StatsView
+                days={trip.days}
+                accommodations={trip.accommodations}
+                farePayment={trip.settings?.farePayment}
+                homeCurrency={trip.settings?.homeCurrency}
+                exchangeRates={trip.settings?.exchangeRates}
+                travellers={trip.travellers}
+              />
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -1,13 +1,71 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, BarChart, Bar, XAxis, YAxis } from 'recharts';
-import { DayPlan } from '../types';
-import { Wallet, TrendingUp, Calendar, Ticket } from 'lucide-react';
+import { Accommodation, DayPlan, ExchangeRates, FarePaymentMethod, Traveller, TripBudget } from '../types';
+import { Wallet, TrendingUp, Calendar, Ticket, TrainFront, ArrowRight, BedDouble, Coins, AlertTriangle, Receipt, Edit2, Save, Users, HandCoins } from 'lucide-react';
+import { analyseRailPasses, PASS_PRICES_AS_OF } from '../services/railPass';
+import { transferTotals, transferDurationMins, TRANSFER_MODE_LABELS } from '../services/transfers';
+import { transferIcon } from './TransferEditor';
+import { lodgingTotal, nightlyCostOn, stayCostInYen, stayNights } from '../services/accommodations';
+import { currenciesWithoutRate, formatMoney, inHomeCurrency, isBaseCurrency, tripCurrencies } from '../services/currency';
+import { CurrencySettings } from './CurrencySettings';
+import { EXPENSE_CATEGORIES, EXPENSE_CATEGORY_LABELS, SpendComparison, budgetReport, expenseInYen } from '../services/expenses';
+import { settleUp } from '../services/expenseSplit';
+import { describeParty, partyPrice, partySize, partyTransitCost, travellerDescription } from '../services/partyPricing';
 
 interface StatsViewProps {
   days: DayPlan[];
+  accommodations?: Accommodation[];
+  farePayment?: FarePaymentMethod;
+  onFarePaymentChange?: (method: FarePaymentMethod) => void; // Omitted when read-only
+  homeCurrency?: string;
+  exchangeRates?: ExchangeRates;
+  onCurrencyChange?: (homeCurrency: string, rates: ExchangeRates | undefined) => void; // Omitted when read-only
+  budget?: TripBudget;
+  onBudgetChange?: (budget: TripBudget | undefined) => void; // Omitted when read-only
+  travellers?: Traveller[];
+  onManageTravellers?: () => void; // Omitted when read-only
 }
 
-export const StatsView: React.FC<StatsViewProps> = ({ days }) => {
+const formatShortDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// Amount input for the budget editor; empty means no limit
+const parseBudget = (value: string) => value === '' ? undefined : Math.max(0, Math.round(Number(value)));
+
+// Drops empty parts so an unset budget isn't stored at all
+const cleanBudget = (budget: TripBudget): TripBudget | undefined => {
+  const byCategory = Object.fromEntries(Object.entries(budget.byCategory || {}).filter(([, amount]) => amount !== undefined));
+  const cleaned: TripBudget = {
+    ...(budget.daily !== undefined && { daily: budget.daily }),
+    ...(Object.keys(byCategory).length > 0 && { byCategory })
+  };
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+};
+
+const overspendText = (row: SpendComparison) =>
+  `¥${row.overBy.toLocaleString()} over ${row.against === 'budget' ? 'budget' : 'plan'}`;
+
+export const StatsView: React.FC<StatsViewProps> = ({
+  days,
+  accommodations = [],
+  farePayment = 'ticket',
+  onFarePaymentChange,
+  homeCurrency,
+  exchangeRates,
+  onCurrencyChange,
+  budget,
+  onBudgetChange,
+  travellers = [],
+  onManageTravellers
+}) => {
+  const [isCurrencyOpen, setIsCurrencyOpen] = useState(false);
+  const [budgetDraft, setBudgetDraft] = useState<TripBudget | null>(null);
+
+  // Totals are in yen; this adds the home-currency figure when there is one
+  const inHome = (yen: number) => inHomeCurrency(yen, homeCurrency, exchangeRates);
+  const usedCurrencies = tripCurrencies({ days, accommodations });
+  const missingRates = currenciesWithoutRate(usedCurrencies, exchangeRates);
+
   // Aggregate activity data
   const typeCount: Record<string, number> = {};
   let totalActivities = 0;
@@ -16,18 +74,22 @@ export const StatsView: React.FC<StatsViewProps> = ({ days }) => {
   // Expense tracking
   let totalExpenses = 0;
   const expenseByType: Record<string, number> = {};
-  const dailyExpenses: { name: string; city: string; expenses: number; transit: number }[] = [];
+  const dailyExpenses: { name: string; city: string; expenses: number; transit: number; transfers: number; lodging: number }[] = [];
+  // Admission with no price tier for someone in the party; the main price stands in for theirs
+  const pricesToCheck: { day: DayPlan; activityId: string; name: string; travellers: string }[] = [];
 
   days.forEach(day => {
     let dayExpense = 0;
-    let dayTransit = 0;
 
     day.activities.forEach(act => {
       typeCount[act.type] = (typeCount[act.type] || 0) + 1;
       totalActivities++;
 
-      const price = act.pricing?.basePrice || 0;
-      if (act.pricing?.isFree || price === 0) {
+      const { total: price, unmatched } = partyPrice(act.pricing, travellers, exchangeRates);
+      if (unmatched.length > 0) {
+        pricesToCheck.push({ day, activityId: act.id, name: act.name, travellers: unmatched.map(travellerDescription).join(', ') });
+      }
+      if (act.pricing?.isFree || !act.pricing?.basePrice) {
         freeActivities++;
       }
 
@@ -36,21 +98,27 @@ export const StatsView: React.FC<StatsViewProps> = ({ days }) => {
       expenseByType[act.type] = (expenseByType[act.type] || 0) + price;
     });
 
-    // Add transit costs
-    (day.travelSegments || []).forEach(seg => {
-      const fare = seg.transitFare || 0;
-      dayTransit += fare;
-      totalExpenses += fare;
-    });
+    // Add transit fares and inter-city tickets for the whole party
+    const { fares: dayTransit, transfers: dayTransfers } = partyTransitCost(day, travellers, farePayment, exchangeRates);
+    totalExpenses += dayTransit + dayTransfers;
+
+    // Tonight's hotel; whole-stay totals below also count nights outside the planned days
+    const dayLodging = nightlyCostOn(accommodations, day.date, exchangeRates);
 
     dailyExpenses.push({
       name: day.date.substring(5), // MM-DD
       city: day.city,
       expenses: dayExpense,
-      transit: dayTransit
+      transit: dayTransit,
+      transfers: dayTransfers,
+      lodging: dayLodging
     });
   });
 
+  const totalLodging = lodgingTotal(accommodations, exchangeRates);
+  const totalNights = accommodations.reduce((sum, stay) => sum + stayNights(stay), 0);
+  totalExpenses += totalLodging;
+
   const pieData = Object.keys(typeCount).map(type => ({
     name: type.charAt(0).toUpperCase() + type.slice(1),
     value: typeCount[type]
@@ -66,11 +134,24 @@ export const StatsView: React.FC<StatsViewProps> = ({ days }) => {
   const COLORS = ['#818cf8', '#f472b6', '#34d399', '#fbbf24', '#60a5fa'];
   const EXPENSE_COLORS = ['#10b981', '#059669', '#047857', '#065f46', '#064e3b'];
 
+  const spending = budgetReport(days, accommodations, budget, farePayment, exchangeRates, travellers);
+  const overspentDays = spending.days.filter(row => row.overBy > 0);
+  const overspentCategories = spending.categories.filter(row => row.overBy > 0);
+  const settlement = settleUp(days, travellers, exchangeRates);
+  const unassignedTotal = settlement.unassigned.reduce((sum, expense) => sum + expenseInYen(expense, exchangeRates), 0);
+
+  const transfers = transferTotals(days, exchangeRates);
+  const transferTickets = transfers.cost * partySize(travellers); // Fares are per person
+  const railPasses = analyseRailPasses(days, farePayment, exchangeRates);
+  // Passes that cover at least one planned ride, best value first
+  const shownPasses = railPasses.passes.filter(p => p.coveredFare > 0).slice(0, 5);
+
   // Calculate stats
   const averagePerDay = days.length > 0 ? Math.round(totalExpenses / days.length) : 0;
+  const dayTotal = (day: typeof dailyExpenses[number]) => day.expenses + day.transit + day.transfers + day.lodging;
   const mostExpensiveDay = dailyExpenses.reduce((max, day) =>
-    (day.expenses + day.transit) > (max.expenses + max.transit) ? day : max,
-    { name: '', city: '', expenses: 0, transit: 0 }
+    dayTotal(day) > dayTotal(max) ? day : max,
+    { name: '', city: '', expenses: 0, transit: 0, transfers: 0, lodging: 0 }
   );
 
   return (
@@ -79,29 +160,420 @@ export const StatsView: React.FC<StatsViewProps> = ({ days }) => {
 
       {/* Budget Overview Card */}
       <div className="bg-gradient-to-r from-green-50 to-emerald-50 p-6 rounded-xl border border-green-200">
-        <div className="flex items-center gap-2 mb-4">
-          <Wallet className="w-6 h-6 text-green-600" />
-          <h3 className="font-bold text-green-900 text-lg">Budget Overview</h3>
+        <div className="flex items-center justify-between gap-4 mb-4 flex-wrap">
+          <div className="flex items-center gap-2">
+            <Wallet className="w-6 h-6 text-green-600" />
+            <h3 className="font-bold text-green-900 text-lg">Budget Overview</h3>
+          </div>
+          <button
+            onClick={() => setIsCurrencyOpen(true)}
+            disabled={!onCurrencyChange}
+            className="flex items-center gap-1.5 px-3 py-1 bg-white border border-green-200 rounded-lg text-xs font-medium text-green-700 hover:bg-green-50 disabled:hover:bg-white"
+          >
+            <Coins className="w-3.5 h-3.5" /> {isBaseCurrency(homeCurrency) ? 'Currencies' : `Home: ${homeCurrency}`}
+          </button>
         </div>
+        {missingRates.length > 0 && (
+          <p className="text-xs text-amber-700 flex items-center gap-1 mb-3">
+            <AlertTriangle className="w-3.5 h-3.5" /> No exchange rate for {missingRates.join(', ')}; those prices are left out of the totals.
+          </p>
+        )}
+        <p className="text-xs text-green-700 mb-3">
+          {travellers.length > 0
+            ? <>Admission is counted for {describeParty(travellers)}, at each traveller's price tier.</>
+            : <>Admission is counted for one adult. Add the travellers to price tickets for everyone.</>}
+        </p>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div className="bg-white/60 p-4 rounded-lg">
             <p className="text-xs text-green-600 uppercase tracking-wide">Total Estimated</p>
             <p className="text-2xl font-bold text-green-900">¥{totalExpenses.toLocaleString()}</p>
+            {inHome(totalExpenses) && <p className="text-xs text-green-600">≈ {inHome(totalExpenses)}</p>}
           </div>
           <div className="bg-white/60 p-4 rounded-lg">
             <p className="text-xs text-green-600 uppercase tracking-wide">Per Day Average</p>
             <p className="text-2xl font-bold text-green-900">¥{averagePerDay.toLocaleString()}</p>
+            {inHome(averagePerDay) && <p className="text-xs text-green-600">≈ {inHome(averagePerDay)}</p>}
           </div>
           <div className="bg-white/60 p-4 rounded-lg">
             <p className="text-xs text-green-600 uppercase tracking-wide">Most Expensive Day</p>
             <p className="text-lg font-bold text-green-900">{mostExpensiveDay.city || '-'}</p>
-            <p className="text-xs text-green-600">¥{(mostExpensiveDay.expenses + mostExpensiveDay.transit).toLocaleString()}</p>
+            <p className="text-xs text-green-600">¥{dayTotal(mostExpensiveDay).toLocaleString()}</p>
           </div>
           <div className="bg-white/60 p-4 rounded-lg">
             <p className="text-xs text-green-600 uppercase tracking-wide">Free Activities</p>
             <p className="text-2xl font-bold text-green-900">{freeActivities}</p>
           </div>
         </div>
+        {pricesToCheck.length > 0 && (
+          <div className="mt-4 bg-white/60 p-4 rounded-lg">
+            <p className="text-sm font-semibold text-amber-800 flex items-center gap-1.5 mb-2">
+              <AlertTriangle className="w-4 h-4" /> Prices to check
+            </p>
+            <ul className="space-y-1 text-xs text-gray-700">
+              {pricesToCheck.map(item => (
+                <li key={item.activityId}>
+                  <span className="text-gray-400">{formatShortDate(item.day.date)}</span> {item.name}: no price tier fits {item.travellers}; the main price is counted
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {/* Budget vs. Actual */}
+      {(spending.expenseCount > 0 || budget || onBudgetChange) && (
+        <div className="p-6 rounded-xl border border-amber-200 bg-amber-50/50">
+          <div className="flex items-center justify-between gap-4 mb-4 flex-wrap">
+            <div className="flex items-center gap-2">
+              <Receipt className="w-6 h-6 text-amber-600" />
+              <h3 className="font-bold text-amber-900 text-lg">Budget vs. Actual</h3>
+            </div>
+            {onBudgetChange && !budgetDraft && (
+              <button
+                onClick={() => setBudgetDraft(budget || {})}
+                className="flex items-center gap-1.5 px-3 py-1 bg-white border border-amber-200 rounded-lg text-xs font-medium text-amber-700 hover:bg-amber-50"
+              >
+                <Edit2 className="w-3.5 h-3.5" /> {budget ? 'Edit budget' : 'Set a budget'}
+              </button>
+            )}
+          </div>
+
+          {budgetDraft && (
+            <div className="bg-white/70 p-4 rounded-lg mb-4 space-y-3">
+              <p className="text-xs text-gray-500">Amounts in yen. Leave a field empty for no limit; without a budget, spending is compared with the plan.</p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <label className="text-xs font-medium text-gray-600">
+                  Per day
+                  <input
+                    type="number"
+                    min={0}
+                    value={budgetDraft.daily ?? ''}
+                    onChange={(e) => setBudgetDraft({ ...budgetDraft, daily: parseBudget(e.target.value) })}
+                    className="mt-1 w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-300"
+                  />
+                </label>
+                {EXPENSE_CATEGORIES.map(category => (
+                  <label key={category} className="text-xs font-medium text-gray-600">
+                    {EXPENSE_CATEGORY_LABELS[category]} (trip)
+                    <input
+                      type="number"
+                      min={0}
+                      value={budgetDraft.byCategory?.[category] ?? ''}
+                      onChange={(e) => setBudgetDraft({ ...budgetDraft, byCategory: { ...budgetDraft.byCategory, [category]: parseBudget(e.target.value) } })}
+                      className="mt-1 w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-300"
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setBudgetDraft(null)} className="px-3 py-1.5 text-sm font-medium text-gray-500 hover:text-gray-700">
+                  Cancel
+                </button>
+                <button
+                  onClick={() => {
+                    onBudgetChange?.(cleanBudget(budgetDraft));
+                    setBudgetDraft(null);
+                  }}
+                  className="flex items-center px-4 py-1.5 rounded-lg bg-amber-600 text-white text-sm font-bold hover:bg-amber-700"
+                >
+                  <Save className="w-4 h-4 mr-1.5" /> Save
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4 mb-4">
+            <div className="bg-white/60 p-4 rounded-lg">
+              <p className="text-xs text-amber-600 uppercase tracking-wide">Planned</p>
+              <p className="text-2xl font-bold text-amber-900">¥{spending.total.planned.toLocaleString()}</p>
+              {inHome(spending.total.planned) && <p className="text-xs text-amber-600">≈ {inHome(spending.total.planned)}</p>}
+            </div>
+            <div className="bg-white/60 p-4 rounded-lg">
+              <p className="text-xs text-amber-600 uppercase tracking-wide">Spent</p>
+              <p className={`text-2xl font-bold ${spending.total.overBy > 0 ? 'text-red-700' : 'text-amber-900'}`}>¥{spending.total.actual.toLocaleString()}</p>
+              <p className="text-xs text-amber-600">
+                {spending.expenseCount} expense{spending.expenseCount === 1 ? '' : 's'}
+                {inHome(spending.total.actual) && ` • ≈ ${inHome(spending.total.actual)}`}
+              </p>
+            </div>
+            <div className="bg-white/60 p-4 rounded-lg">
+              <p className="text-xs text-amber-600 uppercase tracking-wide">Budget</p>
+              <p className="text-2xl font-bold text-amber-900">{spending.total.budget !== undefined ? `¥${spending.total.budget.toLocaleString()}` : '-'}</p>
+              {budget?.daily !== undefined && <p className="text-xs text-amber-600">¥{budget.daily.toLocaleString()} a day</p>}
+            </div>
+          </div>
+
+          {(overspentCategories.length > 0 || overspentDays.length > 0) && (
+            <ul className="mb-4 space-y-1 text-sm text-red-700">
+              {overspentCategories.map(row => (
+                <li key={row.category} className="flex items-center gap-1.5">
+                  <AlertTriangle className="w-4 h-4 shrink-0" /> {EXPENSE_CATEGORY_LABELS[row.category]}: {overspendText(row)} for the trip
+                </li>
+              ))}
+              {overspentDays.map(row => (
+                <li key={row.day.id} className="flex items-center gap-1.5">
+                  <AlertTriangle className="w-4 h-4 shrink-0" /> {formatShortDate(row.day.date)} in {row.day.city}: {overspendText(row)}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {spending.categories.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-amber-600 uppercase tracking-wide">
+                  <th className="py-1 font-semibold">Category</th>
+                  <th className="py-1 font-semibold text-right">Planned</th>
+                  <th className="py-1 font-semibold text-right">Budget</th>
+                  <th className="py-1 font-semibold text-right">Spent</th>
+                  <th className="py-1 font-semibold w-1/4 pl-4">Used</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-amber-100">
+                {spending.categories.map(row => {
+                  const limit = row.against === 'budget' ? row.budget! : row.planned;
+                  const used = limit > 0 ? Math.min(100, Math.round(row.actual / limit * 100)) : row.actual > 0 ? 100 : 0;
+                  return (
+                    <tr key={row.category}>
+                      <td className="py-2 font-medium text-gray-800">{EXPENSE_CATEGORY_LABELS[row.category]}</td>
+                      <td className="py-2 text-right text-gray-600">¥{row.planned.toLocaleString()}</td>
+                      <td className="py-2 text-right text-gray-600">{row.budget !== undefined ? `¥${row.budget.toLocaleString()}` : '-'}</td>
+                      <td className={`py-2 text-right font-bold ${row.overBy > 0 ? 'text-red-700' : 'text-gray-800'}`}>¥{row.actual.toLocaleString()}</td>
+                      <td className="py-2 pl-4">
+                        {row.against && (
+                          <div className="h-2 bg-white rounded-full overflow-hidden border border-amber-100">
+                            <div className={`h-full ${row.overBy > 0 ? 'bg-red-500' : 'bg-amber-400'}`} style={{ width: `${used}%` }} />
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500">Nothing planned or spent yet. Log expenses on each day as you travel.</p>
+          )}
+        </div>
+      )}
+
+      {/* Settle Up */}
+      {(onManageTravellers || (travellers.length > 0 && spending.expenseCount > 0)) && (
+        <div className="p-6 rounded-xl border border-rose-200 bg-rose-50/50">
+          <div className="flex items-center justify-between gap-4 mb-4 flex-wrap">
+            <div className="flex items-center gap-2">
+              <HandCoins className="w-6 h-6 text-rose-600" />
+              <h3 className="font-bold text-rose-900 text-lg">Settle Up</h3>
+            </div>
+            {onManageTravellers && (
+              <button
+                onClick={onManageTravellers}
+                className="flex items-center gap-1.5 px-3 py-1 bg-white border border-rose-200 rounded-lg text-xs font-medium text-rose-700 hover:bg-rose-50"
+              >
+                <Users className="w-3.5 h-3.5" /> Travellers
+              </button>
+            )}
+          </div>
+
+          {travellers.length === 0 ? (
+            <p className="text-sm text-gray-500">Add the people on the trip to see who owes whom.</p>
+          ) : (
+            <>
+              <table className="w-full text-sm mb-4">
+                <thead>
+                  <tr className="text-left text-xs text-rose-600 uppercase tracking-wide">
+                    <th className="py-1 font-semibold">Traveller</th>
+                    <th className="py-1 font-semibold text-right">Paid</th>
+                    <th className="py-1 font-semibold text-right">Share</th>
+                    <th className="py-1 font-semibold text-right">Balance</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-rose-100">
+                  {settlement.balances.map(({ traveller, paid, owed, net }) => (
+                    <tr key={traveller.id}>
+                      <td className="py-2 font-medium text-gray-800">{traveller.name}</td>
+                      <td className="py-2 text-right text-gray-600">¥{paid.toLocaleString()}</td>
+                      <td className="py-2 text-right text-gray-600">¥{owed.toLocaleString()}</td>
+                      <td className={`py-2 text-right font-bold ${net > 0 ? 'text-green-700' : net < 0 ? 'text-red-700' : 'text-gray-400'}`}>
+                        {net > 0 ? '+' : net < 0 ? '−' : ''}¥{Math.abs(net).toLocaleString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {settlement.settlements.length > 0 ? (
+                <ul className="space-y-1 text-sm">
+                  {settlement.settlements.map(({ from, to, amount }) => (
+                    <li key={`${from.id}-${to.id}`} className="flex items-center gap-2 bg-white/60 px-3 py-2 rounded-lg">
+                      <span className="font-medium text-gray-800">{from.name}</span>
+                      <ArrowRight className="w-4 h-4 text-rose-400" />
+                      <span className="font-medium text-gray-800 flex-1">{to.name}</span>
+                      <span className="font-bold text-rose-900">¥{amount.toLocaleString()}</span>
+                      {inHome(amount) && <span className="text-xs text-rose-600">≈ {inHome(amount)}</span>}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500">{spending.expenseCount > 0 ? 'Everyone is square.' : 'Nothing to settle yet.'}</p>
+              )}
+
+              {settlement.unassigned.length > 0 && (
+                <p className="text-xs text-amber-700 flex items-center gap-1 mt-3">
+                  <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                  {settlement.unassigned.length} expense{settlement.unassigned.length === 1 ? '' : 's'} (¥{unassignedTotal.toLocaleString()}) {settlement.unassigned.length === 1 ? 'has' : 'have'} no payer or nobody to split between, so {settlement.unassigned.length === 1 ? "it's" : "they're"} left out.
+                </p>
+              )}
+              {settlement.problems.map(({ expense, problem }) => (
+                <p key={expense.id} className="text-xs text-amber-700 flex items-center gap-1 mt-1">
+                  <AlertTriangle className="w-3.5 h-3.5 shrink-0" /> {expense.description || formatMoney(expense.amount, expense.currency)}: {problem}
+                </p>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Lodging */}
+      {accommodations.length > 0 && (
+        <div className="p-6 rounded-xl border border-sky-200 bg-sky-50/50">
+          <div className="flex items-center justify-between gap-4 mb-4 flex-wrap">
+            <div className="flex items-center gap-2">
+              <BedDouble className="w-6 h-6 text-sky-600" />
+              <h3 className="font-bold text-sky-900 text-lg">Lodging</h3>
+            </div>
+            <p className="text-sm text-sky-800">
+              <span className="font-bold">¥{totalLodging.toLocaleString()}</span>
+              {inHome(totalLodging) && <span className="text-sky-600"> (≈ {inHome(totalLodging)})</span>} for {totalNights} night{totalNights === 1 ? '' : 's'}
+              {totalNights > 0 && totalLodging > 0 && <span className="text-sky-600"> • ¥{Math.round(totalLodging / totalNights).toLocaleString()} average</span>}
+            </p>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-sky-600 uppercase tracking-wide">
+                <th className="py-1 font-semibold">Stay</th>
+                <th className="py-1 font-semibold">Dates</th>
+                <th className="py-1 font-semibold text-right">Per night</th>
+                <th className="py-1 font-semibold text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-sky-100">
+              {accommodations.map(stay => (
+                <tr key={stay.id}>
+                  <td className="py-2 font-medium text-gray-800">{stay.name}</td>
+                  <td className="py-2 text-gray-600">
+                    {formatShortDate(stay.checkInDate)} – {formatShortDate(stay.checkOutDate)}
+                    <span className="text-xs text-gray-400"> ({stayNights(stay)} night{stayNights(stay) === 1 ? '' : 's'})</span>
+                  </td>
+                  <td className="py-2 text-right text-gray-600">{stay.nightlyPrice ? formatMoney(stay.nightlyPrice, stay.currency) : '-'}</td>
+                  <td className="py-2 text-right font-bold text-gray-800">{stay.nightlyPrice ? `¥${stayCostInYen(stay, exchangeRates).toLocaleString()}` : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Inter-city Travel */}
+      {transfers.count > 0 && (
+        <div className="p-6 rounded-xl border border-violet-200 bg-violet-50/50">
+          <div className="flex items-center gap-2 mb-4">
+            <ArrowRight className="w-6 h-6 text-violet-600" />
+            <h3 className="font-bold text-violet-900 text-lg">Inter-city Travel</h3>
+          </div>
+          <div className="grid grid-cols-3 gap-4 mb-4">
+            <div className="bg-white/60 p-4 rounded-lg">
+              <p className="text-xs text-violet-600 uppercase tracking-wide">Transfers</p>
+              <p className="text-2xl font-bold text-violet-900">{transfers.count}</p>
+              <p className="text-xs text-violet-600">
+                {Object.entries(transfers.byMode).map(([mode, count]) => `${count} ${TRANSFER_MODE_LABELS[mode as keyof typeof TRANSFER_MODE_LABELS].toLowerCase()}`).join(', ')}
+              </p>
+            </div>
+            <div className="bg-white/60 p-4 rounded-lg">
+              <p className="text-xs text-violet-600 uppercase tracking-wide">Time Travelling</p>
+              <p className="text-2xl font-bold text-violet-900">{Math.floor(transfers.minutes / 60)}h {(transfers.minutes % 60).toString().padStart(2, '0')}m</p>
+            </div>
+            <div className="bg-white/60 p-4 rounded-lg">
+              <p className="text-xs text-violet-600 uppercase tracking-wide">Tickets</p>
+              <p className="text-2xl font-bold text-violet-900">¥{transferTickets.toLocaleString()}</p>
+              {inHome(transferTickets) && <p className="text-xs text-violet-600">≈ {inHome(transferTickets)}</p>}
+            </div>
+          </div>
+          <ul className="space-y-1 text-sm">
+            {days.flatMap(day => (day.transfers || []).map(transfer => (
+              <li key={transfer.id} className="flex items-center gap-2 text-gray-700">
+                {transferIcon(transfer.mode, 'w-4 h-4 text-violet-500 shrink-0')}
+                <span className="text-gray-400 w-14 shrink-0">{formatShortDate(day.date)}</span>
+                <span className="flex-1 truncate">{transfer.from.name} → {transfer.to.name}</span>
+                <span className="text-gray-500 text-xs">{transferDurationMins(transfer)} min</span>
+                {transfer.cost ? <span className="text-gray-600 text-xs w-20 text-right">{formatMoney(transfer.cost, transfer.currency)}</span> : <span className="w-20"></span>}
+              </li>
+            )))}
+          </ul>
+        </div>
+      )}
+
+      {/* Rail Pass Break-even */}
+      <div className="p-6 rounded-xl border border-blue-200 bg-blue-50/50">
+        <div className="flex items-center justify-between gap-4 mb-4 flex-wrap">
+          <div className="flex items-center gap-2">
+            <TrainFront className="w-6 h-6 text-blue-600" />
+            <h3 className="font-bold text-blue-900 text-lg">Transit & Rail Passes</h3>
+          </div>
+          <div className="flex bg-white border border-blue-100 p-0.5 rounded-lg text-xs font-medium">
+            {(['ticket', 'ic'] as const).map(method => (
+              <button
+                key={method}
+                onClick={() => onFarePaymentChange?.(method)}
+                disabled={!onFarePaymentChange}
+                className={`px-3 py-1 rounded-md transition-colors ${farePayment === method ? 'bg-blue-600 text-white' : 'text-blue-700 hover:bg-blue-50 disabled:hover:bg-transparent'}`}
+              >
+                {method === 'ic' ? 'IC card' : 'Paper tickets'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <p className="text-sm text-blue-800 mb-3">
+          Planned transit fares per person: <span className="font-bold">¥{railPasses.totalTransitFare.toLocaleString()}</span>
+          {' '}paying by {farePayment === 'ic' ? 'IC card' : 'paper ticket'}.
+        </p>
+
+        {shownPasses.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-blue-600 uppercase tracking-wide">
+                <th className="py-1 font-semibold">Pass</th>
+                <th className="py-1 font-semibold">Best dates</th>
+                <th className="py-1 font-semibold text-right">Fares covered</th>
+                <th className="py-1 font-semibold text-right">Price</th>
+                <th className="py-1 font-semibold text-right">Verdict</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-blue-100">
+              {shownPasses.map(({ pass, startDate, endDate, coveredFare, savings, legCount }) => (
+                <tr key={pass.id}>
+                  <td className="py-2 font-medium text-gray-800">{pass.name}</td>
+                  <td className="py-2 text-gray-600">
+                    {startDate && endDate && (pass.days === 1 ? formatShortDate(startDate) : `${formatShortDate(startDate)} – ${formatShortDate(endDate)}`)}
+                  </td>
+                  <td className="py-2 text-right text-gray-600">¥{coveredFare.toLocaleString()} <span className="text-xs text-gray-400">({legCount} rides)</span></td>
+                  <td className="py-2 text-right text-gray-600">¥{pass.price.toLocaleString()}</td>
+                  <td className={`py-2 text-right font-bold ${savings > 0 ? 'text-green-700' : 'text-gray-400'}`}>
+                    {savings > 0 ? `Saves ¥${savings.toLocaleString()}` : `¥${(-savings).toLocaleString()} short`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-gray-500">No JR rides planned yet. Optimize a day's route to get train details.</p>
+        )}
+
+        <p className="text-[11px] text-blue-500 mt-3">
+          Adult prices as of {PASS_PRICES_AS_OF}; only JR (and included private) rides on the planned routes count.
+          {railPasses.segmentsWithoutLegs > 0 && ` ${railPasses.segmentsWithoutLegs} older transit leg${railPasses.segmentsWithoutLegs === 1 ? ' has' : 's have'} no line details; re-optimize those days to include them.`}
+        </p>
       </div>
 
       <div className="grid md:grid-cols-2 gap-8">
@@ -215,7 +687,13 @@ export const StatsView: React.FC<StatsViewProps> = ({ days }) => {
                         <p className="font-bold">{label} - {payload[0].payload.city}</p>
                         <p className="text-green-600">Attractions: ¥{payload[0].payload.expenses.toLocaleString()}</p>
                         <p className="text-blue-600">Transit: ¥{payload[0].payload.transit.toLocaleString()}</p>
-                        <p className="font-bold mt-1">Total: ¥{(payload[0].payload.expenses + payload[0].payload.transit).toLocaleString()}</p>
+                        {payload[0].payload.transfers > 0 && (
+                          <p className="text-violet-600">Inter-city: ¥{payload[0].payload.transfers.toLocaleString()}</p>
+                        )}
+                        {payload[0].payload.lodging > 0 && (
+                          <p className="text-sky-600">Lodging: ¥{payload[0].payload.lodging.toLocaleString()}</p>
+                        )}
+                        <p className="font-bold mt-1">Total: ¥{dayTotal(payload[0].payload).toLocaleString()}</p>
                       </div>
                     );
                   }
@@ -223,7 +701,9 @@ export const StatsView: React.FC<StatsViewProps> = ({ days }) => {
                 }}
               />
               <Bar dataKey="expenses" stackId="a" fill="#10b981" name="Attractions" radius={[0, 0, 0, 0]} />
-              <Bar dataKey="transit" stackId="a" fill="#60a5fa" name="Transit" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="transit" stackId="a" fill="#60a5fa" name="Transit" radius={[0, 0, 0, 0]} />
+              <Bar dataKey="transfers" stackId="a" fill="#a78bfa" name="Inter-city" radius={[0, 0, 0, 0]} />
+              <Bar dataKey="lodging" stackId="a" fill="#38bdf8" name="Lodging" radius={[4, 4, 0, 0]} />
             </BarChart>
           </ResponsiveContainer>
         </div>
@@ -233,13 +713,27 @@ export const StatsView: React.FC<StatsViewProps> = ({ days }) => {
       <div className="bg-indigo-50 p-4 rounded-xl">
         <h3 className="font-bold text-indigo-900 mb-2">Summary</h3>
         <p className="text-indigo-700">
-          You have planned <span className="font-bold">{totalActivities}</span> activities across <span className="font-bold">{days.length}</span> days.
+          You have planned <span className="font-bold">{totalActivities}</span> activities across <span className="font-bold">{days.length}</span> days
+          {transfers.count > 0 && <>, with <span className="font-bold">{transfers.count}</span> inter-city transfer{transfers.count === 1 ? '' : 's'}</>}.
           The busiest leg of your trip is currently <span className="font-bold">{days.reduce((a, b) => a.activities.length > b.activities.length ? a : b).city}</span>.
           {totalExpenses > 0 && (
-            <> Your estimated total budget is <span className="font-bold text-green-700">¥{totalExpenses.toLocaleString()}</span>.</>
+            <> Your estimated total budget is <span className="font-bold text-green-700">¥{totalExpenses.toLocaleString()}</span>
+              {inHome(totalExpenses) && <> (about <span className="font-bold text-green-700">{inHome(totalExpenses)}</span>)</>}.</>
           )}
         </p>
       </div>
+
+      <CurrencySettings
+        isOpen={isCurrencyOpen}
+        homeCurrency={homeCurrency}
+        rates={exchangeRates}
+        usedCurrencies={usedCurrencies}
+        onSave={(home, rates) => {
+          onCurrencyChange?.(home, rates);
+          setIsCurrencyOpen(false);
+        }}
+        onClose={() => setIsCurrencyOpen(false)}
+      />
     </div>
   );
 };
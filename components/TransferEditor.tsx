@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { InterCityTransfer, TransferMode } from '../types';
+import { TrainFront, Plane, Bus, Ship, Plus, Trash2, Edit2, Save, X, ArrowRight, Ticket } from 'lucide-react';
+import { TRANSFER_MODE_LABELS, transferDurationMins } from '../services/transfers';
+import { CURRENCIES, currencyOf, formatMoney, isBaseCurrency } from '../services/currency';
+
+interface TransferEditorProps {
+  transfers: InterCityTransfer[];
+  onChange: (transfers: InterCityTransfer[]) => void;
+}
+
+export const transferIcon = (mode: TransferMode, className: string) => {
+  if (mode === 'FLIGHT') return <Plane className={className} />;
+  if (mode === 'BUS') return <Bus className={className} />;
+  if (mode === 'FERRY') return <Ship className={className} />;
+  return <TrainFront className={className} />;
+};
+
+const formatDuration = (mins: number) =>
+  mins >= 60 ? `${Math.floor(mins / 60)}h ${(mins % 60).toString().padStart(2, '0')}m` : `${mins}m`;
+
+const emptyTransfer = (): InterCityTransfer => ({
+  id: `transfer-${Date.now()}`,
+  mode: 'TRAIN',
+  from: { name: '' },
+  to: { name: '' },
+  departureTime: '10:00',
+  arrivalTime: '12:00'
+});
+
+const inputClass = 'w-full px-2 py-1 text-sm border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-indigo-300';
+
+// Booked trains/flights between cities on this day, shown above the activities
+export const TransferEditor: React.FC<TransferEditorProps> = ({ transfers, onChange }) => {
+  const [draft, setDraft] = useState<InterCityTransfer | null>(null);
+
+  const save = () => {
+    if (!draft) return;
+    const exists = transfers.some(t => t.id === draft.id);
+    const next = exists ? transfers.map(t => t.id === draft.id ? draft : t) : [...transfers, draft];
+    onChange([...next].sort((a, b) => a.departureTime.localeCompare(b.departureTime)));
+    setDraft(null);
+  };
+
+  const remove = (id: string) => {
+    if (!confirm('Remove this transfer?')) return;
+    onChange(transfers.filter(t => t.id !== id));
+  };
+
+  // Editing a station name drops its old coordinates; they're looked up again when needed
+  const setStop = (end: 'from' | 'to', name: string) =>
+    setDraft(prev => prev && { ...prev, [end]: { name } });
+
+  const setReservation = (field: 'car' | 'seat' | 'confirmation', value: string) =>
+    setDraft(prev => prev && { ...prev, reservation: { ...prev.reservation, [field]: value || undefined } });
+
+  return (
+    <div className="bg-white p-3 rounded-xl border border-gray-200 shadow-sm">
+      <div className="flex justify-between items-center mb-1">
+        <div className="flex items-center text-xs font-semibold text-gray-400 uppercase tracking-wide">
+          <TrainFront className="w-3.5 h-3.5 mr-1.5" /> Inter-city Travel
+        </div>
+        {!draft && (
+          <button
+            onClick={() => setDraft(emptyTransfer())}
+            className="flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800"
+          >
+            <Plus className="w-3 h-3 mr-0.5" /> Add train or flight
+          </button>
+        )}
+      </div>
+
+      {transfers.length === 0 && !draft && (
+        <p className="text-xs text-gray-300">Moving to another city today? Add the booking so the day is planned around it.</p>
+      )}
+
+      <div className="space-y-2">
+        {transfers.filter(t => t.id !== draft?.id).map(transfer => (
+          <div key={transfer.id} className="group flex items-start gap-3 p-2 rounded-lg bg-violet-50 border border-violet-100">
+            <div className="w-8 h-8 rounded-full bg-violet-600 text-white flex items-center justify-center shrink-0">
+              {transferIcon(transfer.mode, 'w-4 h-4')}
+            </div>
+            <div className="flex-1 min-w-0 text-sm">
+              <p className="font-medium text-gray-800 flex items-center gap-1 flex-wrap">
+                <span className="font-mono">{transfer.departureTime}</span> {transfer.from.name || '?'}
+                <ArrowRight className="w-3 h-3 text-gray-400" />
+                <span className="font-mono">{transfer.arrivalTime}</span> {transfer.to.name || '?'}
+              </p>
+              <p className="text-xs text-gray-500">
+                {transfer.carrier || TRANSFER_MODE_LABELS[transfer.mode]}
+                {' • '}{formatDuration(transferDurationMins(transfer))}
+                {transfer.cost ? ` • ${formatMoney(transfer.cost, transfer.currency)}` : ''}
+              </p>
+              {(transfer.reservation?.car || transfer.reservation?.seat || transfer.reservation?.confirmation) && (
+                <p className="text-xs text-violet-700 flex items-center gap-1 mt-0.5">
+                  <Ticket className="w-3 h-3" />
+                  {[
+                    transfer.reservation.car && `Car ${transfer.reservation.car}`,
+                    transfer.reservation.seat && `Seat ${transfer.reservation.seat}`,
+                    transfer.reservation.confirmation && `Ref ${transfer.reservation.confirmation}`
+                  ].filter(Boolean).join(' • ')}
+                </p>
+              )}
+              {transfer.notes && <p className="text-xs text-gray-400 mt-0.5">{transfer.notes}</p>}
+            </div>
+            <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={() => setDraft(transfer)} className="p-1 text-gray-400 hover:text-indigo-600" title="Edit">
+                <Edit2 className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => remove(transfer.id)} className="p-1 text-gray-400 hover:text-red-500" title="Remove">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {draft && (
+          <div className="p-3 rounded-lg border border-indigo-200 bg-indigo-50/40 space-y-2">
+            <div className="flex gap-1">
+              {(Object.keys(TRANSFER_MODE_LABELS) as TransferMode[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setDraft({ ...draft, mode })}
+                  className={`flex items-center gap-1 px-2 py-1 rounded text-xs font-medium border ${draft.mode === mode ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'}`}
+                >
+                  {transferIcon(mode, 'w-3 h-3')} {TRANSFER_MODE_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+            <input
+              type="text"
+              placeholder={draft.mode === 'FLIGHT' ? 'Airline and flight, e.g. ANA NH17' : 'Service, e.g. JR Tokaido Shinkansen Hikari 639'}
+              value={draft.carrier || ''}
+              onChange={(e) => setDraft({ ...draft, carrier: e.target.value || undefined })}
+              className={inputClass}
+            />
+            <div className="grid grid-cols-[1fr_auto] gap-2">
+              <input type="text" placeholder="From (station or airport)" value={draft.from.name} onChange={(e) => setStop('from', e.target.value)} className={inputClass} />
+              <input type="time" value={draft.departureTime} onChange={(e) => setDraft({ ...draft, departureTime: e.target.value })} className={inputClass} title="Departure" />
+              <input type="text" placeholder="To (station or airport)" value={draft.to.name} onChange={(e) => setStop('to', e.target.value)} className={inputClass} />
+              <input type="time" value={draft.arrivalTime} onChange={(e) => setDraft({ ...draft, arrivalTime: e.target.value })} className={inputClass} title="Arrival" />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <input type="text" placeholder="Car" value={draft.reservation?.car || ''} onChange={(e) => setReservation('car', e.target.value)} className={inputClass} />
+              <input type="text" placeholder="Seat" value={draft.reservation?.seat || ''} onChange={(e) => setReservation('seat', e.target.value)} className={inputClass} />
+              <input type="text" placeholder="Booking ref" value={draft.reservation?.confirmation || ''} onChange={(e) => setReservation('confirmation', e.target.value)} className={inputClass} />
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={currencyOf(draft.currency)}
+                onChange={(e) => setDraft({ ...draft, currency: isBaseCurrency(e.target.value) ? undefined : e.target.value })}
+                className={`${inputClass} w-auto`}
+                title="Currency"
+              >
+                {[...new Set([...CURRENCIES, currencyOf(draft.currency)])].map(code => <option key={code} value={code}>{code}</option>)}
+              </select>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                placeholder="Cost per person"
+                value={draft.cost ?? ''}
+                onChange={(e) => setDraft({ ...draft, cost: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                className={inputClass}
+              />
+            </div>
+            <input
+              type="text"
+              placeholder="Notes (platform, luggage, ...)"
+              value={draft.notes || ''}
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value || undefined })}
+              className={inputClass}
+            />
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setDraft(null)} className="flex items-center px-3 py-1 text-xs font-medium text-gray-500 hover:text-gray-700">
+                <X className="w-3 h-3 mr-1" /> Cancel
+              </button>
+              <button
+                onClick={save}
+                disabled={!draft.from.name.trim() || !draft.to.name.trim()}
+                className="flex items-center px-3 py-1 rounded bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <Save className="w-3 h-3 mr-1" /> Save
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Marker in the day's timeline where the transfer happens
+export const TransferBanner: React.FC<{ transfer: InterCityTransfer }> = ({ transfer }) => (
+  <div className="flex items-center gap-3 my-3 px-3 py-2 rounded-xl bg-violet-600 text-white shadow-sm">
+    {transferIcon(transfer.mode, 'w-4 h-4 shrink-0')}
+    <div className="flex-1 min-w-0 text-xs">
+      <p className="font-bold truncate">
+        {transfer.departureTime} {transfer.from.name} → {transfer.arrivalTime} {transfer.to.name}
+      </p>
+      {transfer.carrier && <p className="text-violet-200 truncate">{transfer.carrier}</p>}
+    </div>
+    {transfer.reservation?.seat && (
+      <span className="text-[10px] font-bold bg-white/20 px-2 py-0.5 rounded-full whitespace-nowrap">
+        {transfer.reservation.car && `Car ${transfer.reservation.car} • `}Seat {transfer.reservation.seat}
+      </span>
+    )}
+  </div>
+);
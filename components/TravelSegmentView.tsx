@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { FarePaymentMethod, TravelSegment, TransitLeg } from '../types';
+import { Footprints, Train, Bus, ExternalLink, ChevronDown, ChevronUp, Navigation, AlertTriangle } from 'lucide-react';
+import { legFare, segmentFare } from '../services/railPass';
+
+interface TravelSegmentViewProps {
+  segment: TravelSegment;
+  mapsLink: string;
+  fromName?: string; // Where the route starts (hotel or previous activity)
+  toName?: string;   // Where it ends
+  farePayment?: FarePaymentMethod;
+}
+
+const legIcon = (leg: TransitLeg, className: string) => {
+  if (leg.mode === 'WALKING') return <Footprints className={className} />;
+  if (leg.mode === 'BUS') return <Bus className={className} />;
+  if (leg.mode === 'TRAIN') return <Train className={className} />;
+  return <Navigation className={className} />;
+};
+
+const rides = (segment: TravelSegment) => (segment.legs || []).filter(leg => leg.mode !== 'WALKING');
+
+// "1 transfer" / "Direct" summary for the collapsed badge
+export const describeTransfers = (segment: TravelSegment) => {
+  const count = rides(segment).length - 1;
+  if (count < 0) return null;
+  return count === 0 ? 'Direct' : `${count} transfer${count === 1 ? '' : 's'}`;
+};
+
+interface TransitLegListProps {
+  legs: TransitLeg[];
+  fromName?: string;
+  toName?: string;
+  farePayment?: FarePaymentMethod;
+}
+
+// Step-by-step itinerary, shared by the day list and the printout
+export const TransitLegList: React.FC<TransitLegListProps> = ({ legs, fromName, toName, farePayment }) => (
+  <ol className="relative border-l-2 border-gray-200 ml-2 space-y-2">
+    {legs.map((leg, index) => {
+      const from = leg.fromName || (index === 0 ? fromName : undefined);
+      const to = leg.toName || (index === legs.length - 1 ? toName : undefined);
+      return (
+        <li key={index} className="pl-4 relative">
+          <span
+            className="absolute -left-[7px] top-1 w-3 h-3 rounded-full border-2 border-white"
+            style={{ backgroundColor: leg.mode === 'WALKING' ? '#9ca3af' : (leg.lineColor || '#6366f1') }}
+          ></span>
+          <div className="flex items-start gap-2 text-xs text-gray-700">
+            {legIcon(leg, 'w-3.5 h-3.5 mt-0.5 shrink-0 text-gray-400')}
+            <div className="min-w-0">
+              <p className="font-medium">
+                {leg.mode === 'WALKING' ? 'Walk' : (leg.lineName || 'Ride')}
+                {leg.direction && <span className="font-normal text-gray-400"> for {leg.direction}</span>}
+              </p>
+              <p className="text-gray-500">
+                {leg.departureTime && <span className="font-mono">{leg.departureTime} </span>}
+                {from || 'Start'}
+                {' → '}
+                {leg.arrivalTime && <span className="font-mono">{leg.arrivalTime} </span>}
+                {to || 'Destination'}
+              </p>
+              <p className="text-[10px] text-gray-400">
+                {leg.durationMinutes} min
+                {leg.distanceMeters !== undefined && leg.mode === 'WALKING' && ` • ${leg.distanceMeters} m`}
+                {leg.platform && ` • Platform ${leg.platform}`}
+                {legFare(leg, farePayment) > 0 && ` • ¥${legFare(leg, farePayment).toLocaleString()}`}
+              </p>
+            </div>
+          </div>
+        </li>
+      );
+    })}
+  </ol>
+);
+
+// Connector drawn between two ActivityCards: mode, time and fare, expandable into the legs
+export const TravelSegmentView: React.FC<TravelSegmentViewProps> = ({ segment, mapsLink, fromName, toName, farePayment }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const hasLegs = (segment.legs?.length || 0) > 0;
+  const transfers = describeTransfers(segment);
+  const fare = segmentFare(segment, farePayment);
+
+  return (
+    <div className="flex flex-col items-center py-3">
+      <div className="flex flex-col items-center gap-1">
+        <a
+          href={mapsLink}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="group block transition-transform hover:scale-105"
+          title="Open in Google Maps"
+        >
+          <div className={`flex items-center gap-2 px-3 py-1 bg-gray-100 rounded-full text-xs font-medium text-gray-500 shadow-sm border border-gray-200 group-hover:border-${segment.mode === 'WALKING' ? 'emerald' : 'indigo'}-300 group-hover:shadow-md transition-all`}>
+            {segment.mode === 'WALKING' ? (
+              <div className="flex items-center gap-1 text-emerald-600">
+                <Footprints className="w-3 h-3" />
+                <span>Walk</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-1 text-indigo-600 bg-indigo-50 px-1.5 py-0.5 rounded">
+                {segment.mode === 'BUS' ? <Bus className="w-3 h-3" /> : <Train className="w-3 h-3" />}
+                <span className="font-bold text-[10px] uppercase">
+                  {segment.mode === 'BUS' ? 'Bus' : (segment.mode === 'TRAIN' ? 'Train' : 'Transit')}
+                </span>
+              </div>
+            )}
+            <span>
+              {segment.duration}
+              {segment.distance && ` • ${segment.distance}`}
+              {fare > 0 && <span className="font-bold text-gray-700 ml-1"> • ¥{fare}</span>}
+            </span>
+            {/* External Link Icon Hint */}
+            <ExternalLink className="w-2.5 h-2.5 ml-1 opacity-0 group-hover:opacity-100 transition-opacity" />
+          </div>
+        </a>
+
+        {/* Alternative Route Badge (Comparison) */}
+        {segment.alternativeLabel && (
+          <div className="text-[10px] text-gray-400 font-medium flex items-center gap-1 bg-white border border-gray-100 px-2 py-0.5 rounded-full shadow-sm">
+            <span className="text-gray-300">vs</span>
+            <span>{segment.alternativeLabel}</span>
+          </div>
+        )}
+
+        {/* Late-night or rarely-running transit, found when the route was planned */}
+        {segment.serviceWarning && (
+          <div className="text-[10px] text-amber-700 font-medium flex items-center gap-1 bg-amber-50 border border-amber-200 px-2 py-0.5 rounded-full">
+            <AlertTriangle className="w-3 h-3" />
+            <span>{segment.serviceWarning}</span>
+          </div>
+        )}
+
+        {hasLegs && (
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="flex items-center text-[10px] font-medium text-gray-400 hover:text-indigo-600 transition-colors"
+          >
+            {isExpanded ? 'Hide steps' : `Show steps${transfers ? ` • ${transfers}` : ''}`}
+            {isExpanded ? <ChevronUp className="w-3 h-3 ml-0.5" /> : <ChevronDown className="w-3 h-3 ml-0.5" />}
+          </button>
+        )}
+      </div>
+
+      {hasLegs && isExpanded && (
+        <div className="mt-2 w-full max-w-sm bg-white border border-gray-100 rounded-lg shadow-sm p-3 animate-in slide-in-from-top-2 duration-200">
+          <TransitLegList legs={segment.legs!} fromName={fromName} toName={toName} farePayment={farePayment} />
+        </div>
+      )}
+    </div>
+  );
+};
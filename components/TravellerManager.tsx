@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Traveller } from '../types';
+import { Users, X, Plus, Trash2 } from 'lucide-react';
+import { DEFAULT_PRICE_TIER, PRICE_TIERS, describeParty } from '../services/partyPricing';
+
+interface TravellerManagerProps {
+  isOpen: boolean;
+  travellers: Traveller[];
+  paidByCount: Record<string, number>; // Traveller id -> expenses they paid
+  readOnly?: boolean;
+  onSave: (traveller: Traveller) => void;
+  onDelete: (traveller: Traveller) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-300';
+
+// The people on the trip, who pay for things and split them
+export const TravellerManager: React.FC<TravellerManagerProps> = ({
+  isOpen,
+  travellers,
+  paidByCount,
+  readOnly = false,
+  onSave,
+  onDelete,
+  onClose
+}) => {
+  const [newName, setNewName] = useState('');
+
+  if (!isOpen) return null;
+
+  const addTraveller = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onSave({ id: `traveller-${Date.now()}`, name });
+    setNewName('');
+  };
+
+  const rename = (traveller: Traveller, value: string) => {
+    const name = value.trim();
+    if (name && name !== traveller.name) onSave({ ...traveller, name });
+  };
+
+  const remove = (traveller: Traveller) => {
+    const paid = paidByCount[traveller.id] || 0;
+    const warning = paid > 0 ? `\n\nThe ${paid} expense${paid === 1 ? '' : 's'} they paid will be left out of settling up until someone else is set as the payer.` : '';
+    if (confirm(`Remove ${traveller.name}?${warning}`)) onDelete(traveller);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <Users className="w-5 h-5 text-indigo-500" /> Travellers
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-2">
+          {travellers.length === 0 && (
+            <p className="text-sm text-gray-400 text-center py-4">Add everyone on the trip to price tickets for the whole party and to split costs.</p>
+          )}
+
+          {travellers.map(traveller => (
+            <div key={traveller.id} className="flex items-center gap-2">
+              <input
+                type="text"
+                defaultValue={traveller.name}
+                disabled={readOnly}
+                onBlur={(e) => rename(traveller, e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className={`${inputClass} flex-1 min-w-0`}
+              />
+              <input
+                type="number"
+                min={0}
+                placeholder="Age"
+                value={traveller.age ?? ''}
+                disabled={readOnly}
+                onChange={(e) => onSave({ ...traveller, age: e.target.value === '' ? undefined : Math.max(0, Math.floor(Number(e.target.value))) })}
+                className={`${inputClass} w-16`}
+                title="Age, to pick their ticket price"
+              />
+              <select
+                value={traveller.priceTier || ''}
+                disabled={readOnly}
+                onChange={(e) => onSave({ ...traveller, priceTier: e.target.value || undefined })}
+                className={inputClass}
+                title="Ticket price they pay"
+              >
+                <option value="">{traveller.age !== undefined ? 'By age' : DEFAULT_PRICE_TIER}</option>
+                {[...new Set([...PRICE_TIERS, ...(traveller.priceTier ? [traveller.priceTier] : [])])].map(tier => <option key={tier} value={tier}>{tier}</option>)}
+              </select>
+              {!readOnly && (
+                <button onClick={() => remove(traveller)} className="p-1 text-gray-400 hover:text-red-500" title="Remove">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+
+          {travellers.length > 0 && (
+            <p className="text-[11px] text-gray-400 pt-1">
+              {describeParty(travellers)}. Admission is added up per traveller, at the price for their age or the tier they're set to.
+            </p>
+          )}
+        </div>
+
+        {!readOnly && (
+          <div className="px-6 py-4 border-t border-gray-100 flex gap-2">
+            <input
+              type="text"
+              placeholder="Name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addTraveller()}
+              className={`${inputClass} flex-1`}
+            />
+            <button
+              onClick={addTraveller}
+              disabled={!newName.trim()}
+              className="flex items-center gap-1.5 px-4 py-1.5 rounded-lg bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" /> Add
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { TripSummary } from '../types';
+import { ChevronDown, Plus, Trash2, Check } from 'lucide-react';
+
+interface TripPickerProps {
+  trips: TripSummary[];
+  activeTripId: string | null;
+  onSelect: (tripId: string) => void;
+  onCreate: (title: string) => void;
+  onDelete: (tripId: string) => void;
+}
+
+export const TripPicker: React.FC<TripPickerProps> = ({
+  trips,
+  activeTripId,
+  onSelect,
+  onCreate,
+  onDelete
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newTitle, setNewTitle] = useState('');
+
+  const handleCreate = () => {
+    if (!newTitle.trim()) return;
+    onCreate(newTitle.trim());
+    setNewTitle('');
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium text-gray-500 hover:text-indigo-600 hover:bg-gray-100 transition-colors"
+        title="Switch trip"
+      >
+        {trips.length} Trip{trips.length === 1 ? '' : 's'}
+        <ChevronDown className="w-3.5 h-3.5" />
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Click-away backdrop */}
+          <div className="fixed inset-0 z-30" onClick={() => setIsOpen(false)} />
+
+          <div className="absolute left-0 top-full mt-2 w-72 bg-white rounded-xl shadow-2xl border border-gray-100 z-40 overflow-hidden animate-in fade-in zoom-in-95 duration-150">
+            <div className="px-4 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider border-b border-gray-100">
+              Your Trips
+            </div>
+            <div className="max-h-72 overflow-y-auto">
+              {trips.map(t => (
+                <div
+                  key={t.id}
+                  className={`flex items-center justify-between px-4 py-2.5 group cursor-pointer ${t.id === activeTripId ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+                  onClick={() => { onSelect(t.id); setIsOpen(false); }}
+                >
+                  <div className="min-w-0">
+                    <p className={`text-sm truncate ${t.id === activeTripId ? 'font-bold text-indigo-700' : 'font-medium text-gray-700'}`}>{t.title}</p>
+                    <p className="text-[11px] text-gray-400">
+                      {t.dayCount} day{t.dayCount === 1 ? '' : 's'}{t.startDate && ` • from ${t.startDate}`}
+                    </p>
+                  </div>
+                  {t.id === activeTripId ? (
+                    <Check className="w-4 h-4 text-indigo-600 shrink-0" />
+                  ) : t.role && t.role !== 'owner' ? (
+                    <span className="text-[10px] font-semibold text-gray-400 uppercase shrink-0">{t.role}</span>
+                  ) : (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onDelete(t.id); }}
+                      className="p-1 text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Delete trip"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 p-3 border-t border-gray-100 bg-gray-50">
+              <input
+                type="text"
+                value={newTitle}
+                onChange={(e) => setNewTitle(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                placeholder="New trip name"
+                className="flex-1 text-sm bg-white border border-gray-200 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-100 focus:border-indigo-400"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={!newTitle.trim()}
+                className="p-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                title="Create trip"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import { User } from '../types';
+
+export interface AuthContextValue {
+    authEnabled: boolean; // False when the server has no accounts (public site)
+    user: User | null;
+    logout: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue>({
+    authEnabled: false,
+    user: null,
+    logout: async () => { }
+});
+
+/**
+ * Signed-in user provided by AuthGate (components/AuthGate.tsx)
+ */
+export function useAuth(): AuthContextValue {
+    return useContext(AuthContext);
+}
@@ -1,16 +1,24 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { Trip } from '../types';
+import { Trip, TripOperation, PresenceState, Collaborator } from '../types';
+import { AUTH_REQUIRED_EVENT } from '../services/authService';
 
 interface UseRealtimeSyncOptions {
-    onTripUpdate: (trip: Trip) => void;
+    tripId: string | null; // Trip whose room this client joins
+    onTripUpdate: (trip: Trip) => void; // Whole-document replacement (REST saves, manual sync)
+    onRemoteOperations?: (ops: TripOperation[], revision: number) => void;
+    onTripDeleted?: (tripId: string) => void;
+    onTripsChanged?: () => void; // A trip was created or deleted somewhere
+    onAccessChanged?: (tripId: string) => void; // Members or roles of the open trip changed
+    presence?: PresenceState; // Shared with the room whenever it changes
     enabled?: boolean;
 }
 
 interface UseRealtimeSyncReturn {
     isConnected: boolean;
     socketId: string | null;
-    sendUpdate: (trip: Trip) => void;
+    collaborators: Collaborator[]; // Other clients in the same trip (excludes this one)
+    sendOperations: (ops: TripOperation[]) => Promise<{ revision: number }>;
     requestSync: () => void;
 }
 
@@ -19,13 +27,20 @@ interface UseRealtimeSyncReturn {
  * Handles automatic connection, reconnection, and update broadcasting
  */
 export function useRealtimeSync(options: UseRealtimeSyncOptions): UseRealtimeSyncReturn {
-    const { onTripUpdate, enabled = true } = options;
+    const { tripId, onTripUpdate, onRemoteOperations, onTripDeleted, onTripsChanged, onAccessChanged, presence, enabled = true } = options;
 
     const socketRef = useRef<Socket | null>(null);
     const [isConnected, setIsConnected] = useState(false);
     const [socketId, setSocketId] = useState<string | null>(null);
+    const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
     const ignoreNextUpdateRef = useRef(false);
 
+    // Socket handlers are bound once, so read the latest trip id and callbacks through refs
+    const tripIdRef = useRef(tripId);
+    tripIdRef.current = tripId;
+    const callbacksRef = useRef({ onTripUpdate, onRemoteOperations, onTripDeleted, onTripsChanged, onAccessChanged });
+    callbacksRef.current = { onTripUpdate, onRemoteOperations, onTripDeleted, onTripsChanged, onAccessChanged };
+
     useEffect(() => {
         if (!enabled) return;
 
@@ -34,11 +49,18 @@ export function useRealtimeSync(options: UseRealtimeSyncOptions): UseRealtimeSyn
             transports: ['websocket', 'polling'],
             reconnection: true,
             reconnectionDelay: 1000,
-            reconnectionAttempts: 10
+            reconnectionDelayMax: 10000,
+            reconnectionAttempts: Infinity // Offline stretches can be long; queued edits replay on reconnect
         });
 
         socketRef.current = socket;
 
+        // Don't wait for the next backoff step when the device says the network is back
+        const handleOnline = () => {
+            if (!socket.connected) socket.connect();
+        };
+        window.addEventListener('online', handleOnline);
+
         socket.on('connect', () => {
             console.log('🔌 WebSocket connected:', socket.id);
             setIsConnected(true);
@@ -49,12 +71,13 @@ export function useRealtimeSync(options: UseRealtimeSyncOptions): UseRealtimeSyn
             console.log('🔌 WebSocket disconnected');
             setIsConnected(false);
             setSocketId(null);
+            setCollaborators([]);
         });
 
         // Listen for trip updates from other clients
-        socket.on('trip-updated', ({ data, sourceSocketId }: { data: Trip; sourceSocketId?: string }) => {
-            // Ignore updates that came from this client
-            if (sourceSocketId === socket.id) {
+        socket.on('trip-updated', ({ tripId: updatedTripId, data, sourceSocketId }: { tripId: string; data: Trip; sourceSocketId?: string }) => {
+            // Ignore updates that came from this client or belong to a trip we already left
+            if (sourceSocketId === socket.id || updatedTripId !== tripIdRef.current) {
                 return;
             }
 
@@ -64,22 +87,80 @@ export function useRealtimeSync(options: UseRealtimeSyncOptions): UseRealtimeSyn
             }
 
             console.log('📥 Received trip update from server');
-            onTripUpdate(data);
+            callbacksRef.current.onTripUpdate(data);
+        });
+
+        // Fine-grained edits made by collaborators
+        socket.on('trip-ops', ({ tripId: opsTripId, ops, revision, sourceSocketId }: { tripId: string; ops: TripOperation[]; revision: number; sourceSocketId?: string }) => {
+            if (sourceSocketId === socket.id || opsTripId !== tripIdRef.current) return;
+
+            console.log(`📥 Received ${ops.length} operation(s) (revision ${revision})`);
+            callbacksRef.current.onRemoteOperations?.(ops, revision);
+        });
+
+        socket.on('trip-deleted', ({ tripId: deletedTripId }: { tripId: string }) => {
+            if (deletedTripId !== tripIdRef.current) return;
+            callbacksRef.current.onTripDeleted?.(deletedTripId);
+        });
+
+        socket.on('presence', ({ tripId: presenceTripId, users }: { tripId: string; users: Collaborator[] }) => {
+            if (presenceTripId !== tripIdRef.current) return;
+            setCollaborators(users.filter(u => u.socketId !== socket.id));
+        });
+
+        socket.on('trips-changed', () => {
+            callbacksRef.current.onTripsChanged?.();
+        });
+
+        socket.on('trip-access-changed', ({ tripId: changedTripId }: { tripId: string }) => {
+            if (changedTripId !== tripIdRef.current) return;
+            callbacksRef.current.onAccessChanged?.(changedTripId);
         });
 
         socket.on('connect_error', (error) => {
             console.error('🔌 WebSocket connection error:', error);
+            // The handshake is rejected when the session cookie is missing or expired
+            if (error.message === 'unauthorized') window.dispatchEvent(new Event(AUTH_REQUIRED_EVENT));
         });
 
         // Cleanup on unmount
         return () => {
+            window.removeEventListener('online', handleOnline);
             socket.disconnect();
         };
-    }, [enabled]); // Removed onTripUpdate from deps to avoid re-renders if the callback isn't memoized
+    }, [enabled]); // Callbacks are read through refs so they don't need to be memoized
+
+    // Join the active trip's room; rooms are lost on reconnect, so this re-runs then too
+    useEffect(() => {
+        const socket = socketRef.current;
+        if (!socket?.connected || !tripId) return;
+        setCollaborators([]);
+        socket.emit('join-trip', tripId);
+    }, [tripId, isConnected]);
+
+    // Re-send presence after every join (the server clears selection on join) and on change
+    const presenceKey = presence ? JSON.stringify(presence) : null;
+    useEffect(() => {
+        const socket = socketRef.current;
+        if (!socket?.connected || !tripId || !presenceKey) return;
+        socket.emit('presence-update', JSON.parse(presenceKey));
+    }, [presenceKey, tripId, isConnected]);
+
+    // Send fine-grained edits; resolves with the revision the server saved them as
+    const sendOperations = useCallback((ops: TripOperation[]) => {
+        return new Promise<{ revision: number }>((resolve, reject) => {
+            const socket = socketRef.current;
+            if (!socket?.connected || !tripIdRef.current) {
+                reject(new Error('Not connected'));
+                return;
+            }
 
-    // Send trip update to server (placeholder logic)
-    const sendUpdate = useCallback((trip: Trip) => {
-        // This is handled by the REST API with x-socket-id header
+            socket.timeout(10000).emit('trip-ops', { tripId: tripIdRef.current, ops }, (err: Error | null, res: { ok: boolean; revision?: number; error?: string }) => {
+                if (err) reject(err);
+                else if (!res?.ok) reject(new Error(res?.error || 'Operations rejected'));
+                else resolve({ revision: res.revision! });
+            });
+        });
     }, []);
 
     // Request full sync from server
@@ -91,7 +172,8 @@ export function useRealtimeSync(options: UseRealtimeSyncOptions): UseRealtimeSyn
     return {
         isConnected,
         socketId,
-        sendUpdate,
+        collaborators,
+        sendOperations,
         requestSync
     };
 }
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { io } from 'socket.io-client';
+import { Trip } from '../types';
+import { fetchSharedTrip } from '../services/shareService';
+
+type SharedTripStatus = 'loading' | 'ready' | 'revoked' | 'error';
+
+interface UseSharedTripReturn {
+    trip: Trip | null;
+    status: SharedTripStatus;
+    isConnected: boolean;
+}
+
+/**
+ * Loads a trip through a public share link and keeps it live.
+ * The socket authenticates with the share token and only ever receives whole trips;
+ * it never joins the editing room, so nothing can be written back.
+ */
+export function useSharedTrip(token: string): UseSharedTripReturn {
+    const [trip, setTrip] = useState<Trip | null>(null);
+    const [status, setStatus] = useState<SharedTripStatus>('loading');
+    const [isConnected, setIsConnected] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        setStatus('loading');
+
+        fetchSharedTrip(token)
+            .then(shared => {
+                if (cancelled) return;
+                setTrip(shared);
+                setStatus(shared ? 'ready' : 'revoked');
+            })
+            .catch(error => {
+                console.error('Failed to load shared trip:', error);
+                if (!cancelled) setStatus('error');
+            });
+
+        const socket = io(window.location.origin, {
+            transports: ['websocket', 'polling'],
+            auth: { shareToken: token },
+            reconnectionDelayMax: 10000
+        });
+
+        // Revoked while open, or rejected at the handshake because it already was
+        const handleRevoked = () => {
+            socket.disconnect();
+            setTrip(null);
+            setStatus('revoked');
+        };
+
+        socket.on('connect', () => setIsConnected(true));
+        socket.on('disconnect', (reason) => {
+            setIsConnected(false);
+            // The server only drops share viewers itself when their link is revoked
+            if (reason === 'io server disconnect') handleRevoked();
+        });
+
+        socket.on('shared-trip', ({ trip: updated }: { trip: Trip }) => {
+            console.log('📥 Received shared trip update');
+            setTrip(updated);
+            setStatus('ready');
+        });
+
+        socket.on('share-revoked', handleRevoked);
+        socket.on('connect_error', (error) => {
+            if (error.message === 'share-not-found') handleRevoked();
+        });
+
+        return () => {
+            cancelled = true;
+            socket.disconnect();
+        };
+    }, [token]);
+
+    return { trip, status, isConnected };
+}
@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState, useCallback, Dispatch, SetStateAction } from 'react';
+import { Trip, TripOperation } from '../types';
+import { applyOperations, diffTrips } from '../shared/tripOperations';
+
+interface HistoryEntry {
+    before: Trip;
+    after: Trip;
+    at: number; // ms timestamp of the latest change folded into this entry
+}
+
+interface UseTripHistoryReturn {
+    canUndo: boolean;
+    canRedo: boolean;
+    undo: () => void;
+    redo: () => void;
+    skipNext: () => void; // Don't record the next trip change (remote updates, loads)
+    reset: () => void;
+}
+
+const MAX_ENTRIES = 100;
+const COALESCE_MS = 1000; // Keystrokes in quick succession become one undo step
+
+/**
+ * Undo/redo stack for local trip mutations.
+ * Watches `trip` and records each local change as a before/after pair. Undo applies the
+ * diff after→before on top of the *current* trip, so collaborators' edits made since
+ * then are kept and only our own change is reverted.
+ */
+export function useTripHistory(trip: Trip, setTrip: Dispatch<SetStateAction<Trip>>): UseTripHistoryReturn {
+    const [past, setPast] = useState<HistoryEntry[]>([]);
+    const [future, setFuture] = useState<HistoryEntry[]>([]);
+    const prevTripRef = useRef(trip);
+    const skipRef = useRef(false);
+
+    useEffect(() => {
+        const prev = prevTripRef.current;
+        prevTripRef.current = trip;
+        if (prev === trip) return;
+
+        if (skipRef.current) {
+            skipRef.current = false;
+            return;
+        }
+
+        // Switching trips starts a fresh history
+        if (prev.id !== trip.id) {
+            setPast([]);
+            setFuture([]);
+            return;
+        }
+
+        const now = Date.now();
+        setPast(entries => {
+            const last = entries[entries.length - 1];
+            if (last && last.after === prev && now - last.at < COALESCE_MS) {
+                return [...entries.slice(0, -1), { ...last, after: trip, at: now }];
+            }
+            return [...entries, { before: prev, after: trip, at: now }].slice(-MAX_ENTRIES);
+        });
+        setFuture([]);
+    }, [trip]);
+
+    // Applies `ops` without recording them. The skip is only armed when the trip really changes:
+    // an unchanged trip fires no change to clear it, and the next real edit would go unrecorded.
+    const applyUnrecorded = useCallback((ops: TripOperation[]) => {
+        setTrip(current => {
+            const next = applyOperations(current, ops);
+            if (next !== current) skipRef.current = true;
+            return next;
+        });
+    }, [setTrip]);
+
+    const undo = useCallback(() => {
+        const entry = past[past.length - 1];
+        if (!entry) return;
+
+        applyUnrecorded(diffTrips(entry.after, entry.before));
+        setPast(entries => entries.slice(0, -1));
+        setFuture(entries => [...entries, entry]);
+    }, [past, applyUnrecorded]);
+
+    const redo = useCallback(() => {
+        const entry = future[future.length - 1];
+        if (!entry) return;
+
+        applyUnrecorded(diffTrips(entry.before, entry.after));
+        setFuture(entries => entries.slice(0, -1));
+        setPast(entries => [...entries, { ...entry, at: 0 }]); // at: 0 so it never coalesces
+    }, [future, applyUnrecorded]);
+
+    const skipNext = useCallback(() => { skipRef.current = true; }, []);
+
+    const reset = useCallback(() => {
+        setPast([]);
+        setFuture([]);
+    }, []);
+
+    return {
+        canUndo: past.length > 0,
+        canRedo: future.length > 0,
+        undo,
+        redo,
+        skipNext,
+        reset
+    };
+}
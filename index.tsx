@@ -2,10 +2,30 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { ErrorBoundary } from './ErrorBoundary';
+import { AuthGate } from './components/AuthGate';
+import { SharedTripView } from './components/SharedTripView';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
-const root = ReactDOM.createRoot(document.getElementById("root")).render(<App />);
\ No newline at end of file
+// Public share links skip sign-in entirely; the token in the URL is the permission
+const shareToken = window.location.pathname.match(/^\/share\/([A-Za-z0-9_-]+)/)?.[1];
+
+const root = ReactDOM.createRoot(document.getElementById("root")).render(
+  shareToken ? (
+    <SharedTripView token={shareToken} />
+  ) : (
+    <AuthGate>
+      <App />
+    </AuthGate>
+  )
+);
+
+// Offline support for the installed app; dev builds skip it so HMR isn't served from cache
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.error('Service worker registration failed:', err));
+  });
+}
@@ -0,0 +1,160 @@
+// Service worker for the installed app (registered from index.tsx in production builds).
+// Keeps the shell, trip PDFs, images and map tiles readable offline. Trip data itself is not
+// cached here: the app keeps its own copy in IndexedDB, and a stale response from this cache
+// would look like the server answering, hiding that the app is offline.
+
+// Both are written in by the precache plugin in vite.config.ts: a hash of the build and every
+// file in it. Each deploy therefore changes this file, so browsers install the new worker.
+const VERSION = 'dev';
+const PRECACHE_FILES = [];
+
+const SHELL_CACHE = `shell-${VERSION}`;     // Replaced on every deploy
+const FILES_CACHE = 'files-v1';             // Uploaded PDFs and receipts
+const IMAGES_CACHE = 'images-v1';           // Activity images and Place photos
+const MAPS_CACHE = 'maps-v1';               // Google Maps script, tiles and static assets
+const KNOWN_CACHES = [SHELL_CACHE, FILES_CACHE, IMAGES_CACHE, MAPS_CACHE]; // Others, like the old data-v1, are deleted
+
+const MAX_IMAGES = 300;
+const MAX_MAP_ENTRIES = 1500;
+
+// --- INSTALL / ACTIVATE ---
+self.addEventListener('install', (event) => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(SHELL_CACHE);
+        await cache.addAll(['/', ...PRECACHE_FILES]);
+        await self.skipWaiting();
+    })());
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names.filter(name => !KNOWN_CACHES.includes(name)).map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+// --- STRATEGIES ---
+const trimCache = async (cacheName, maxEntries) => {
+    const cache = await caches.open(cacheName);
+    const keys = await cache.keys();
+    // Cache keys keep insertion order, so the oldest entries go first
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+};
+
+// Opaque (no-cors) responses report status 0 but are still usable for <img> and tiles
+const isCacheable = (res) => res && (res.ok || res.type === 'opaque');
+
+const cacheFirst = async (request, cacheName, maxEntries) => {
+    const cache = await caches.open(cacheName);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+
+    const res = await fetch(request);
+    if (isCacheable(res)) {
+        await cache.put(request, res.clone());
+        if (maxEntries) trimCache(cacheName, maxEntries);
+    }
+    return res;
+};
+
+const staleWhileRevalidate = async (request, cacheName) => {
+    const cache = await caches.open(cacheName);
+    const cached = await cache.match(request);
+    const update = fetch(request)
+        .then(res => {
+            if (isCacheable(res)) cache.put(request, res.clone());
+            return res;
+        })
+        .catch(() => cached);
+    return cached || update;
+};
+
+// --- ROUTING ---
+const isMapRequest = (url) =>
+    url.hostname === 'maps.googleapis.com' && !url.pathname.startsWith('/maps/api/place/photo')
+    || url.hostname === 'maps.gstatic.com'
+    || /^khms\d*\.google(apis)?\.com$/.test(url.hostname)
+    || url.hostname === 'fonts.gstatic.com'
+    || url.hostname === 'fonts.googleapis.com';
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+
+    if (url.origin === self.location.origin) {
+        // Live traffic and paid/quota-bound proxies always go to the network
+        if (url.pathname.startsWith('/socket.io/')) return;
+
+        if (url.pathname.startsWith('/api/attachments/')) {
+            event.respondWith(cacheFirst(request, FILES_CACHE));
+            return;
+        }
+        if (url.pathname.startsWith('/api/')) return;
+
+        // SPA navigations: fresh index.html when online, cached shell otherwise
+        if (request.mode === 'navigate') {
+            event.respondWith(
+                fetch(request).catch(async () => (await caches.match('/index.html')) || caches.match('/'))
+            );
+            return;
+        }
+
+        event.respondWith(caches.match(request).then(cached => cached || fetch(request)));
+        return;
+    }
+
+    if (isMapRequest(url)) {
+        // The Maps script itself changes; tiles and sprites don't
+        event.respondWith(url.pathname.startsWith('/maps/api/js')
+            ? staleWhileRevalidate(request, MAPS_CACHE)
+            : cacheFirst(request, MAPS_CACHE, MAX_MAP_ENTRIES));
+        return;
+    }
+
+    if (request.destination === 'image') {
+        event.respondWith(cacheFirst(request, IMAGES_CACHE, MAX_IMAGES));
+        return;
+    }
+
+    // Tailwind is loaded from its CDN in index.html
+    if (url.hostname === 'cdn.tailwindcss.com') {
+        event.respondWith(staleWhileRevalidate(request, SHELL_CACHE));
+    }
+});
+
+// --- MESSAGES ---
+self.addEventListener('message', (event) => {
+    const { type, urls } = event.data || {};
+
+    // On sign-out: trip files belong to that user, not whoever signs in next
+    if (type === 'CLEAR_USER_DATA') {
+        event.waitUntil(caches.delete(FILES_CACHE));
+        return;
+    }
+
+    // The app sends the open trip's attachment and image URLs so they are available offline
+    // even if the user never opened them while online.
+    if (type !== 'CACHE_TRIP_ASSETS' || !Array.isArray(urls)) return;
+
+    event.waitUntil((async () => {
+        for (const href of urls) {
+            try {
+                const url = new URL(href, self.location.origin);
+                const isAttachment = url.origin === self.location.origin && url.pathname.startsWith('/api/attachments/');
+                const cacheName = isAttachment ? FILES_CACHE : IMAGES_CACHE;
+                const cache = await caches.open(cacheName);
+                if (await cache.match(url.href)) continue;
+
+                // Cross-origin images are cached opaque, the same way <img> would load them
+                const res = await fetch(url.href, isAttachment ? {} : { mode: 'no-cors' });
+                if (isCacheable(res)) await cache.put(url.href, res);
+            } catch (error) {
+                console.warn('[SW] Could not cache', href, error);
+            }
+        }
+        await trimCache(IMAGES_CACHE, MAX_IMAGES);
+    })());
+});
@@ -1,5 +1,4 @@
-
-import crypto from 'crypto';
+import { hashPasswordSync } from './passwords.js';
 
 const password = process.argv[2];
 
@@ -8,12 +7,10 @@ if (!password) {
     process.exit(1);
 }
 
-// Generate a random salt
-const salt = crypto.randomBytes(16).toString('hex');
-
-// Hash the password with the salt using scrypt (secure against rainbow tables / brute force)
-const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+// Hash the password with a random salt using scrypt (secure against rainbow tables / brute force)
+const hash = hashPasswordSync(password);
 
 // Output format: salt:hash
-console.log(`\nAdd this to your .env file:\nBASIC_AUTH_HASH=${salt}:${hash}\n`);
+console.log(`\nAdd this to your .env file:\nBASIC_AUTH_HASH=${hash}\n`);
 console.log(`(Do not set BASIC_AUTH_PASSWORD anymore)`);
+console.log(`To create more accounts, use: node manage-users.js add <username> <password>`);
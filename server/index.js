@@ -8,6 +8,8 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import { applyOperations } from '../shared/tripOperations.js';
+import { SCHEMA_VERSION, migrateTrip, validateTrip, describeIssues } from '../shared/tripSchema.js';
 
 // Convert import.meta.url to __dirname equivalent
 const __filename = fileURLToPath(import.meta.url);
@@ -20,6 +22,17 @@ dotenv.config({ path: path.join(__dirname, '../.env.local'), override: true });
 
 const app = express();
 const httpServer = createServer(app);
+
+// Which proxies may report the client's address and scheme (X-Forwarded-For/-Proto). Login
+// throttling and transit limits go by req.ip, so behind nginx without this every client
+// would share the proxy's address. Default: a proxy on the same machine, as in DEPLOY.md.
+// TRUST_PROXY takes false, true, a hop count or Express's address/subnet list.
+const parseTrustProxy = (value = 'loopback') => {
+    if (value === 'false') return false;
+    if (value === 'true') return true;
+    return /^\d+$/.test(value) ? Number(value) : value;
+};
+app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY));
 const io = new Server(httpServer, {
     cors: {
         origin: "*", // In production, specify your domain
@@ -29,46 +42,149 @@ const io = new Server(httpServer, {
 
 const PORT = process.env.PORT || 3000;
 
-// --- BASIC AUTH MIDDLEWARE ---
+// --- ACCOUNTS & SESSIONS ---
 import crypto from 'crypto';
+import { readUsers, findUserById, findUserByUsername, createUser, publicUser } from './users.js';
+import { verifyPassword } from './passwords.js';
 
-const authUser = process.env.BASIC_AUTH_USER;
-const authHash = process.env.BASIC_AUTH_HASH; // Format: salt:hash
+// Sessions are signed cookies (nothing stored server-side), so they survive restarts as long
+// as SESSION_SECRET stays the same. Changing a password bumps sessionVersion and ends them.
+const SESSION_COOKIE = 'trip_session';
+const SESSION_TTL_MS = 1000 * 60 * 60 * 24 * 30;
+const SESSION_SECRET = process.env.SESSION_SECRET || crypto.randomBytes(32).toString('hex');
 
-if (authUser && authHash) {
-    console.log("🔒 Basic Auth Enabled (Hashed)");
-    app.use((req, res, next) => {
-        const b64auth = (req.headers.authorization || '').split(' ')[1] || '';
-        const [login, password] = Buffer.from(b64auth, 'base64').toString().split(':');
+// Accounts are required as soon as one exists (decided at startup, see initAccounts)
+let authEnabled = false;
 
-        if (!login || !password || login !== authUser) {
-            res.set('WWW-Authenticate', 'Basic realm="Japan Trip Visualizer"');
-            return res.status(401).send('Authentication required.');
-        }
+const signPayload = (payload) => crypto.createHmac('sha256', SESSION_SECRET).update(payload).digest('base64url');
 
-        const [salt, key] = authHash.split(':');
+const createSessionToken = (user) => {
+    const payload = Buffer.from(JSON.stringify({
+        uid: user.id,
+        v: user.sessionVersion || 1,
+        exp: Date.now() + SESSION_TTL_MS
+    })).toString('base64url');
+    return `${payload}.${signPayload(payload)}`;
+};
 
-        // Verify Password
-        crypto.scrypt(password, salt, 64, (err, derivedKey) => {
-            if (err) return next(err);
+const readSessionToken = (token) => {
+    const [payload, signature] = (token || '').split('.');
+    if (!payload || !signature) return null;
 
-            // Timing Safe Equality Check
-            if (crypto.timingSafeEqual(Buffer.from(key, 'hex'), derivedKey)) {
-                return next();
-            }
+    const expected = Buffer.from(signPayload(payload));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
 
-            // Failed
-            res.set('WWW-Authenticate', 'Basic realm="Japan Trip Visualizer"');
-            res.status(401).send('Authentication required.');
-        });
-    });
-} else {
-    console.log("⚠️ No Basic Auth configured. Site is public.");
-}
+    try {
+        const session = JSON.parse(Buffer.from(payload, 'base64url').toString());
+        return session.exp > Date.now() ? session : null;
+    } catch {
+        return null;
+    }
+};
+
+const parseCookies = (header = '') => Object.fromEntries(header.split(';')
+    .map(part => part.trim())
+    .filter(part => part.includes('='))
+    .map(part => {
+        const index = part.indexOf('=');
+        return [part.slice(0, index), decodeURIComponent(part.slice(index + 1))];
+    }));
+
+// Shared by HTTP requests and socket handshakes
+const userFromCookieHeader = async (cookieHeader) => {
+    const session = readSessionToken(parseCookies(cookieHeader)[SESSION_COOKIE]);
+    if (!session) return null;
+    const user = await findUserById(session.uid);
+    return user && (user.sessionVersion || 1) === session.v ? user : null;
+};
+
+const sessionCookie = (req, value, maxAgeMs) => {
+    // Behind a trusted proxy, req.secure follows its X-Forwarded-Proto
+    const secure = req.secure;
+    return `${SESSION_COOKIE}=${value}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${Math.floor(maxAgeMs / 1000)}${secure ? '; Secure' : ''}`;
+};
+
+// The old single Basic Auth login becomes the first (admin) account, keeping its password
+const initAccounts = async () => {
+    let users = await readUsers();
+    const legacyUser = process.env.BASIC_AUTH_USER;
+    const legacyHash = process.env.BASIC_AUTH_HASH; // Format: salt:hash
+    if (users.length === 0 && legacyUser && legacyHash) {
+        const user = await createUser({ username: legacyUser, passwordHash: legacyHash, admin: true });
+        console.log(`👤 Created admin account "${user.username}" from BASIC_AUTH_USER`);
+        users = await readUsers();
+    }
+
+    authEnabled = users.length > 0;
+    if (authEnabled) {
+        console.log(`🔒 Accounts enabled (${users.length} user${users.length === 1 ? '' : 's'})`);
+        if (!process.env.SESSION_SECRET) console.log("⚠️ SESSION_SECRET not set. Everyone is signed out when the server restarts.");
+    } else {
+        console.log("⚠️ No user accounts configured. Site is public.");
+    }
+};
+
+// Everything under /api needs a session, except signing in itself and share links
+const PUBLIC_API_PATHS = ['/auth/login', '/auth/logout', '/auth/session'];
+
+app.use('/api', async (req, res, next) => {
+    if (!authEnabled || PUBLIC_API_PATHS.includes(req.path) || req.path.startsWith('/share/')) return next();
+    try {
+        const user = await userFromCookieHeader(req.headers.cookie);
+        if (!user) return res.status(401).json({ error: 'Sign in required' });
+        req.user = publicUser(user);
+        next();
+    } catch (error) {
+        next(error);
+    }
+});
 
 app.use(cors());
 app.use(express.json());
 
+// Slows down password guessing: failed logins per IP in a 15 minute window
+const loginFailures = new LRUCache({ max: 5000, ttl: 1000 * 60 * 15 });
+const MAX_LOGIN_FAILURES = 10;
+
+app.post('/api/auth/login', async (req, res) => {
+    try {
+        const failures = loginFailures.get(req.ip) || 0;
+        if (failures >= MAX_LOGIN_FAILURES) {
+            return res.status(429).json({ error: 'Too many failed attempts. Try again in a few minutes.' });
+        }
+
+        const { username, password } = req.body || {};
+        const user = await findUserByUsername(username);
+        if (!user || !(await verifyPassword(password, user.passwordHash))) {
+            loginFailures.set(req.ip, failures + 1);
+            return res.status(401).json({ error: 'Wrong username or password' });
+        }
+
+        loginFailures.delete(req.ip);
+        res.setHeader('Set-Cookie', sessionCookie(req, createSessionToken(user), SESSION_TTL_MS));
+        res.json({ user: publicUser(user) });
+    } catch (error) {
+        console.error("Login Error:", error);
+        res.status(500).json({ error: 'Login failed' });
+    }
+});
+
+app.post('/api/auth/logout', (req, res) => {
+    res.setHeader('Set-Cookie', sessionCookie(req, '', 0));
+    res.json({ success: true });
+});
+
+app.get('/api/auth/session', async (req, res) => {
+    try {
+        const user = authEnabled ? await userFromCookieHeader(req.headers.cookie) : null;
+        res.json({ authEnabled, user: user ? publicUser(user) : null });
+    } catch (error) {
+        console.error("Session Error:", error);
+        res.status(500).json({ error: 'Failed to read session' });
+    }
+});
+
 // --- CACHE CONFIGURATION ---
 // 1000 items, 30 days TTL (Terms permissive for caching latitude/longitude; 
 // Place IDs and basic info is generally okayish for performace caching but strict read of TOS 
@@ -162,41 +278,801 @@ app.get('/api/places/search', async (req, res) => {
     }
 });
 
+// Hours change more often than coordinates, so they are cached for a week
+const OPENING_HOURS_TTL = 1000 * 60 * 60 * 24 * 7;
+
+// Google gives "0930"; the trip stores "09:30" like every other time
+const placesTime = (time) => `${time.slice(0, 2)}:${time.slice(2, 4)}`;
+
+// Converts Place Details opening_hours / current_opening_hours into the OpeningHours shape
+// in types.ts. Holidays and other special days only appear in current_opening_hours (the
+// next 7 days), each with its real periods for that date; no periods means closed.
+const toOpeningHours = (place) => {
+    const regular = place.opening_hours;
+    if (!regular?.periods) return null;
+
+    const hours = {
+        periods: [],
+        weekdayText: regular.weekday_text || [],
+        fetchedAt: new Date().toISOString()
+    };
+
+    // Open around the clock is a single period opening Sunday 00:00 with no close
+    if (regular.periods.length === 1 && !regular.periods[0].close) {
+        hours.alwaysOpen = true;
+    } else {
+        hours.periods = regular.periods
+            .filter(p => p.open && p.close)
+            .map(p => ({ day: p.open.day, open: placesTime(p.open.time), close: placesTime(p.close.time) }));
+    }
+
+    const current = place.current_opening_hours;
+    const specialDays = current?.special_days || [];
+    if (specialDays.length > 0) {
+        hours.exceptions = specialDays.map(({ date }) => ({
+            date,
+            hours: (current.periods || [])
+                .filter(p => p.open?.date === date && p.close)
+                .map(p => ({ open: placesTime(p.open.time), close: placesTime(p.close.time) }))
+        }));
+    }
+    return hours;
+};
+
+app.get('/api/places/details', async (req, res) => {
+    const placeId = req.query.placeId;
+    if (!placeId) return res.status(400).json({ error: 'placeId required' });
+
+    const cacheKey = `hours:${placeId}`;
+    if (placeCache.has(cacheKey)) {
+        console.log(`[CACHE HIT] hours ${placeId}`);
+        return res.json(placeCache.get(cacheKey));
+    }
+
+    try {
+        const response = await axios.get('https://maps.googleapis.com/maps/api/place/details/json', {
+            params: {
+                place_id: placeId,
+                key: GOOGLE_API_KEY,
+                fields: 'opening_hours,current_opening_hours'
+            }
+        });
+
+        if (response.data.status === 'NOT_FOUND' || response.data.status === 'INVALID_REQUEST') {
+            return res.status(404).json({ error: 'Place not found' });
+        }
+        if (response.data.status !== 'OK') {
+            throw new Error(response.data.error_message || response.data.status);
+        }
+
+        // Places without listed hours are cached too, as null
+        const result = { openingHours: toOpeningHours(response.data.result) };
+        placeCache.set(cacheKey, result, { ttl: OPENING_HOURS_TTL });
+        res.json(result);
+    } catch (error) {
+        console.error("Google API Error:", error.message);
+        res.status(500).json({ error: 'Failed to fetch opening hours' });
+    }
+});
+
+// --- TRAVEL TIME MATRIX ---
+// One cache entry per origin/destination/mode/time bucket, so re-optimizing a day (or a
+// day sharing stops with another) only asks Google for pairs it hasn't seen.
+const routeCache = new LRUCache({ max: 50000 });
+
+const ROUTE_MODES = ['WALKING', 'TRANSIT'];
+const ROUTE_TTL = {
+    WALKING: 1000 * 60 * 60 * 24 * 30,
+    TRANSIT: 1000 * 60 * 60 * 24 * 7 // Timetables change
+};
+const MAX_ROUTE_POINTS = 40;
+const MATRIX_MAX_ELEMENTS = 100;    // Distance Matrix limit per request (origins × destinations)
+const MATRIX_MAX_DESTINATIONS = 25;
+const TIME_BUCKET_MINUTES = 30;
+
+// ~1 m precision: the same stop saved twice still hits the cache
+const pointKey = (p) => `${p.lat.toFixed(5)},${p.lng.toFixed(5)}`;
+
+// NAVITIME wants local Japan time without an offset (YYYY-MM-DDThh:mm:ss)
+const toJapanTime = (date) => new Date(date.getTime() + 9 * 60 * 60 * 1000).toISOString().split('.')[0];
+
+// Transit is cached per Japan date and half hour: clients route for the trip's real dates, and
+// weekends and holidays run different timetables. Walking doesn't depend on the time at all.
+const timeBucket = (mode, departure) => {
+    if (mode === 'WALKING') return 'any';
+    const local = toJapanTime(departure);
+    const minutes = Number(local.slice(11, 13)) * 60 + Number(local.slice(14, 16));
+    return `${local.slice(0, 10)}-${Math.floor(minutes / TIME_BUCKET_MINUTES)}`;
+};
+
+const routeKey = (mode, from, to, bucket) => `route:${mode}:${pointKey(from)}>${pointKey(to)}:${bucket}`;
+
+const isPoint = (p) => p && Number.isFinite(p.lat) && Number.isFinite(p.lng) && Math.abs(p.lat) <= 90 && Math.abs(p.lng) <= 180;
+
+// Splits the missing cells into Distance Matrix requests: destinations in chunks of 25, and
+// as many origins (that still miss something there) as fit in 100 elements
+const planMatrixRequests = (missing, count) => {
+    const requests = [];
+    for (let firstDest = 0; firstDest < count; firstDest += MATRIX_MAX_DESTINATIONS) {
+        const destinations = [];
+        for (let j = firstDest; j < Math.min(count, firstDest + MATRIX_MAX_DESTINATIONS); j++) destinations.push(j);
+        const origins = [];
+        for (let i = 0; i < count; i++) {
+            if (destinations.some(j => missing[i][j])) origins.push(i);
+        }
+        const originsPerRequest = Math.max(1, Math.floor(MATRIX_MAX_ELEMENTS / destinations.length));
+        for (let k = 0; k < origins.length; k += originsPerRequest) {
+            requests.push({ origins: origins.slice(k, k + originsPerRequest), destinations });
+        }
+    }
+    return requests;
+};
+
+// Fills one mode's cells from cache, then asks Google for the rest. Cells Google can't route
+// are cached as null too, so they aren't asked for again on every run.
+const fillRouteMatrix = async (mode, points, departure) => {
+    const bucket = timeBucket(mode, departure);
+    const cells = points.map(() => points.map(() => null));
+    const missing = points.map(() => points.map(() => false));
+    let hits = 0;
+
+    points.forEach((from, i) => points.forEach((to, j) => {
+        if (i === j) return;
+        const key = routeKey(mode, from, to, bucket);
+        if (routeCache.has(key)) {
+            cells[i][j] = routeCache.get(key);
+            hits++;
+        } else {
+            missing[i][j] = true;
+        }
+    }));
+
+    const requests = planMatrixRequests(missing, points.length);
+    await Promise.all(requests.map(async ({ origins, destinations }) => {
+        try {
+            const response = await axios.get('https://maps.googleapis.com/maps/api/distancematrix/json', {
+                params: {
+                    origins: origins.map(i => pointKey(points[i])).join('|'),
+                    destinations: destinations.map(j => pointKey(points[j])).join('|'),
+                    mode: mode.toLowerCase(),
+                    ...(mode === 'TRANSIT' ? { departure_time: Math.floor(departure.getTime() / 1000) } : {}),
+                    language: 'en',
+                    region: 'jp',
+                    key: GOOGLE_API_KEY
+                }
+            });
+            if (response.data.status !== 'OK') throw new Error(response.data.error_message || response.data.status);
+
+            response.data.rows.forEach((row, r) => row.elements.forEach((element, d) => {
+                const i = origins[r];
+                const j = destinations[d];
+                if (!missing[i][j]) return;
+                const cell = element.status === 'OK'
+                    ? { durationValue: element.duration.value, duration: element.duration.text, distance: element.distance?.text }
+                    : null;
+                cells[i][j] = cell;
+                routeCache.set(routeKey(mode, points[i], points[j], bucket), cell, { ttl: ROUTE_TTL[mode] });
+            }));
+        } catch (error) {
+            // Left uncached: the client estimates these and the next run tries again
+            console.error(`Distance Matrix (${mode}) Error:`, error.message);
+        }
+    }));
+
+    return { cells, hits, requests: requests.length };
+};
+
+// Body: { points: [{lat, lng}], departureTime: ISO string, modes?: ['WALKING', 'TRANSIT'] }
+// Returns each mode's cells ({durationValue, duration, distance} or null) and `matrix`, the
+// fastest seconds per pair (null where no mode could route it). matrix[i][j] is i -> j.
+app.post('/api/routes', async (req, res) => {
+    const { points, departureTime } = req.body || {};
+    if (!Array.isArray(points) || points.length < 2 || !points.every(isPoint)) {
+        return res.status(400).json({ error: 'points must be a list of at least 2 {lat, lng}' });
+    }
+    if (points.length > MAX_ROUTE_POINTS) {
+        return res.status(400).json({ error: `At most ${MAX_ROUTE_POINTS} points per request` });
+    }
+    const departure = departureTime ? new Date(departureTime) : new Date();
+    if (isNaN(departure.getTime())) return res.status(400).json({ error: 'departureTime must be an ISO date' });
+
+    const modes = Array.isArray(req.body.modes) ? req.body.modes.filter(m => ROUTE_MODES.includes(m)) : ROUTE_MODES;
+    if (modes.length === 0) return res.status(400).json({ error: `modes must include ${ROUTE_MODES.join(' or ')}` });
+
+    try {
+        const results = await Promise.all(modes.map(mode => fillRouteMatrix(mode, points, departure)));
+
+        const byMode = {};
+        modes.forEach((mode, m) => { byMode[mode] = results[m].cells; });
+        const matrix = points.map((_, i) => points.map((_, j) => {
+            if (i === j) return 0;
+            const seconds = modes.map(mode => byMode[mode][i][j]?.durationValue).filter(s => s !== undefined);
+            return seconds.length > 0 ? Math.min(...seconds) : null;
+        }));
+
+        const hits = results.reduce((sum, r) => sum + r.hits, 0);
+        const requests = results.reduce((sum, r) => sum + r.requests, 0);
+        console.log(`[ROUTES] ${points.length} points: ${hits} cached, ${requests} Google request(s)`);
+        res.json({ matrix, modes: byMode });
+    } catch (error) {
+        console.error("Routes Error:", error);
+        res.status(500).json({ error: 'Failed to calculate travel times' });
+    }
+});
+
+// --- PUBLIC TRANSPORT (NAVITIME) ---
+// The RapidAPI key stays on the server. Routes are cached like the matrix above (per date and
+// half hour), and each user gets a budget of NAVITIME calls per minute; cache hits are free.
+const NAVITIME_HOST = 'navitime-route-totalnavi.p.rapidapi.com';
+const NAVITIME_API_KEY = process.env.NAVITIME_API_KEY || process.env.VITE_NAVITIME_API_KEY;
+if (!process.env.NAVITIME_API_KEY && process.env.VITE_NAVITIME_API_KEY) {
+    console.log("⚠️ VITE_NAVITIME_API_KEY is deprecated; rename it to NAVITIME_API_KEY so it never reaches the browser.");
+}
+
+const transitCache = new LRUCache({ max: 20000, ttl: ROUTE_TTL.TRANSIT });
+const transitUsage = new LRUCache({ max: 5000 });
+const TRANSIT_CALLS_PER_MINUTE = 30;
+
+// Errors carry a `code` the client switches on and a message it can show as is
+const sendTransitError = (res, status, code, message, extra = {}) =>
+    res.status(status).json({ error: message, code, ...extra });
+
+// Fixed one-minute window per user (or per IP while accounts are off)
+const takeTransitCall = (req) => {
+    const key = req.user?.id || req.ip;
+    const now = Date.now();
+    let usage = transitUsage.get(key);
+    if (!usage || usage.resetAt <= now) usage = { count: 0, resetAt: now + 60 * 1000 };
+    if (usage.count >= TRANSIT_CALLS_PER_MINUTE) {
+        return { allowed: false, retryAfter: Math.ceil((usage.resetAt - now) / 1000) };
+    }
+    usage.count++;
+    transitUsage.set(key, usage, { ttl: usage.resetAt - now });
+    return { allowed: true };
+};
+
+const formatTransitMinutes = (minutes) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return hours > 0 ? `${hours} hr ${mins} min` : `${mins} min`;
+};
+
+// "2026-10-20T10:04:00+09:00" -> "10:04"; NAVITIME already reports local time
+const transitClock = (iso) => (typeof iso === 'string' && iso.length >= 16 ? iso.slice(11, 16) : undefined);
+// Same, keeping the date: a route after the last train leaves the next morning
+const transitDateTime = (iso) => (typeof iso === 'string' && iso.length >= 16 ? iso.slice(0, 16) : undefined);
+
+const legMode = (move) => {
+    if (move === 'walk') return 'WALKING';
+    if (/train|subway|monorail|tram/.test(move || '')) return 'TRAIN';
+    if (/bus/.test(move || '')) return 'BUS';
+    return 'OTHER';
+};
+
+// NAVITIME sections alternate point (station/stop) and move (ride/walk) entries; each move
+// becomes a TransitLeg named after the points around it. "start"/"goal" are the activities.
+const toTransitLegs = (sections) => sections.flatMap((section, i) => {
+    if (section.type !== 'move') return [];
+    const pointName = (point) => (point?.type === 'point' && !['start', 'goal'].includes(point.name) ? point.name : undefined);
+    const transport = section.transport || {};
+    const fare = transport.fare?.unit_0;
+    const icFare = transport.fare?.unit_48;
+    return [{
+        mode: legMode(section.move),
+        lineName: section.line_name || transport.name || undefined,
+        lineColor: transport.color || undefined,
+        direction: transport.links?.[0]?.destination?.name || undefined,
+        fromName: pointName(sections[i - 1]),
+        toName: pointName(sections[i + 1]),
+        departureTime: transitClock(section.from_time),
+        arrivalTime: transitClock(section.to_time),
+        durationMinutes: section.time || 0,
+        distanceMeters: section.distance,
+        fare: fare > 0 ? fare : undefined,
+        icFare: icFare > 0 ? icFare : undefined,
+        operator: transport.company?.name || undefined,
+        platform: transport.platform || undefined // Only returned for some lines
+    }];
+});
+
+// First (best) NAVITIME route as a TravelSegment without fromId/toId; null when there's none
+const toTransitSegment = (data) => {
+    const route = data.items?.[0];
+    if (!route) return null;
+    const summary = route.summary;
+
+    // unit_0 is the paper ticket fare, unit_48 the IC card fare; either can be missing
+    const fare = summary.move.fare?.unit_0 || summary.move.fare?.unit_48 || 0;
+    const icFare = summary.move.fare?.unit_48 || 0;
+    const minutes = summary.move.time || summary.time;
+
+    // Primary mode from the sections, or from summary.move.move_type (e.g. ["rapid_train", "walk"])
+    const sections = route.sections || [];
+    const moveTypes = summary.move.move_type || [];
+    const hasTrain = sections.some(s => ['train', 'subway', 'bullet_train'].includes(s.mode))
+        || moveTypes.some(t => t.includes('train') || t.includes('subway') || t.includes('monorail'));
+    const hasBus = sections.some(s => s.mode === 'bus' || s.mode === 'local_bus')
+        || moveTypes.some(t => t.includes('bus'));
+    // A fare without a recognised mode is almost always a train
+    const mode = hasTrain ? 'TRAIN' : hasBus ? 'BUS' : fare > 0 ? 'TRAIN' : 'WALKING';
+
+    return {
+        mode,
+        duration: formatTransitMinutes(minutes),
+        durationValue: minutes * 60,
+        distance: `${(summary.move.distance / 1000).toFixed(1)} km`,
+        transitFare: fare > 0 ? fare : undefined,
+        icFare: icFare > 0 ? icFare : undefined,
+        legs: toTransitLegs(sections),
+        departsAt: transitDateTime(summary.move.from_time),
+        arrivesAt: transitDateTime(summary.move.to_time)
+    };
+};
+
+// Query: from=lat,lng&to=lat,lng&departureTime=ISO. Returns { segment } (null when NAVITIME
+// finds no route) or { error, code } with code one of bad-request, not-configured,
+// rate-limited (plus retryAfter seconds) and upstream-error.
+app.get('/api/transit', async (req, res) => {
+    const parsePoint = (value) => {
+        const [lat, lng] = String(value || '').split(',').map(Number);
+        return isPoint({ lat, lng }) ? { lat, lng } : null;
+    };
+    const from = parsePoint(req.query.from);
+    const to = parsePoint(req.query.to);
+    const departure = req.query.departureTime ? new Date(req.query.departureTime) : new Date();
+    if (!from || !to) return sendTransitError(res, 400, 'bad-request', 'from and to must be "lat,lng"');
+    if (isNaN(departure.getTime())) return sendTransitError(res, 400, 'bad-request', 'departureTime must be an ISO date');
+
+    const cacheKey = routeKey('NAVITIME', from, to, timeBucket('TRANSIT', departure));
+    if (transitCache.has(cacheKey)) return res.json({ segment: transitCache.get(cacheKey) });
+
+    if (!NAVITIME_API_KEY) {
+        return sendTransitError(res, 503, 'not-configured', 'Live transit times are not set up on this server.');
+    }
+    const quota = takeTransitCall(req);
+    if (!quota.allowed) {
+        res.setHeader('Retry-After', String(quota.retryAfter));
+        return sendTransitError(res, 429, 'rate-limited', `Too many transit lookups. Try again in ${quota.retryAfter} s.`, { retryAfter: quota.retryAfter });
+    }
+
+    try {
+        const response = await axios.get(`https://${NAVITIME_HOST}/route_transit`, {
+            params: { start: `${from.lat},${from.lng}`, goal: `${to.lat},${to.lng}`, start_time: toJapanTime(departure) },
+            headers: { 'x-rapidapi-key': NAVITIME_API_KEY, 'x-rapidapi-host': NAVITIME_HOST }
+        });
+        const segment = toTransitSegment(response.data);
+        transitCache.set(cacheKey, segment);
+        res.json({ segment });
+    } catch (error) {
+        const status = error.response?.status;
+        console.error("NAVITIME API Error:", status || '', error.message);
+        if (status === 429) {
+            return sendTransitError(res, 429, 'rate-limited', 'The transit provider is busy. Try again in a minute.', { retryAfter: 60 });
+        }
+        sendTransitError(res, 502, 'upstream-error', 'Could not reach the transit provider.');
+    }
+});
+
 // --- PERSISTENCE ---
 import fs from 'fs/promises';
-const DATA_FILE = path.join(__dirname, 'trip_data.json');
+import { getStorage } from './storage/index.js';
+// Trips, revisions, users and indexes go through the storage driver (SQLite or JSON files)
+const storage = await getStorage();
+console.log(`💾 Storage: ${storage.driver}`);
+// Single-trip file used before trip collections existed (imported once on startup)
+const LEGACY_DATA_FILE = path.join(__dirname, 'trip_data.json');
+const TRIP_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+// Every saved revision is also kept for restores
+const MAX_HISTORY_PER_TRIP = 200;
+
+const generateTripId = () => `trip-${crypto.randomBytes(6).toString('hex')}`;
+
+// Documents written by older versions are upgraded on the way in (see shared/tripSchema.js)
+const readTrip = async (id) => migrateTrip(await storage.readTrip(id));
+
+const writeTrip = async (trip) => {
+    const stored = { ...trip, schemaVersion: SCHEMA_VERSION, updatedAt: new Date().toISOString() };
+    // Written together with its revision snapshot, so the history always has the current revision
+    await storage.saveTrip(stored);
+    await pruneSnapshots(stored.id).catch(error => console.error("Snapshot Error:", error));
+    return stored;
+};
+
+const listSnapshotRevisions = (id) => storage.listRevisions(id);
 
-app.get('/api/trip', async (req, res) => {
+const readSnapshot = async (id, revision) => {
+    if (!Number.isInteger(revision)) return null;
+    return migrateTrip(await storage.readRevision(id, revision));
+};
+
+// Keep only the most recent revisions
+const pruneSnapshots = async (id) => {
+    const revisions = await listSnapshotRevisions(id);
+    await storage.deleteRevisions(id, revisions.slice(MAX_HISTORY_PER_TRIP));
+};
+
+// Serializes read-modify-write cycles per trip so concurrent saves can't interleave
+const tripLocks = new Map();
+const withTripLock = (id, fn) => {
+    const previous = tripLocks.get(id) || Promise.resolve();
+    const run = previous.catch(() => { }).then(fn);
+    tripLocks.set(id, run);
+    run.finally(() => {
+        if (tripLocks.get(id) === run) tripLocks.delete(id);
+    }).catch(() => { });
+    return run;
+};
+
+// --- TRIP ROLES ---
+// trip.members maps user ids to 'owner' | 'editor' | 'viewer'. Admins act as owner everywhere,
+// which also covers trips created before accounts existed (they have no members).
+const ROLE_RANK = { viewer: 1, editor: 2, owner: 3 };
+
+const tripRole = (trip, user) => {
+    if (!authEnabled) return 'owner'; // Public site: everyone can do everything, as before
+    if (!user) return null;
+    if (user.admin) return 'owner';
+    return trip.members?.[user.id] || null;
+};
+
+const hasRole = (trip, user, minimum) => (ROLE_RANK[tripRole(trip, user)] || 0) >= ROLE_RANK[minimum];
+
+// Non-members get 404 so trip ids can't be probed; members without the right role get 403
+const replyForbidden = (res, trip, user) => {
+    if (tripRole(trip, user)) return res.status(403).json({ error: 'Your role on this trip does not allow that' });
+    return res.status(404).json({ error: 'Trip not found' });
+};
+
+// Reads the trip and checks the caller's role; sends the error response itself and returns null
+const loadTripFor = async (req, res, minimum) => {
+    const trip = await readTrip(req.params.id);
+    if (!trip) {
+        res.status(404).json({ error: 'Trip not found' });
+        return null;
+    }
+    if (!hasRole(trip, req.user, minimum)) {
+        replyForbidden(res, trip, req.user);
+        return null;
+    }
+    return trip;
+};
+
+// Lightweight listing for the trip picker (avoids sending every day/activity)
+const summarizeTrip = (trip) => ({
+    id: trip.id,
+    title: trip.title,
+    startDate: trip.days?.[0]?.date,
+    dayCount: trip.days?.length || 0,
+    updatedAt: trip.updatedAt
+});
+
+const readAllTrips = async () => {
+    const ids = await storage.listTripIds();
+    return (await Promise.all(ids.map(readTrip))).filter(Boolean);
+};
+
+// Only the trips `user` is a member of, with their role
+const listTrips = async (user) => {
+    const trips = await readAllTrips();
+    return trips
+        .filter(trip => hasRole(trip, user, 'viewer'))
+        .map(trip => ({ ...summarizeTrip(trip), role: tripRole(trip, user) }))
+        .sort((a, b) => (b.updatedAt || '').localeCompare(a.updatedAt || ''));
+};
+
+// Rejected payloads get every problem found, so clients can show what to fix
+const replyInvalidTrip = (res, issues) => res.status(422).json({
+    error: `Invalid trip: ${describeIssues(issues)}`,
+    details: issues
+});
+
+// Rewrites trips from older schema versions in place. Revision and updatedAt stay
+// as they are: readTrip already serves the migrated form, so clients see no change.
+const upgradeStoredTrips = async () => {
+    let upgraded = 0;
+    for (const id of await storage.listTripIds()) {
+        try {
+            const raw = await storage.readTrip(id);
+            if (!raw) continue;
+            const trip = migrateTrip(raw);
+            if (trip !== raw) {
+                await storage.writeTrip(trip);
+                upgraded++;
+            }
+            const issues = validateTrip(trip);
+            if (issues.length > 0) console.warn(`⚠️ Trip ${id} does not match the schema: ${describeIssues(issues)}`);
+        } catch (error) {
+            console.error(`Upgrading trip ${id} failed:`, error);
+        }
+    }
+    if (upgraded > 0) console.log(`📦 Upgraded ${upgraded} trip(s) to schema version ${SCHEMA_VERSION}`);
+};
+
+const initTripStorage = async () => {
+    // Import the legacy single trip so existing deployments keep their data
     try {
-        const data = await fs.readFile(DATA_FILE, 'utf-8');
-        res.json(JSON.parse(data));
-    } catch (error) {
-        if (error.code === 'ENOENT') {
-            return res.json(null); // No saved trip yet
+        const legacy = JSON.parse(await fs.readFile(LEGACY_DATA_FILE, 'utf-8'));
+        const existing = await storage.listTripIds();
+        if (legacy && existing.length === 0) {
+            const trip = await writeTrip({ ...migrateTrip(legacy), id: generateTripId(), revision: 1 });
+            console.log(`📦 Imported legacy trip_data.json as ${trip.id}`);
         }
+    } catch (error) {
+        if (error.code !== 'ENOENT') console.error("Legacy import failed:", error);
+    }
+
+    await upgradeStoredTrips();
+};
+
+// Rejects ids that could escape the trips directory before any route touches storage
+const requireTripId = (req, res, next) => {
+    if (!TRIP_ID_PATTERN.test(req.params.id)) {
+        return res.status(400).json({ error: 'Invalid trip id' });
+    }
+    next();
+};
+
+app.get('/api/trips', async (req, res) => {
+    try {
+        res.json(await listTrips(req.user));
+    } catch (error) {
+        console.error("List Error:", error);
+        res.status(500).json({ error: 'Failed to list trips' });
+    }
+});
+
+app.post('/api/trips', async (req, res) => {
+    try {
+        const { title, days } = req.body || {};
+        // Days come from the current client, so they are already in the current schema
+        const trip = migrateTrip({
+            id: generateTripId(),
+            revision: 1,
+            schemaVersion: SCHEMA_VERSION,
+            ...(req.user ? { members: { [req.user.id]: 'owner' } } : {}),
+            title: (typeof title === 'string' && title.trim()) || 'Untitled Trip',
+            days: Array.isArray(days) && days.length > 0 ? days : [{
+                id: `day-${Date.now()}`,
+                date: new Date().toISOString().split('T')[0],
+                city: 'Tokyo',
+                startTime: '09:00',
+                activities: []
+            }]
+        });
+        const issues = validateTrip(trip);
+        if (issues.length > 0) return replyInvalidTrip(res, issues);
+
+        const saved = await writeTrip(trip);
+        io.emit('trips-changed');
+        res.status(201).json(saved);
+    } catch (error) {
+        console.error("Create Error:", error);
+        res.status(500).json({ error: 'Failed to create trip' });
+    }
+});
+
+app.get('/api/trips/:id', requireTripId, async (req, res) => {
+    try {
+        const trip = await loadTripFor(req, res, 'viewer');
+        if (trip) res.json(trip);
+    } catch (error) {
         console.error("Read Error:", error);
         res.status(500).json({ error: 'Failed to read trip data' });
     }
 });
 
-app.post('/api/trip', async (req, res) => {
+// Optimistic concurrency: the client sends the revision it last saw. A mismatch means
+// someone else saved in between, so we reply 409 with the current document instead of
+// overwriting their work.
+app.put('/api/trips/:id', requireTripId, async (req, res) => {
     try {
-        const tripData = req.body;
-        if (!tripData) return res.status(400).json({ error: 'No data provided' });
+        if (!req.body) return res.status(400).json({ error: 'No data provided' });
+        // Clients that were offline since an upgrade may still send the old shape
+        const tripData = migrateTrip(req.body);
+        const issues = validateTrip(tripData);
+        if (issues.length > 0) return replyInvalidTrip(res, issues);
+
+        const tripId = req.params.id;
+        const result = await withTripLock(tripId, async () => {
+            const current = await readTrip(tripId);
+            if (!current) return { status: 404 };
+            if (!hasRole(current, req.user, 'editor')) return { status: 403, current };
+
+            const currentRevision = current.revision || 0;
+            if ((tripData.revision || 0) !== currentRevision) {
+                return { status: 409, current };
+            }
 
-        await fs.writeFile(DATA_FILE, JSON.stringify(tripData, null, 2));
+            // Membership is managed through /members only, never by saving the document
+            return {
+                status: 200,
+                saved: await writeTrip({ ...tripData, id: tripId, revision: currentRevision + 1, members: current.members })
+            };
+        });
 
-        // Broadcast update to all connected clients except the sender
+        if (result.status === 404) return res.status(404).json({ error: 'Trip not found' });
+        if (result.status === 403) return replyForbidden(res, result.current, req.user);
+        if (result.status === 409) {
+            return res.status(409).json({ error: 'Trip was changed by someone else', current: result.current });
+        }
+
+        // Broadcast only to clients editing this trip; the sender filters itself out
         const socketId = req.headers['x-socket-id'];
-        io.emit('trip-updated', { data: tripData, sourceSocketId: socketId });
+        io.to(tripId).emit('trip-updated', { tripId, data: result.saved, sourceSocketId: socketId });
+        notifyShares(result.saved);
 
-        res.json({ success: true });
+        res.json({ success: true, revision: result.saved.revision, updatedAt: result.saved.updatedAt });
     } catch (error) {
         console.error("Write Error:", error);
         res.status(500).json({ error: 'Failed to save trip data' });
     }
 });
 
+app.delete('/api/trips/:id', requireTripId, async (req, res) => {
+    try {
+        const tripId = req.params.id;
+        if (!(await loadTripFor(req, res, 'owner'))) return;
+        const deleted = await withTripLock(tripId, () => storage.deleteTrip(tripId));
+        if (!deleted) return res.status(404).json({ error: 'Trip not found' });
+
+        io.to(tripId).emit('trip-deleted', { tripId });
+        await revokeShares((token, share) => share.tripId === tripId);
+        io.emit('trips-changed');
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Delete Error:", error);
+        res.status(500).json({ error: 'Failed to delete trip' });
+    }
+});
+
+// --- REVISION HISTORY ---
+app.get('/api/trips/:id/history', requireTripId, async (req, res) => {
+    try {
+        if (!(await loadTripFor(req, res, 'viewer'))) return;
+        const revisions = await listSnapshotRevisions(req.params.id);
+        const snapshots = await Promise.all(revisions.map(rev => readSnapshot(req.params.id, rev)));
+        res.json(snapshots.filter(Boolean).map(snap => ({
+            revision: snap.revision,
+            updatedAt: snap.updatedAt,
+            title: snap.title,
+            dayCount: snap.days?.length || 0,
+            activityCount: (snap.days || []).reduce((sum, d) => sum + (d.activities?.length || 0), 0)
+        })));
+    } catch (error) {
+        console.error("History Error:", error);
+        res.status(500).json({ error: 'Failed to read trip history' });
+    }
+});
+
+app.get('/api/trips/:id/history/:revision', requireTripId, async (req, res) => {
+    try {
+        if (!(await loadTripFor(req, res, 'viewer'))) return;
+        const snapshot = await readSnapshot(req.params.id, parseInt(req.params.revision, 10));
+        if (!snapshot) return res.status(404).json({ error: 'Revision not found' });
+        res.json(snapshot);
+    } catch (error) {
+        console.error("History Error:", error);
+        res.status(500).json({ error: 'Failed to read revision' });
+    }
+});
+
+// Restoring writes the old content as a *new* revision, so the restore itself is undoable
+app.post('/api/trips/:id/history/:revision/restore', requireTripId, async (req, res) => {
+    try {
+        const tripId = req.params.id;
+        const result = await withTripLock(tripId, async () => {
+            const current = await readTrip(tripId);
+            const snapshot = await readSnapshot(tripId, parseInt(req.params.revision, 10));
+            if (!current || !snapshot) return { status: 404 };
+            if (!hasRole(current, req.user, 'editor')) return { status: 403, current };
+            // Old snapshots may carry an outdated member list; access stays as it is now
+            return {
+                status: 200,
+                restored: await writeTrip({ ...snapshot, id: tripId, revision: (current.revision || 0) + 1, members: current.members })
+            };
+        });
+        if (result.status === 404) return res.status(404).json({ error: 'Revision not found' });
+        if (result.status === 403) return replyForbidden(res, result.current, req.user);
+        const { restored } = result;
+
+        const socketId = req.headers['x-socket-id'];
+        io.to(tripId).emit('trip-updated', { tripId, data: restored, sourceSocketId: socketId });
+        notifyShares(restored);
+        res.json(restored);
+    } catch (error) {
+        console.error("Restore Error:", error);
+        res.status(500).json({ error: 'Failed to restore revision' });
+    }
+});
+
+// --- TRIP MEMBERS ---
+const listMembers = async (trip) => {
+    const users = await readUsers();
+    return Object.entries(trip.members || {})
+        .map(([userId, role]) => {
+            const user = users.find(u => u.id === userId);
+            return user ? { ...publicUser(user), role } : null;
+        })
+        .filter(Boolean);
+};
+
+// After a membership change: drop sockets that lost access and tell the room to refresh roles
+const enforceRoomAccess = async (trip) => {
+    const sockets = await io.in(trip.id).fetchSockets();
+    sockets.forEach(s => {
+        if (!hasRole(trip, s.data.user, 'viewer')) {
+            s.emit('trip-access-changed', { tripId: trip.id });
+            s.leave(trip.id);
+            // Otherwise request-sync and presence would still act on the trip
+            s.data.tripId = null;
+        }
+    });
+    io.to(trip.id).emit('trip-access-changed', { tripId: trip.id });
+    io.emit('trips-changed');
+};
+
+const updateMembers = (tripId, fn) => withTripLock(tripId, async () => {
+    const current = await readTrip(tripId);
+    if (!current) throw Object.assign(new Error('Trip not found'), { status: 404 });
+    const members = fn({ ...(current.members || {}) });
+    if (!Object.values(members).includes('owner')) {
+        throw Object.assign(new Error('A trip needs at least one owner'), { status: 400 });
+    }
+    // Same revision: membership isn't itinerary content, so clients' pending edits stay valid
+    return writeTrip({ ...current, members });
+});
+
+app.get('/api/trips/:id/members', requireTripId, async (req, res) => {
+    try {
+        const trip = await loadTripFor(req, res, 'viewer');
+        if (!trip) return;
+        res.json({ authEnabled, role: tripRole(trip, req.user), members: await listMembers(trip) });
+    } catch (error) {
+        console.error("Members Error:", error);
+        res.status(500).json({ error: 'Failed to read members' });
+    }
+});
+
+// Adds a member by username, or changes the role of an existing one
+app.post('/api/trips/:id/members', requireTripId, async (req, res) => {
+    try {
+        if (!authEnabled) return res.status(400).json({ error: 'Sharing needs user accounts' });
+        const { username, role } = req.body || {};
+        if (!ROLE_RANK[role]) return res.status(400).json({ error: 'Role must be owner, editor or viewer' });
+        if (!(await loadTripFor(req, res, 'owner'))) return;
+
+        const user = await findUserByUsername(username);
+        if (!user) return res.status(404).json({ error: `No user named "${username}"` });
+
+        const trip = await updateMembers(req.params.id, members => ({ ...members, [user.id]: role }));
+        await enforceRoomAccess(trip);
+        res.json(await listMembers(trip));
+    } catch (error) {
+        if (error.status) return res.status(error.status).json({ error: error.message });
+        console.error("Members Error:", error);
+        res.status(500).json({ error: 'Failed to update members' });
+    }
+});
+
+app.delete('/api/trips/:id/members/:userId', requireTripId, async (req, res) => {
+    try {
+        // Owners manage everyone; anyone may remove themselves
+        const minimum = req.user?.id === req.params.userId ? 'viewer' : 'owner';
+        if (!(await loadTripFor(req, res, minimum))) return;
+
+        const trip = await updateMembers(req.params.id, members => {
+            delete members[req.params.userId];
+            return members;
+        });
+        await enforceRoomAccess(trip);
+        res.json(await listMembers(trip));
+    } catch (error) {
+        if (error.status) return res.status(error.status).json({ error: error.message });
+        console.error("Members Error:", error);
+        res.status(500).json({ error: 'Failed to update members' });
+    }
+});
+
 // --- FILE UPLOAD HANDLING ---
 import multer from 'multer';
 
@@ -204,8 +1080,43 @@ import multer from 'multer';
 const UPLOADS_DIR = path.join(__dirname, 'uploads');
 fs.mkdir(UPLOADS_DIR, { recursive: true }).catch(console.error);
 
+// Which trip each uploaded file belongs to, so downloads can be checked against trip roles
+const attachmentIndex = storage.index('attachments');
+
+// Files uploaded before the index existed are found by the trip that references them
+const findAttachmentTrip = async (filename) => {
+    const entry = (await attachmentIndex.read())[filename];
+    if (entry) return readTrip(entry.tripId);
+
+    const trips = await readAllTrips();
+    const owner = trips.find(trip =>
+        (trip.days || []).some(day => (day.attachments || []).some(att => att.id === filename)
+            || (day.expenses || []).some(expense => expense.receipt?.id === filename))
+        || (trip.accommodations || []).some(stay => stay.booking?.id === filename));
+    if (owner) {
+        await attachmentIndex.update(index => ({ ...index, [filename]: { tripId: owner.id } }));
+    }
+    return owner || null;
+};
+
+// Uploads go to a trip the caller can edit (checked before the file is written)
+const requireUploadAccess = async (req, res, next) => {
+    try {
+        const tripId = req.query.tripId;
+        if (typeof tripId !== 'string' || !TRIP_ID_PATTERN.test(tripId)) {
+            return res.status(400).json({ error: 'tripId is required' });
+        }
+        req.params.id = tripId;
+        if (await loadTripFor(req, res, 'editor')) next();
+    } catch (error) {
+        next(error);
+    }
+};
+
+const UPLOAD_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+
 // Configure multer for file storage
-const storage = multer.diskStorage({
+const diskStorage = multer.diskStorage({
     destination: (req, file, cb) => {
         cb(null, UPLOADS_DIR);
     },
@@ -219,27 +1130,38 @@ const storage = multer.diskStorage({
 });
 
 const upload = multer({
-    storage: storage,
+    storage: diskStorage,
     limits: {
         fileSize: 10 * 1024 * 1024 // 10MB limit
     },
     fileFilter: (req, file, cb) => {
-        // Only accept PDFs
-        if (file.mimetype === 'application/pdf') {
+        // PDFs, plus photos of receipts
+        if (UPLOAD_TYPES.includes(file.mimetype)) {
             cb(null, true);
         } else {
-            cb(new Error('Only PDF files are allowed'));
+            cb(new Error('Only PDF files and images are allowed'));
         }
     }
 });
 
 // Upload PDF endpoint
-app.post('/api/upload', upload.single('pdf'), (req, res) => {
+app.post('/api/upload', requireUploadAccess, upload.single('pdf'), async (req, res) => {
     try {
         if (!req.file) {
             return res.status(400).json({ error: 'No file uploaded' });
         }
 
+        await attachmentIndex.update(index => ({
+            ...index,
+            [req.file.filename]: {
+                tripId: req.params.id,
+                fileName: req.file.originalname,
+                size: req.file.size,
+                uploadedBy: req.user?.id,
+                uploadedAt: new Date().toISOString()
+            }
+        }));
+
         // Return file info
         res.json({
             id: req.file.filename,
@@ -255,8 +1177,19 @@ app.post('/api/upload', upload.single('pdf'), (req, res) => {
 });
 
 // Serve uploaded PDFs
-app.get('/api/attachments/:filename', (req, res) => {
-    const filePath = path.join(UPLOADS_DIR, req.params.filename);
+app.get('/api/attachments/:filename', async (req, res) => {
+    const filename = path.basename(req.params.filename);
+    try {
+        if (authEnabled) {
+            const trip = await findAttachmentTrip(filename);
+            if (!trip || !hasRole(trip, req.user, 'viewer')) return res.status(404).json({ error: 'File not found' });
+        }
+    } catch (error) {
+        console.error('Attachment lookup error:', error);
+        return res.status(500).json({ error: 'Failed to read file' });
+    }
+
+    const filePath = path.join(UPLOADS_DIR, filename);
     res.sendFile(filePath, (err) => {
         if (err) {
             res.status(404).json({ error: 'File not found' });
@@ -267,8 +1200,19 @@ app.get('/api/attachments/:filename', (req, res) => {
 // Delete PDF endpoint
 app.delete('/api/attachments/:id', async (req, res) => {
     try {
-        const filePath = path.join(UPLOADS_DIR, req.params.id);
+        const filename = path.basename(req.params.id);
+        if (authEnabled) {
+            const trip = await findAttachmentTrip(filename);
+            if (!trip) return res.status(404).json({ error: 'File not found' });
+            if (!hasRole(trip, req.user, 'editor')) return replyForbidden(res, trip, req.user);
+        }
+
+        const filePath = path.join(UPLOADS_DIR, filename);
         await fs.unlink(filePath);
+        await attachmentIndex.update(index => {
+            delete index[filename];
+            return index;
+        });
         res.json({ success: true });
     } catch (error) {
         console.error('Delete error:', error);
@@ -276,6 +1220,167 @@ app.delete('/api/attachments/:id', async (req, res) => {
     }
 });
 
+// --- PUBLIC SHARE LINKS ---
+// Read-only links for people without an account. Tokens are random and kept in storage;
+// deleting one revokes the link at once and disconnects anyone still viewing it.
+const shareIndex = storage.index('shares');
+const SHARE_TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+const shareRoom = (token) => `share:${token}`;
+
+const findShare = async (token) => {
+    if (typeof token !== 'string' || !SHARE_TOKEN_PATTERN.test(token)) return null;
+    return (await shareIndex.read())[token] || null;
+};
+
+// Booking references can be used to change or cancel a ticket, so links only show the seat
+const withoutBookingRefs = (transfers) => transfers?.map(({ reservation, ...transfer }) =>
+    reservation ? { ...transfer, reservation: { car: reservation.car, seat: reservation.seat } } : transfer);
+
+const toSharedAttachment = (attachment, token) => ({
+    ...attachment,
+    filePath: `/api/share/${token}/attachments/${encodeURIComponent(attachment.id)}`
+});
+
+// Spending is the travellers' own business; links show the plan's estimates only
+const withoutBudget = (settings) => {
+    if (!settings?.budget) return settings;
+    const { budget, ...rest } = settings;
+    return rest;
+};
+
+// Travellers' ages and tiers price the admission totals; their names stay private
+const toSharedTravellers = (travellers) => travellers?.map(({ id, age, priceTier }, i) => ({
+    id,
+    name: `Traveller ${i + 1}`,
+    ...(age !== undefined && { age }),
+    ...(priceTier !== undefined && { priceTier })
+}));
+
+// What a link exposes: no member list, no booking references, no spending, and attachments only if the owner allowed them
+const toSharedTrip = (trip, token, share) => ({
+    id: trip.id,
+    title: trip.title,
+    revision: trip.revision,
+    updatedAt: trip.updatedAt,
+    settings: withoutBudget(trip.settings),
+    travellers: toSharedTravellers(trip.travellers),
+    accommodations: trip.accommodations?.map(({ confirmation, booking, ...stay }) =>
+        share.showAttachments && booking ? { ...stay, booking: toSharedAttachment(booking, token) } : stay),
+    days: (trip.days || []).map(({ attachments, transfers, expenses, ...rest }) => {
+        const day = transfers ? { ...rest, transfers: withoutBookingRefs(transfers) } : rest;
+        if (!share.showAttachments || !attachments) return day;
+        return {
+            ...day,
+            attachments: attachments.map(att => toSharedAttachment(att, token))
+        };
+    })
+});
+
+// Pushes a saved trip to everyone watching it through a share link
+const notifyShares = async (trip) => {
+    try {
+        Object.entries(await shareIndex.read())
+            .filter(([, share]) => share.tripId === trip.id)
+            .forEach(([token, share]) => {
+                io.to(shareRoom(token)).emit('shared-trip', { trip: toSharedTrip(trip, token, share) });
+            });
+    } catch (error) {
+        console.error('Share broadcast failed:', error);
+    }
+};
+
+const revokeShares = async (shouldRevoke) => {
+    const revoked = [];
+    await shareIndex.update(index => {
+        Object.entries(index).forEach(([token, share]) => {
+            if (!shouldRevoke(token, share)) return;
+            revoked.push(token);
+            delete index[token];
+        });
+        return index;
+    });
+    revoked.forEach(token => {
+        io.to(shareRoom(token)).emit('share-revoked');
+        io.in(shareRoom(token)).disconnectSockets(true);
+    });
+};
+
+const listShares = async (tripId) => Object.entries(await shareIndex.read())
+    .filter(([, share]) => share.tripId === tripId)
+    .map(([token, share]) => ({ token, ...share }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+app.get('/api/trips/:id/shares', requireTripId, async (req, res) => {
+    try {
+        if (!(await loadTripFor(req, res, 'owner'))) return;
+        res.json(await listShares(req.params.id));
+    } catch (error) {
+        console.error("Share Error:", error);
+        res.status(500).json({ error: 'Failed to list share links' });
+    }
+});
+
+app.post('/api/trips/:id/shares', requireTripId, async (req, res) => {
+    try {
+        if (!(await loadTripFor(req, res, 'owner'))) return;
+        const token = crypto.randomBytes(24).toString('base64url');
+        await shareIndex.update(index => ({
+            ...index,
+            [token]: {
+                tripId: req.params.id,
+                showAttachments: !!req.body?.showAttachments,
+                createdBy: req.user?.id,
+                createdAt: new Date().toISOString()
+            }
+        }));
+        res.status(201).json(await listShares(req.params.id));
+    } catch (error) {
+        console.error("Share Error:", error);
+        res.status(500).json({ error: 'Failed to create share link' });
+    }
+});
+
+app.delete('/api/trips/:id/shares/:token', requireTripId, async (req, res) => {
+    try {
+        if (!(await loadTripFor(req, res, 'owner'))) return;
+        await revokeShares((token, share) => token === req.params.token && share.tripId === req.params.id);
+        res.json(await listShares(req.params.id));
+    } catch (error) {
+        console.error("Share Error:", error);
+        res.status(500).json({ error: 'Failed to revoke share link' });
+    }
+});
+
+// No session needed below: the token itself is the permission
+app.get('/api/share/:token', async (req, res) => {
+    try {
+        const share = await findShare(req.params.token);
+        const trip = share && await readTrip(share.tripId);
+        if (!trip) return res.status(404).json({ error: 'This link is no longer valid' });
+        res.json(toSharedTrip(trip, req.params.token, share));
+    } catch (error) {
+        console.error("Share Error:", error);
+        res.status(500).json({ error: 'Failed to read shared trip' });
+    }
+});
+
+app.get('/api/share/:token/attachments/:filename', async (req, res) => {
+    try {
+        const filename = path.basename(req.params.filename);
+        const share = await findShare(req.params.token);
+        const trip = share?.showAttachments && await findAttachmentTrip(filename);
+        if (!trip || trip.id !== share.tripId) return res.status(404).json({ error: 'File not found' });
+
+        res.sendFile(path.join(UPLOADS_DIR, filename), (err) => {
+            if (err) res.status(404).json({ error: 'File not found' });
+        });
+    } catch (error) {
+        console.error("Share Error:", error);
+        res.status(500).json({ error: 'Failed to read file' });
+    }
+});
+
 // --- SERVE STATIC FILES (Production) ---
 const distPath = path.join(__dirname, '../dist');
 app.use(express.static(distPath));
@@ -288,25 +1393,163 @@ app.get(/.*/, (req, res) => {
     res.sendFile(path.join(distPath, 'index.html'));
 });
 
+// --- PRESENCE ---
+// Presence lives on socket.data only; it is never persisted.
+const optionalId = (value) => typeof value === 'string' && value.length <= 64 ? value : null;
+
+// Signed-in users always appear under their account name
+const sanitizePresence = (presence, user) => ({
+    name: user?.displayName || (typeof presence.name === 'string' && presence.name.trim()
+        ? presence.name.trim().slice(0, 40)
+        : 'Guest'),
+    selectedDayId: optionalId(presence.selectedDayId),
+    editingActivityId: optionalId(presence.editingActivityId)
+});
+
+const broadcastPresence = async (tripId) => {
+    try {
+        const sockets = await io.in(tripId).fetchSockets();
+        const users = sockets
+            .filter(s => s.data.presence)
+            .map(s => ({ socketId: s.id, ...s.data.presence }));
+        io.to(tripId).emit('presence', { tripId, users });
+    } catch (error) {
+        console.error('Presence broadcast failed:', error);
+    }
+};
+
+// The trip a socket has joined, if it may still see it. Access can be revoked while the socket
+// stays connected, so handlers that read or announce the trip check again and drop it if not.
+const joinedTrip = async (socket) => {
+    const tripId = socket.data.tripId;
+    if (!tripId) return null;
+    const trip = await readTrip(tripId);
+    if (trip && hasRole(trip, socket.data.user, 'viewer')) return trip;
+    socket.leave(tripId);
+    socket.data.tripId = null;
+    return null;
+};
+
 // --- WEBSOCKET HANDLERS ---
+// Same session cookie as the REST API; the user is kept on socket.data for role checks
+io.use(async (socket, next) => {
+    try {
+        // Share-link viewers connect with their token instead of a session
+        const shareToken = socket.handshake.auth?.shareToken;
+        if (shareToken) {
+            const share = await findShare(shareToken);
+            if (!share) return next(new Error('share-not-found'));
+            socket.data.share = { token: shareToken, tripId: share.tripId };
+            return next();
+        }
+
+        if (!authEnabled) return next();
+        const user = await userFromCookieHeader(socket.handshake.headers.cookie);
+        if (!user) return next(new Error('unauthorized'));
+        socket.data.user = publicUser(user);
+        next();
+    } catch (error) {
+        next(error);
+    }
+});
+
 io.on('connection', (socket) => {
     console.log(`🔌 Client connected: ${socket.id}`);
 
     socket.on('disconnect', () => {
         console.log(`🔌 Client disconnected: ${socket.id}`);
+        // The socket has already left its rooms, so the remaining members get the new list
+        if (socket.data.tripId) broadcastPresence(socket.data.tripId);
+    });
+
+    // Share-link viewers only receive 'shared-trip'; none of the editing handlers are registered
+    if (socket.data.share) {
+        socket.join(shareRoom(socket.data.share.token));
+        return;
+    }
+
+    // Each socket edits one trip at a time; rooms keep broadcasts scoped to it
+    socket.on('join-trip', async (tripId) => {
+        if (typeof tripId !== 'string' || !TRIP_ID_PATTERN.test(tripId)) return;
+
+        try {
+            const trip = await readTrip(tripId);
+            if (!trip || !hasRole(trip, socket.data.user, 'viewer')) return;
+        } catch (error) {
+            console.error('Join failed:', error);
+            return;
+        }
+
+        const previousTripId = socket.data.tripId;
+        if (previousTripId && previousTripId !== tripId) {
+            socket.leave(previousTripId);
+            broadcastPresence(previousTripId);
+        }
+        socket.join(tripId);
+        socket.data.tripId = tripId;
+        broadcastPresence(tripId);
+    });
+
+    // Who is here, which day they look at and which activity they are editing
+    socket.on('presence-update', async (update = {}) => {
+        socket.data.presence = sanitizePresence({ ...socket.data.presence, ...update }, socket.data.user);
+        const tripId = socket.data.tripId;
+        if (!tripId) return;
+
+        try {
+            if (await joinedTrip(socket)) broadcastPresence(tripId);
+        } catch (error) {
+            console.error('Presence update failed:', error);
+        }
+    });
+
+    // Fine-grained edits: apply on top of whatever is stored now, then relay to the room.
+    // Because ops target single activities/days, collaborators on different days don't collide.
+    socket.on('trip-ops', async ({ tripId, ops } = {}, ack = () => { }) => {
+        if (tripId !== socket.data.tripId || !Array.isArray(ops) || ops.length === 0) {
+            return ack({ ok: false, error: 'Invalid operations' });
+        }
+
+        try {
+            const saved = await withTripLock(tripId, async () => {
+                const current = await readTrip(tripId);
+                if (!current) return { error: 'Trip not found' };
+                // Checked on every batch: roles can change while a socket stays connected
+                if (!hasRole(current, socket.data.user, 'editor')) return { error: 'Not allowed to edit this trip' };
+                const next = applyOperations(current, ops);
+                const issues = validateTrip(next);
+                if (issues.length > 0) return { error: `Invalid trip: ${describeIssues(issues)}`, details: issues };
+                return writeTrip({ ...next, id: tripId, revision: (current.revision || 0) + 1 });
+            });
+            if (saved.error) return ack({ ok: false, error: saved.error, details: saved.details });
+
+            socket.to(tripId).emit('trip-ops', { tripId, ops, revision: saved.revision, sourceSocketId: socket.id });
+            notifyShares(saved);
+            ack({ ok: true, revision: saved.revision });
+        } catch (error) {
+            console.error('Applying operations failed:', error);
+            ack({ ok: false, error: 'Failed to apply operations' });
+        }
     });
 
     // Optional: Handle manual sync requests
     socket.on('request-sync', async () => {
+        const tripId = socket.data.tripId;
+        if (!tripId) return;
+
         try {
-            const data = await fs.readFile(DATA_FILE, 'utf-8');
-            socket.emit('trip-updated', { data: JSON.parse(data), sourceSocketId: socket.id });
+            const data = await joinedTrip(socket);
+            // No sourceSocketId: the requester must not filter out its own sync
+            if (data) socket.emit('trip-updated', { tripId, data });
         } catch (error) {
             console.error('Sync request failed:', error);
         }
     });
 });
 
+await initAccounts();
+await initTripStorage();
+
 httpServer.listen(PORT, () => {
     console.log(`Server running at http://localhost:${PORT}`);
     console.log(`🔌 WebSocket server ready for real-time sync`);
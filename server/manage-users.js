@@ -0,0 +1,69 @@
+import { readUsers, createUser, findUserByUsername, setPassword, updateUser, deleteUser } from './users.js';
+
+// Account management from the VPS shell, e.g.:
+//   node manage-users.js add alice "s3cret" "Alice" --admin
+
+const [command, username, ...rest] = process.argv.slice(2);
+const flags = rest.filter(arg => arg.startsWith('--'));
+const args = rest.filter(arg => !arg.startsWith('--'));
+
+const usage = () => {
+    console.error(`Usage:
+  node manage-users.js list
+  node manage-users.js add <username> <password> [display name] [--admin]
+  node manage-users.js passwd <username> <new-password>
+  node manage-users.js admin <username> on|off
+  node manage-users.js remove <username>`);
+    process.exit(1);
+};
+
+const requireUser = async () => {
+    const user = await findUserByUsername(username);
+    if (!user) {
+        console.error(`No user named "${username}"`);
+        process.exit(1);
+    }
+    return user;
+};
+
+try {
+    switch (command) {
+        case 'list': {
+            const users = await readUsers();
+            if (users.length === 0) console.log('No users yet.');
+            users.forEach(u => console.log(`${u.username}\t${u.displayName}${u.admin ? '\t(admin)' : ''}`));
+            break;
+        }
+        case 'add': {
+            if (!username || !args[0]) usage();
+            const user = await createUser({ username, password: args[0], displayName: args[1], admin: flags.includes('--admin') });
+            console.log(`✅ Created ${user.username}${user.admin ? ' (admin)' : ''}`);
+            break;
+        }
+        case 'passwd': {
+            if (!username || !args[0]) usage();
+            await setPassword(await requireUser(), args[0]);
+            console.log(`✅ Password changed for ${username}; existing sessions are signed out`);
+            break;
+        }
+        case 'admin': {
+            if (!username || !['on', 'off'].includes(args[0])) usage();
+            const user = await requireUser();
+            await updateUser(user.id, { admin: args[0] === 'on' });
+            console.log(`✅ ${user.username} is ${args[0] === 'on' ? 'now' : 'no longer'} an admin`);
+            break;
+        }
+        case 'remove': {
+            if (!username) usage();
+            const user = await requireUser();
+            await deleteUser(user.id);
+            console.log(`✅ Removed ${user.username} (their trip memberships are ignored from now on)`);
+            break;
+        }
+        default:
+            usage();
+    }
+} catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+}
@@ -0,0 +1,24 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+// scrypt password hashing shared by the server, generate-hash.js and manage-users.js.
+// Stored format: salt:hash (hex), the same as BASIC_AUTH_HASH always used.
+
+const scrypt = promisify(crypto.scrypt);
+const KEY_LENGTH = 64;
+
+export const hashPasswordSync = (password) => {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = crypto.scryptSync(password, salt, KEY_LENGTH).toString('hex');
+    return `${salt}:${hash}`;
+};
+
+export const verifyPassword = async (password, stored) => {
+    const [salt, key] = (stored || '').split(':');
+    if (!salt || !key || typeof password !== 'string') return false;
+
+    const derivedKey = await scrypt(password, salt, KEY_LENGTH);
+    const expected = Buffer.from(key, 'hex');
+    // Timing Safe Equality Check
+    return expected.length === derivedKey.length && crypto.timingSafeEqual(expected, derivedKey);
+};
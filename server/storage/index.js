@@ -0,0 +1,72 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createJsonStore } from './jsonStore.js';
+import { createSqliteStore } from './sqliteStore.js';
+
+// Storage for trips, revisions, users and the small keyed indexes (attachment metadata,
+// share links). Uploaded PDFs themselves stay as files in server/uploads.
+//
+// STORAGE_DRIVER=sqlite (default) keeps everything in server/trips.db; it needs the optional
+// better-sqlite3 package and falls back to the JSON files when that isn't installed.
+// STORAGE_DRIVER=json keeps the original one-file-per-trip layout.
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = path.join(__dirname, '..');
+const SQLITE_FILE = path.join(DATA_DIR, 'trips.db');
+
+// Indexes copied when moving from the JSON files to SQLite
+const INDEX_NAMES = ['attachments', 'shares'];
+
+const loadSqlite = async () => {
+    try {
+        return (await import('better-sqlite3')).default;
+    } catch (error) {
+        console.warn('⚠️ better-sqlite3 is not installed; storing data as JSON files instead.');
+        return null;
+    }
+};
+
+// First start on SQLite: bring over everything the JSON driver had stored
+const importJsonData = async (sqlite) => {
+    if (!sqlite.isEmpty()) return;
+    const json = await createJsonStore(DATA_DIR);
+
+    const tripIds = await json.listTripIds();
+    const trips = (await Promise.all(tripIds.map(id => json.readTrip(id)))).filter(Boolean);
+    const revisions = [];
+    for (const id of tripIds) {
+        for (const revision of await json.listRevisions(id)) {
+            const data = await json.readRevision(id, revision);
+            if (data) revisions.push({ tripId: id, revision, data });
+        }
+    }
+    const indexes = {};
+    for (const name of INDEX_NAMES) indexes[name] = await json.index(name).read();
+    const users = await json.readUsers();
+
+    if (trips.length === 0 && users.length === 0) return;
+    sqlite.importData({ trips, revisions, indexes, users });
+    console.log(`📦 Imported ${trips.length} trip(s), ${revisions.length} revision(s) and ${users.length} user(s) from JSON files into SQLite`);
+};
+
+const openStorage = async () => {
+    const requested = (process.env.STORAGE_DRIVER || 'sqlite').toLowerCase();
+    if (requested !== 'json' && requested !== 'sqlite') {
+        throw new Error(`Unknown STORAGE_DRIVER "${requested}" (use sqlite or json)`);
+    }
+
+    const Database = requested === 'sqlite' ? await loadSqlite() : null;
+    if (!Database) return createJsonStore(DATA_DIR);
+
+    const store = await createSqliteStore(Database, SQLITE_FILE);
+    await importJsonData(store);
+    return store;
+};
+
+let storagePromise = null;
+
+// One store per process, shared by the server and users.js
+export const getStorage = () => {
+    if (!storagePromise) storagePromise = openStorage();
+    return storagePromise;
+};
@@ -0,0 +1,121 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+// The original storage layout, kept as a fallback driver and as the import source for SQLite:
+//   trips/<id>.json                one file per trip
+//   history/<id>/<revision>.json   one file per saved revision
+//   users.json, <index>.json       accounts and the small keyed indexes (attachments, shares)
+
+// Writes to a temporary file and renames it over the target, so a crash mid-save leaves
+// either the old or the new file on disk, never a truncated one
+export const writeFileAtomic = async (file, data) => {
+    const tmp = `${file}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    let handle;
+    try {
+        handle = await fs.open(tmp, 'w');
+        await handle.writeFile(data);
+        await handle.sync();
+        await handle.close();
+        handle = null;
+        await fs.rename(tmp, file);
+    } catch (error) {
+        await handle?.close().catch(() => { });
+        await fs.rm(tmp, { force: true });
+        throw error;
+    }
+};
+
+const readJson = async (file, fallback) => {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch (error) {
+        if (error.code === 'ENOENT') return fallback;
+        throw error;
+    }
+};
+
+const listJsonFiles = async (dir) => {
+    try {
+        return (await fs.readdir(dir)).filter(f => f.endsWith('.json'));
+    } catch (error) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+    }
+};
+
+export const createJsonStore = async (dataDir) => {
+    const tripsDir = path.join(dataDir, 'trips');
+    const historyDir = (id) => path.join(dataDir, 'history', id);
+    const tripFile = (id) => path.join(tripsDir, `${id}.json`);
+    const usersFile = path.join(dataDir, 'users.json');
+
+    await fs.mkdir(tripsDir, { recursive: true });
+
+    // Read-modify-write cycles on one file are queued so concurrent updates can't interleave
+    const indexes = new Map();
+    const index = (name) => {
+        if (indexes.has(name)) return indexes.get(name);
+        const file = path.join(dataDir, `${name}.json`);
+        let pending = Promise.resolve();
+
+        const read = () => readJson(file, {});
+        const update = (fn) => {
+            pending = pending.catch(() => { }).then(async () => {
+                const next = fn(await read());
+                await writeFileAtomic(file, JSON.stringify(next, null, 2));
+                return next;
+            });
+            return pending;
+        };
+
+        const entry = { read, update };
+        indexes.set(name, entry);
+        return entry;
+    };
+
+    return {
+        driver: 'json',
+
+        readTrip: (id) => readJson(tripFile(id), null),
+        writeTrip: (trip) => writeFileAtomic(tripFile(trip.id), JSON.stringify(trip, null, 2)),
+        // The snapshot is written first: a crash in between leaves an extra revision in the
+        // history, never a current trip that has none
+        saveTrip: async (trip) => {
+            if (trip.revision) {
+                await fs.mkdir(historyDir(trip.id), { recursive: true });
+                await writeFileAtomic(path.join(historyDir(trip.id), `${trip.revision}.json`), JSON.stringify(trip));
+            }
+            await writeFileAtomic(tripFile(trip.id), JSON.stringify(trip, null, 2));
+        },
+        listTripIds: async () => (await listJsonFiles(tripsDir)).map(f => path.basename(f, '.json')),
+        // Resolves false when there was no such trip
+        deleteTrip: async (id) => {
+            try {
+                await fs.unlink(tripFile(id));
+            } catch (error) {
+                if (error.code === 'ENOENT') return false;
+                throw error;
+            }
+            await fs.rm(historyDir(id), { recursive: true, force: true });
+            return true;
+        },
+
+        readRevision: (id, revision) => readJson(path.join(historyDir(id), `${revision}.json`), null),
+        // Newest first
+        listRevisions: async (id) => (await listJsonFiles(historyDir(id)))
+            .map(f => parseInt(path.basename(f, '.json'), 10))
+            .filter(n => !isNaN(n))
+            .sort((a, b) => b - a),
+        deleteRevisions: async (id, revisions) => {
+            await Promise.all(revisions.map(rev => fs.rm(path.join(historyDir(id), `${rev}.json`), { force: true })));
+        },
+
+        index,
+
+        readUsers: () => readJson(usersFile, []),
+        writeUsers: (users) => writeFileAtomic(usersFile, JSON.stringify(users, null, 2)),
+
+        close: async () => { }
+    };
+};
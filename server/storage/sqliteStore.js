@@ -0,0 +1,122 @@
+// SQLite driver: everything in one database file, every write in a transaction.
+// better-sqlite3 is synchronous; methods are async only to match the JSON driver.
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS trips (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS revisions (
+        trip_id TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (trip_id, revision)
+    );
+    CREATE TABLE IF NOT EXISTS index_entries (
+        name TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        PRIMARY KEY (name, key)
+    );
+    CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL
+    );
+`;
+
+export const createSqliteStore = async (Database, file) => {
+    const db = new Database(file);
+    // WAL lets manage-users.js write while the server is reading; busy_timeout covers the overlap
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    db.exec(SCHEMA);
+
+    const statements = {
+        readTrip: db.prepare('SELECT data FROM trips WHERE id = ?'),
+        writeTrip: db.prepare('INSERT INTO trips (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data'),
+        listTripIds: db.prepare('SELECT id FROM trips'),
+        deleteTrip: db.prepare('DELETE FROM trips WHERE id = ?'),
+        readRevision: db.prepare('SELECT data FROM revisions WHERE trip_id = ? AND revision = ?'),
+        writeRevision: db.prepare('INSERT OR REPLACE INTO revisions (trip_id, revision, data) VALUES (?, ?, ?)'),
+        listRevisions: db.prepare('SELECT revision FROM revisions WHERE trip_id = ? ORDER BY revision DESC'),
+        deleteRevision: db.prepare('DELETE FROM revisions WHERE trip_id = ? AND revision = ?'),
+        deleteAllRevisions: db.prepare('DELETE FROM revisions WHERE trip_id = ?'),
+        readIndex: db.prepare('SELECT key, value FROM index_entries WHERE name = ?'),
+        clearIndex: db.prepare('DELETE FROM index_entries WHERE name = ?'),
+        writeIndexEntry: db.prepare('INSERT INTO index_entries (name, key, value) VALUES (?, ?, ?)'),
+        readUsers: db.prepare('SELECT data FROM users ORDER BY position'),
+        clearUsers: db.prepare('DELETE FROM users'),
+        writeUser: db.prepare('INSERT INTO users (id, position, data) VALUES (?, ?, ?)')
+    };
+
+    const parseRow = (row) => row ? JSON.parse(row.data) : null;
+
+    const readIndex = (name) => Object.fromEntries(
+        statements.readIndex.all(name).map(row => [row.key, JSON.parse(row.value)]));
+
+    const replaceIndex = (name, entries) => {
+        statements.clearIndex.run(name);
+        Object.entries(entries || {}).forEach(([key, value]) =>
+            statements.writeIndexEntry.run(name, key, JSON.stringify(value)));
+    };
+
+    const replaceUsers = (users) => {
+        statements.clearUsers.run();
+        users.forEach((user, position) => statements.writeUser.run(user.id, position, JSON.stringify(user)));
+    };
+
+    const deleteTrip = db.transaction((id) => {
+        statements.deleteAllRevisions.run(id);
+        return statements.deleteTrip.run(id).changes > 0;
+    });
+    // The trip and its revision snapshot land together, so every saved revision can be restored
+    const saveTrip = db.transaction((trip) => {
+        statements.writeTrip.run(trip.id, JSON.stringify(trip));
+        if (trip.revision) statements.writeRevision.run(trip.id, trip.revision, JSON.stringify(trip));
+    });
+    const deleteRevisions = db.transaction((id, revisions) => {
+        revisions.forEach(rev => statements.deleteRevision.run(id, rev));
+    });
+    // The whole read-modify-write runs inside one transaction, so it is atomic across processes too
+    const updateIndex = db.transaction((name, fn) => {
+        const next = fn(readIndex(name));
+        replaceIndex(name, next);
+        return next;
+    });
+    const writeUsers = db.transaction(replaceUsers);
+
+    // One transaction for the whole import: a crash leaves the database empty and it is retried
+    const importData = db.transaction(({ trips, revisions, indexes, users }) => {
+        trips.forEach(trip => statements.writeTrip.run(trip.id, JSON.stringify(trip)));
+        revisions.forEach(({ tripId, revision, data }) => statements.writeRevision.run(tripId, revision, JSON.stringify(data)));
+        Object.entries(indexes).forEach(([name, entries]) => replaceIndex(name, entries));
+        replaceUsers(users);
+    });
+
+    return {
+        driver: 'sqlite',
+
+        readTrip: async (id) => parseRow(statements.readTrip.get(id)),
+        writeTrip: async (trip) => { statements.writeTrip.run(trip.id, JSON.stringify(trip)); },
+        saveTrip: async (trip) => saveTrip(trip),
+        listTripIds: async () => statements.listTripIds.all().map(row => row.id),
+        deleteTrip: async (id) => deleteTrip(id),
+
+        readRevision: async (id, revision) => parseRow(statements.readRevision.get(id, revision)),
+        listRevisions: async (id) => statements.listRevisions.all(id).map(row => row.revision),
+        deleteRevisions: async (id, revisions) => deleteRevisions(id, revisions),
+
+        index: (name) => ({
+            read: async () => readIndex(name),
+            update: async (fn) => updateIndex(name, fn)
+        }),
+
+        readUsers: async () => statements.readUsers.all().map(parseRow),
+        writeUsers: async (users) => writeUsers(users),
+
+        isEmpty: () => statements.listTripIds.all().length === 0 && statements.readUsers.all().length === 0,
+        importData,
+        close: async () => db.close()
+    };
+};
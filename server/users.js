@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import { hashPasswordSync } from './passwords.js';
+import { getStorage } from './storage/index.js';
+
+// Accounts live in the configured storage (see storage/index.js). Read by the server on every
+// login and session check, so changes made with manage-users.js apply without a restart.
+
+export const USERNAME_PATTERN = /^[a-z0-9_.-]{2,32}$/;
+
+export const readUsers = async () => (await getStorage()).readUsers();
+
+const writeUsers = async (users) => (await getStorage()).writeUsers(users);
+
+export const findUserById = async (id) => (await readUsers()).find(u => u.id === id) || null;
+
+export const findUserByUsername = async (username) => {
+    const normalized = (username || '').trim().toLowerCase();
+    return (await readUsers()).find(u => u.username === normalized) || null;
+};
+
+// `passwordHash` lets an existing salt:hash (e.g. BASIC_AUTH_HASH) be adopted as-is
+export const createUser = async ({ username, password, passwordHash, displayName, admin = false }) => {
+    const normalized = (username || '').trim().toLowerCase();
+    if (!USERNAME_PATTERN.test(normalized)) {
+        throw new Error('Usernames are 2-32 characters: lowercase letters, digits, "_", "." or "-"');
+    }
+
+    const users = await readUsers();
+    if (users.some(u => u.username === normalized)) throw new Error(`User "${normalized}" already exists`);
+
+    const user = {
+        id: `user-${crypto.randomBytes(6).toString('hex')}`,
+        username: normalized,
+        displayName: displayName?.trim() || normalized,
+        passwordHash: passwordHash || hashPasswordSync(password),
+        admin,
+        sessionVersion: 1, // Bumped on password change to sign out existing sessions
+        createdAt: new Date().toISOString()
+    };
+    await writeUsers([...users, user]);
+    return user;
+};
+
+export const updateUser = async (id, changes) => {
+    const users = await readUsers();
+    const index = users.findIndex(u => u.id === id);
+    if (index === -1) return null;
+    users[index] = { ...users[index], ...changes, id };
+    await writeUsers(users);
+    return users[index];
+};
+
+export const setPassword = (user, password) => updateUser(user.id, {
+    passwordHash: hashPasswordSync(password),
+    sessionVersion: (user.sessionVersion || 1) + 1
+});
+
+export const deleteUser = async (id) => {
+    const users = await readUsers();
+    await writeUsers(users.filter(u => u.id !== id));
+};
+
+// What the browser and other members get to see
+export const publicUser = (user) => ({
+    id: user.id,
+    username: user.username,
+    displayName: user.displayName,
+    admin: !!user.admin
+});
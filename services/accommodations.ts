@@ -0,0 +1,72 @@
+import { Accommodation, DayPlan, ExchangeRates } from "../types";
+import { toYen } from "./currency";
+
+// Stays are trip-level bookings over a range of nights. A day starts where you slept the
+// night before and ends where you sleep that night; on a moving day those differ. Dates
+// are YYYY-MM-DD, so plain string comparison orders them.
+
+export const stayNights = (stay: Accommodation) =>
+  Math.max(0, Math.round((Date.parse(`${stay.checkOutDate}T00:00:00Z`) - Date.parse(`${stay.checkInDate}T00:00:00Z`)) / 86400000));
+
+// Whole stay, in the booking's currency
+export const stayCost = (stay: Accommodation) => (stay.nightlyPrice || 0) * stayNights(stay);
+
+export const stayCostInYen = (stay: Accommodation, rates?: ExchangeRates) => toYen(stayCost(stay), stay.currency, rates);
+
+// Where you sleep the night of `date`
+export const stayForNight = (stays: Accommodation[] | undefined, date: string) =>
+  (stays || []).find(stay => stay.checkInDate <= date && date < stay.checkOutDate);
+
+// Where you woke up on `date`
+export const stayBeforeDay = (stays: Accommodation[] | undefined, date: string) =>
+  (stays || []).find(stay => stay.checkInDate < date && date <= stay.checkOutDate);
+
+export interface DayStays {
+  start?: Accommodation; // Where the day's route begins
+  end?: Accommodation;   // Where it finishes
+  checkOut?: Accommodation; // Set on the day a stay ends
+  checkIn?: Accommodation;  // Set on the day a stay begins
+}
+
+/**
+ * The stays a day's route runs between. The first day of the trip starts at the hotel you
+ * check into, and the last one ends where you checked out.
+ */
+export const staysForDay = (stays: Accommodation[] | undefined, date: string): DayStays => {
+  const night = stayForNight(stays, date);
+  const morning = stayBeforeDay(stays, date);
+  return {
+    start: morning || night,
+    end: night || morning,
+    checkOut: morning && morning.checkOutDate === date ? morning : undefined,
+    checkIn: night && night.checkInDate === date ? night : undefined
+  };
+};
+
+// Lodging charged for the night of `date`, in yen
+export const nightlyCostOn = (stays: Accommodation[] | undefined, date: string, rates?: ExchangeRates) => {
+  const stay = stayForNight(stays, date);
+  return stay ? toYen(stay.nightlyPrice || 0, stay.currency, rates) : 0;
+};
+
+export const lodgingTotal = (stays: Accommodation[] | undefined, rates?: ExchangeRates) =>
+  (stays || []).reduce((sum, stay) => sum + stayCostInYen(stay, rates), 0);
+
+// Address when known: it geocodes more reliably than a hotel name
+export const stayQuery = (stay: Accommodation) => stay.address || stay.name;
+
+// A day's route leaves the hotel on a segment from 'start' and goes back on one to 'end'.
+// The way back only counts while it still leaves from the day's last stop.
+export const returnSegment = (day: DayPlan) => {
+  const last = day.activities[day.activities.length - 1];
+  return last ? day.travelSegments?.find(s => s.fromId === last.id && s.toId === 'end') : undefined;
+};
+
+// When the way back gets you in, HH:mm; undefined without one
+export const backAtHotelTime = (day: DayPlan) => {
+  const segment = returnSegment(day);
+  if (!segment) return undefined;
+  const [h, m] = day.activities[day.activities.length - 1].endTime.split(':').map(Number);
+  const mins = (h * 60 + m + Math.ceil(segment.durationValue / 60)) % 1440;
+  return `${Math.floor(mins / 60).toString().padStart(2, '0')}:${(mins % 60).toString().padStart(2, '0')}`;
+};
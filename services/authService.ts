@@ -0,0 +1,37 @@
+import { User } from "../types";
+
+// Session endpoints in server/index.js. The session itself is an HttpOnly cookie,
+// so the browser sends it automatically with every same-origin request and socket.
+
+export interface SessionInfo {
+  authEnabled: boolean;
+  user: User | null;
+}
+
+// Fired when any request comes back 401 so the login screen can take over
+export const AUTH_REQUIRED_EVENT = 'auth-required';
+
+export const notifyIfUnauthorized = (res: Response) => {
+  if (res.status === 401) window.dispatchEvent(new Event(AUTH_REQUIRED_EVENT));
+};
+
+export const fetchSession = async (): Promise<SessionInfo> => {
+  const res = await fetch('/api/auth/session');
+  if (!res.ok) throw new Error(`Failed to read session (${res.status})`);
+  return await res.json();
+};
+
+export const login = async (username: string, password: string): Promise<User> => {
+  const res = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password })
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || `Login failed (${res.status})`);
+  return body.user;
+};
+
+export const logout = async (): Promise<void> => {
+  await fetch('/api/auth/logout', { method: 'POST' });
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseRatesFile } from './currency';
+
+describe('parseRatesFile', () => {
+  it('reads yen-per-unit JSON', () => {
+    expect(parseRatesFile('{ "USD": 150.2, "eur": 162 }')).toEqual({ USD: 150.2, EUR: 162 });
+  });
+
+  it('converts a provider export against another base', () => {
+    const rates = parseRatesFile(JSON.stringify({ base: 'USD', rates: { JPY: 150, EUR: 0.75 } }));
+    expect(rates).toEqual({ USD: 150, EUR: 200 });
+  });
+
+  it('reads CSV lines', () => {
+    expect(parseRatesFile('USD,150\nEUR;160\n')).toEqual({ USD: 150, EUR: 160 });
+  });
+
+  it('keeps the usable rates of a partial file', () => {
+    const rates = parseRatesFile(JSON.stringify({ USD: 150, EUR: 'n/a', GBP: -1, JPY: 1, TOOLONG: 5 }));
+    expect(rates).toEqual({ USD: 150 });
+  });
+
+  it('rejects a provider export without a yen rate', () => {
+    expect(() => parseRatesFile(JSON.stringify({ base: 'USD', rates: { EUR: 0.92 } }))).toThrow('no JPY rate against USD');
+  });
+
+  it('rejects files with nothing usable in them', () => {
+    expect(() => parseRatesFile('not a rate file')).toThrow('No exchange rates found');
+    expect(() => parseRatesFile('[150, 160]')).toThrow('No exchange rates found');
+    expect(() => parseRatesFile('null')).toThrow('No exchange rates found');
+    expect(() => parseRatesFile(JSON.stringify({ rates: 'USD 150' }))).toThrow('No exchange rates found');
+  });
+});
@@ -0,0 +1,134 @@
+import { ActivityPricing, ExchangeRates, Trip } from "../types";
+
+// Prices are entered in whatever currency they're quoted in and added up in yen, the trip's
+// working currency; totals are shown in the home currency too. Rates are stored with the trip
+// as yen for one unit of each currency, so everyone planning it sees the same numbers.
+// STAND_IN_RATES are rough mid-market rates for when nothing better is at hand.
+
+export const BASE_CURRENCY = 'JPY';
+
+export const STAND_IN_RATES_AS_OF = '2024-10';
+
+export const STAND_IN_RATES: Record<string, number> = {
+  USD: 150,
+  EUR: 163,
+  GBP: 195,
+  AUD: 100,
+  NZD: 91,
+  CAD: 109,
+  CHF: 174,
+  CNY: 21,
+  HKD: 19.3,
+  TWD: 4.7,
+  KRW: 0.11,
+  SGD: 114,
+  THB: 4.5
+};
+
+// Currencies offered in pickers; any other ISO 4217 code still works when typed into a rate file
+export const CURRENCIES = [BASE_CURRENCY, ...Object.keys(STAND_IN_RATES)];
+
+export const currencyOf = (code?: string) => (code || BASE_CURRENCY).toUpperCase();
+
+export const isBaseCurrency = (code?: string) => currencyOf(code) === BASE_CURRENCY;
+
+// Yen for one unit, or undefined when the table has no rate for it
+export const rateFor = (currency: string | undefined, rates?: ExchangeRates) =>
+  isBaseCurrency(currency) ? 1 : rates?.yenPer[currencyOf(currency)];
+
+// 0 for currencies without a rate; currenciesWithoutRate says which those are
+export const toYen = (amount: number, currency?: string, rates?: ExchangeRates) => {
+  const rate = rateFor(currency, rates);
+  return rate ? Math.round(amount * rate) : 0;
+};
+
+export const fromYen = (yen: number, currency: string | undefined, rates?: ExchangeRates) => {
+  const rate = rateFor(currency, rates);
+  return rate ? yen / rate : undefined;
+};
+
+export const formatMoney = (amount: number, currency?: string) => {
+  const code = currencyOf(currency);
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: code, maximumFractionDigits: code === BASE_CURRENCY || code === 'KRW' ? 0 : 2 }).format(amount);
+  } catch {
+    return `${amount.toLocaleString()} ${code}`; // Not a code Intl knows
+  }
+};
+
+// A yen total in the home currency, e.g. "$80.00"; undefined when home is yen or has no rate
+export const inHomeCurrency = (yen: number, homeCurrency: string | undefined, rates?: ExchangeRates) => {
+  if (isBaseCurrency(homeCurrency)) return undefined;
+  const amount = fromYen(yen, homeCurrency, rates);
+  return amount === undefined ? undefined : formatMoney(amount, homeCurrency);
+};
+
+// What an activity's admission adds to the budget, in yen
+export const pricingInYen = (pricing: ActivityPricing | undefined, rates?: ExchangeRates) =>
+  pricing && !pricing.isFree ? toYen(pricing.basePrice || 0, pricing.currency, rates) : 0;
+
+// Every currency a price in the trip is entered in, yen first
+export const tripCurrencies = (trip: Pick<Trip, 'days' | 'accommodations'>) => {
+  const codes = new Set<string>([BASE_CURRENCY]);
+  trip.days.forEach(day => {
+    day.activities.forEach(act => {
+      if (act.pricing?.basePrice) codes.add(currencyOf(act.pricing.currency));
+      act.pricing?.priceEntries?.forEach(entry => entry.currency && codes.add(currencyOf(entry.currency)));
+    });
+    (day.transfers || []).forEach(transfer => transfer.cost && codes.add(currencyOf(transfer.currency)));
+    (day.expenses || []).forEach(expense => expense.amount && codes.add(currencyOf(expense.currency)));
+  });
+  (trip.accommodations || []).forEach(stay => stay.nightlyPrice && codes.add(currencyOf(stay.currency)));
+  return [...codes];
+};
+
+export const currenciesWithoutRate = (codes: string[], rates?: ExchangeRates) =>
+  codes.filter(code => !rateFor(code, rates));
+
+export const standInRates = (): ExchangeRates => ({
+  yenPer: { ...STAND_IN_RATES },
+  source: 'stand-in',
+  updatedAt: STAND_IN_RATES_AS_OF
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Reads a rate file into yen-per-unit rates. Accepts JSON, either `{ "USD": 150.2 }` in yen or
+ * a provider export like `{ "base": "USD", "rates": { "JPY": 150.2, "EUR": 0.92 } }`, or CSV
+ * lines of `USD,150.2` in yen. Throws with a message for the user when nothing usable is in it.
+ */
+export const parseRatesFile = (text: string): Record<string, number> => {
+  const yenPer: Record<string, number> = {};
+  const add = (code: string, rate: unknown) => {
+    const value = Number(rate);
+    if (/^[A-Za-z]{3}$/.test(code.trim()) && Number.isFinite(value) && value > 0 && !isBaseCurrency(code.trim())) {
+      yenPer[code.trim().toUpperCase()] = value;
+    }
+  };
+
+  let data: unknown = null;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    text.split(/\r?\n/).forEach(line => {
+      const [code, rate] = line.split(/[,;\t]/);
+      if (code && rate) add(code, rate);
+    });
+  }
+
+  if (isRecord(data) && isRecord(data.rates)) {
+    const base = currencyOf(typeof data.base === 'string' ? data.base : undefined);
+    // Units of each currency per one `base`: yen per unit is JPY-per-base over that
+    const yenPerBase = isBaseCurrency(base) ? 1 : Number(data.rates.JPY);
+    if (!yenPerBase) throw new Error(`The file has no JPY rate against ${base}.`);
+    if (!isBaseCurrency(base)) add(base, yenPerBase);
+    Object.entries(data.rates).forEach(([code, rate]) => add(code, yenPerBase / Number(rate)));
+  } else if (isRecord(data)) {
+    Object.entries(data).forEach(([code, rate]) => add(code, rate));
+  }
+
+  if (Object.keys(yenPer).length === 0) throw new Error('No exchange rates found in that file.');
+  return yenPer;
+};
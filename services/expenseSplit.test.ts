@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { DayPlan, Expense, Traveller } from '../types';
+import { settleUp } from './expenseSplit';
+
+const travellers: Traveller[] = ['Ann', 'Ben', 'Cat', 'Dan', 'Eve', 'Fay'].map(name => ({ id: name.toLowerCase(), name }));
+
+// `paidBy` pays `amount` yen for `forId` alone
+const expense = (paidBy: string, forId: string, amount: number): Expense => ({
+  id: `${paidBy}-${forId}`,
+  amount,
+  category: 'food',
+  paidBy,
+  split: { mode: 'equal', travellerIds: [forId] },
+  paidAt: '2025-04-01T12:00:00'
+});
+
+const dayWith = (expenses: Expense[]): DayPlan => ({ id: 'day-1', date: '2025-04-01', city: 'Tokyo', activities: [], expenses });
+
+describe('settleUp', () => {
+  it('finds the fewest payments when balances split into zero-sum groups', () => {
+    // Ann +8, Ben +8, Cat -16 and Dan +9, Eve +2, Fay -11: largest-first matching needs 5 payments
+    const day = dayWith([
+      expense('ann', 'cat', 8),
+      expense('ben', 'cat', 8),
+      expense('dan', 'fay', 9),
+      expense('eve', 'fay', 2)
+    ]);
+    const { balances, settlements } = settleUp([day], travellers);
+
+    expect(settlements).toHaveLength(4);
+    const paidOff = Object.fromEntries(travellers.map(t => [t.id, 0]));
+    settlements.forEach(({ from, to, amount }) => {
+      paidOff[from.id] += amount;
+      paidOff[to.id] -= amount;
+    });
+    balances.forEach(({ traveller, net }) => expect(net + paidOff[traveller.id]).toBe(0));
+  });
+
+  it('needs no payments when everyone is square', () => {
+    const day = dayWith([expense('ann', 'ben', 500), expense('ben', 'ann', 500)]);
+    expect(settleUp([day], travellers).settlements).toEqual([]);
+  });
+});
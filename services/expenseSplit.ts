@@ -0,0 +1,196 @@
+import { Activity, DayPlan, ExchangeRates, Expense, SplitMode, Traveller } from "../types";
+import { currencyOf, formatMoney, pricingInYen, toYen } from "./currency";
+import { expenseInYen } from "./expenses";
+import { matchPriceEntry, travellerDescription } from "./partyPricing";
+
+// Each expense is paid by one traveller and shared between some or all of them. Parts are
+// worked out in yen and rounded so they add up to exactly what was paid; settling up finds the
+// fewest payments that leave everyone square.
+
+export const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  equal: 'Equally',
+  shares: 'By shares',
+  exact: 'Exact amounts',
+  tiers: 'By ticket price'
+};
+
+export const travellerName = (travellers: Traveller[], id?: string) => travellers.find(t => t.id === id)?.name;
+
+// Who an expense is shared between: its own list, or everyone. Removed travellers drop out.
+export const splitParticipants = (expense: Expense, travellers: Traveller[]) => {
+  const ids = expense.split?.travellerIds;
+  return ids ? travellers.filter(t => ids.includes(t.id)) : travellers;
+};
+
+// The activity's price for a traveller's tier or age, in yen (see services/partyPricing.ts)
+export const tierPrice = (traveller: Traveller, activity?: Activity, rates?: ExchangeRates) => {
+  const entry = matchPriceEntry(traveller, activity?.pricing?.priceEntries || []);
+  return entry ? toYen(entry.amount, entry.currency || activity!.pricing!.currency, rates) : undefined;
+};
+
+// Splits `total` yen by weight into whole yen that add back up to it; no weights means equally
+const apportion = (total: number, weights: Record<string, number>) => {
+  const ids = Object.keys(weights);
+  const weightSum = ids.reduce((sum, id) => sum + weights[id], 0);
+  const exact = ids.map(id => ({ id, value: total * (weightSum > 0 ? weights[id] / weightSum : 1 / ids.length) }));
+  const parts = Object.fromEntries(exact.map(({ id, value }) => [id, Math.floor(value)]));
+  let remainder = total - Object.values(parts).reduce((sum, part) => sum + part, 0);
+  [...exact].sort((a, b) => (b.value % 1) - (a.value % 1)).forEach(({ id }) => {
+    if (remainder-- > 0) parts[id]++;
+  });
+  return parts;
+};
+
+export interface ExpenseShares {
+  parts: Record<string, number>; // Traveller id -> yen
+  problem?: string;              // Why the split may not be what was meant; parts are still usable
+}
+
+/**
+ * Each participant's part of an expense, in yen. Undefined when nobody is left to share it.
+ * `activity` is the one the expense is tied to; 'tiers' needs its price entries.
+ */
+export const splitExpense = (expense: Expense, travellers: Traveller[], activity?: Activity, rates?: ExchangeRates): ExpenseShares | undefined => {
+  const people = splitParticipants(expense, travellers);
+  if (people.length === 0) return undefined;
+  const total = expenseInYen(expense, rates);
+  const mode = expense.split?.mode || 'equal';
+
+  if (mode === 'shares') {
+    return { parts: apportion(total, Object.fromEntries(people.map(t => [t.id, expense.split?.shares?.[t.id] ?? 1]))) };
+  }
+
+  if (mode === 'exact') {
+    const amounts = Object.fromEntries(people.map(t => [t.id, expense.split?.amounts?.[t.id] ?? 0]));
+    const sum = Object.values(amounts).reduce((a, b) => a + b, 0);
+    const problem = Math.abs(sum - expense.amount) > 0.005
+      ? `The parts add up to ${formatMoney(sum, currencyOf(expense.currency))}, not ${formatMoney(expense.amount, currencyOf(expense.currency))}`
+      : undefined;
+    return { parts: apportion(total, amounts), problem };
+  }
+
+  if (mode === 'tiers') {
+    if (!activity?.pricing?.priceEntries?.length) {
+      return { parts: apportion(total, Object.fromEntries(people.map(t => [t.id, 1]))), problem: 'No ticket prices to split by; split equally' };
+    }
+    // Tiers the activity doesn't list are charged its main price
+    const missing = people.filter(t => tierPrice(t, activity, rates) === undefined);
+    const weights = Object.fromEntries(people.map(t => [t.id, tierPrice(t, activity, rates) ?? pricingInYen(activity.pricing, rates)]));
+    return {
+      parts: apportion(total, weights),
+      problem: missing.length > 0 ? `${activity.name} has no price that fits ${missing.map(travellerDescription).join(' or ')}; the main price was used` : undefined
+    };
+  }
+
+  return { parts: apportion(total, Object.fromEntries(people.map(t => [t.id, 1]))) };
+};
+
+export interface TravellerBalance {
+  traveller: Traveller;
+  paid: number; // Yen
+  owed: number; // Their parts of everything, in yen
+  net: number;  // Positive: the others owe them
+}
+
+export interface Settlement {
+  from: Traveller;
+  to: Traveller;
+  amount: number; // Yen
+}
+
+export interface SettleUp {
+  balances: TravellerBalance[];
+  settlements: Settlement[];
+  unassigned: Expense[]; // No payer, or nobody to split it between; left out
+  problems: { expense: Expense; problem: string }[];
+}
+
+// Past this many people with something to settle, everyone is settled as one group; the search
+// for the best split doubles in cost with each extra person
+const MAX_SETTLE_SEARCH = 16;
+
+// Splits the people owing or owed into as many groups as possible that each add up to zero.
+// A group of k settles among itself in k - 1 payments, so the most groups means the fewest payments.
+const zeroSumGroups = (ids: string[], nets: Record<string, number>): string[][] => {
+  if (ids.length > MAX_SETTLE_SEARCH) return [ids];
+  const full = (1 << ids.length) - 1;
+  const sums = new Float64Array(full + 1);
+  const groups = new Int32Array(full + 1); // Most zero-sum groups each subset splits into
+  for (let mask = 1; mask <= full; mask++) {
+    const lowest = mask & -mask;
+    sums[mask] = sums[mask ^ lowest] + nets[ids[31 - Math.clz32(lowest)]];
+    let best = 0;
+    ids.forEach((_, i) => {
+      if (mask & (1 << i)) best = Math.max(best, groups[mask ^ (1 << i)]);
+    });
+    groups[mask] = best + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Take people out one at a time along a best path; each zero-sum subset passed closes a group
+  const result: string[][] = [];
+  let mask = full;
+  let groupStart = full;
+  while (mask) {
+    const gained = sums[mask] === 0 ? 1 : 0;
+    const i = ids.findIndex((_, j) => (mask & (1 << j)) && groups[mask ^ (1 << j)] + gained === groups[mask]);
+    mask ^= 1 << i;
+    if (sums[mask] === 0) {
+      result.push(ids.filter((_, j) => (groupStart ^ mask) & (1 << j)));
+      groupStart = mask;
+    }
+  }
+  return result;
+};
+
+// Pays off the debts in `nets` (traveller id -> yen, summing to 0) in as few payments as possible:
+// within each zero-sum group, the largest debtor pays the largest creditor until all are square.
+const settle = (nets: Record<string, number>) => {
+  const unsettled = Object.keys(nets).filter(id => nets[id] !== 0);
+  const payments: { from: string; to: string; amount: number }[] = [];
+
+  zeroSumGroups(unsettled, nets).forEach(group => {
+    const debtors = group.filter(id => nets[id] < 0).map(id => ({ id, amount: -nets[id] }));
+    const creditors = group.filter(id => nets[id] > 0).map(id => ({ id, amount: nets[id] }));
+    while (true) {
+      const debtor = debtors.filter(d => d.amount > 0).sort((a, b) => b.amount - a.amount)[0];
+      const creditor = creditors.filter(c => c.amount > 0).sort((a, b) => b.amount - a.amount)[0];
+      if (!debtor || !creditor) break;
+      const amount = Math.min(debtor.amount, creditor.amount);
+      payments.push({ from: debtor.id, to: creditor.id, amount });
+      debtor.amount -= amount;
+      creditor.amount -= amount;
+    }
+  });
+  return payments;
+};
+
+export const settleUp = (days: DayPlan[], travellers: Traveller[], rates?: ExchangeRates): SettleUp => {
+  const paid: Record<string, number> = Object.fromEntries(travellers.map(t => [t.id, 0]));
+  const owed: Record<string, number> = Object.fromEntries(travellers.map(t => [t.id, 0]));
+  const unassigned: Expense[] = [];
+  const problems: SettleUp['problems'] = [];
+
+  days.forEach(day => (day.expenses || []).forEach(expense => {
+    const shares = expense.paidBy && expense.paidBy in paid
+      ? splitExpense(expense, travellers, day.activities.find(act => act.id === expense.activityId), rates)
+      : undefined;
+    if (!shares) {
+      unassigned.push(expense);
+      return;
+    }
+    if (shares.problem) problems.push({ expense, problem: shares.problem });
+    paid[expense.paidBy!] += expenseInYen(expense, rates);
+    Object.entries(shares.parts).forEach(([id, part]) => {
+      owed[id] += part;
+    });
+  }));
+
+  const byId = new Map(travellers.map(t => [t.id, t]));
+  const nets = Object.fromEntries(travellers.map(t => [t.id, paid[t.id] - owed[t.id]]));
+  return {
+    balances: travellers.map(t => ({ traveller: t, paid: paid[t.id], owed: owed[t.id], net: nets[t.id] })),
+    settlements: settle(nets).map(({ from, to, amount }) => ({ from: byId.get(from)!, to: byId.get(to)!, amount })),
+    unassigned,
+    problems
+  };
+};
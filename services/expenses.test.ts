@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { Accommodation, Activity, DayPlan, ExchangeRates, Expense, ExpenseCategory } from '../types';
+import { budgetReport } from './expenses';
+
+const rates: ExchangeRates = { yenPer: { USD: 150, EUR: 160 }, source: 'manual', updatedAt: '2025-03-30' };
+
+const expense = (id: string, category: ExpenseCategory, amount: number, currency?: string): Expense => ({
+  id,
+  amount,
+  currency,
+  category,
+  paidAt: '2025-04-01T12:00:00'
+});
+
+const museum: Activity = {
+  id: 'a1',
+  name: 'Museum',
+  description: '',
+  startTime: '10:00',
+  endTime: '12:00',
+  location: { lat: 35.68, lng: 139.76 },
+  type: 'sightseeing',
+  pricing: { basePrice: 10, currency: 'USD' }
+};
+
+// Two nights at $100
+const stays: Accommodation[] = [{ id: 's1', name: 'Hotel', checkInDate: '2025-04-01', checkOutDate: '2025-04-03', nightlyPrice: 100, currency: 'USD' }];
+
+const days: DayPlan[] = [
+  {
+    id: 'd1',
+    date: '2025-04-01',
+    city: 'Tokyo',
+    activities: [museum],
+    expenses: [expense('e1', 'food', 3000), expense('e2', 'sightseeing', 12, 'USD'), expense('e3', 'shopping', 20, 'EUR')]
+  },
+  {
+    id: 'd2',
+    date: '2025-04-02',
+    city: 'Tokyo',
+    activities: [],
+    // No rate for pounds, so the taxi counts for nothing
+    expenses: [expense('e4', 'lodging', 30000), expense('e5', 'food', 2500), expense('e6', 'transit', 5, 'GBP')]
+  }
+];
+
+describe('budgetReport', () => {
+  const report = budgetReport(days, stays, { daily: 25000, byCategory: { food: 5000, shopping: 2000 } }, 'ticket', rates);
+
+  it('compares each category in yen against its budget, or the plan without one', () => {
+    expect(report.categories).toEqual([
+      { category: 'sightseeing', planned: 1500, actual: 1800, budget: undefined, against: 'plan', overBy: 300 },
+      { category: 'food', planned: 0, actual: 5500, budget: 5000, against: 'budget', overBy: 500 },
+      { category: 'shopping', planned: 0, actual: 3200, budget: 2000, against: 'budget', overBy: 1200 },
+      { category: 'lodging', planned: 30000, actual: 30000, budget: undefined, against: 'plan', overBy: 0 }
+    ]);
+  });
+
+  it('holds each day to the daily budget', () => {
+    expect(report.days.map(({ planned, actual, overBy }) => ({ planned, actual, overBy }))).toEqual([
+      { planned: 16500, actual: 8000, overBy: 0 },
+      { planned: 15000, actual: 32500, overBy: 7500 }
+    ]);
+  });
+
+  it('totals the trip against the daily budget for every day', () => {
+    expect(report.total).toEqual({ planned: 31500, actual: 40500, budget: 50000, against: 'budget', overBy: 0 });
+    expect(report.expenseCount).toBe(6);
+  });
+
+  it('measures against nothing when there is no plan or budget', () => {
+    const { total } = budgetReport([{ id: 'd1', date: '2025-04-01', city: 'Tokyo', activities: [] }], undefined, undefined);
+    expect(total).toEqual({ planned: 0, actual: 0, budget: undefined, against: undefined, overBy: 0 });
+  });
+});
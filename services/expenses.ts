@@ -0,0 +1,115 @@
+import { Accommodation, Activity, DayPlan, ExchangeRates, Expense, ExpenseCategory, FarePaymentMethod, Traveller, TripBudget } from "../types";
+import { toYen } from "./currency";
+import { nightlyCostOn } from "./accommodations";
+import { partyPriceInYen, partyTransitCost } from "./partyPricing";
+
+// What was really spent is logged on each day as expenses, and compared in yen with what the
+// plan prices (admissions, fares, inter-city tickets and tonight's hotel) and with the budget.
+// The daily budget applies to each day on its own; category budgets cover the whole trip.
+// Where no budget is set, spending is measured against the plan instead.
+
+export const EXPENSE_CATEGORIES: ExpenseCategory[] = ['sightseeing', 'food', 'shopping', 'leisure', 'transit', 'lodging', 'other'];
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  sightseeing: 'Sightseeing',
+  food: 'Food & drink',
+  shopping: 'Shopping',
+  leisure: 'Leisure',
+  transit: 'Transit',
+  lodging: 'Lodging',
+  other: 'Other'
+};
+
+// A 'travel' stop is paid for as transit; the other activity types are categories already
+export const categoryForActivity = (type: Activity['type']): ExpenseCategory => type === 'travel' ? 'transit' : type;
+
+export const expenseInYen = (expense: Expense, rates?: ExchangeRates) => toYen(expense.amount, expense.currency, rates);
+
+// In the order they were paid
+export const sortExpenses = (expenses: Expense[]) => [...expenses].sort((a, b) => a.paidAt.localeCompare(b.paidAt));
+
+export type CategoryTotals = Record<ExpenseCategory, number>;
+
+const emptyTotals = () => Object.fromEntries(EXPENSE_CATEGORIES.map(category => [category, 0])) as CategoryTotals;
+
+const sumTotals = (totals: CategoryTotals) => Object.values(totals).reduce((sum, amount) => sum + amount, 0);
+
+export const actualByCategory = (day: DayPlan, rates?: ExchangeRates) => {
+  const totals = emptyTotals();
+  (day.expenses || []).forEach(expense => {
+    totals[expense.category] += expenseInYen(expense, rates);
+  });
+  return totals;
+};
+
+// The day's estimate by category, counted the same way as Today's Budget
+export const plannedByCategory = (
+  day: DayPlan,
+  stays: Accommodation[] | undefined,
+  farePayment?: FarePaymentMethod,
+  rates?: ExchangeRates,
+  travellers?: Traveller[]
+) => {
+  const totals = emptyTotals();
+  day.activities.forEach(act => {
+    totals[categoryForActivity(act.type)] += partyPriceInYen(act.pricing, travellers, rates);
+  });
+  const transit = partyTransitCost(day, travellers, farePayment, rates);
+  totals.transit += transit.fares + transit.transfers;
+  totals.lodging += nightlyCostOn(stays, day.date, rates);
+  return totals;
+};
+
+export interface SpendComparison {
+  planned: number;
+  actual: number;
+  budget?: number;
+  against?: 'budget' | 'plan'; // What `overBy` is measured against; absent with neither
+  overBy: number;              // 0 unless overspent
+}
+
+const compare = (planned: number, actual: number, budget?: number): SpendComparison => {
+  const against = budget !== undefined ? 'budget' : planned > 0 ? 'plan' : undefined;
+  const limit = against === 'budget' ? budget! : planned;
+  return { planned, actual, budget, against, overBy: against && actual > limit ? actual - limit : 0 };
+};
+
+export interface BudgetReport {
+  days: (SpendComparison & { day: DayPlan })[];
+  categories: (SpendComparison & { category: ExpenseCategory })[]; // Only those with something planned, spent or budgeted
+  total: SpendComparison; // Against the daily budget times the number of days, when there is one
+  expenseCount: number;
+}
+
+export const budgetReport = (
+  days: DayPlan[],
+  stays: Accommodation[] | undefined,
+  budget: TripBudget | undefined,
+  farePayment?: FarePaymentMethod,
+  rates?: ExchangeRates,
+  travellers?: Traveller[]
+): BudgetReport => {
+  const planned = emptyTotals();
+  const actual = emptyTotals();
+
+  const dayRows = days.map(day => {
+    const dayPlanned = plannedByCategory(day, stays, farePayment, rates, travellers);
+    const dayActual = actualByCategory(day, rates);
+    EXPENSE_CATEGORIES.forEach(category => {
+      planned[category] += dayPlanned[category];
+      actual[category] += dayActual[category];
+    });
+    return { day, ...compare(sumTotals(dayPlanned), sumTotals(dayActual), budget?.daily) };
+  });
+
+  const categories = EXPENSE_CATEGORIES
+    .map(category => ({ category, ...compare(planned[category], actual[category], budget?.byCategory?.[category]) }))
+    .filter(row => row.planned > 0 || row.actual > 0 || row.budget !== undefined);
+
+  return {
+    days: dayRows,
+    categories,
+    total: compare(sumTotals(planned), sumTotals(actual), budget?.daily !== undefined ? budget.daily * days.length : undefined),
+    expenseCount: days.reduce((count, day) => count + (day.expenses?.length || 0), 0)
+  };
+};
@@ -1,6 +1,9 @@
 import { Activity, Coordinates, TravelSegment } from "../types";
 import { Loader } from '@googlemaps/js-api-loader';
-import { getPublicTransportRoute } from './NavitimeService';
+import { getPublicTransportRoute, TransitError } from './NavitimeService';
+import { optimizeRoute, RouteIssue } from './routeOptimizer';
+import { timeWindowForDay } from './openingHours';
+import { routingDeparture, serviceWarning } from './transitSchedule';
 
 declare var google: any;
 
@@ -38,105 +41,61 @@ const getDistance = (p1: Coordinates, p2: Coordinates) => {
   return R * c;
 };
 
-// Geometric TSP (Nearest Neighbor)
 const timeToMins = (t: string | undefined): number => {
   if (!t || !t.includes(':')) return 0;
   const [h, m] = t.split(':').map(Number);
   return h * 60 + m;
 };
 
-const solveGeometricTSP = (origin: Coordinates, activities: Activity[], dayStartTime: string = "09:00"): number[] => {
-  const dayStartMins = timeToMins(dayStartTime);
-
-  // Helper to get minutes relative to day start (handles midnight wrap)
-  const getRelMins = (t: string | undefined) => {
-    if (!t) return 0;
-    let m = timeToMins(t);
-    // If it's earlier than day start (e.g. 02:00 AM when day starts at 09:00 AM),
-    // it belongs to the end of the day.
-    if (m < dayStartMins) {
-      m += 1440;
-    }
-    return m;
-  };
-
-  // 1. Identify all activities with their original indices and lock status
-  const anchors = activities
-    .map((act, originalIdx) => ({ act, originalIdx }))
-    .filter(a => a.act.lockedStartTime)
-    .sort((a, b) => getRelMins(a.act.startTime) - getRelMins(b.act.startTime));
-
-  // 2. Create slots between anchors
-  // Slot 0: before first anchor
-  // Slot i: between anchor i-1 and anchor i
-  // Slot N: after last anchor
-  const slots: { anchorIdx: number | null, flexibleIndices: number[] }[] = [];
+// Minutes after the day's start; times before it (e.g. 01:00 on a 09:00 day) belong to the night
+const minsAfterDayStart = (t: string, dayStartTime: string) => {
+  const mins = timeToMins(t) - timeToMins(dayStartTime);
+  return mins < 0 ? mins + 1440 : mins;
+};
 
-  // First slot ends at the first anchor
-  slots.push({ anchorIdx: anchors[0]?.originalIdx ?? null, flexibleIndices: [] });
+// Straight-line estimates for pairs the matrix service can't route (walk up to ~1.5 km, ride beyond)
+const estimateTravelSeconds = (from: Coordinates, to: Coordinates) => {
+  const metres = getDistance(from, to) * 1.3; // Streets are rarely straight
+  return metres <= 1500 ? metres / 1.25 : 600 + metres / 8;
+};
 
-  // Following slots end at subsequent anchors
-  for (let i = 1; i < anchors.length; i++) {
-    slots.push({ anchorIdx: anchors[i].originalIdx, flexibleIndices: [] });
-  }
+// One origin -> destination pair from /api/routes, in TravelSegment units
+export interface RouteCell {
+  durationValue: number; // seconds
+  duration: string;      // e.g. "12 mins"
+  distance?: string;
+}
+
+export interface TravelTimeMatrix {
+  seconds: number[][];               // Fastest of walking and transit, with estimates filling gaps
+  walking: (RouteCell | null)[][];   // Null where Google has no walking route
+}
+
+/**
+ * Door-to-door travel seconds between every pair of points, taking the faster of walking
+ * and public transport like the leg selection below does. matrix[i][j] is i -> j.
+ * The server batches the pairs and caches them, so re-running an optimization is cheap.
+ */
+export const getTravelTimeMatrix = async (points: Coordinates[], departureTime: Date): Promise<TravelTimeMatrix> => {
+  const estimates = points.map((from, i) => points.map((to, j) => i === j ? 0 : estimateTravelSeconds(from, to)));
+  const noWalking = points.map(() => points.map(() => null));
 
-  // Final slot has no ending anchor
-  if (anchors.length > 0) {
-    slots.push({ anchorIdx: null, flexibleIndices: [] });
+  try {
+    const response = await fetch('/api/routes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ points, departureTime: departureTime.toISOString() })
+    });
+    if (!response.ok) throw new Error(`Routes request failed (${response.status})`);
+    const data: { matrix: (number | null)[][]; modes: { WALKING?: (RouteCell | null)[][] } } = await response.json();
+    return {
+      seconds: data.matrix.map((row, i) => row.map((seconds, j) => seconds ?? estimates[i][j])),
+      walking: data.modes.WALKING || noWalking
+    };
+  } catch (error) {
+    console.warn('Travel time matrix failed; using estimates:', error);
+    return { seconds: estimates, walking: noWalking };
   }
-
-  // 3. Assign flexible activities to slots
-  activities.forEach((act, idx) => {
-    if (act.lockedStartTime) return;
-
-    const actTime = getRelMins(act.startTime);
-
-    // Find first anchor that starts AFTER this activity
-    let slotIdx = anchors.findIndex(a => getRelMins(a.act.startTime) > actTime);
-    if (slotIdx === -1) {
-      slotIdx = anchors.length; // Post-last-anchor
-    }
-
-    slots[slotIdx].flexibleIndices.push(idx);
-  });
-
-  // 4. Build the final sequence
-  const finalSequence: number[] = [];
-  let currentLoc = origin;
-
-  slots.forEach(slot => {
-    // Run local TSP for flexible activities in this slot
-    const visitedInSlot = new Set<number>();
-
-    while (visitedInSlot.size < slot.flexibleIndices.length) {
-      let nearestIdx = -1;
-      let minDist = Infinity;
-
-      slot.flexibleIndices.forEach(idx => {
-        if (!visitedInSlot.has(idx)) {
-          const dist = getDistance(currentLoc, activities[idx].location);
-          if (dist < minDist) {
-            minDist = dist;
-            nearestIdx = idx;
-          }
-        }
-      });
-
-      if (nearestIdx !== -1) {
-        visitedInSlot.add(nearestIdx);
-        finalSequence.push(nearestIdx);
-        currentLoc = activities[nearestIdx].location;
-      }
-    }
-
-    // Add the anchor that ends this slot
-    if (slot.anchorIdx !== null) {
-      finalSequence.push(slot.anchorIdx);
-      currentLoc = activities[slot.anchorIdx].location;
-    }
-  });
-
-  return finalSequence;
 };
 
 const getActivityDuration = (act: Activity): number => {
@@ -167,12 +126,25 @@ export const geocodeLocation = async (address: string): Promise<Coordinates | nu
   return null;
 };
 
+export interface FastestRoute {
+  order: number[];
+  totalDuration: string;
+  durationValue: number;
+  segments: TravelSegment[];
+  savedSeconds: number;  // Travel time saved against the order the activities were in
+  issues: RouteIssue[];  // Locked times or opening hours the best order still misses
+  transitWarning?: string; // Why some legs have no live transit times, for the user
+  timetableDate?: string;  // Set when the day's own timetables aren't available and this date's were used
+}
+
 export const calculateFastestRoute = async (
   origin: Coordinates,
   activities: Activity[],
   returnToOrigin: boolean = true,
-  dayStartTime: string = '09:00'
-): Promise<{ order: number[], totalDuration: string, durationValue: number, segments: TravelSegment[] } | null> => {
+  dayStartTime: string = '09:00',
+  date?: string, // YYYY-MM-DD; picks each activity's opening hours for that day
+  destination?: Coordinates // Where the day ends when that isn't the origin, e.g. the next hotel
+): Promise<FastestRoute | null> => {
   if (activities.length === 0) return null;
 
   try {
@@ -181,92 +153,71 @@ export const calculateFastestRoute = async (
 
     const directionsService = new google.maps.DirectionsService();
 
-    // 1. Solve Order with Anchor Awareness & Chronology
-    const tspOrder = solveGeometricTSP(origin, activities, dayStartTime);
+    // Transit for the trip's own date at the day's start, or the nearest same weekday with timetables
+    const routing = routingDeparture(date, dayStartTime);
+    const departureTime = new Date(routing.departure);
+
+    // 1. Solve the order on real travel times, keeping locked start times and opening hours
+    const points = [origin, ...activities.map(a => a.location), ...(destination ? [destination] : [])];
+    const travelTimes = await getTravelTimeMatrix(points, departureTime);
+    const optimized = optimizeRoute({
+      matrix: travelTimes.seconds,
+      endNode: destination ? points.length - 1 : (returnToOrigin ? 0 : undefined),
+      stops: activities.map(act => ({
+        durationMins: getActivityDuration(act),
+        fixedStartMins: act.lockedStartTime ? minsAfterDayStart(act.startTime, dayStartTime) : undefined,
+        window: timeWindowForDay(act.openingHours, date, dayStartTime)
+      }))
+    });
+    const tspOrder = optimized.order;
 
     // Reorder activities based on the constrained TSP
     const orderedActivities = tspOrder.map(i => activities[i]);
 
-    // 2. Prepare for API Calls (Transit check for representative time)
-    const now = new Date();
-    const departureTime = new Date(now);
-    departureTime.setDate(departureTime.getDate() + 1);
-
-    // Use the user's dayStartTime for more accurate transit predictions
-    const [startH, startM] = dayStartTime.split(':').map(Number);
-    departureTime.setHours(startH || 10, startM || 0, 0, 0);
+    // 2. Look up the chosen legs in detail (mode, fare, alternatives). Walking times are
+    // already in the matrix; only transit needs a call per leg.
 
     let totalSeconds = 0;
     const segments: TravelSegment[] = [];
+    let transitWarning: string | undefined;
+    let transitUnavailable = false;
+
+    // Each leg is looked up for when it really leaves: departureTime starts at the day's start on
+    // the routed date and moves on by every leg and stay, so timetables and last trains apply.
+
+    // Picks the leg between two matrix points: NAVITIME transit against walking, falling back
+    // to Google transit. Null when nothing can route it.
+    const chooseLeg = async (
+      from: { id: string; node: number; location: Coordinates },
+      to: { id: string; node: number; location: Coordinates }
+    ): Promise<TravelSegment | null> => {
+      // TRY NAVITIME (Transit); walking comes from the matrix. Once the proxy says it's not
+      // set up or over its limit, the remaining legs skip it.
+      const requestedAt = new Date(departureTime);
+      const navitimeResult = transitUnavailable ? null : await getPublicTransportRoute(
+        from.location,
+        to.location,
+        requestedAt
+      ).catch(e => {
+        console.warn("NAVITIME failed:", e);
+        if (e instanceof TransitError) {
+          transitWarning = e.message;
+          transitUnavailable = e.code === 'not-configured' || e.code === 'rate-limited';
+        }
+        return null;
+      });
 
-    // Points sequence: Origin -> Act[0] -> Act[1] ...
-    // Note: orderedActivities[i] corresponds to the i-th step in the new order
-
-    let currentLoc = origin;
-    let currentId = "start"; // Placeholder for origin ID
-
-    // We iterate through the ordered activities + return to origin
-    // Note: Since we use a fixed representative time (10am), we don't strictly increment departureTime
-    // for subsequent legs in the API call *if* we want each leg to represent "typical 10am traffic",
-    // BUT usually routing needs sequential time.
-    // However, user asked "take same day at for example 10 am so it's representative".
-    // Let's stick to sequential time starting at 10am for realism of a day trip, 
-    // OR reset to 10am if they want "independent" checks. Sequential is safer for "Day Plan".
-
-    const steps = [...orderedActivities];
-
-    // Loop through steps to calculate legs
-    for (let i = 0; i < steps.length; i++) {
-      const targetAct = steps[i];
-      const targetLoc = targetAct.location;
-
-      // Ensure departureTime is valid (simple check)
-      if (isNaN(departureTime.getTime())) {
-        const fallbackDate = new Date();
-        fallbackDate.setDate(fallbackDate.getDate() + 1);
-        fallbackDate.setHours(10, 0, 0, 0);
-        departureTime.setTime(fallbackDate.getTime());
-      }
-      const isoTime = departureTime.toISOString().split('.')[0];
-
-      // TRY NAVITIME (Transit) and GOOGLE (Walking) in PARALLEL
-      const [navitimeResult, walkingResult] = await Promise.all([
-        getPublicTransportRoute(
-          currentLoc,
-          targetLoc,
-          isoTime
-        ).catch(e => {
-          console.warn("NAVITIME failed:", e);
-          return null;
-        }),
-        directionsService.route({
-          origin: currentLoc,
-          destination: targetLoc,
-          travelMode: 'WALKING'
-        }).catch(e => {
-          return null;
-        })
-      ]);
-
-      let selectedSegment: TravelSegment | null = null;
-      let legAdded = false;
-
-      // 1. Process Google Walking Result
-      let walkSeg: TravelSegment | null = null;
-      if (walkingResult && walkingResult.routes && walkingResult.routes.length > 0) {
-        const leg = walkingResult.routes[0].legs[0];
-        walkSeg = {
-          fromId: currentId,
-          toId: targetAct.id,
-          mode: 'WALKING',
-          duration: leg.duration?.text || "",
-          durationValue: leg.duration?.value || 0,
-          distance: leg.distance?.text
-        };
-      }
+      // 1. Google Walking Result (from the matrix)
+      const walkCell = travelTimes.walking[from.node]?.[to.node];
+      const walkSeg: TravelSegment | null = walkCell
+        ? { fromId: from.id, toId: to.id, mode: 'WALKING', ...walkCell }
+        : null;
 
       // 2. Process NAVITIME Result
-      let transitSeg: TravelSegment | null = navitimeResult ? { ...navitimeResult, fromId: currentId, toId: targetAct.id } : null;
+      const warning = navitimeResult ? serviceWarning(requestedAt, navitimeResult) : undefined;
+      const transitSeg: TravelSegment | null = navitimeResult
+        ? { ...navitimeResult, fromId: from.id, toId: to.id, ...(warning ? { serviceWarning: warning } : {}) }
+        : null;
 
       // 3. DECISION TIME
       const CLOSE_MATCH_MINS = 15;
@@ -277,80 +228,76 @@ export const calculateFastestRoute = async (
 
         // Case A: Walk is insanely long (> 45 mins). Just show Transit.
         if (wVal > 45 * 60) {
-          selectedSegment = transitSeg;
+          return transitSeg;
         }
         // Case B: Transit is significantly faster (> 15 mins faster)
-        else if (tVal < wVal - (CLOSE_MATCH_MINS * 60)) {
-          selectedSegment = transitSeg;
+        if (tVal < wVal - (CLOSE_MATCH_MINS * 60)) {
+          return transitSeg;
         }
         // Case C: Walking is significantly faster (> 15 mins faster)
-        else if (wVal < tVal - (CLOSE_MATCH_MINS * 60)) {
-          selectedSegment = walkSeg;
+        if (wVal < tVal - (CLOSE_MATCH_MINS * 60)) {
+          return walkSeg;
         }
         // Case D: They are competitive
-        else {
-          if (tVal <= wVal) {
-            selectedSegment = {
-              ...transitSeg,
-              alternativeMode: 'WALKING',
-              alternativeDuration: walkSeg.duration,
-              alternativeLabel: `Walk: ${walkSeg.duration}`
-            };
-          } else {
-            selectedSegment = {
-              ...walkSeg,
-              alternativeMode: transitSeg.mode as any,
-              alternativeDuration: transitSeg.duration,
-              alternativeLabel: `${transitSeg.mode === 'TRAIN' ? 'Train' : 'Bus'}: ${transitSeg.duration}`
-            };
-          }
+        if (tVal <= wVal) {
+          return {
+            ...transitSeg,
+            alternativeMode: 'WALKING',
+            alternativeDuration: walkSeg.duration,
+            alternativeLabel: `Walk: ${walkSeg.duration}`
+          };
         }
-        legAdded = true;
-      } else if (transitSeg) {
-        selectedSegment = transitSeg;
-        legAdded = true;
-      } else if (walkSeg) {
-        selectedSegment = walkSeg;
-        legAdded = true;
+        return {
+          ...walkSeg,
+          alternativeMode: transitSeg.mode,
+          alternativeDuration: transitSeg.duration,
+          alternativeLabel: `${transitSeg.mode === 'TRAIN' ? 'Train' : 'Bus'}: ${transitSeg.duration}`
+        };
       }
+      if (transitSeg) return transitSeg;
+      if (walkSeg) return walkSeg;
 
       // 4. Fallback: Google Transit
-      if (!legAdded) {
-        try {
-          const result = await directionsService.route({
-            origin: currentLoc,
-            destination: targetLoc,
-            travelMode: 'TRANSIT',
-            transitOptions: { departureTime: departureTime }
-          });
-          if (result.routes && result.routes.length > 0) {
-            const leg = result.routes[0].legs[0];
-            selectedSegment = {
-              fromId: currentId,
-              toId: targetAct.id,
-              mode: 'TRANSIT',
-              duration: leg.duration?.text || "",
-              durationValue: leg.duration?.value || 0,
-              distance: leg.distance?.text
-            };
-            legAdded = true;
-          }
-        } catch (e) { }
-      }
+      try {
+        const result = await directionsService.route({
+          origin: from.location,
+          destination: to.location,
+          travelMode: 'TRANSIT',
+          transitOptions: { departureTime: departureTime }
+        });
+        if (result.routes && result.routes.length > 0) {
+          const leg = result.routes[0].legs[0];
+          return {
+            fromId: from.id,
+            toId: to.id,
+            mode: 'TRANSIT',
+            duration: leg.duration?.text || "",
+            durationValue: leg.duration?.value || 0,
+            distance: leg.distance?.text
+          };
+        }
+      } catch (e) { }
+      return null;
+    };
+
+    // Points sequence: Origin -> Act[0] -> Act[1] ... -> back to the origin or on to the destination.
+    // The first leg comes from 'start' and the last one goes to 'end', so the day list can show
+    // the way from and back to the hotel like any other leg.
+    let current = { id: "start", node: 0, location: origin }; // Matrix index: 0 is the origin, activities[i] is i + 1
+
+    for (let i = 0; i < orderedActivities.length; i++) {
+      const targetAct = orderedActivities[i];
+      const target = { id: targetAct.id, node: tspOrder[i] + 1, location: targetAct.location };
+      const selectedSegment = await chooseLeg(current, target);
 
-      // 5. Commit
+      // Commit
       if (selectedSegment) {
         totalSeconds += selectedSegment.durationValue;
         departureTime.setSeconds(departureTime.getSeconds() + selectedSegment.durationValue);
-
-        // Add activity stay duration for the next leg's departure time
-        const stayMins = getActivityDuration(targetAct);
-        departureTime.setMinutes(departureTime.getMinutes() + stayMins);
-
         segments.push(selectedSegment);
       } else {
         segments.push({
-          fromId: currentId,
+          fromId: current.id,
           toId: targetAct.id,
           mode: 'WALKING',
           duration: "?",
@@ -358,23 +305,22 @@ export const calculateFastestRoute = async (
         });
       }
 
-      currentLoc = targetLoc;
-      currentId = targetAct.id;
+      // Add activity stay duration for the next leg's departure time
+      departureTime.setMinutes(departureTime.getMinutes() + getActivityDuration(targetAct));
+      current = target;
     }
 
-    if (returnToOrigin && steps.length > 0) {
-      // Calculate return leg
-      try {
-        const result = await directionsService.route({
-          origin: currentLoc,
-          destination: origin,
-          travelMode: 'TRANSIT',
-          transitOptions: { departureTime: departureTime }
-        });
-        if (result.routes && result.routes.length > 0) {
-          totalSeconds += result.routes[0].legs[0].duration?.value || 0;
-        }
-      } catch (e) { }
+    if ((destination || returnToOrigin) && orderedActivities.length > 0) {
+      // The way back, or on to where the day ends
+      const returnSegment = await chooseLeg(current, {
+        id: "end",
+        node: destination ? points.length - 1 : 0,
+        location: destination || origin
+      });
+      if (returnSegment) {
+        totalSeconds += returnSegment.durationValue;
+        segments.push(returnSegment);
+      }
     }
 
     const hours = Math.floor(totalSeconds / 3600);
@@ -385,7 +331,11 @@ export const calculateFastestRoute = async (
       order: tspOrder,
       totalDuration: durationString,
       durationValue: totalSeconds,
-      segments: segments
+      segments: segments,
+      savedSeconds: optimized.savedSeconds,
+      issues: optimized.issues,
+      transitWarning,
+      timetableDate: routing.isSubstitute ? routing.date : undefined
     };
   } catch (error) {
     console.error("Directions request failed:", error);
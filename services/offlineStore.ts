@@ -0,0 +1,90 @@
+import { Trip, TripSummary } from "../types";
+import { migrateTrip } from "../shared/tripSchema";
+
+// Local copy of trips in IndexedDB so the planner keeps working without the server.
+// Each trip is stored together with `base`, the last state known to match the server:
+// the pending (unsynced) edits are simply diffTrips(base, trip).
+
+const DB_NAME = 'trip-planner-offline';
+const DB_VERSION = 1;
+const TRIPS_STORE = 'trips';
+const META_STORE = 'meta';
+
+export interface CachedTrip {
+  id: string;
+  trip: Trip;  // What the user last saw, including unsynced edits
+  base: Trip;  // Last server state; replay starts from here
+  cachedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TRIPS_STORE)) db.createObjectStore(TRIPS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves with its result
+const run = async <T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const cacheTrip = async (trip: Trip, base: Trip): Promise<void> => {
+  if (!trip.id) return;
+  const entry: CachedTrip = { id: trip.id, trip, base, cachedAt: new Date().toISOString() };
+  await run(TRIPS_STORE, 'readwrite', store => store.put(entry));
+};
+
+export const loadCachedTrip = async (tripId: string): Promise<CachedTrip | null> => {
+  const entry = await run<CachedTrip | undefined>(TRIPS_STORE, 'readonly', store => store.get(tripId));
+  // Copies saved before an app update may predate the current schema
+  return entry ? { ...entry, trip: migrateTrip(entry.trip), base: migrateTrip(entry.base) } : null;
+};
+
+export const removeCachedTrip = async (tripId: string): Promise<void> => {
+  await run(TRIPS_STORE, 'readwrite', store => store.delete(tripId));
+};
+
+// Forgets every trip and the trip list, including unsynced edits; for signing out, since the
+// copies belong to that user and must not be shown or replayed for whoever signs in next
+export const clearOfflineStore = async (): Promise<void> => {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([TRIPS_STORE, META_STORE], 'readwrite');
+    tx.objectStore(TRIPS_STORE).clear();
+    tx.objectStore(META_STORE).clear();
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const cacheTripList = async (trips: TripSummary[]): Promise<void> => {
+  await run(META_STORE, 'readwrite', store => store.put(trips, 'tripList'));
+};
+
+export const loadCachedTripList = async (): Promise<TripSummary[]> => {
+  const trips = await run<TripSummary[] | undefined>(META_STORE, 'readonly', store => store.get('tripList'));
+  return trips || [];
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { Activity, OpeningHours } from '../types';
+import { checkOpeningHours, formatOpeningHours, getOpeningWindows, timeWindowForDay } from './openingHours';
+
+// Fridays and Saturdays 18:00-02:00
+const bar: OpeningHours = { periods: [5, 6].map(day => ({ day, open: '18:00', close: '02:00' })) };
+
+// 09:00-17:00, closed on Mondays and for Culture Day
+const museum: OpeningHours = {
+  periods: [0, 2, 3, 4, 5, 6].map(day => ({ day, open: '09:00', close: '17:00' })),
+  exceptions: [{ date: '2026-11-03', hours: [], note: 'Culture Day' }]
+};
+
+const visit = (openingHours: OpeningHours, startTime: string, endTime: string): Activity => ({
+  id: 'a1',
+  name: 'Visit',
+  description: '',
+  startTime,
+  endTime,
+  location: { lat: 35.68, lng: 139.76 },
+  type: 'leisure',
+  openingHours
+});
+
+describe('getOpeningWindows', () => {
+  it('carries the previous night into the small hours', () => {
+    expect(getOpeningWindows(bar, '2026-10-17')).toEqual([{ open: 0, close: 120 }, { open: 1080, close: 1560 }]);
+    expect(getOpeningWindows(bar, '2026-10-18')).toEqual([{ open: 0, close: 120 }]);
+    expect(getOpeningWindows(bar, '2026-10-19')).toEqual([]);
+  });
+
+  it('is null when the hours or date are unknown', () => {
+    expect(getOpeningWindows(undefined, '2026-10-17')).toBeNull();
+    expect(getOpeningWindows(bar, undefined)).toBeNull();
+  });
+});
+
+describe('checkOpeningHours', () => {
+  it('accepts a visit running past midnight', () => {
+    expect(checkOpeningHours(visit(bar, '23:00', '01:30'), '2026-10-17')).toBeNull();
+    expect(checkOpeningHours(visit(bar, '01:00', '01:30'), '2026-10-18')).toBeNull();
+  });
+
+  it('flags a visit that outlasts the night', () => {
+    expect(checkOpeningHours(visit(bar, '01:30', '03:00'), '2026-10-18'))
+      .toEqual({ kind: 'after-close', message: 'Closes at 02:00' });
+  });
+
+  it('flags a visit before opening', () => {
+    expect(checkOpeningHours(visit(museum, '08:00', '10:00'), '2026-10-20'))
+      .toEqual({ kind: 'before-open', message: 'Opens at 09:00' });
+  });
+
+  it('flags closed days', () => {
+    expect(checkOpeningHours(visit(museum, '10:00', '12:00'), '2026-10-19')).toMatchObject({ kind: 'closed' });
+    expect(checkOpeningHours(visit(museum, '10:00', '12:00'), '2026-11-03'))
+      .toEqual({ kind: 'closed', message: 'Closed (Culture Day)' });
+  });
+});
+
+describe('formatOpeningHours', () => {
+  it('lists every window of the day', () => {
+    expect(formatOpeningHours(bar, '2026-10-17')).toBe('00:00–02:00, 18:00–02:00');
+    expect(formatOpeningHours(museum, '2026-11-03')).toBe('Closed');
+    expect(formatOpeningHours({ periods: [], alwaysOpen: true }, '2026-11-03')).toBe('Open 24 hours');
+  });
+});
+
+describe('timeWindowForDay', () => {
+  it('is relative to the day start and absent on closed days', () => {
+    expect(timeWindowForDay(bar, '2026-10-17', '09:00')).toEqual({ openMins: -540, closeMins: 1020 });
+    expect(timeWindowForDay(museum, '2026-10-19', '09:00')).toBeUndefined();
+  });
+});
@@ -0,0 +1,139 @@
+import { Activity, OpeningHours } from "../types";
+import { TimeWindow } from "./routeOptimizer";
+
+// Opening hours come from the Places proxy (/api/places/details) and are stored on the
+// activity, so checking them works offline and in shared views. Times here are minutes
+// since midnight of the day being checked; a window past midnight ends after 1440.
+
+export interface OpeningWindow {
+  open: number;
+  close: number;
+}
+
+export interface OpeningConflict {
+  kind: 'closed' | 'before-open' | 'after-close';
+  message: string;
+}
+
+const toMins = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const toTime = (mins: number) => {
+  const m = ((mins % 1440) + 1440) % 1440;
+  return `${Math.floor(m / 60).toString().padStart(2, '0')}:${(m % 60).toString().padStart(2, '0')}`;
+};
+
+// Weekday of a YYYY-MM-DD date, independent of the browser's time zone
+const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const shiftDate = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+const toWindow = (open: string, close: string): OpeningWindow => {
+  const openMins = toMins(open);
+  let closeMins = toMins(close);
+  if (closeMins <= openMins) closeMins += 1440; // Closes after midnight
+  return { open: openMins, close: closeMins };
+};
+
+// Windows starting on `date` only, before the previous night's spill-over is added
+const ownWindows = (hours: OpeningHours, date: string): OpeningWindow[] => {
+  const exception = hours.exceptions?.find(e => e.date === date);
+  if (exception) return exception.hours.map(h => toWindow(h.open, h.close));
+  const day = weekdayOf(date);
+  return hours.periods.filter(p => p.day === day).map(p => toWindow(p.open, p.close));
+};
+
+/**
+ * When the place is open on `date`, sorted by opening time.
+ * Null when the hours are unknown; an empty list when it's closed all day.
+ */
+export const getOpeningWindows = (hours: OpeningHours | undefined, date: string | undefined): OpeningWindow[] | null => {
+  if (!hours || !date) return null;
+  if (hours.alwaysOpen) return [{ open: 0, close: 1440 }];
+
+  // A bar open 18:00-02:00 the night before is still open in the small hours of `date`
+  const carriedOver = ownWindows(hours, shiftDate(date, -1))
+    .filter(w => w.close > 1440)
+    .map(w => ({ open: 0, close: w.close - 1440 }));
+
+  return [...carriedOver, ...ownWindows(hours, date)].sort((a, b) => a.open - b.open);
+};
+
+/**
+ * Whether the activity's scheduled visit fits the opening hours on `date`.
+ * Null when it fits or the hours are unknown.
+ */
+export const checkOpeningHours = (activity: Activity, date: string | undefined): OpeningConflict | null => {
+  const windows = getOpeningWindows(activity.openingHours, date);
+  if (!windows) return null;
+
+  if (windows.length === 0) {
+    const note = activity.openingHours?.exceptions?.find(e => e.date === date)?.note;
+    const weekday = new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { weekday: 'long', timeZone: 'UTC' });
+    return { kind: 'closed', message: note ? `Closed (${note})` : `Closed on ${weekday}s` };
+  }
+
+  const start = toMins(activity.startTime);
+  let end = toMins(activity.endTime);
+  if (end < start) end += 1440;
+  if (windows.some(w => w.open <= start && end <= w.close)) return null;
+
+  // Judge against the window the visit overlaps most, or the next one to open
+  const overlap = (w: OpeningWindow) => Math.min(end, w.close) - Math.max(start, w.open);
+  const best = windows.reduce((a, b) => overlap(b) > overlap(a) ? b : a);
+  const target = overlap(best) > 0 ? best : (windows.find(w => w.open > start) || windows[windows.length - 1]);
+
+  return start < target.open
+    ? { kind: 'before-open', message: `Opens at ${toTime(target.open)}` }
+    : { kind: 'after-close', message: `Closes at ${toTime(target.close)}` };
+};
+
+// One line for the card, e.g. "09:00–17:00" or "Closed"
+export const formatOpeningHours = (hours: OpeningHours | undefined, date: string | undefined): string | null => {
+  const windows = getOpeningWindows(hours, date);
+  if (!windows) return null;
+  if (hours?.alwaysOpen) return 'Open 24 hours';
+  if (windows.length === 0) return 'Closed';
+  return windows.map(w => `${toTime(w.open)}–${toTime(w.close)}`).join(', ');
+};
+
+/**
+ * Earliest start at or after `startMins` when a visit of `durationMins` fits the day's
+ * opening hours, i.e. how long to wait outside. Unchanged when nothing fits or hours are unknown.
+ */
+export const waitForOpening = (hours: OpeningHours | undefined, date: string | undefined, startMins: number, durationMins: number): number => {
+  const windows = getOpeningWindows(hours, date);
+  const fits = windows?.find(w => Math.max(startMins, w.open) + durationMins <= w.close);
+  return fits ? Math.max(startMins, fits.open) : startMins;
+};
+
+/**
+ * The span the optimizer should keep the visit inside, in minutes after the day's start.
+ * Closed days get no window: no order fixes them, so they are flagged on the card instead.
+ */
+export const timeWindowForDay = (hours: OpeningHours | undefined, date: string | undefined, dayStartTime: string): TimeWindow | undefined => {
+  const windows = getOpeningWindows(hours, date);
+  if (!windows || windows.length === 0) return undefined;
+  const dayStart = toMins(dayStartTime);
+  return {
+    openMins: Math.min(...windows.map(w => w.open)) - dayStart,
+    closeMins: Math.max(...windows.map(w => w.close)) - dayStart
+  };
+};
+
+// Null when Google has no hours listed for the place
+export const fetchOpeningHours = async (placeId: string): Promise<OpeningHours | null> => {
+  const res = await fetch(`/api/places/details?placeId=${encodeURIComponent(placeId)}`);
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Failed to fetch opening hours (${res.status})`);
+  }
+  const { openingHours } = await res.json();
+  return openingHours;
+};
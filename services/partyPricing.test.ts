@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { DayPlan, Traveller } from '../types';
+import { describeParty, matchPriceEntry, partyTransitCost } from './partyPricing';
+import { plannedByCategory } from './expenses';
+
+const party: Traveller[] = [
+  { id: 'a', name: 'Ann' },
+  { id: 'b', name: 'Ben' },
+  { id: 'c', name: 'Cat', age: 8 }
+];
+
+const day: DayPlan = {
+  id: 'day-1',
+  date: '2025-04-01',
+  city: 'Kyoto',
+  activities: [],
+  travelSegments: [
+    { fromId: 'start', toId: 'end', mode: 'TRANSIT', duration: '20 mins', durationValue: 1200, transitFare: 230 }
+  ],
+  transfers: [
+    {
+      id: 'transfer-1',
+      mode: 'TRAIN',
+      from: { name: 'Kyoto Station' },
+      to: { name: 'Tokyo Station' },
+      departureTime: '18:00',
+      arrivalTime: '20:15',
+      cost: 14170
+    }
+  ]
+};
+
+describe('partyTransitCost', () => {
+  it('charges per-person fares and transfers for everyone in the party', () => {
+    expect(partyTransitCost(day, party)).toEqual({ fares: 3 * 230, transfers: 3 * 14170 });
+  });
+
+  it('prices for one person when there are no travellers', () => {
+    expect(partyTransitCost(day, [])).toEqual({ fares: 230, transfers: 14170 });
+  });
+
+  it('is what the budget report plans for transit', () => {
+    expect(plannedByCategory(day, [], undefined, undefined, party).transit).toBe(3 * (230 + 14170));
+  });
+});
+
+describe('matchPriceEntry', () => {
+  const entries = [
+    { label: 'Adult', amount: 1000 },
+    { label: 'Child (6-11)', amount: 500 },
+    { label: 'Senior 65+', amount: 700 }
+  ];
+
+  it('prices by age when no tier is set', () => {
+    expect(matchPriceEntry({ id: 'c', name: 'Cat', age: 8 }, entries)?.label).toBe('Child (6-11)');
+    expect(matchPriceEntry({ id: 'd', name: 'Dan', age: 70 }, entries)?.label).toBe('Senior 65+');
+  });
+
+  it('honours an explicit Adult tier over a child age', () => {
+    const traveller: Traveller = { id: 'c', name: 'Cat', age: 8, priceTier: 'Adult' };
+    expect(matchPriceEntry(traveller, entries)?.label).toBe('Adult');
+    expect(describeParty([traveller])).toBe('1 adult');
+  });
+});
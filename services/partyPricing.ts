@@ -0,0 +1,145 @@
+import { ActivityPricing, DayPlan, ExchangeRates, FarePaymentMethod, PriceEntry, Traveller } from "../types";
+import { pricingInYen, toYen } from "./currency";
+import { segmentFare } from "./railPass";
+import { dayTransferCost } from "./transfers";
+
+// Admission is priced per traveller: each one is matched to the price tier that fits them,
+// first by the tier they're set to pay (Student, say) and then by age against the ranges in
+// the tier labels ("Child (6-11)", "Senior 65+") or the usual range for the tier's name.
+// Whoever can't be matched is charged the main price and flagged so someone can check.
+// Without travellers on the trip, everything is priced for one adult, as before.
+// Transit fares and inter-city tickets are per person and simply count everyone.
+
+export const DEFAULT_PRICE_TIER = 'Adult';
+
+export const PRICE_TIERS = [DEFAULT_PRICE_TIER, 'Child', 'Student', 'Senior'];
+
+interface AgeRange {
+  min: number;
+  max: number;
+}
+
+// Ages a tier usually covers in Japan when its label doesn't say; student fares need a student ID
+const TIER_AGES: { pattern: RegExp; range: AgeRange }[] = [
+  { pattern: /infant|baby|toddler|preschool/i, range: { min: 0, max: 5 } },
+  { pattern: /child|children|kid|elementary/i, range: { min: 6, max: 11 } },
+  { pattern: /junior high|middle school/i, range: { min: 12, max: 14 } },
+  { pattern: /high school|youth|teen/i, range: { min: 15, max: 17 } },
+  { pattern: /senior|elderly/i, range: { min: 65, max: Infinity } },
+  { pattern: /adult|general/i, range: { min: 18, max: Infinity } }
+];
+
+// The ages a price tier covers, read from its label; undefined for tiers that aren't about age
+export const tierAgeRange = (label: string): AgeRange | undefined => {
+  const between = label.match(/(\d+)\s*(?:-|–|~|to)\s*(\d+)/i);
+  if (between) return { min: Number(between[1]), max: Number(between[2]) };
+  const over = label.match(/(\d+)\s*\+|(?:over|aged?)\s*(\d+)|(\d+)\s*(?:and|&)\s*(?:over|up|older)/i);
+  if (over) return { min: Number(over[1] || over[2] || over[3]), max: Infinity };
+  const under = label.match(/(?:under|below|<)\s*(\d+)/i);
+  if (under) return { min: 0, max: Number(under[1]) - 1 };
+  return TIER_AGES.find(({ pattern }) => pattern.test(label))?.range;
+};
+
+const labelMatchesTier = (label: string, tier: string) => label.toLowerCase().includes(tier.toLowerCase());
+
+/**
+ * The price entry a traveller pays. A tier they're explicitly set to, Adult included, comes
+ * first; then their age, preferring the narrowest matching range (a senior fare over the adult
+ * one); travellers without an age pay the adult fare. Undefined when nothing fits.
+ */
+export const matchPriceEntry = (traveller: Traveller, entries: PriceEntry[]): PriceEntry | undefined => {
+  if (traveller.priceTier || traveller.age === undefined) {
+    const tier = traveller.priceTier || DEFAULT_PRICE_TIER;
+    const byTier = entries.find(entry => labelMatchesTier(entry.label, tier))
+      // "General" or "18+" stands in for an adult fare
+      || (tier === DEFAULT_PRICE_TIER ? entries.find(entry => tierAgeRange(entry.label)?.min === 18) : undefined);
+    if (byTier || traveller.age === undefined) return byTier;
+  }
+  const age = traveller.age;
+  return entries
+    .map(entry => ({ entry, range: tierAgeRange(entry.label) }))
+    .filter(({ range }) => range && range.min <= age && age <= range.max)
+    .sort((a, b) => {
+      const widthA = a.range!.max - a.range!.min;
+      const widthB = b.range!.max - b.range!.min;
+      // Open-ended ranges are equally wide; the one starting later is the more specific
+      return widthA === widthB ? b.range!.min - a.range!.min : widthA - widthB;
+    })[0]?.entry;
+};
+
+export interface TravellerPrice {
+  traveller: Traveller;
+  entry?: PriceEntry; // Absent when unmatched, or when the activity has a single price
+  yen: number;
+}
+
+export interface PartyPrice {
+  total: number; // Yen for the whole party
+  prices: TravellerPrice[];
+  unmatched: Traveller[]; // Charged the main price; needs checking by hand
+}
+
+export const travellerDescription = (traveller: Traveller) =>
+  `${traveller.name}${traveller.age !== undefined ? ` (${traveller.age})` : ''}`;
+
+// What admission costs the whole party, in yen
+export const partyPrice = (pricing: ActivityPricing | undefined, travellers: Traveller[] | undefined, rates?: ExchangeRates): PartyPrice => {
+  const mainPrice = pricingInYen(pricing, rates);
+  if (!travellers?.length) return { total: mainPrice, prices: [], unmatched: [] };
+  if (!pricing || pricing.isFree) return { total: 0, prices: travellers.map(traveller => ({ traveller, yen: 0 })), unmatched: [] };
+
+  const entries = pricing.priceEntries || [];
+  const unmatched: Traveller[] = [];
+  const prices = travellers.map(traveller => {
+    if (entries.length === 0) return { traveller, yen: mainPrice };
+    const entry = matchPriceEntry(traveller, entries);
+    if (!entry) {
+      unmatched.push(traveller);
+      return { traveller, yen: mainPrice };
+    }
+    return { traveller, entry, yen: toYen(entry.amount, entry.currency || pricing.currency, rates) };
+  });
+  return { total: prices.reduce((sum, p) => sum + p.yen, 0), prices, unmatched };
+};
+
+export const partyPriceInYen = (pricing: ActivityPricing | undefined, travellers: Traveller[] | undefined, rates?: ExchangeRates) =>
+  partyPrice(pricing, travellers, rates).total;
+
+// How many people per-person costs are paid for
+export const partySize = (travellers?: Traveller[]) => travellers?.length || 1;
+
+export interface PartyTransitCost {
+  fares: number;     // Yen for the day's travel segments
+  transfers: number; // Yen for its inter-city tickets
+}
+
+// The day's transit for the whole party, in yen
+export const partyTransitCost = (
+  day: DayPlan,
+  travellers: Traveller[] | undefined,
+  farePayment?: FarePaymentMethod,
+  rates?: ExchangeRates
+): PartyTransitCost => {
+  const people = partySize(travellers);
+  return {
+    fares: (day.travelSegments || []).reduce((sum, seg) => sum + segmentFare(seg, farePayment), 0) * people,
+    transfers: dayTransferCost(day, rates) * people
+  };
+};
+
+// The tier someone's age usually falls in, for describing the party
+const tierForAge = (age: number) => age < 6 ? 'Infant' : age < 12 ? 'Child' : age < 18 ? 'Youth' : age >= 65 ? 'Senior' : DEFAULT_PRICE_TIER;
+
+// "2 adults, 1 child (8)"-style summary of who's travelling
+export const describeParty = (travellers: Traveller[]) => {
+  const groups = new Map<string, Traveller[]>();
+  travellers.forEach(traveller => {
+    const tier = traveller.priceTier || (traveller.age !== undefined ? tierForAge(traveller.age) : DEFAULT_PRICE_TIER);
+    groups.set(tier, [...(groups.get(tier) || []), traveller]);
+  });
+  return [...groups.entries()].map(([tier, group]) => {
+    const ages = tier === DEFAULT_PRICE_TIER ? [] : group.filter(t => t.age !== undefined).map(t => t.age);
+    const noun = group.length === 1 ? tier.toLowerCase() : tier === 'Child' ? 'children' : `${tier.toLowerCase()}s`;
+    return `${group.length} ${noun}${ages.length > 0 ? ` (${ages.join(', ')})` : ''}`;
+  }).join(', ');
+};
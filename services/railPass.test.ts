@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { DayPlan, TransitLeg, TravelSegment } from '../types';
+import { analyseRailPasses, legFare, segmentFare } from './railPass';
+
+const train = (lineName: string, fare: number, icFare?: number): TransitLeg => ({ mode: 'TRAIN', lineName, durationMinutes: 30, fare, icFare });
+
+const segment = (legs?: TransitLeg[], changes: Partial<TravelSegment> = {}): TravelSegment => ({
+  fromId: 'start',
+  toId: 'end',
+  mode: 'TRANSIT',
+  duration: '30 mins',
+  durationValue: 1800,
+  transitFare: legs?.reduce((sum, leg) => sum + (leg.fare || 0), 0),
+  legs,
+  ...changes
+});
+
+const day = (date: string, city: string, legs: TransitLeg[]): DayPlan => ({
+  id: date,
+  date,
+  city,
+  activities: [],
+  travelSegments: [segment(legs)]
+});
+
+// Tokyo - Kyoto - Tokyo in a week, JR fares adding up to exactly the 7-day pass price
+const week = [
+  day('2025-04-01', 'Tokyo', [train('Hikari Shinkansen', 20000)]),
+  day('2025-04-04', 'Kyoto', [train('JR Nara Line', 10000), train('Nozomi Shinkansen', 5000), train('Kintetsu Line', 700)]),
+  day('2025-04-07', 'Kyoto', [train('Hikari Shinkansen', 20000)])
+];
+
+const passFor = (days: DayPlan[], id: string) => analyseRailPasses(days).passes.find(p => p.pass.id === id)!;
+
+describe('analyseRailPasses', () => {
+  it('breaks even when the covered fares match the pass price', () => {
+    expect(passFor(week, 'jr-pass-7')).toMatchObject({
+      startDate: '2025-04-01',
+      endDate: '2025-04-07',
+      coveredFare: 50000,
+      savings: 0,
+      legCount: 3
+    });
+  });
+
+  it('pays off once one more covered ride is added', () => {
+    const busier = [...week, day('2025-04-05', 'Kyoto', [train('JR Sagano Line', 240)])];
+    expect(passFor(busier, 'jr-pass-7').savings).toBe(240);
+  });
+
+  it('only counts rides inside the pass window and area', () => {
+    const kansai = passFor(week, 'jr-kansai-area-1');
+    expect(kansai).toMatchObject({ startDate: '2025-04-04', coveredFare: 10000, savings: 7200, legCount: 1 });
+    expect(passFor([week[0]], 'jr-kansai-area-1')).toMatchObject({ startDate: null, coveredFare: 0, savings: -2800 });
+  });
+
+  it('lists the best value first and totals every fare', () => {
+    const report = analyseRailPasses(week);
+    const savings = report.passes.map(p => p.savings);
+    expect(savings).toEqual([...savings].sort((a, b) => b - a));
+    expect(report.totalTransitFare).toBe(55700);
+    expect(report.segmentsWithoutLegs).toBe(0);
+  });
+
+  it('counts transit segments it cannot check', () => {
+    const report = analyseRailPasses([{ ...week[0], travelSegments: [segment(undefined, { transitFare: 200 }), segment(undefined, { mode: 'WALKING' })] }]);
+    expect(report.segmentsWithoutLegs).toBe(1);
+    expect(report.totalTransitFare).toBe(200);
+  });
+});
+
+describe('fares', () => {
+  it('use the chosen payment method and fall back to the other', () => {
+    expect(legFare(train('JR Yamanote Line', 170, 165))).toBe(170);
+    expect(legFare(train('JR Yamanote Line', 170, 165), 'ic')).toBe(165);
+    expect(legFare({ mode: 'TRAIN', durationMinutes: 5, icFare: 165 })).toBe(165);
+    expect(segmentFare(segment(undefined, { icFare: 160 }), 'ic')).toBe(160);
+    expect(segmentFare(segment(undefined, { transitFare: 170 }), 'ic')).toBe(170);
+    expect(segmentFare(segment(undefined, { mode: 'WALKING' }))).toBe(0);
+  });
+});
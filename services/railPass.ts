@@ -0,0 +1,156 @@
+import { DayPlan, ExchangeRates, FarePaymentMethod, TransitLeg, TravelSegment } from "../types";
+import { transferCostInYen, transferDurationMins } from "./transfers";
+
+// Fares by payment method, and whether a rail pass would pay for itself on this trip.
+// Pass rules are simplified: a leg counts when its operator or line is JR (plus the few
+// private lines a regional pass includes), and regional passes only count days spent in
+// their area. Prices change; PASS_PRICES_AS_OF says when these were last checked.
+
+export const PASS_PRICES_AS_OF = '2024-10';
+
+export interface RailPass {
+  id: string;
+  name: string;
+  price: number;        // Yen, adult
+  days: number;         // Consecutive calendar days
+  cities?: string[];    // Regional passes: day.city must mention one of these
+  covers: (leg: TransitLeg) => boolean;
+}
+
+export interface PassAnalysis {
+  pass: RailPass;
+  startDate: string | null; // Best first day to activate it; null when nothing is covered
+  endDate: string | null;
+  coveredFare: number;      // What the covered legs would cost without the pass
+  savings: number;          // coveredFare - price; negative when it doesn't pay off
+  legCount: number;
+}
+
+export interface RailPassReport {
+  passes: PassAnalysis[];       // Best value first
+  totalTransitFare: number;
+  segmentsWithoutLegs: number;  // Older segments without leg details can't be checked
+}
+
+const isShinkansen = (leg: TransitLeg) => /shinkansen|新幹線/i.test(leg.lineName || '');
+// Every Shinkansen is JR, even when a booked transfer's carrier doesn't say so
+const isJr = (leg: TransitLeg) => /\bJR\b|ＪＲ/.test(`${leg.operator || ''} ${leg.lineName || ''}`) || isShinkansen(leg);
+// The national pass doesn't cover the fastest Tokaido/Sanyo/Kyushu services without a supplement
+const isNozomiOrMizuho = (leg: TransitLeg) => /nozomi|mizuho|のぞみ|みずほ/i.test(leg.lineName || '');
+const isOneOf = (leg: TransitLeg, names: RegExp) => names.test(`${leg.operator || ''} ${leg.lineName || ''}`);
+
+const jrPass = (days: number, price: number): RailPass => ({
+  id: `jr-pass-${days}`,
+  name: `JR Pass (${days} days)`,
+  price,
+  days,
+  covers: leg => leg.mode !== 'WALKING' && isJr(leg) && !isNozomiOrMizuho(leg)
+});
+
+const KANSAI_CITIES = ['osaka', 'kyoto', 'kobe', 'nara', 'himeji', 'uji', 'wakayama', 'otsu'];
+const TOKYO_WIDE_CITIES = ['tokyo', 'yokohama', 'kamakura', 'nikko', 'kawaguchiko', 'fuji', 'karuizawa', 'narita', 'chiba', 'saitama', 'kawagoe'];
+
+const kansaiAreaPass = (days: number, price: number): RailPass => ({
+  id: `jr-kansai-area-${days}`,
+  name: `JR Kansai Area Pass (${days} day${days === 1 ? '' : 's'})`,
+  price,
+  days,
+  cities: KANSAI_CITIES,
+  covers: leg => leg.mode === 'TRAIN' && isJr(leg) && !isShinkansen(leg)
+});
+
+export const RAIL_PASSES: RailPass[] = [
+  jrPass(7, 50000),
+  jrPass(14, 80000),
+  jrPass(21, 100000),
+  kansaiAreaPass(1, 2800),
+  kansaiAreaPass(2, 4800),
+  kansaiAreaPass(3, 5800),
+  kansaiAreaPass(4, 7000),
+  {
+    id: 'jr-tokyo-wide',
+    name: 'JR Tokyo Wide Pass (3 days)',
+    price: 15000,
+    days: 3,
+    cities: TOKYO_WIDE_CITIES,
+    covers: leg => leg.mode !== 'WALKING'
+      && ((isJr(leg) && !isNozomiOrMizuho(leg)) || isOneOf(leg, /Tokyo Monorail|Rinkai|Fuji ?kyu|Izu Kyuko|Joshin|Saitama New Urban/i))
+  }
+];
+
+// Fare of a whole segment for the chosen payment method, falling back to the other fare
+export const segmentFare = (segment: TravelSegment, method: FarePaymentMethod = 'ticket') =>
+  (method === 'ic' ? segment.icFare ?? segment.transitFare : segment.transitFare ?? segment.icFare) || 0;
+
+export const legFare = (leg: TransitLeg, method: FarePaymentMethod = 'ticket') =>
+  (method === 'ic' ? leg.icFare ?? leg.fare : leg.fare ?? leg.icFare) || 0;
+
+// Booked inter-city trains count as rides too; the carrier names the line
+const transferLegs = (day: DayPlan, rates?: ExchangeRates): TransitLeg[] => (day.transfers || [])
+  .filter(transfer => transfer.mode === 'TRAIN')
+  .map(transfer => ({
+    mode: 'TRAIN',
+    lineName: transfer.carrier,
+    durationMinutes: transferDurationMins(transfer),
+    fare: transfer.cost ? transferCostInYen(transfer, rates) : undefined
+  }));
+
+const dayLegs = (day: DayPlan, rates?: ExchangeRates): TransitLeg[] => [
+  ...(day.travelSegments || []).flatMap(segment => segment.legs || []),
+  ...transferLegs(day, rates)
+];
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+const analysePass = (pass: RailPass, days: DayPlan[], method: FarePaymentMethod, rates?: ExchangeRates): PassAnalysis => {
+  const inArea = (day: DayPlan) => !pass.cities || pass.cities.some(city => day.city.toLowerCase().includes(city));
+
+  // Try activating the pass on each day of the trip and keep the window that covers most
+  let best: PassAnalysis = { pass, startDate: null, endDate: null, coveredFare: 0, savings: -pass.price, legCount: 0 };
+  days.filter(inArea).forEach(startDay => {
+    let coveredFare = 0;
+    let legCount = 0;
+    days
+      .filter(day => {
+        const offset = daysBetween(startDay.date, day.date);
+        return offset >= 0 && offset < pass.days && inArea(day);
+      })
+      .forEach(day => dayLegs(day, rates).forEach(leg => {
+        if (!pass.covers(leg)) return;
+        coveredFare += legFare(leg, method);
+        legCount++;
+      }));
+
+    if (coveredFare > best.coveredFare) {
+      best = {
+        pass,
+        startDate: startDay.date,
+        endDate: addDays(startDay.date, pass.days - 1),
+        coveredFare,
+        savings: coveredFare - pass.price,
+        legCount
+      };
+    }
+  });
+  return best;
+};
+
+/**
+ * Compares every pass in RAIL_PASSES against paying fares for the trip's planned legs.
+ * Only the best activation window per pass is reported.
+ */
+export const analyseRailPasses = (days: DayPlan[], method: FarePaymentMethod = 'ticket', rates?: ExchangeRates): RailPassReport => {
+  const segments = days.flatMap(day => day.travelSegments || []);
+  return {
+    passes: RAIL_PASSES.map(pass => analysePass(pass, days, method, rates)).sort((a, b) => b.savings - a.savings),
+    totalTransitFare: segments.reduce((sum, segment) => sum + segmentFare(segment, method), 0),
+    segmentsWithoutLegs: segments.filter(segment => segment.mode !== 'WALKING' && !segment.legs?.length).length
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { OptimizerStop, optimizeRoute } from './routeOptimizer';
+
+// Start at 0 and stops along a straight road, a minute apart per unit of distance
+const lineMatrix = (positions: number[]) => {
+  const nodes = [0, ...positions];
+  return nodes.map(from => nodes.map(to => Math.abs(from - to) * 60));
+};
+
+const stop = (changes: Partial<OptimizerStop> = {}): OptimizerStop => ({ durationMins: 30, ...changes });
+
+describe('optimizeRoute', () => {
+  it('orders free stops by travel time', () => {
+    const route = optimizeRoute({ matrix: lineMatrix([3, 1, 2]), stops: [stop(), stop(), stop()] });
+    expect(route.order).toEqual([1, 2, 0]);
+    expect(route.travelSeconds).toBe(180);
+    expect(route.baselineTravelSeconds).toBe(360);
+    expect(route.savedSeconds).toBe(180);
+    expect(route.issues).toEqual([]);
+  });
+
+  it('visits a pinned stop on time even when that costs travel', () => {
+    // The far stop is locked at minute 5, so it has to come first
+    const route = optimizeRoute({ matrix: lineMatrix([1, 2, 3]), stops: [stop(), stop(), stop({ fixedStartMins: 5 })] });
+    expect(route.order).toEqual([2, 1, 0]);
+    expect(route.travelSeconds).toBe(300);
+    expect(route.savedSeconds).toBe(-120);
+    expect(route.issues).toEqual([]);
+  });
+
+  it('reports a pinned time no order can make', () => {
+    const route = optimizeRoute({ matrix: lineMatrix([1, 2, 3]), stops: [stop(), stop(), stop({ fixedStartMins: 0 })] });
+    expect(route.order[0]).toBe(2);
+    expect(route.issues).toEqual([{ stopIndex: 2, kind: 'late-for-fixed-time', minutes: 3 }]);
+  });
+
+  it('keeps the given order when no move improves on it', () => {
+    const route = optimizeRoute({ matrix: lineMatrix([1, 2, 3]), stops: [stop(), stop(), stop()], endNode: 0 });
+    expect(route.order).toEqual([0, 1, 2]);
+    expect(route.travelSeconds).toBe(route.baselineTravelSeconds);
+    expect(route.savedSeconds).toBe(0);
+  });
+});
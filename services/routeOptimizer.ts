@@ -0,0 +1,179 @@
+// Orders a day's stops to minimise travel time while respecting locked start times and
+// opening hours. Pure: it works on a duration matrix and knows nothing about Google Maps.
+//
+// Node 0 of the matrix is the start point (hotel); node i + 1 is stops[i]; an end point
+// other than the start (tonight's hotel) comes after the stops. All times are
+// minutes since the day's start time, so a stop at 01:00 on a day starting at 09:00 is 960.
+
+export interface TimeWindow {
+  openMins: number;
+  closeMins: number;
+}
+
+export interface OptimizerStop {
+  durationMins: number;
+  fixedStartMins?: number; // Locked start time (anchor); the stop never starts earlier
+  window?: TimeWindow;     // Opening hours; the visit should fit inside
+}
+
+export interface RouteIssue {
+  stopIndex: number;
+  kind: 'late-for-fixed-time' | 'outside-opening-hours';
+  minutes: number; // How late / how far past closing
+}
+
+export interface OptimizedRoute {
+  order: number[];               // Indices into `stops`
+  travelSeconds: number;
+  baselineTravelSeconds: number; // The order the stops were given in
+  savedSeconds: number;          // Negative when keeping fixed times forces a longer route
+  issues: RouteIssue[];          // Constraints even the best order can't meet
+}
+
+interface OptimizeOptions {
+  matrix: number[][]; // Travel seconds, matrix[from][to], asymmetric allowed
+  stops: OptimizerStop[];
+  endNode?: number;   // Node the route finishes at (0 for a round trip); omitted ends at the last stop
+}
+
+// A minute late for a fixed time or past closing outweighs any realistic travel saving
+const PENALTY_SECONDS_PER_MINUTE = 3600;
+const MAX_PASSES = 50;
+const MAX_OR_OPT_SEGMENT = 3;
+
+interface Evaluation {
+  cost: number;
+  travelSeconds: number;
+  issues: RouteIssue[];
+}
+
+const evaluate = (order: number[], { matrix, stops, endNode }: OptimizeOptions): Evaluation => {
+  let clock = 0;
+  let travelSeconds = 0;
+  let penaltyMinutes = 0;
+  const issues: RouteIssue[] = [];
+  let previousNode = 0;
+
+  order.forEach(stopIndex => {
+    const node = stopIndex + 1;
+    const stop = stops[stopIndex];
+    const legSeconds = matrix[previousNode][node];
+    travelSeconds += legSeconds;
+    clock += legSeconds / 60;
+
+    if (stop.fixedStartMins !== undefined) {
+      const late = clock - stop.fixedStartMins;
+      if (late > 0.5) {
+        penaltyMinutes += late;
+        issues.push({ stopIndex, kind: 'late-for-fixed-time', minutes: Math.round(late) });
+      }
+      clock = Math.max(clock, stop.fixedStartMins);
+    } else if (stop.window) {
+      clock = Math.max(clock, stop.window.openMins); // Wait for it to open
+    }
+
+    clock += stop.durationMins;
+
+    if (stop.window && clock > stop.window.closeMins + 0.5) {
+      const over = clock - stop.window.closeMins;
+      penaltyMinutes += over;
+      issues.push({ stopIndex, kind: 'outside-opening-hours', minutes: Math.round(over) });
+    }
+    previousNode = node;
+  });
+
+  if (endNode !== undefined && order.length > 0) travelSeconds += matrix[previousNode][endNode];
+
+  return { cost: travelSeconds + penaltyMinutes * PENALTY_SECONDS_PER_MINUTE, travelSeconds, issues };
+};
+
+// Greedy start: always go to the closest remaining stop by travel time
+const nearestNeighbourOrder = ({ matrix, stops }: OptimizeOptions): number[] => {
+  const remaining = new Set(stops.map((_, i) => i));
+  const order: number[] = [];
+  let node = 0;
+  while (remaining.size > 0) {
+    let best = -1;
+    remaining.forEach(i => {
+      if (best === -1 || matrix[node][i + 1] < matrix[node][best + 1]) best = i;
+    });
+    order.push(best);
+    remaining.delete(best);
+    node = best + 1;
+  }
+  return order;
+};
+
+// Reverses order[i..j]; with an asymmetric matrix the reversed legs are re-timed by evaluate
+const twoOptMove = (order: number[], i: number, j: number) =>
+  [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+
+// Moves the segment order[i..i+length-1] so it starts at position `to` of what remains
+const orOptMove = (order: number[], i: number, length: number, to: number) => {
+  const segment = order.slice(i, i + length);
+  const rest = [...order.slice(0, i), ...order.slice(i + length)];
+  return [...rest.slice(0, to), ...segment, ...rest.slice(to)];
+};
+
+// First-improvement local search alternating 2-opt and Or-opt until neither helps
+const improve = (start: number[], options: OptimizeOptions): { order: number[]; evaluation: Evaluation } => {
+  let order = start;
+  let best = evaluate(order, options);
+  const n = order.length;
+
+  const tryCandidate = (candidate: number[]) => {
+    const candidateEval = evaluate(candidate, options);
+    if (candidateEval.cost < best.cost - 1e-6) {
+      order = candidate;
+      best = candidateEval;
+      return true;
+    }
+    return false;
+  };
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let improved = false;
+
+    for (let i = 0; i < n - 1; i++) {
+      for (let j = i + 1; j < n; j++) {
+        if (tryCandidate(twoOptMove(order, i, j))) improved = true;
+      }
+    }
+
+    for (let length = 1; length <= Math.min(MAX_OR_OPT_SEGMENT, n - 1); length++) {
+      for (let i = 0; i + length <= n; i++) {
+        for (let to = 0; to <= n - length; to++) {
+          if (to === i) continue;
+          if (tryCandidate(orOptMove(order, i, length, to))) improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return { order, evaluation: best };
+};
+
+export const optimizeRoute = (options: OptimizeOptions): OptimizedRoute => {
+  const identity = options.stops.map((_, i) => i);
+  const baseline = evaluate(identity, options);
+
+  // Same order, but anchors swapped among their own positions into time order: a sensible
+  // start when the current order already breaks a locked time
+  const isAnchor = (i: number) => options.stops[i].fixedStartMins !== undefined;
+  const anchorsByTime = identity.filter(isAnchor)
+    .sort((a, b) => options.stops[a].fixedStartMins! - options.stops[b].fixedStartMins!);
+  const anchored = identity.map(i => isAnchor(i) ? anchorsByTime.shift()! : i);
+
+  const candidates = [identity, anchored, nearestNeighbourOrder(options)].map(start => improve(start, options));
+  const best = candidates.reduce((a, b) => b.evaluation.cost < a.evaluation.cost ? b : a);
+
+  return {
+    order: best.order,
+    travelSeconds: best.evaluation.travelSeconds,
+    baselineTravelSeconds: baseline.travelSeconds,
+    savedSeconds: baseline.travelSeconds - best.evaluation.travelSeconds,
+    issues: best.evaluation.issues
+  };
+};
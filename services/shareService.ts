@@ -0,0 +1,43 @@
+import { Trip, ShareLink } from "../types";
+import { migrateTrip } from "../shared/tripSchema";
+
+// Public read-only links. The owner endpoints need a session; /api/share/:token does not.
+
+const sharesUrl = (tripId: string) => `/api/trips/${encodeURIComponent(tripId)}/shares`;
+
+const readError = async (res: Response, fallback: string) => {
+  const body = await res.json().catch(() => ({}));
+  return new Error(body.error || `${fallback} (${res.status})`);
+};
+
+export const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+// Null when the link was revoked or the trip deleted
+export const fetchSharedTrip = async (token: string): Promise<Trip | null> => {
+  const res = await fetch(`/api/share/${encodeURIComponent(token)}`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw await readError(res, 'Failed to load shared trip');
+  return migrateTrip(await res.json());
+};
+
+export const listShareLinks = async (tripId: string): Promise<ShareLink[]> => {
+  const res = await fetch(sharesUrl(tripId));
+  if (!res.ok) throw await readError(res, 'Failed to load share links');
+  return await res.json();
+};
+
+export const createShareLink = async (tripId: string, showAttachments: boolean): Promise<ShareLink[]> => {
+  const res = await fetch(sharesUrl(tripId), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ showAttachments })
+  });
+  if (!res.ok) throw await readError(res, 'Failed to create share link');
+  return await res.json();
+};
+
+export const revokeShareLink = async (tripId: string, token: string): Promise<ShareLink[]> => {
+  const res = await fetch(`${sharesUrl(tripId)}/${encodeURIComponent(token)}`, { method: 'DELETE' });
+  if (!res.ok) throw await readError(res, 'Failed to revoke share link');
+  return await res.json();
+};
@@ -0,0 +1,100 @@
+import { DayPlan, ExchangeRates, InterCityTransfer, TransferMode } from "../types";
+import { toYen } from "./currency";
+
+// Inter-city transfers are booked and fixed in time: the day's schedule flows around them
+// and the optimizer only plans the stops after the last arrival. Times are minutes since
+// midnight of the day; an overnight arrival ends after 1440.
+
+// Time to get to the platform/gate before departure, and out of the station/airport after arrival
+const BEFORE_DEPARTURE: Record<TransferMode, number> = { TRAIN: 20, BUS: 15, FERRY: 30, FLIGHT: 90 };
+const AFTER_ARRIVAL: Record<TransferMode, number> = { TRAIN: 10, BUS: 5, FERRY: 15, FLIGHT: 45 };
+
+export const TRANSFER_MODE_LABELS: Record<TransferMode, string> = {
+  TRAIN: 'Train',
+  FLIGHT: 'Flight',
+  BUS: 'Bus',
+  FERRY: 'Ferry'
+};
+
+export interface TransferBlock {
+  transfer: InterCityTransfer;
+  departureMins: number;
+  arrivalMins: number;
+  startMins: number; // Blocked from here (departure minus getting to the platform)
+  endMins: number;   // Until here (arrival plus getting out)
+}
+
+const toMins = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+export const transferDurationMins = (transfer: InterCityTransfer) => {
+  const duration = toMins(transfer.arrivalTime) - toMins(transfer.departureTime);
+  return duration < 0 ? duration + 1440 : duration;
+};
+
+// Blocked time spans of a day's transfers, in departure order
+export const transferBlocks = (transfers: InterCityTransfer[] | undefined): TransferBlock[] =>
+  (transfers || [])
+    .map(transfer => {
+      const departureMins = toMins(transfer.departureTime);
+      const arrivalMins = departureMins + transferDurationMins(transfer);
+      return {
+        transfer,
+        departureMins,
+        arrivalMins,
+        startMins: departureMins - BEFORE_DEPARTURE[transfer.mode],
+        endMins: arrivalMins + AFTER_ARRIVAL[transfer.mode]
+      };
+    })
+    .sort((a, b) => a.departureMins - b.departureMins);
+
+/**
+ * Earliest start at or after `startMins` for a visit of `durationMins` that doesn't overlap
+ * a transfer. Pushed to after the arrival when it would, since the booking can't move.
+ */
+export const fitAroundTransfers = (blocks: TransferBlock[], startMins: number, durationMins: number): number => {
+  let start = startMins;
+  blocks.forEach(block => {
+    if (start < block.endMins && start + durationMins > block.startMins) start = block.endMins;
+  });
+  return start;
+};
+
+/**
+ * Splits a day's activities at its last transfer: the stops before the departure stay where
+ * they are, the ones after it are planned from the arrival station. Null without transfers.
+ */
+export const splitAtLastTransfer = (day: DayPlan) => {
+  const blocks = transferBlocks(day.transfers);
+  const last = blocks[blocks.length - 1];
+  if (!last) return null;
+  const isBefore = (startTime: string) => toMins(startTime) < last.departureMins;
+  return {
+    block: last,
+    before: day.activities.filter(a => isBefore(a.startTime)),
+    after: day.activities.filter(a => !isBefore(a.startTime))
+  };
+};
+
+export interface TransferTotals {
+  count: number;
+  cost: number; // Yen
+  minutes: number;
+  byMode: Partial<Record<TransferMode, number>>;
+}
+
+export const transferCostInYen = (transfer: InterCityTransfer, rates?: ExchangeRates) =>
+  toYen(transfer.cost || 0, transfer.currency, rates);
+
+export const transferTotals = (days: DayPlan[], rates?: ExchangeRates): TransferTotals =>
+  days.flatMap(day => day.transfers || []).reduce<TransferTotals>((totals, transfer) => ({
+    count: totals.count + 1,
+    cost: totals.cost + transferCostInYen(transfer, rates),
+    minutes: totals.minutes + transferDurationMins(transfer),
+    byMode: { ...totals.byMode, [transfer.mode]: (totals.byMode[transfer.mode] || 0) + 1 }
+  }), { count: 0, cost: 0, minutes: 0, byMode: {} });
+
+export const dayTransferCost = (day: DayPlan, rates?: ExchangeRates) =>
+  (day.transfers || []).reduce((sum, transfer) => sum + transferCostInYen(transfer, rates), 0);
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { routingDeparture, serviceWarning } from './transitSchedule';
+
+// 10:00 on Monday 19 October 2026 in Japan; timetables run to Thursday 17 December
+const now = new Date('2026-10-19T01:00:00Z');
+
+describe('routingDeparture', () => {
+  it('uses the trip date when its timetable is published', () => {
+    expect(routingDeparture('2026-11-03', '09:00', now)).toEqual({
+      departure: new Date('2026-11-03T00:00:00Z'),
+      date: '2026-11-03',
+      isSubstitute: false
+    });
+  });
+
+  it('moves a past date forward to the same weekday', () => {
+    const { date, isSubstitute } = routingDeparture('2026-10-07', '09:00', now);
+    expect(date).toBe('2026-10-21');
+    expect(isSubstitute).toBe(true);
+  });
+
+  it('moves a date beyond the range back to the same weekday', () => {
+    const { departure, date, isSubstitute } = routingDeparture('2027-01-04', '18:30', now);
+    expect(date).toBe('2026-12-14');
+    expect(departure).toEqual(new Date('2026-12-14T09:30:00Z'));
+    expect(isSubstitute).toBe(true);
+  });
+
+  it('routes undated days tomorrow, at 10:00 without a usable time', () => {
+    const { departure, isSubstitute } = routingDeparture(undefined, '', now);
+    expect(departure).toEqual(new Date('2026-10-20T01:00:00Z'));
+    expect(isSubstitute).toBe(false);
+  });
+});
+
+describe('serviceWarning', () => {
+  const requested = new Date('2026-11-03T14:50:00Z'); // 23:50 in Japan
+
+  it('flags a departure after the last train', () => {
+    expect(serviceWarning(requested, { departsAt: '2026-11-04T05:30' }))
+      .toBe('Misses the last train; the first one leaves at 05:30 the next morning');
+  });
+
+  it('flags a long wait for the first ride', () => {
+    expect(serviceWarning(new Date('2026-11-03T00:00:00Z'), { departsAt: '2026-11-03T11:15' }))
+      .toBe('No service until 11:15; check it runs on this day');
+  });
+
+  it('says nothing when the route leaves about when asked', () => {
+    expect(serviceWarning(requested, { departsAt: '2026-11-03T23:58' })).toBeUndefined();
+    expect(serviceWarning(requested, {})).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+import { TravelSegment } from "../types";
+
+// Transit is looked up for the day it's actually needed, in Japan time, so weekend and holiday
+// timetables and last trains come out right. Timetables are only published a few weeks ahead
+// (and past ones are gone), so other dates borrow the nearest available day of the same weekday.
+
+export const TIMETABLE_RANGE_DAYS = 60;
+
+// Waiting this long for the first ride means the line barely runs, or not at all, that day
+const LONG_WAIT_MINS = 60;
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local Japan date and time of an instant, YYYY-MM-DDTHH:mm
+export const japanDateTime = (instant: Date) => new Date(instant.getTime() + JST_OFFSET_MS).toISOString().slice(0, 16);
+
+const fromJapanTime = (date: string, time: string) => new Date(`${date}T${time}:00+09:00`);
+
+export interface RoutingDeparture {
+  departure: Date;
+  date: string;          // Day whose timetable is used, YYYY-MM-DD
+  isSubstitute: boolean; // The trip date is out of range and `date` stands in for it
+}
+
+/**
+ * When to look up transit for a day starting at `time` on `date`. Without a date, or when it's
+ * outside the timetable range, that's the same weekday as close to the date as possible.
+ */
+export const routingDeparture = (date: string | undefined, time: string, now: Date = new Date()): RoutingDeparture => {
+  const today = japanDateTime(now).slice(0, 10);
+  const first = Date.parse(`${today}T00:00:00Z`);
+  const last = first + (TIMETABLE_RANGE_DAYS - 1) * DAY_MS;
+  const wanted = date ? Date.parse(`${date}T00:00:00Z`) : NaN;
+
+  let day: number;
+  if (isNaN(wanted)) {
+    day = first + DAY_MS; // A typical day: tomorrow, since today's earlier trains may be gone
+  } else if (wanted < first) {
+    day = wanted + Math.ceil((first - wanted) / (7 * DAY_MS)) * 7 * DAY_MS;
+  } else if (wanted > last) {
+    day = wanted - Math.ceil((wanted - last) / (7 * DAY_MS)) * 7 * DAY_MS;
+  } else {
+    day = wanted;
+  }
+
+  const routed = new Date(day).toISOString().slice(0, 10);
+  const clock = /^\d{2}:\d{2}$/.test(time) ? time : '10:00';
+  return { departure: fromJapanTime(routed, clock), date: routed, isSubstitute: !!date && routed !== date };
+};
+
+/**
+ * Why a transit leg looked up for `requested` may not work out: NAVITIME answers a departure
+ * after the last train with the first one the next morning, and one on a day the line doesn't
+ * run with a long wait. Undefined when the route leaves about when asked.
+ */
+export const serviceWarning = (requested: Date, segment: Pick<TravelSegment, 'departsAt'>): string | undefined => {
+  if (!segment.departsAt) return undefined;
+  const asked = japanDateTime(requested);
+  const leavesAt = segment.departsAt.slice(11, 16);
+
+  if (segment.departsAt.slice(0, 10) > asked.slice(0, 10)) {
+    return `Misses the last train; the first one leaves at ${leavesAt} the next morning`;
+  }
+  const waitMins = (fromJapanTime(segment.departsAt.slice(0, 10), leavesAt).getTime() - requested.getTime()) / 60000;
+  if (waitMins >= LONG_WAIT_MINS) {
+    return `No service until ${leavesAt}; check it runs on this day`;
+  }
+  return undefined;
+};
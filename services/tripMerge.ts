@@ -0,0 +1,146 @@
+import { Trip, DayPlan, TripOperation } from "../types";
+
+// Day-level comparison and merge used when a save is rejected with 409 (stale revision)
+
+export type MergeSide = 'local' | 'remote';
+
+export interface DayDifference {
+  dayId: string;
+  status: 'changed' | 'local-only' | 'remote-only';
+  local?: DayPlan;
+  remote?: DayPlan;
+}
+
+export interface TripComparison {
+  titleDiffers: boolean;
+  days: DayDifference[];
+}
+
+const isSameDay = (a: DayPlan, b: DayPlan) => JSON.stringify(a) === JSON.stringify(b);
+
+export const compareTrips = (local: Trip, remote: Trip): TripComparison => {
+  const remoteById = new Map(remote.days.map(d => [d.id, d]));
+  const localById = new Map(local.days.map(d => [d.id, d]));
+  const days: DayDifference[] = [];
+
+  remote.days.forEach(remoteDay => {
+    const localDay = localById.get(remoteDay.id);
+    if (!localDay) {
+      days.push({ dayId: remoteDay.id, status: 'remote-only', remote: remoteDay });
+    } else if (!isSameDay(localDay, remoteDay)) {
+      days.push({ dayId: remoteDay.id, status: 'changed', local: localDay, remote: remoteDay });
+    }
+  });
+
+  local.days.forEach(localDay => {
+    if (!remoteById.has(localDay.id)) {
+      days.push({ dayId: localDay.id, status: 'local-only', local: localDay });
+    }
+  });
+
+  return { titleDiffers: local.title !== remote.title, days };
+};
+
+/**
+ * Builds the merged trip on top of the remote document (so its revision is the new base).
+ * `choices` maps differing day ids to the side to keep; missing entries default to local.
+ * Choosing a side where the day doesn't exist drops the day.
+ */
+export const mergeTrips = (
+  local: Trip,
+  remote: Trip,
+  choices: Record<string, MergeSide>,
+  titleChoice: MergeSide = 'local'
+): Trip => {
+  const localById = new Map(local.days.map(d => [d.id, d]));
+  const remoteIds = new Set(remote.days.map(d => d.id));
+  const pick = (dayId: string) => choices[dayId] || 'local';
+
+  const days: DayPlan[] = [];
+  remote.days.forEach(remoteDay => {
+    const localDay = localById.get(remoteDay.id);
+    if (pick(remoteDay.id) === 'remote' || (localDay && isSameDay(localDay, remoteDay))) {
+      days.push(remoteDay);
+    } else if (localDay) {
+      days.push(localDay);
+    }
+    // else: deleted locally and the user kept that deletion
+  });
+
+  // Re-insert kept local-only days after the day that precedes them locally
+  local.days.forEach((localDay, idx) => {
+    if (remoteIds.has(localDay.id) || pick(localDay.id) === 'remote') return;
+    const prevId = local.days[idx - 1]?.id;
+    const insertAt = prevId ? days.findIndex(d => d.id === prevId) + 1 : 0;
+    days.splice(insertAt, 0, localDay);
+  });
+
+  return {
+    ...remote,
+    title: titleChoice === 'local' ? local.title : remote.title,
+    days
+  };
+};
+
+interface OperationFootprint {
+  touches: string[];  // Things whose value the operation sets
+  needsDays: string[]; // Days that must still exist for the operation to land
+  deletesDays: string[];
+}
+
+const footprint = (op: TripOperation): OperationFootprint => {
+  switch (op.type) {
+    case 'add-activity':
+    case 'update-activity':
+      return { touches: [`activity:${op.activity.id}`], needsDays: [op.dayId], deletesDays: [] };
+    case 'delete-activity':
+      return { touches: [`activity:${op.activityId}`], needsDays: [], deletesDays: [] };
+    case 'move-activity':
+      return { touches: [`activity:${op.activityId}`], needsDays: [op.toDayId], deletesDays: [] };
+    case 'update-day':
+      return { touches: Object.keys(op.changes).map(key => `day:${op.dayId}:${key}`), needsDays: [op.dayId], deletesDays: [] };
+    case 'add-day':
+      return { touches: [`day:${op.day.id}`], needsDays: [], deletesDays: [] };
+    case 'delete-day':
+      return { touches: [`day:${op.dayId}`], needsDays: [], deletesDays: [op.dayId] };
+    case 'reorder-days':
+      return { touches: ['day-order'], needsDays: [], deletesDays: [] };
+    case 'update-trip':
+      return { touches: Object.keys(op.changes), needsDays: [], deletesDays: [] };
+    case 'put-accommodation':
+      return { touches: [`accommodation:${op.accommodation.id}`], needsDays: [], deletesDays: [] };
+    case 'delete-accommodation':
+      return { touches: [`accommodation:${op.accommodationId}`], needsDays: [], deletesDays: [] };
+    case 'put-traveller':
+      return { touches: [`traveller:${op.traveller.id}`], needsDays: [], deletesDays: [] };
+    case 'delete-traveller':
+      return { touches: [`traveller:${op.travellerId}`], needsDays: [], deletesDays: [] };
+  }
+};
+
+const combine = (ops: TripOperation[]) => {
+  const touches = new Set<string>();
+  const needsDays = new Set<string>();
+  const deletesDays = new Set<string>();
+  ops.map(footprint).forEach(f => {
+    f.touches.forEach(t => touches.add(t));
+    f.needsDays.forEach(d => needsDays.add(d));
+    f.deletesDays.forEach(d => deletesDays.add(d));
+  });
+  return { touches, needsDays, deletesDays };
+};
+
+/**
+ * True when two sets of edits made from the same base can't both be kept as-is:
+ * they set the same activity/day field/title, or one deletes a day the other edits.
+ * Used when replaying offline edits on top of what collaborators saved meanwhile.
+ */
+export const hasConflictingChanges = (localOps: TripOperation[], remoteOps: TripOperation[]): boolean => {
+  const local = combine(localOps);
+  const remote = combine(remoteOps);
+  const overlaps = (a: Set<string>, b: Set<string>) => [...a].some(item => b.has(item));
+
+  return overlaps(local.touches, remote.touches)
+    || overlaps(local.deletesDays, remote.needsDays)
+    || overlaps(remote.deletesDays, local.needsDays);
+};
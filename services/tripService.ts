@@ -0,0 +1,144 @@
+import { Trip, TripSummary, RevisionSummary, TripAccess, TripMember, TripRole } from "../types";
+import { notifyIfUnauthorized } from "./authService";
+import { migrateTrip, validateTrip, TripValidationError } from "../shared/tripSchema";
+
+// Thin client for the trip collection endpoints in server/index.js
+
+// Upgrades a trip from an older schema and refuses anything that still doesn't fit it
+const parseTrip = (data: unknown): Trip => {
+  const trip = migrateTrip(data as Trip);
+  const issues = validateTrip(trip);
+  if (issues.length > 0) throw new TripValidationError(issues);
+  return trip;
+};
+
+// 422 bodies list every problem the server found
+const throwIfInvalid = async (res: Response) => {
+  if (res.status !== 422) return;
+  const body = await res.json().catch(() => ({}));
+  throw new TripValidationError(body.details || [{ path: '', message: body.error || 'rejected by the server' }]);
+};
+
+const jsonHeaders = (socketId?: string | null): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (socketId) headers['x-socket-id'] = socketId;
+  return headers;
+};
+
+export const listTrips = async (): Promise<TripSummary[]> => {
+  const res = await fetch('/api/trips');
+  notifyIfUnauthorized(res);
+  if (!res.ok) throw new Error(`Failed to list trips (${res.status})`);
+  return await res.json();
+};
+
+export const fetchTrip = async (tripId: string): Promise<Trip | null> => {
+  const res = await fetch(`/api/trips/${encodeURIComponent(tripId)}`);
+  notifyIfUnauthorized(res);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Failed to load trip (${res.status})`);
+  return parseTrip(await res.json());
+};
+
+export const createTrip = async (title: string, days?: Trip['days']): Promise<Trip> => {
+  const res = await fetch('/api/trips', {
+    method: 'POST',
+    headers: jsonHeaders(),
+    body: JSON.stringify({ title, days })
+  });
+  await throwIfInvalid(res);
+  if (!res.ok) throw new Error(`Failed to create trip (${res.status})`);
+  return await res.json();
+};
+
+// Thrown when the server rejects a save because the trip changed since `trip.revision`
+export class TripConflictError extends Error {
+  current: Trip;
+
+  constructor(current: Trip) {
+    super('Trip was changed by someone else');
+    this.name = 'TripConflictError';
+    this.current = current;
+  }
+}
+
+export const saveTrip = async (trip: Trip, socketId?: string | null): Promise<{ revision: number; updatedAt: string }> => {
+  if (!trip.id) throw new Error('Cannot save a trip without an id');
+  const issues = validateTrip(trip);
+  if (issues.length > 0) throw new TripValidationError(issues);
+
+  const res = await fetch(`/api/trips/${encodeURIComponent(trip.id)}`, {
+    method: 'PUT',
+    headers: jsonHeaders(socketId),
+    body: JSON.stringify(trip)
+  });
+  notifyIfUnauthorized(res);
+  if (res.status === 409) {
+    const body = await res.json();
+    throw new TripConflictError(body.current);
+  }
+  await throwIfInvalid(res);
+  if (!res.ok) throw new Error(`Failed to save trip (${res.status})`);
+  return await res.json();
+};
+
+export const deleteTrip = async (tripId: string): Promise<void> => {
+  const res = await fetch(`/api/trips/${encodeURIComponent(tripId)}`, { method: 'DELETE' });
+  if (!res.ok) throw new Error(`Failed to delete trip (${res.status})`);
+};
+
+export const listRevisions = async (tripId: string): Promise<RevisionSummary[]> => {
+  const res = await fetch(`/api/trips/${encodeURIComponent(tripId)}/history`);
+  if (!res.ok) throw new Error(`Failed to load history (${res.status})`);
+  return await res.json();
+};
+
+export const fetchRevision = async (tripId: string, revision: number): Promise<Trip> => {
+  const res = await fetch(`/api/trips/${encodeURIComponent(tripId)}/history/${revision}`);
+  if (!res.ok) throw new Error(`Failed to load revision (${res.status})`);
+  return await res.json();
+};
+
+// Returns the trip as saved after the restore (a new revision)
+export const restoreRevision = async (tripId: string, revision: number, socketId?: string | null): Promise<Trip> => {
+  const res = await fetch(`/api/trips/${encodeURIComponent(tripId)}/history/${revision}/restore`, {
+    method: 'POST',
+    headers: jsonHeaders(socketId)
+  });
+  if (!res.ok) throw new Error(`Failed to restore revision (${res.status})`);
+  return await res.json();
+};
+
+// -- Members & roles --
+
+const membersUrl = (tripId: string) => `/api/trips/${encodeURIComponent(tripId)}/members`;
+
+const readError = async (res: Response, fallback: string) => {
+  const body = await res.json().catch(() => ({}));
+  return new Error(body.error || `${fallback} (${res.status})`);
+};
+
+export const fetchTripAccess = async (tripId: string): Promise<TripAccess | null> => {
+  const res = await fetch(membersUrl(tripId));
+  notifyIfUnauthorized(res);
+  if (res.status === 404) return null; // Not (or no longer) a member
+  if (!res.ok) throw await readError(res, 'Failed to load members');
+  return await res.json();
+};
+
+// Adds a member by username, or changes their role if they already are one
+export const setTripMember = async (tripId: string, username: string, role: TripRole): Promise<TripMember[]> => {
+  const res = await fetch(membersUrl(tripId), {
+    method: 'POST',
+    headers: jsonHeaders(),
+    body: JSON.stringify({ username, role })
+  });
+  if (!res.ok) throw await readError(res, 'Failed to update members');
+  return await res.json();
+};
+
+export const removeTripMember = async (tripId: string, userId: string): Promise<TripMember[]> => {
+  const res = await fetch(`${membersUrl(tripId)}/${encodeURIComponent(userId)}`, { method: 'DELETE' });
+  if (!res.ok) throw await readError(res, 'Failed to update members');
+  return await res.json();
+};
@@ -0,0 +1,241 @@
+// Trip operations shared by the browser (App.tsx) and the server (server/index.js).
+// Plain JS with JSDoc types so Node can import it without a build step.
+
+/**
+ * @typedef {import('../types').Trip} Trip
+ * @typedef {import('../types').DayPlan} DayPlan
+ * @typedef {import('../types').Activity} Activity
+ * @typedef {import('../types').TripOperation} TripOperation
+ * @typedef {import('../types').Accommodation} Accommodation
+ * @typedef {import('../types').Traveller} Traveller
+ */
+
+const isEqual = (a, b) => JSON.stringify(a) === JSON.stringify(b);
+
+const insertAt = (list, index, item) => {
+    const next = [...list];
+    next.splice(Math.max(0, Math.min(index, next.length)), 0, item);
+    return next;
+};
+
+/**
+ * @param {Trip} trip
+ * @param {string} dayId
+ * @param {(day: DayPlan) => DayPlan} fn
+ * @returns {Trip}
+ */
+const updateDay = (trip, dayId, fn) => ({
+    ...trip,
+    days: trip.days.map(day => day.id === dayId ? fn(day) : day)
+});
+
+/**
+ * Applies one operation and returns a new trip (inputs are never mutated).
+ * Operations that target something a collaborator already removed are no-ops,
+ * so concurrent edits to different days or activities never clobber each other.
+ * @param {Trip} trip
+ * @param {TripOperation} op
+ * @returns {Trip}
+ */
+export const applyOperation = (trip, op) => {
+    switch (op.type) {
+        case 'add-activity':
+            return updateDay(trip, op.dayId, day => {
+                // Re-sent adds (e.g. offline replay) behave like updates
+                if (day.activities.some(a => a.id === op.activity.id)) {
+                    return { ...day, activities: day.activities.map(a => a.id === op.activity.id ? op.activity : a) };
+                }
+                return { ...day, activities: insertAt(day.activities, op.index, op.activity) };
+            });
+
+        case 'update-activity':
+            return updateDay(trip, op.dayId, day => ({
+                ...day,
+                activities: day.activities.map(a => a.id === op.activity.id ? op.activity : a)
+            }));
+
+        case 'delete-activity':
+            return updateDay(trip, op.dayId, day => ({
+                ...day,
+                activities: day.activities.filter(a => a.id !== op.activityId)
+            }));
+
+        case 'move-activity': {
+            if (!trip.days.some(d => d.id === op.toDayId)) return trip;
+            // Look in the expected day first, then anywhere (it may have moved concurrently)
+            const source = trip.days.find(d => d.id === op.fromDayId && d.activities.some(a => a.id === op.activityId))
+                || trip.days.find(d => d.activities.some(a => a.id === op.activityId));
+            if (!source) return trip;
+
+            const activity = source.activities.find(a => a.id === op.activityId);
+            const removed = updateDay(trip, source.id, day => ({
+                ...day,
+                activities: day.activities.filter(a => a.id !== op.activityId)
+            }));
+            return updateDay(removed, op.toDayId, day => ({
+                ...day,
+                activities: insertAt(day.activities, op.index, activity)
+            }));
+        }
+
+        case 'update-day':
+            return updateDay(trip, op.dayId, day => {
+                const next = { ...day };
+                Object.entries(op.changes).forEach(([key, value]) => {
+                    if (key === 'id' || key === 'activities') return;
+                    if (value === null) delete next[key];
+                    else next[key] = value;
+                });
+                return next;
+            });
+
+        case 'add-day':
+            if (trip.days.some(d => d.id === op.day.id)) return trip;
+            return { ...trip, days: insertAt(trip.days, op.index, op.day) };
+
+        case 'delete-day':
+            return { ...trip, days: trip.days.filter(d => d.id !== op.dayId) };
+
+        case 'reorder-days': {
+            const position = new Map(op.dayIds.map((id, idx) => [id, idx]));
+            // Days missing from the list (added concurrently) keep their place at the end
+            const days = [...trip.days].sort((a, b) =>
+                (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+            return { ...trip, days };
+        }
+
+        case 'update-trip':
+            return {
+                ...trip,
+                ...(op.changes.title !== undefined ? { title: op.changes.title } : {}),
+                ...(op.changes.settings !== undefined ? { settings: op.changes.settings } : {})
+            };
+
+        case 'put-accommodation': {
+            const others = (trip.accommodations || []).filter(a => a.id !== op.accommodation.id);
+            const accommodations = [...others, op.accommodation]
+                .sort((a, b) => a.checkInDate.localeCompare(b.checkInDate));
+            return { ...trip, accommodations };
+        }
+
+        case 'delete-accommodation':
+            return { ...trip, accommodations: (trip.accommodations || []).filter(a => a.id !== op.accommodationId) };
+
+        case 'put-traveller': {
+            const travellers = trip.travellers || [];
+            return travellers.some(t => t.id === op.traveller.id)
+                ? { ...trip, travellers: travellers.map(t => t.id === op.traveller.id ? op.traveller : t) }
+                : { ...trip, travellers: [...travellers, op.traveller] };
+        }
+
+        case 'delete-traveller':
+            return { ...trip, travellers: (trip.travellers || []).filter(t => t.id !== op.travellerId) };
+
+        default:
+            throw new Error(`Unknown trip operation: ${op && op.type}`);
+    }
+};
+
+/**
+ * @param {Trip} trip
+ * @param {TripOperation[]} ops
+ * @returns {Trip}
+ */
+export const applyOperations = (trip, ops) => ops.reduce(applyOperation, trip);
+
+/**
+ * Derives the operations that turn `before` into `after`. The App keeps mutating the
+ * whole trip through setTrip; this turns those snapshots into small, mergeable edits.
+ * Ops are generated against a working copy so replaying them in order is exact.
+ * @param {Trip} before
+ * @param {Trip} after
+ * @returns {TripOperation[]}
+ */
+export const diffTrips = (before, after) => {
+    /** @type {TripOperation[]} */
+    const ops = [];
+    let working = before;
+    const emit = (op) => {
+        ops.push(op);
+        working = applyOperation(working, op);
+    };
+
+    const tripChanges = {};
+    if (before.title !== after.title) tripChanges.title = after.title;
+    if (!isEqual(before.settings, after.settings)) tripChanges.settings = after.settings || {};
+    if (Object.keys(tripChanges).length > 0) emit({ type: 'update-trip', changes: tripChanges });
+
+    // Stays are trip-level and edited one at a time
+    const afterStays = after.accommodations || [];
+    (before.accommodations || []).forEach(stay => {
+        if (!afterStays.some(a => a.id === stay.id)) emit({ type: 'delete-accommodation', accommodationId: stay.id });
+    });
+    afterStays.forEach(stay => {
+        const current = (working.accommodations || []).find(a => a.id === stay.id);
+        if (!isEqual(current, stay)) emit({ type: 'put-accommodation', accommodation: stay });
+    });
+
+    // Travellers likewise; new ones join at the end
+    const afterTravellers = after.travellers || [];
+    (before.travellers || []).forEach(traveller => {
+        if (!afterTravellers.some(t => t.id === traveller.id)) emit({ type: 'delete-traveller', travellerId: traveller.id });
+    });
+    afterTravellers.forEach(traveller => {
+        const current = (working.travellers || []).find(t => t.id === traveller.id);
+        if (!isEqual(current, traveller)) emit({ type: 'put-traveller', traveller });
+    });
+
+    // 1. Days: removals, additions (empty; activities follow below), order
+    const afterDayIds = new Set(after.days.map(d => d.id));
+    before.days.forEach(day => {
+        if (!afterDayIds.has(day.id)) emit({ type: 'delete-day', dayId: day.id });
+    });
+    after.days.forEach((day, index) => {
+        if (!working.days.some(d => d.id === day.id)) {
+            emit({ type: 'add-day', day: { ...day, activities: [] }, index });
+        }
+    });
+    if (!isEqual(working.days.map(d => d.id), after.days.map(d => d.id))) {
+        emit({ type: 'reorder-days', dayIds: after.days.map(d => d.id) });
+    }
+
+    // 2. Day fields (everything except activities)
+    after.days.forEach(day => {
+        const current = working.days.find(d => d.id === day.id);
+        const changes = {};
+        const keys = new Set([...Object.keys(current), ...Object.keys(day)]);
+        keys.forEach(key => {
+            if (key === 'id' || key === 'activities') return;
+            if (!isEqual(current[key], day[key])) changes[key] = day[key] === undefined ? null : day[key];
+        });
+        if (Object.keys(changes).length > 0) emit({ type: 'update-day', dayId: day.id, changes });
+    });
+
+    // 3. Activities: drop the ones gone everywhere, then build each day's list front to back
+    const afterActivityIds = new Set(after.days.flatMap(d => d.activities.map(a => a.id)));
+    working.days.forEach(day => {
+        day.activities.forEach(act => {
+            if (!afterActivityIds.has(act.id)) emit({ type: 'delete-activity', dayId: day.id, activityId: act.id });
+        });
+    });
+
+    after.days.forEach(targetDay => {
+        targetDay.activities.forEach((act, index) => {
+            const source = working.days.find(d => d.activities.some(a => a.id === act.id));
+            if (!source) {
+                emit({ type: 'add-activity', dayId: targetDay.id, activity: act, index });
+                return;
+            }
+
+            const currentIndex = source.activities.findIndex(a => a.id === act.id);
+            if (source.id !== targetDay.id || currentIndex !== index) {
+                emit({ type: 'move-activity', fromDayId: source.id, toDayId: targetDay.id, activityId: act.id, index });
+            }
+            if (!isEqual(source.activities[currentIndex], act)) {
+                emit({ type: 'update-activity', dayId: targetDay.id, activity: act });
+            }
+        });
+    });
+
+    return ops;
+};
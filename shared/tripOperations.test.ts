@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { Activity, DayPlan, Trip } from '../types';
+import { applyOperation, applyOperations, diffTrips } from './tripOperations';
+
+const activity = (id: string, changes: Partial<Activity> = {}): Activity => ({
+  id,
+  name: `Stop ${id}`,
+  description: '',
+  startTime: '10:00',
+  endTime: '11:00',
+  location: { lat: 35.68, lng: 139.76 },
+  type: 'sightseeing',
+  ...changes
+});
+
+const day = (id: string, activityIds: string[], changes: Partial<DayPlan> = {}): DayPlan => ({
+  id,
+  date: '2025-04-01',
+  city: 'Tokyo',
+  activities: activityIds.map(a => activity(a)),
+  ...changes
+});
+
+const base: Trip = {
+  id: 'trip-1',
+  title: 'Spring in Japan',
+  days: [day('d1', ['a', 'b', 'c']), day('d2', ['d', 'e']), day('d3', ['f'])],
+  accommodations: [{ id: 's1', name: 'Hotel', checkInDate: '2025-04-01', checkOutDate: '2025-04-03' }],
+  travellers: [{ id: 't1', name: 'Ann' }]
+};
+
+// Applying the diff must rebuild `next` exactly; that is what every synced edit relies on
+const expectRoundTrip = (before: Trip, next: Trip) => {
+  expect(applyOperations(before, diffTrips(before, next))).toEqual(next);
+};
+
+describe('diffTrips + applyOperations', () => {
+  it('produces no operations for an unchanged trip', () => {
+    expect(diffTrips(base, structuredClone(base))).toEqual([]);
+  });
+
+  it('reorders activities within a day', () => {
+    expectRoundTrip(base, { ...base, days: [day('d1', ['c', 'a', 'b']), base.days[1], base.days[2]] });
+  });
+
+  it('moves activities between days', () => {
+    expectRoundTrip(base, { ...base, days: [day('d1', ['a', 'e']), day('d2', ['d', 'b', 'c']), base.days[2]] });
+  });
+
+  it('adds, removes and edits activities', () => {
+    expectRoundTrip(base, {
+      ...base,
+      days: [
+        { ...day('d1', ['a', 'x']), activities: [activity('a', { name: 'Renamed' }), activity('x')] },
+        day('d2', ['e', 'y', 'd']),
+        base.days[2]
+      ]
+    });
+  });
+
+  it('reorders, adds and removes days', () => {
+    expectRoundTrip(base, {
+      ...base,
+      days: [day('d3', ['f', 'a']), day('d4', ['g'], { city: 'Kyoto', date: '2025-04-04' }), day('d1', ['b', 'c'])]
+    });
+  });
+
+  it('sets and clears day fields', () => {
+    const withNotes = { ...base, days: [day('d1', ['a', 'b', 'c'], { notes: 'Early start', startTime: '08:00' }), base.days[1], base.days[2]] };
+    expectRoundTrip(base, withNotes);
+    expectRoundTrip(withNotes, base);
+  });
+
+  it('covers the trip fields, stays and travellers', () => {
+    expectRoundTrip(base, {
+      ...base,
+      title: 'Renamed trip',
+      settings: { farePayment: 'ic' },
+      accommodations: [
+        { id: 's0', name: 'Airport hotel', checkInDate: '2025-03-31', checkOutDate: '2025-04-01' },
+        { ...base.accommodations[0], confirmation: 'ABC123' }
+      ],
+      travellers: [{ id: 't2', name: 'Ben', age: 8 }]
+    });
+  });
+
+  it('round-trips a series of mixed edits', () => {
+    // Deterministic pseudo-random edits, so a failure always reproduces
+    let seed = 42;
+    const random = (n: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % n;
+    };
+
+    let current = base;
+    for (let round = 0; round < 50; round++) {
+      const days = current.days.map(d => ({ ...d, activities: [...d.activities] }));
+      const all = days.flatMap(d => d.activities);
+      const edit = random(5);
+      if (edit === 0 && all.length > 0) {
+        const from = days[random(days.length)];
+        if (from.activities.length > 0) {
+          const [moved] = from.activities.splice(random(from.activities.length), 1);
+          const to = days[random(days.length)];
+          to.activities.splice(random(to.activities.length + 1), 0, moved);
+        }
+      } else if (edit === 1) {
+        const to = days[random(days.length)];
+        to.activities.splice(random(to.activities.length + 1), 0, activity(`n${round}`));
+      } else if (edit === 2 && days.length > 1) {
+        days.splice(random(days.length), 1);
+      } else if (edit === 3) {
+        days.splice(random(days.length + 1), 0, day(`nd${round}`, [`m${round}`]));
+      } else {
+        days.reverse();
+      }
+      const next = { ...current, days };
+      expectRoundTrip(current, next);
+      current = next;
+    }
+  });
+});
+
+describe('applyOperation', () => {
+  it('ignores edits to activities a collaborator already removed', () => {
+    const trip = applyOperation(base, { type: 'update-activity', dayId: 'd1', activity: activity('gone') });
+    expect(trip).toEqual(base);
+  });
+
+  it('treats a re-sent add as an update', () => {
+    const trip = applyOperation(base, { type: 'add-activity', dayId: 'd1', activity: activity('a', { name: 'Again' }), index: 0 });
+    expect(trip.days[0].activities.map(a => [a.id, a.name])).toEqual([['a', 'Again'], ['b', 'Stop b'], ['c', 'Stop c']]);
+  });
+
+  it('rejects unknown operations', () => {
+    expect(() => applyOperation(base, { type: 'rename-everything' } as never)).toThrow('Unknown trip operation');
+  });
+});
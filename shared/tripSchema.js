@@ -0,0 +1,435 @@
+// Versioned schema for the Trip document, shared by the browser and the server.
+// Saved trips carry `schemaVersion`; anything older is upgraded by migrateTrip before use,
+// and validateTrip reports everything that doesn't match types.ts so bad payloads are
+// rejected with a list of problems instead of being stored.
+
+/**
+ * @typedef {import('../types').Trip} Trip
+ * @typedef {import('../types').TripValidationIssue} TripValidationIssue
+ */
+
+export const SCHEMA_VERSION = 4;
+
+const MAX_ISSUES = 20;
+const ACTIVITY_TYPES = ['sightseeing', 'food', 'travel', 'shopping', 'leisure'];
+const TRAVEL_MODES = ['WALKING', 'TRANSIT', 'DRIVING', 'TRAIN', 'BUS'];
+const LEG_MODES = ['WALKING', 'TRAIN', 'BUS', 'OTHER'];
+const TRANSFER_MODES = ['TRAIN', 'FLIGHT', 'BUS', 'FERRY'];
+const FARE_PAYMENT_METHODS = ['ic', 'ticket'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/; // ISO 4217
+const RATE_SOURCES = ['manual', 'file', 'stand-in'];
+const EXPENSE_CATEGORIES = ['sightseeing', 'food', 'shopping', 'leisure', 'transit', 'lodging', 'other'];
+const SPLIT_MODES = ['equal', 'shares', 'exact', 'tiers'];
+
+const nextDate = (date) => {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + 1);
+    return d.toISOString().slice(0, 10);
+};
+
+// --- MIGRATIONS ---
+// Keyed by the version they upgrade *from*. Each one returns a new trip; never mutate.
+// Files written before versioning existed count as version 1.
+const MIGRATIONS = {
+    // v1 -> v2: the legacy `costEstimate` becomes `pricing.basePrice`, and days/activities
+    // saved by early builds get the fields that are now required
+    1: (trip) => ({
+        ...trip,
+        days: (trip.days || []).map(day => ({
+            ...day,
+            activities: (day.activities || []).map(({ costEstimate, ...activity }) => {
+                const migrated = { ...activity, description: activity.description ?? '' };
+                if (typeof costEstimate === 'number' && migrated.pricing?.basePrice === undefined) {
+                    migrated.pricing = { ...migrated.pricing, basePrice: costEstimate };
+                }
+                return migrated;
+            })
+        }))
+    }),
+
+    // v2 -> v3: the hotel name repeated on every day becomes trip-level stays; consecutive
+    // days with the same name are one booking
+    2: (trip) => {
+        const stays = [];
+        (trip.days || []).forEach(day => {
+            const name = day.accommodation?.name?.trim();
+            if (!name || !DATE_PATTERN.test(day.date || '')) return;
+            const last = stays[stays.length - 1];
+            if (last && last.name === name && last.checkOutDate === day.date) {
+                stays[stays.length - 1] = { ...last, checkOutDate: nextDate(day.date), location: last.location || day.accommodation.location };
+                return;
+            }
+            stays.push({ id: `stay-${day.id}`, name, location: day.accommodation.location, checkInDate: day.date, checkOutDate: nextDate(day.date) });
+        });
+
+        const migrated = { ...trip, days: (trip.days || []).map(({ accommodation, ...day }) => day) };
+        if (stays.length > 0) {
+            migrated.accommodations = [...(trip.accommodations || []), ...stays.map(({ location, ...stay }) => location ? { ...stay, location } : stay)];
+        }
+        return migrated;
+    },
+
+    // v3 -> v4: expenses named whoever paid; those names become the trip's travellers and
+    // `paidBy` holds a traveller id. Values that already are traveller ids are left alone:
+    // unversioned trips from current clients (a new trip's first save) count as v1 too.
+    3: (trip) => {
+        const existing = trip.travellers || [];
+        const existingIds = new Set(existing.map(t => t.id));
+        const names = [...new Set((trip.days || []).flatMap(day => (day.expenses || [])
+            .map(expense => typeof expense.paidBy === 'string' && !existingIds.has(expense.paidBy) ? expense.paidBy.trim() : '')
+            .filter(Boolean)))];
+        if (names.length === 0) return trip;
+
+        const travellers = [];
+        for (let n = 1; travellers.length < names.length; n++) {
+            const id = `traveller-${n}`;
+            if (!existingIds.has(id)) travellers.push({ id, name: names[travellers.length] });
+        }
+        const idFor = (paidBy) => typeof paidBy === 'string' && !existingIds.has(paidBy)
+            ? travellers.find(t => t.name === paidBy.trim())?.id
+            : undefined;
+        return {
+            ...trip,
+            travellers: [...existing, ...travellers],
+            days: trip.days.map(day => day.expenses ? {
+                ...day,
+                expenses: day.expenses.map(expense => idFor(expense.paidBy) ? { ...expense, paidBy: idFor(expense.paidBy) } : expense)
+            } : day)
+        };
+    }
+};
+
+/**
+ * Upgrades a trip to SCHEMA_VERSION. Trips from a newer version are returned as they
+ * are; validateTrip reports them.
+ * @param {Trip} trip
+ * @returns {Trip}
+ */
+export const migrateTrip = (trip) => {
+    if (!trip || typeof trip !== 'object') return trip;
+    let version = Number.isInteger(trip.schemaVersion) ? trip.schemaVersion : 1;
+    if (version > SCHEMA_VERSION) return trip;
+
+    let migrated = trip;
+    while (version < SCHEMA_VERSION) {
+        migrated = MIGRATIONS[version](migrated);
+        version++;
+    }
+    return migrated.schemaVersion === SCHEMA_VERSION ? migrated : { ...migrated, schemaVersion: SCHEMA_VERSION };
+};
+
+// --- VALIDATION ---
+const isObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+const isNonEmptyString = (value) => typeof value === 'string' && value.trim().length > 0;
+
+// Collects issues up to MAX_ISSUES; a payload that's wrong everywhere doesn't need them all
+const createReporter = () => {
+    /** @type {TripValidationIssue[]} */
+    const issues = [];
+    const report = (path, message) => {
+        if (issues.length < MAX_ISSUES) issues.push({ path, message });
+    };
+    const check = (condition, path, message) => {
+        if (!condition) report(path, message);
+        return condition;
+    };
+    return { issues, report, check };
+};
+
+const validateCoordinates = (value, path, { check }) => {
+    if (!check(isObject(value), path, 'must be an object with lat and lng')) return;
+    check(isNumber(value.lat) && Math.abs(value.lat) <= 90, `${path}.lat`, 'must be a latitude between -90 and 90');
+    check(isNumber(value.lng) && Math.abs(value.lng) <= 180, `${path}.lng`, 'must be a longitude between -180 and 180');
+};
+
+const validateCurrency = (currency, path, { check }) => {
+    if (currency !== undefined) check(typeof currency === 'string' && CURRENCY_PATTERN.test(currency), path, 'must be a currency code like JPY');
+};
+
+const validateExchangeRates = (rates, path, { check }) => {
+    if (!check(isObject(rates), path, 'must be an object')) return;
+    if (check(isObject(rates.yenPer), `${path}.yenPer`, 'must be an object')) {
+        Object.entries(rates.yenPer).forEach(([code, rate]) => {
+            check(CURRENCY_PATTERN.test(code), `${path}.yenPer.${code}`, 'must be keyed by a currency code like USD');
+            check(isNumber(rate) && rate > 0, `${path}.yenPer.${code}`, 'must be a positive number');
+        });
+    }
+    check(RATE_SOURCES.includes(rates.source), `${path}.source`, `must be one of ${RATE_SOURCES.join(', ')}`);
+    check(typeof rates.updatedAt === 'string', `${path}.updatedAt`, 'must be text');
+};
+
+const validatePricing = (pricing, path, reporter) => {
+    const { check } = reporter;
+    if (!check(isObject(pricing), path, 'must be an object')) return;
+    if (pricing.isFree !== undefined) check(typeof pricing.isFree === 'boolean', `${path}.isFree`, 'must be true or false');
+    if (pricing.basePrice !== undefined) check(isNumber(pricing.basePrice) && pricing.basePrice >= 0, `${path}.basePrice`, 'must be a non-negative number');
+    validateCurrency(pricing.currency, `${path}.currency`, reporter);
+    if (pricing.priceEntries !== undefined && check(Array.isArray(pricing.priceEntries), `${path}.priceEntries`, 'must be a list')) {
+        pricing.priceEntries.forEach((entry, i) => {
+            const entryPath = `${path}.priceEntries[${i}]`;
+            if (!check(isObject(entry), entryPath, 'must be an object')) return;
+            check(typeof entry.label === 'string', `${entryPath}.label`, 'must be text');
+            check(isNumber(entry.amount) && entry.amount >= 0, `${entryPath}.amount`, 'must be a non-negative number');
+            validateCurrency(entry.currency, `${entryPath}.currency`, reporter);
+        });
+    }
+};
+
+const validateOpeningHours = (hours, path, { check }) => {
+    if (!check(isObject(hours), path, 'must be an object')) return;
+    if (check(Array.isArray(hours.periods), `${path}.periods`, 'must be a list')) {
+        hours.periods.forEach((period, i) => {
+            const periodPath = `${path}.periods[${i}]`;
+            if (!check(isObject(period), periodPath, 'must be an object')) return;
+            check(Number.isInteger(period.day) && period.day >= 0 && period.day <= 6, `${periodPath}.day`, 'must be a weekday from 0 (Sunday) to 6');
+            check(TIME_PATTERN.test(period.open), `${periodPath}.open`, 'must be a time (HH:mm)');
+            check(TIME_PATTERN.test(period.close), `${periodPath}.close`, 'must be a time (HH:mm)');
+        });
+    }
+    if (hours.exceptions !== undefined && check(Array.isArray(hours.exceptions), `${path}.exceptions`, 'must be a list')) {
+        hours.exceptions.forEach((exception, i) => {
+            const exceptionPath = `${path}.exceptions[${i}]`;
+            if (!check(isObject(exception), exceptionPath, 'must be an object')) return;
+            check(typeof exception.date === 'string' && DATE_PATTERN.test(exception.date), `${exceptionPath}.date`, 'must be a date (YYYY-MM-DD)');
+            if (!check(Array.isArray(exception.hours), `${exceptionPath}.hours`, 'must be a list')) return;
+            exception.hours.forEach((range, j) => {
+                check(isObject(range) && TIME_PATTERN.test(range.open) && TIME_PATTERN.test(range.close),
+                    `${exceptionPath}.hours[${j}]`, 'must have open and close times (HH:mm)');
+            });
+        });
+    }
+};
+
+const validateActivity = (activity, path, reporter, seenIds) => {
+    const { check } = reporter;
+    if (!check(isObject(activity), path, 'must be an object')) return;
+
+    if (check(isNonEmptyString(activity.id), `${path}.id`, 'is required')) {
+        check(!seenIds.has(activity.id), `${path}.id`, `duplicates another activity (${activity.id})`);
+        seenIds.add(activity.id);
+    }
+    check(typeof activity.name === 'string', `${path}.name`, 'must be text');
+    check(typeof activity.description === 'string', `${path}.description`, 'must be text');
+    check(TIME_PATTERN.test(activity.startTime), `${path}.startTime`, 'must be a time (HH:mm)');
+    check(TIME_PATTERN.test(activity.endTime), `${path}.endTime`, 'must be a time (HH:mm)');
+    check(ACTIVITY_TYPES.includes(activity.type), `${path}.type`, `must be one of ${ACTIVITY_TYPES.join(', ')}`);
+    validateCoordinates(activity.location, `${path}.location`, reporter);
+    if (activity.pricing !== undefined) validatePricing(activity.pricing, `${path}.pricing`, reporter);
+    if (activity.lockedDurationMinutes !== undefined) {
+        check(isNumber(activity.lockedDurationMinutes) && activity.lockedDurationMinutes >= 0, `${path}.lockedDurationMinutes`, 'must be a non-negative number');
+    }
+    if (activity.openingHours !== undefined) validateOpeningHours(activity.openingHours, `${path}.openingHours`, reporter);
+};
+
+const validateTravelSegment = (segment, path, { check }) => {
+    if (!check(isObject(segment), path, 'must be an object')) return;
+    check(isNonEmptyString(segment.fromId), `${path}.fromId`, 'is required');
+    check(isNonEmptyString(segment.toId), `${path}.toId`, 'is required');
+    check(TRAVEL_MODES.includes(segment.mode), `${path}.mode`, `must be one of ${TRAVEL_MODES.join(', ')}`);
+    check(typeof segment.duration === 'string', `${path}.duration`, 'must be text');
+    check(isNumber(segment.durationValue) && segment.durationValue >= 0, `${path}.durationValue`, 'must be a non-negative number of seconds');
+    if (segment.transitFare !== undefined) check(isNumber(segment.transitFare) && segment.transitFare >= 0, `${path}.transitFare`, 'must be a non-negative number');
+    if (segment.icFare !== undefined) check(isNumber(segment.icFare) && segment.icFare >= 0, `${path}.icFare`, 'must be a non-negative number');
+    ['departsAt', 'arrivesAt', 'serviceWarning'].forEach(key => {
+        if (segment[key] !== undefined) check(typeof segment[key] === 'string', `${path}.${key}`, 'must be text');
+    });
+    if (segment.legs !== undefined && check(Array.isArray(segment.legs), `${path}.legs`, 'must be a list')) {
+        segment.legs.forEach((leg, i) => {
+            const legPath = `${path}.legs[${i}]`;
+            if (!check(isObject(leg), legPath, 'must be an object')) return;
+            check(LEG_MODES.includes(leg.mode), `${legPath}.mode`, `must be one of ${LEG_MODES.join(', ')}`);
+            check(isNumber(leg.durationMinutes) && leg.durationMinutes >= 0, `${legPath}.durationMinutes`, 'must be a non-negative number');
+            if (leg.departureTime !== undefined) check(TIME_PATTERN.test(leg.departureTime), `${legPath}.departureTime`, 'must be a time (HH:mm)');
+            if (leg.arrivalTime !== undefined) check(TIME_PATTERN.test(leg.arrivalTime), `${legPath}.arrivalTime`, 'must be a time (HH:mm)');
+            if (leg.fare !== undefined) check(isNumber(leg.fare) && leg.fare >= 0, `${legPath}.fare`, 'must be a non-negative number');
+            if (leg.icFare !== undefined) check(isNumber(leg.icFare) && leg.icFare >= 0, `${legPath}.icFare`, 'must be a non-negative number');
+        });
+    }
+};
+
+const validateTransfer = (transfer, path, reporter) => {
+    const { check } = reporter;
+    if (!check(isObject(transfer), path, 'must be an object')) return;
+    check(isNonEmptyString(transfer.id), `${path}.id`, 'is required');
+    check(TRANSFER_MODES.includes(transfer.mode), `${path}.mode`, `must be one of ${TRANSFER_MODES.join(', ')}`);
+    ['from', 'to'].forEach(end => {
+        const stop = transfer[end];
+        if (!check(isObject(stop), `${path}.${end}`, 'must be an object')) return;
+        check(typeof stop.name === 'string', `${path}.${end}.name`, 'must be text');
+        if (stop.location !== undefined) validateCoordinates(stop.location, `${path}.${end}.location`, reporter);
+    });
+    check(TIME_PATTERN.test(transfer.departureTime), `${path}.departureTime`, 'must be a time (HH:mm)');
+    check(TIME_PATTERN.test(transfer.arrivalTime), `${path}.arrivalTime`, 'must be a time (HH:mm)');
+    if (transfer.reservation !== undefined) check(isObject(transfer.reservation), `${path}.reservation`, 'must be an object');
+    if (transfer.cost !== undefined) check(isNumber(transfer.cost) && transfer.cost >= 0, `${path}.cost`, 'must be a non-negative number');
+    validateCurrency(transfer.currency, `${path}.currency`, reporter);
+};
+
+const validateAttachment = (attachment, path, { check }) => {
+    if (!check(isObject(attachment), path, 'must be an object')) return;
+    check(isNonEmptyString(attachment.id), `${path}.id`, 'is required');
+    check(typeof attachment.displayName === 'string', `${path}.displayName`, 'must be text');
+    check(isNonEmptyString(attachment.filePath), `${path}.filePath`, 'is required');
+};
+
+const validateExpense = (expense, path, reporter) => {
+    const { check } = reporter;
+    if (!check(isObject(expense), path, 'must be an object')) return;
+    check(isNonEmptyString(expense.id), `${path}.id`, 'is required');
+    check(isNumber(expense.amount) && expense.amount >= 0, `${path}.amount`, 'must be a non-negative number');
+    validateCurrency(expense.currency, `${path}.currency`, reporter);
+    check(EXPENSE_CATEGORIES.includes(expense.category), `${path}.category`, `must be one of ${EXPENSE_CATEGORIES.join(', ')}`);
+    ['description', 'paidBy', 'activityId'].forEach(key => {
+        if (expense[key] !== undefined) check(typeof expense[key] === 'string', `${path}.${key}`, 'must be text');
+    });
+    if (expense.split !== undefined) validateSplit(expense.split, `${path}.split`, reporter);
+    check(typeof expense.paidAt === 'string' && !isNaN(Date.parse(expense.paidAt)), `${path}.paidAt`, 'must be a timestamp');
+    if (expense.receipt !== undefined) validateAttachment(expense.receipt, `${path}.receipt`, reporter);
+};
+
+const validateSplit = (split, path, { check }) => {
+    if (!check(isObject(split), path, 'must be an object')) return;
+    check(SPLIT_MODES.includes(split.mode), `${path}.mode`, `must be one of ${SPLIT_MODES.join(', ')}`);
+    check(Array.isArray(split.travellerIds) && split.travellerIds.every(isNonEmptyString), `${path}.travellerIds`, 'must be a list of traveller ids');
+    ['shares', 'amounts'].forEach(key => {
+        if (split[key] === undefined || !check(isObject(split[key]), `${path}.${key}`, 'must be an object')) return;
+        Object.entries(split[key]).forEach(([id, value]) => {
+            check(isNumber(value) && value >= 0, `${path}.${key}.${id}`, 'must be a non-negative number');
+        });
+    });
+};
+
+const validateTraveller = (traveller, path, { check }, seenIds) => {
+    if (!check(isObject(traveller), path, 'must be an object')) return;
+    if (check(isNonEmptyString(traveller.id), `${path}.id`, 'is required')) {
+        check(!seenIds.has(traveller.id), `${path}.id`, `duplicates another traveller (${traveller.id})`);
+        seenIds.add(traveller.id);
+    }
+    check(typeof traveller.name === 'string', `${path}.name`, 'must be text');
+    if (traveller.priceTier !== undefined) check(typeof traveller.priceTier === 'string', `${path}.priceTier`, 'must be text');
+    if (traveller.age !== undefined) check(Number.isInteger(traveller.age) && traveller.age >= 0, `${path}.age`, 'must be a whole number of years');
+};
+
+const validateBudget = (budget, path, { check }) => {
+    if (!check(isObject(budget), path, 'must be an object')) return;
+    if (budget.daily !== undefined) check(isNumber(budget.daily) && budget.daily >= 0, `${path}.daily`, 'must be a non-negative number');
+    if (budget.byCategory !== undefined && check(isObject(budget.byCategory), `${path}.byCategory`, 'must be an object')) {
+        Object.entries(budget.byCategory).forEach(([category, amount]) => {
+            check(EXPENSE_CATEGORIES.includes(category), `${path}.byCategory.${category}`, `must be keyed by one of ${EXPENSE_CATEGORIES.join(', ')}`);
+            check(isNumber(amount) && amount >= 0, `${path}.byCategory.${category}`, 'must be a non-negative number');
+        });
+    }
+};
+
+const validateAccommodation = (stay, path, reporter, seenIds) => {
+    const { check } = reporter;
+    if (!check(isObject(stay), path, 'must be an object')) return;
+    if (check(isNonEmptyString(stay.id), `${path}.id`, 'is required')) {
+        check(!seenIds.has(stay.id), `${path}.id`, `duplicates another stay (${stay.id})`);
+        seenIds.add(stay.id);
+    }
+    check(typeof stay.name === 'string', `${path}.name`, 'must be text');
+    if (stay.location !== undefined) validateCoordinates(stay.location, `${path}.location`, reporter);
+    const checkInValid = check(typeof stay.checkInDate === 'string' && DATE_PATTERN.test(stay.checkInDate), `${path}.checkInDate`, 'must be a date (YYYY-MM-DD)');
+    const checkOutValid = check(typeof stay.checkOutDate === 'string' && DATE_PATTERN.test(stay.checkOutDate), `${path}.checkOutDate`, 'must be a date (YYYY-MM-DD)');
+    if (checkInValid && checkOutValid) check(stay.checkOutDate > stay.checkInDate, `${path}.checkOutDate`, 'must be after the check-in date');
+    if (stay.checkInTime !== undefined) check(TIME_PATTERN.test(stay.checkInTime), `${path}.checkInTime`, 'must be a time (HH:mm)');
+    if (stay.checkOutTime !== undefined) check(TIME_PATTERN.test(stay.checkOutTime), `${path}.checkOutTime`, 'must be a time (HH:mm)');
+    if (stay.nightlyPrice !== undefined) check(isNumber(stay.nightlyPrice) && stay.nightlyPrice >= 0, `${path}.nightlyPrice`, 'must be a non-negative number');
+    validateCurrency(stay.currency, `${path}.currency`, reporter);
+    if (stay.booking !== undefined) validateAttachment(stay.booking, `${path}.booking`, reporter);
+};
+
+const validateDay = (day, path, reporter, seen) => {
+    const { check } = reporter;
+    if (!check(isObject(day), path, 'must be an object')) return;
+
+    if (check(isNonEmptyString(day.id), `${path}.id`, 'is required')) {
+        check(!seen.days.has(day.id), `${path}.id`, `duplicates another day (${day.id})`);
+        seen.days.add(day.id);
+    }
+    check(typeof day.date === 'string' && DATE_PATTERN.test(day.date), `${path}.date`, 'must be a date (YYYY-MM-DD)');
+    check(typeof day.city === 'string', `${path}.city`, 'must be text');
+    if (day.startTime !== undefined) check(TIME_PATTERN.test(day.startTime), `${path}.startTime`, 'must be a time (HH:mm)');
+    if (day.notes !== undefined) check(typeof day.notes === 'string', `${path}.notes`, 'must be text');
+
+    if (check(Array.isArray(day.activities), `${path}.activities`, 'must be a list')) {
+        day.activities.forEach((activity, i) => validateActivity(activity, `${path}.activities[${i}]`, reporter, seen.activities));
+    }
+    if (day.travelSegments !== undefined && check(Array.isArray(day.travelSegments), `${path}.travelSegments`, 'must be a list')) {
+        day.travelSegments.forEach((segment, i) => validateTravelSegment(segment, `${path}.travelSegments[${i}]`, reporter));
+    }
+    if (day.transfers !== undefined && check(Array.isArray(day.transfers), `${path}.transfers`, 'must be a list')) {
+        day.transfers.forEach((transfer, i) => validateTransfer(transfer, `${path}.transfers[${i}]`, reporter));
+    }
+    if (day.attachments !== undefined && check(Array.isArray(day.attachments), `${path}.attachments`, 'must be a list')) {
+        day.attachments.forEach((attachment, i) => validateAttachment(attachment, `${path}.attachments[${i}]`, reporter));
+    }
+    if (day.expenses !== undefined && check(Array.isArray(day.expenses), `${path}.expenses`, 'must be a list')) {
+        day.expenses.forEach((expense, i) => validateExpense(expense, `${path}.expenses[${i}]`, reporter));
+    }
+};
+
+/**
+ * Checks a (migrated) trip against the current schema.
+ * @param {unknown} trip
+ * @returns {TripValidationIssue[]} Empty when the trip is valid
+ */
+export const validateTrip = (trip) => {
+    const reporter = createReporter();
+    const { check } = reporter;
+    if (!check(isObject(trip), '', 'trip must be an object')) return reporter.issues;
+
+    if (trip.schemaVersion !== undefined) {
+        check(Number.isInteger(trip.schemaVersion) && trip.schemaVersion <= SCHEMA_VERSION, 'schemaVersion',
+            `must be ${SCHEMA_VERSION} or lower (this version of the app can't read newer trips)`);
+    }
+    check(typeof trip.title === 'string', 'title', 'must be text');
+    if (trip.revision !== undefined) check(Number.isInteger(trip.revision) && trip.revision >= 0, 'revision', 'must be a whole number');
+    if (trip.settings !== undefined && check(isObject(trip.settings), 'settings', 'must be an object')) {
+        if (trip.settings.farePayment !== undefined) {
+            check(FARE_PAYMENT_METHODS.includes(trip.settings.farePayment), 'settings.farePayment', `must be one of ${FARE_PAYMENT_METHODS.join(', ')}`);
+        }
+        validateCurrency(trip.settings.homeCurrency, 'settings.homeCurrency', reporter);
+        if (trip.settings.exchangeRates !== undefined) validateExchangeRates(trip.settings.exchangeRates, 'settings.exchangeRates', reporter);
+        if (trip.settings.budget !== undefined) validateBudget(trip.settings.budget, 'settings.budget', reporter);
+    }
+
+    if (check(Array.isArray(trip.days), 'days', 'must be a list')) {
+        const seen = { days: new Set(), activities: new Set() };
+        trip.days.forEach((day, i) => validateDay(day, `days[${i}]`, reporter, seen));
+    }
+    if (trip.accommodations !== undefined && check(Array.isArray(trip.accommodations), 'accommodations', 'must be a list')) {
+        const seenStays = new Set();
+        trip.accommodations.forEach((stay, i) => validateAccommodation(stay, `accommodations[${i}]`, reporter, seenStays));
+    }
+    if (trip.travellers !== undefined && check(Array.isArray(trip.travellers), 'travellers', 'must be a list')) {
+        const seenTravellers = new Set();
+        trip.travellers.forEach((traveller, i) => validateTraveller(traveller, `travellers[${i}]`, reporter, seenTravellers));
+    }
+    return reporter.issues;
+};
+
+/**
+ * One-line summary for logs and error messages.
+ * @param {TripValidationIssue[]} issues
+ * @returns {string}
+ */
+export const describeIssues = (issues, max = 3) => {
+    const shown = issues.slice(0, max).map(issue => issue.path ? `${issue.path} ${issue.message}` : issue.message);
+    if (issues.length > max) shown.push(`and ${issues.length - max} more`);
+    return shown.join('; ');
+};
+
+// Thrown when a trip fails validation, on either side of the wire
+export class TripValidationError extends Error {
+    /** @param {TripValidationIssue[]} issues */
+    constructor(issues) {
+        super(`Invalid trip: ${describeIssues(issues)}`);
+        this.name = 'TripValidationError';
+        this.issues = issues;
+    }
+}
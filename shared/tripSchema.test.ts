@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { Expense, Trip } from '../types';
+import { SCHEMA_VERSION, TripValidationError, migrateTrip, validateTrip } from './tripSchema';
+
+const expense = (paidBy?: string): Expense => ({ id: `expense-${paidBy}`, amount: 1200, category: 'food', paidAt: '2025-04-01T12:00:00', ...(paidBy ? { paidBy } : {}) });
+
+// Stored documents from older versions don't fit today's Trip type
+const stored = (doc: object) => doc as Trip;
+
+const v1Trip = stored({
+  title: 'Before versioning',
+  days: [
+    {
+      id: 'd1',
+      date: '2024-10-01',
+      city: 'Tokyo',
+      accommodation: { name: 'Hotel Gracery', location: { lat: 35.69, lng: 139.70 } },
+      activities: [{ id: 'a1', name: 'Senso-ji', startTime: '10:00', endTime: '11:00', location: { lat: 35.71, lng: 139.79 }, type: 'sightseeing', costEstimate: 500 }]
+    },
+    { id: 'd2', date: '2024-10-02', city: 'Tokyo', accommodation: { name: 'Hotel Gracery' }, activities: [] },
+    { id: 'd3', date: '2024-10-03', city: 'Kyoto', accommodation: { name: 'Ryokan Sakura' }, activities: [] }
+  ]
+});
+
+const v2Trip = stored({
+  schemaVersion: 2,
+  title: 'Per-day hotels',
+  days: [
+    { id: 'd1', date: '2024-10-01', city: 'Osaka', accommodation: { name: 'Cross Hotel' }, activities: [] },
+    { id: 'd2', date: '2024-10-02', city: 'Osaka', activities: [] }
+  ]
+});
+
+const v3Trip = stored({
+  schemaVersion: 3,
+  title: 'Named payers',
+  days: [{ id: 'd1', date: '2024-10-01', city: 'Tokyo', activities: [], expenses: [expense('Ann')] }]
+});
+
+
+describe('migrateTrip v3 -> v4', () => {
+  it('turns payer names into travellers', () => {
+    const trip = migrateTrip({ schemaVersion: 3, title: 'T', days: [{ id: 'd1', date: '2025-04-01', city: 'Tokyo', activities: [], expenses: [expense('Ann'), expense('Ben'), expense('Ann')] }] });
+    expect(trip.travellers).toEqual([{ id: 'traveller-1', name: 'Ann' }, { id: 'traveller-2', name: 'Ben' }]);
+    expect(trip.days[0].expenses.map(e => e.paidBy)).toEqual(['traveller-1', 'traveller-2', 'traveller-1']);
+  });
+
+  it('leaves payers that already are traveller ids alone', () => {
+    const trip = migrateTrip({
+      title: 'T',
+      travellers: [{ id: 'traveller-1', name: 'Ann' }],
+      days: [{ id: 'd1', date: '2025-04-01', city: 'Tokyo', activities: [], expenses: [expense('traveller-1'), expense('Ben'), expense()] }]
+    });
+    expect(trip.travellers).toEqual([{ id: 'traveller-1', name: 'Ann' }, { id: 'traveller-2', name: 'Ben' }]);
+    expect(trip.days[0].expenses.map(e => e.paidBy)).toEqual(['traveller-1', 'traveller-2', undefined]);
+  });
+});
+
+describe('migrateTrip', () => {
+  it('upgrades a v1 trip all the way', () => {
+    const trip = migrateTrip(v1Trip);
+    expect(trip.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(trip.days[0].activities[0]).toMatchObject({ description: '', pricing: { basePrice: 500 } });
+    expect(trip.days[0].activities[0]).not.toHaveProperty('costEstimate');
+    expect(trip.accommodations).toEqual([
+      { id: 'stay-d1', name: 'Hotel Gracery', location: { lat: 35.69, lng: 139.70 }, checkInDate: '2024-10-01', checkOutDate: '2024-10-03' },
+      { id: 'stay-d3', name: 'Ryokan Sakura', checkInDate: '2024-10-03', checkOutDate: '2024-10-04' }
+    ]);
+    trip.days.forEach(day => expect(day).not.toHaveProperty('accommodation'));
+    expect(validateTrip(trip)).toEqual([]);
+  });
+
+  it('upgrades a v2 trip', () => {
+    const trip = migrateTrip(v2Trip);
+    expect(trip.accommodations).toEqual([{ id: 'stay-d1', name: 'Cross Hotel', checkInDate: '2024-10-01', checkOutDate: '2024-10-02' }]);
+    expect(validateTrip(trip)).toEqual([]);
+  });
+
+  it('upgrades a v3 trip', () => {
+    const trip = migrateTrip(v3Trip);
+    expect(trip.travellers).toEqual([{ id: 'traveller-1', name: 'Ann' }]);
+    expect(validateTrip(trip)).toEqual([]);
+  });
+
+  it('returns current trips as they are', () => {
+    const current = migrateTrip(v3Trip);
+    expect(migrateTrip(current)).toBe(current);
+  });
+
+  it('never changes the stored document', () => {
+    const copy = structuredClone(v1Trip);
+    migrateTrip(v1Trip);
+    expect(v1Trip).toEqual(copy);
+  });
+
+  it('leaves trips from a newer version for validation to reject', () => {
+    const future = stored({ schemaVersion: SCHEMA_VERSION + 1, title: 'From the future', days: [] });
+    expect(migrateTrip(future)).toBe(future);
+    expect(validateTrip(future).map(issue => issue.path)).toEqual(['schemaVersion']);
+  });
+});
+
+describe('validateTrip', () => {
+  it('reports where a trip is wrong', () => {
+    const issues = validateTrip(stored({
+      title: 42,
+      days: [{ id: 'd1', date: 'tomorrow', city: 'Tokyo', activities: [{ id: 'a1', name: 'Tower', type: 'climbing' }] }]
+    }));
+    const paths = issues.map(issue => issue.path);
+    expect(paths).toContain('title');
+    expect(paths).toContain('days[0].date');
+    expect(paths).toContain('days[0].activities[0].type');
+  });
+
+  it('rejects anything that is not a trip', () => {
+    expect(validateTrip(stored([]))).toEqual([{ path: '', message: 'trip must be an object' }]);
+  });
+});
+
+describe('TripValidationError', () => {
+  it('summarises the first issues and keeps them all', () => {
+    const issues = [1, 2, 3, 4, 5].map(i => ({ path: `days[${i}].city`, message: 'must be text' }));
+    const error = new TripValidationError(issues);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('TripValidationError');
+    expect(error.issues).toBe(issues);
+    expect(error.message).toBe('Invalid trip: days[1].city must be text; days[2].city must be text; days[3].city must be text; and 2 more');
+  });
+});
@@ -6,19 +6,41 @@ export interface Coordinates {
 // Pricing types for expense tracking
 export interface PriceEntry {
   label: string;           // e.g. "Adult", "Child", "Senior", "Student"
-  amount: number;          // In Yen
-  currency?: string;       // Default: JPY
+  amount: number;          // In `currency`
+  currency?: string;       // ISO 4217 code; default: JPY
 }
 
 export interface ActivityPricing {
   isFree?: boolean;
-  basePrice?: number;      // Primary admission price in Yen
+  basePrice?: number;      // Primary admission price, in `currency`
+  currency?: string;       // ISO 4217 code; default: JPY
   priceEntries?: PriceEntry[];  // Different price tiers
   priceLink?: string;      // Official pricing page URL
   priceNotes?: string;     // AI-generated tips (e.g. "Free on first Sunday")
   lastUpdated?: string;    // ISO date when price was fetched
 }
 
+// Opening hours, as fetched from Google Places or entered by hand
+export interface OpeningPeriod {
+  day: number;   // 0 = Sunday … 6 = Saturday
+  open: string;  // HH:mm
+  close: string; // HH:mm; earlier than `open` means it closes after midnight
+}
+
+export interface OpeningException {
+  date: string;                              // YYYY-MM-DD
+  hours: { open: string; close: string }[];  // Empty = closed all day (holiday)
+  note?: string;
+}
+
+export interface OpeningHours {
+  periods: OpeningPeriod[];        // Regular weekly hours
+  alwaysOpen?: boolean;
+  exceptions?: OpeningException[]; // Holidays and special days override `periods`
+  weekdayText?: string[];          // Google's display strings, e.g. "Monday: Closed"
+  fetchedAt?: string;              // ISO timestamp
+}
+
 export interface Activity {
   id: string;
   name: string;
@@ -27,8 +49,7 @@ export interface Activity {
   endTime: string;   // HH:mm
   location: Coordinates;
   type: 'sightseeing' | 'food' | 'travel' | 'shopping' | 'leisure';
-  costEstimate?: number; // Legacy - In Yen
-  pricing?: ActivityPricing; // New detailed pricing
+  pricing?: ActivityPricing;
   imageUrl?: string;
   link?: string;
   subActivities?: string[];
@@ -37,19 +58,70 @@ export interface Activity {
   googlePlaceId?: string; // Official Google Maps Place ID
   lockedStartTime?: boolean; // If true, this activity's start time is an anchor
   lockedDurationMinutes?: number; // If set, lock the duration to this many minutes
+  openingHours?: OpeningHours;
+}
+
+// One ride or walk inside a public transport route, in order
+export interface TransitLeg {
+  mode: 'WALKING' | 'TRAIN' | 'BUS' | 'OTHER';
+  lineName?: string;      // e.g. "JR Yamanote Line"; absent for walks
+  lineColor?: string;     // CSS colour of the line, when the operator has one
+  direction?: string;     // Terminus the train or bus is heading for
+  fromName?: string;      // Station or stop; absent for the route's start
+  toName?: string;        // Absent for the route's end
+  departureTime?: string; // HH:mm, local time
+  arrivalTime?: string;   // HH:mm, local time
+  durationMinutes: number;
+  distanceMeters?: number;
+  fare?: number;          // Yen, for this ride with a paper ticket
+  icFare?: number;        // Yen, with an IC card (Suica, ICOCA…)
+  operator?: string;      // e.g. "JR East", "Tokyo Metro"
+  platform?: string;      // Only returned for some lines
 }
 
 export interface TravelSegment {
-  fromId: string;
-  toId: string;
+  fromId: string; // Activity id, 'start' (the morning's hotel) or a transfer id (its arrival station)
+  toId: string;   // Activity id, or 'end' (tonight's hotel)
   mode: 'WALKING' | 'TRANSIT' | 'DRIVING' | 'TRAIN' | 'BUS';
   duration: string; // formatted string e.g. "15 mins"
   durationValue: number; // seconds
   distance?: string;
-  transitFare?: number;
+  transitFare?: number; // Paper ticket fare, Yen
+  icFare?: number;      // IC card fare, Yen; usually a little cheaper
   alternativeMode?: 'WALKING' | 'TRANSIT' | 'DRIVING' | 'TRAIN' | 'BUS';
   alternativeDuration?: string;
   alternativeLabel?: string;
+  legs?: TransitLeg[]; // Step-by-step itinerary for transit segments
+  departsAt?: string;  // When the transit route leaves, local YYYY-MM-DDTHH:mm
+  arrivesAt?: string;  // When it gets in
+  serviceWarning?: string; // Why it may not run as planned, e.g. after the last train
+}
+
+export type TransferMode = 'TRAIN' | 'FLIGHT' | 'BUS' | 'FERRY';
+
+export interface TransferStop {
+  name: string; // Station or airport, e.g. "Tokyo Station"
+  location?: Coordinates;
+}
+
+// A booked inter-city journey (Shinkansen, flight, highway bus...). Fixed in time,
+// so the day's schedule is planned around it.
+export interface InterCityTransfer {
+  id: string;
+  mode: TransferMode;
+  carrier?: string;       // Operator and service, e.g. "JR Tokaido Shinkansen Hikari 639"
+  from: TransferStop;
+  to: TransferStop;
+  departureTime: string;  // HH:mm
+  arrivalTime: string;    // HH:mm; earlier than departure means it arrives the next day
+  reservation?: {
+    car?: string;
+    seat?: string;
+    confirmation?: string;
+  };
+  cost?: number;          // Per person, in `currency`
+  currency?: string;      // ISO 4217 code; default: JPY
+  notes?: string;
 }
 
 export interface PdfAttachment {
@@ -57,7 +129,23 @@ export interface PdfAttachment {
   fileName: string; // Original uploaded filename
   displayName: string; // User-customized display name
   uploadedAt: string; // ISO timestamp
-  filePath: string; // Server path or URL to the PDF
+  filePath: string; // Server path or URL to the PDF (or receipt image)
+}
+
+// A hotel (or other stay) booked for one or more consecutive nights
+export interface Accommodation {
+  id: string;
+  name: string;
+  address?: string;
+  location?: Coordinates;
+  checkInDate: string;     // YYYY-MM-DD, the first night
+  checkOutDate: string;    // YYYY-MM-DD, the morning you leave
+  checkInTime?: string;    // HH:mm
+  checkOutTime?: string;   // HH:mm
+  confirmation?: string;   // Booking reference
+  nightlyPrice?: number;   // Per night for the whole booking, in `currency`
+  currency?: string;       // ISO 4217 code; default: JPY
+  booking?: PdfAttachment; // Confirmation PDF
 }
 
 export interface DayPlan {
@@ -65,19 +153,166 @@ export interface DayPlan {
   date: string; // YYYY-MM-DD
   city: string; // Main city for the day
   startTime?: string; // HH:mm - Time user leaves hotel
-  accommodation?: {
-    name: string;
-    location?: Coordinates;
-  };
   activities: Activity[];
   travelSegments?: TravelSegment[];
+  transfers?: InterCityTransfer[]; // Trains/flights to another city, by departure time
   notes?: string;
   attachments?: PdfAttachment[]; // PDF uploads for this day
+  expenses?: Expense[]; // What was actually spent, by time paid
+}
+
+// Spending categories; activity types map onto these (see services/expenses.ts)
+export type ExpenseCategory = 'sightseeing' | 'food' | 'shopping' | 'leisure' | 'transit' | 'lodging' | 'other';
+
+// Money actually spent on the day, logged while travelling
+export interface Expense {
+  id: string;
+  amount: number;      // In `currency`
+  currency?: string;   // ISO 4217 code; default: JPY
+  category: ExpenseCategory;
+  description?: string;
+  paidBy?: string;     // Traveller id of whoever paid
+  split?: ExpenseSplit; // Default: equally between every traveller
+  activityId?: string; // The activity it was spent at; absent for free-standing expenses
+  paidAt: string;      // ISO timestamp
+  receipt?: PdfAttachment; // Photo or PDF of the receipt
 }
 
+// How an expense is shared out (see services/expenseSplit.ts). 'tiers' weights each traveller
+// by the linked activity's price for their tier, e.g. a child ticket costs less than an adult one.
+export type SplitMode = 'equal' | 'shares' | 'exact' | 'tiers';
+
+export interface ExpenseSplit {
+  mode: SplitMode;
+  travellerIds: string[];           // Who it's split between
+  shares?: Record<string, number>;  // 'shares': traveller id -> weight; default 1
+  amounts?: Record<string, number>; // 'exact': traveller id -> their part, in the expense's currency
+}
+
+// Someone on the trip; expenses are paid by and split between travellers
+export interface Traveller {
+  id: string;
+  name: string;
+  priceTier?: string; // PriceEntry label they pay, e.g. "Adult", "Child", "Student"; default: by age
+  age?: number;       // Picks their price tier when none is set (see services/partyPricing.ts)
+}
+
+// Spending limits in yen; either part may be left out
+export interface TripBudget {
+  daily?: number;
+  byCategory?: Partial<Record<ExpenseCategory, number>>; // For the whole trip
+}
+
+export type TripRole = 'owner' | 'editor' | 'viewer';
+
 export interface Trip {
+  id?: string;        // Assigned by the server when the trip is created
   title: string;
   days: DayPlan[];
+  revision?: number;  // Incremented by the server on every save (optimistic concurrency)
+  updatedAt?: string; // ISO timestamp of the last server save
+  members?: Record<string, TripRole>; // User id -> role; managed by the server only
+  schemaVersion?: number; // See shared/tripSchema.js; older documents are migrated on load
+  settings?: TripSettings;
+  accommodations?: Accommodation[]; // Sorted by check-in date
+  travellers?: Traveller[];
+}
+
+// How transit is paid for; picks which NAVITIME fare the totals use
+export type FarePaymentMethod = 'ic' | 'ticket';
+
+export interface TripSettings {
+  farePayment?: FarePaymentMethod; // Default: ticket
+  homeCurrency?: string;           // Totals are also shown in this; default: JPY only
+  exchangeRates?: ExchangeRates;
+  budget?: TripBudget;
+}
+
+// Conversion table for prices not in yen (see services/currency.ts)
+export interface ExchangeRates {
+  yenPer: Record<string, number>; // Yen for one unit of each currency, e.g. { USD: 150.2 }
+  source: 'manual' | 'file' | 'stand-in';
+  updatedAt: string; // When they were entered or loaded; the stand-in table's as-of date
+}
+
+// One problem found by validateTrip (shared/tripSchema.js)
+export interface TripValidationIssue {
+  path: string;    // e.g. "days[0].activities[2].startTime"
+  message: string; // e.g. "must be a time (HH:mm)"
+}
+
+export interface User {
+  id: string;
+  username: string;
+  displayName: string;
+  admin: boolean; // Admins act as owner on every trip
+}
+
+export interface TripMember extends User {
+  role: TripRole;
+}
+
+export interface TripAccess {
+  authEnabled: boolean;
+  role: TripRole;
+  members: TripMember[];
+}
+
+// Read-only public link to a trip (see /api/trips/:id/shares)
+export interface ShareLink {
+  token: string;
+  tripId: string;
+  showAttachments: boolean; // Whether day PDFs are visible through the link
+  createdBy?: string;
+  createdAt: string;
+}
+
+// Fine-grained edits exchanged over the socket (see shared/tripOperations.js)
+export type DayChanges = { [K in keyof Omit<DayPlan, 'id' | 'activities'>]?: DayPlan[K] | null }; // null removes the field
+
+export type TripOperation =
+  | { type: 'add-activity'; dayId: string; activity: Activity; index: number }
+  | { type: 'update-activity'; dayId: string; activity: Activity }
+  | { type: 'delete-activity'; dayId: string; activityId: string }
+  | { type: 'move-activity'; fromDayId: string; toDayId: string; activityId: string; index: number }
+  | { type: 'update-day'; dayId: string; changes: DayChanges }
+  | { type: 'add-day'; day: DayPlan; index: number }
+  | { type: 'delete-day'; dayId: string }
+  | { type: 'reorder-days'; dayIds: string[] }
+  | { type: 'update-trip'; changes: { title?: string; settings?: TripSettings } }
+  | { type: 'put-accommodation'; accommodation: Accommodation } // Adds or replaces by id
+  | { type: 'delete-accommodation'; accommodationId: string }
+  | { type: 'put-traveller'; traveller: Traveller } // Adds at the end or replaces by id
+  | { type: 'delete-traveller'; travellerId: string };
+
+// Entry returned by GET /api/trips/:id/history
+export interface RevisionSummary {
+  revision: number;
+  updatedAt: string;
+  title: string;
+  dayCount: number;
+  activityCount: number;
+}
+
+// What each client in a trip room shares about itself over the socket
+export interface PresenceState {
+  name: string;
+  selectedDayId: string | null;
+  editingActivityId: string | null;
+}
+
+export interface Collaborator extends PresenceState {
+  socketId: string;
+}
+
+// Lightweight entry returned by GET /api/trips for the trip picker
+export interface TripSummary {
+  id: string;
+  title: string;
+  startDate?: string; // YYYY-MM-DD of the first day
+  dayCount: number;
+  updatedAt?: string;
+  role?: TripRole; // The current user's role on this trip
 }
 
 export enum ViewMode {
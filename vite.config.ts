@@ -1,7 +1,38 @@
 import path from 'path';
-import { defineConfig } from 'vite';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const PUBLIC_FILES = ['/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// Writes every built file and a hash of the build into public/sw.js so it can precache the
+// app shell on install. A deploy that changes anything also changes sw.js, which is what
+// makes browsers install the new worker instead of serving the old shell forever.
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const outputs = Object.values(bundle).filter(file => !file.fileName.endsWith('.map'));
+    const hash = createHash('sha256');
+    outputs.forEach(file => hash.update(file.fileName).update(file.type === 'chunk' ? file.code : file.source));
+    PUBLIC_FILES
+      .filter(file => !(file.slice(1) in bundle))
+      .forEach(file => hash.update(file).update(readFileSync(path.resolve(__dirname, 'public', file.slice(1)))));
+
+    const files = [...new Set([...PUBLIC_FILES, ...outputs.map(file => `/${file.fileName}`)])];
+    const source = readFileSync(path.resolve(__dirname, 'public/sw.js'), 'utf-8');
+    if (!/^const VERSION = /m.test(source) || !/^const PRECACHE_FILES = /m.test(source)) {
+      this.error('public/sw.js must declare VERSION and PRECACHE_FILES on lines of their own');
+    }
+    const worker = source
+      .replace(/^const VERSION = .*$/m, `const VERSION = '${hash.digest('hex').slice(0, 12)}';`)
+      .replace(/^const PRECACHE_FILES = .*$/m, `const PRECACHE_FILES = ${JSON.stringify(files)};`);
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source: worker });
+  }
+});
+
 export default defineConfig({
   server: {
     proxy: {
@@ -11,7 +42,7 @@ export default defineConfig({
       }
     }
   },
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, '.'),